@@ -19,7 +19,13 @@ import "./LoyaltyConsumerStorage.sol";
 
 import "../lib/DMS.sol";
 
-contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgradeable, UUPSUpgradeable {
+contract LoyaltyConsumer is
+    LoyaltyConsumerStorage,
+    Initializable,
+    OwnableUpgradeable,
+    UUPSUpgradeable,
+    LoyaltyConsumerStorageV2
+{
     struct LoyaltyPaymentInputData {
         bytes32 paymentId;
         string purchaseId;
@@ -33,6 +39,10 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
 
     /// @notice 토큰/포인트로 지불을 완료했을 때 발생하는 이벤트
     event LoyaltyPaymentEvent(LoyaltyPaymentData payment, uint256 balance);
+    /// @notice 로얄티(포인트/토큰)을 사용한 구매의 취소를 시작하거나 종료했을 때 발생하는 이벤트
+    event LoyaltyCancelEvent(LoyaltyPaymentData payment, LoyaltyCancelData cancel, uint256 balance);
+    /// @notice 포인트와 토큰을 함께 사용한 지불을 시작했을 때 발생하는 이벤트
+    event LoyaltyMixedPaymentEvent(bytes32 paymentId, uint256 usedPoint, uint256 usedToken, uint256 tokenBalance);
 
     function initialize(address _currencyRateAddress) external initializer {
         __UUPSUpgradeable_init();
@@ -70,39 +80,71 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
     /// @notice 로얄티(포인트/토큰)을 사용하여 구매요청을 시작하는 함수
     /// @dev 중계서버를 통해서 호출됩니다.
     function openNewLoyaltyPayment(LoyaltyPaymentInputData calldata data) external {
+        _verifyNewLoyaltyPayment(data, false);
+        _openNewLoyaltyPayment(data, false);
+    }
+
+    /// @notice 포인트를 먼저 사용하고 부족한 포인트는 토큰으로 지불하는 구매요청을 시작하는 함수
+    /// @dev 중계서버를 통해서 호출됩니다. 사용자는 토큰의 사용에 동의하는 서명을 하여야 합니다.
+    function openNewLoyaltyPaymentMixed(LoyaltyPaymentInputData calldata data) external {
+        _verifyNewLoyaltyPayment(data, true);
+        _openNewLoyaltyPayment(data, true);
+    }
+
+    /// @notice 구매요청의 서명을 검증하고 사용자의 논스를 증가시킨다.
+    /// @dev 토큰을 함께 사용하는 구매요청은 사용자의 주소 다음에 true 를 추가하여 서명한다.
+    function _verifyNewLoyaltyPayment(LoyaltyPaymentInputData calldata data, bool _useToken) internal {
         require(loyaltyPayments[data.paymentId].status == LoyaltyPaymentStatus.INVALID, "1530");
 
-        bytes32 dataHash = keccak256(
-            abi.encode(
-                data.paymentId,
-                data.purchaseId,
-                data.amount,
-                data.currency,
-                data.shopId,
-                data.account,
-                block.chainid,
-                ledgerContract.nonceOf(data.account)
+        bytes32 dataHash = _useToken
+            ? keccak256(
+                abi.encode(
+                    data.paymentId,
+                    data.purchaseId,
+                    data.amount,
+                    data.currency,
+                    data.shopId,
+                    data.account,
+                    true,
+                    block.chainid,
+                    ledgerContract.nonceOf(data.account)
+                )
             )
-        );
+            : keccak256(
+                abi.encode(
+                    data.paymentId,
+                    data.purchaseId,
+                    data.amount,
+                    data.currency,
+                    data.shopId,
+                    data.account,
+                    block.chainid,
+                    ledgerContract.nonceOf(data.account)
+                )
+            );
         require(ECDSA.recover(ECDSA.toEthSignedMessageHash(dataHash), data.signature) == data.account, "1501");
 
         ledgerContract.increaseNonce(data.account);
-
-        _openNewLoyaltyPaymentPoint(data);
     }
 
     /// @notice 포인트를 사용한 구매요청을 시작하는 함수
-    function _openNewLoyaltyPaymentPoint(LoyaltyPaymentInputData memory data) internal {
+    /// @dev 토큰을 함께 사용하면 포인트를 먼저 사용하고 부족한 포인트는 현재의 환률로 계산된 토큰으로 지불한다.
+    /// 취소하면 토큰으로 지불된 부분을 포함하여 모두 포인트로 환불된다.
+    function _openNewLoyaltyPayment(LoyaltyPaymentInputData memory data, bool _useToken) internal {
         uint256 paidPoint = currencyRateContract.convertCurrencyToPoint(data.amount, data.currency);
         uint256 paidToken = currencyRateContract.convertPointToToken(paidPoint);
         uint256 feeValue = DMS.zeroGWEI((data.amount * ledgerContract.getPaymentFee()) / 10000);
         uint256 feePoint = currencyRateContract.convertCurrencyToPoint(feeValue, data.currency);
         uint256 feeToken = currencyRateContract.convertPointToToken(feePoint);
 
-        require(ledgerContract.pointBalanceOf(data.account) >= (paidPoint + feePoint), "1511");
+        if (_useToken) {
+            loyaltyMixedPayments[data.paymentId] = _depositPointAndToken(data.account, paidPoint + feePoint);
+        } else {
+            require(ledgerContract.pointBalanceOf(data.account) >= (paidPoint + feePoint), "1511");
 
-        ledgerContract.subPointBalance(data.account, paidPoint + feePoint);
-        ledgerContract.addPointBalance(temporaryAddress, paidPoint + feePoint);
+            ledgerContract.subPointBalance(data.account, paidPoint + feePoint);
+            ledgerContract.addPointBalance(temporaryAddress, paidPoint + feePoint);
+        }
 
         loyaltyPayments[data.paymentId] = LoyaltyPaymentData({
             paymentId: data.paymentId,
@@ -122,19 +164,52 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
             status: LoyaltyPaymentStatus.OPENED_PAYMENT
         });
 
+        if (_useToken) {
+            emit LoyaltyMixedPaymentEvent(
+                data.paymentId,
+                loyaltyMixedPayments[data.paymentId].usedPoint,
+                loyaltyMixedPayments[data.paymentId].usedToken,
+                ledgerContract.tokenBalanceOf(data.account)
+            );
+        }
         emit LoyaltyPaymentEvent(loyaltyPayments[data.paymentId], ledgerContract.pointBalanceOf(data.account));
     }
 
+    /// @notice 포인트를 먼저 임시계정에 예치하고 부족한 포인트는 토큰으로 예치한다.
+    function _depositPointAndToken(
+        address _account,
+        uint256 _totalPoint
+    ) internal returns (LoyaltyMixedPaymentData memory) {
+        uint256 pointBalance = ledgerContract.pointBalanceOf(_account);
+        uint256 usedPoint = (pointBalance >= _totalPoint) ? _totalPoint : pointBalance;
+        uint256 usedToken = (usedPoint < _totalPoint)
+            ? currencyRateContract.convertPointToToken(_totalPoint - usedPoint)
+            : 0;
+
+        require(ledgerContract.tokenBalanceOf(_account) >= usedToken, "1511");
+
+        ledgerContract.subPointBalance(_account, usedPoint);
+        ledgerContract.addPointBalance(temporaryAddress, usedPoint);
+        ledgerContract.transferToken(_account, temporaryAddress, usedToken);
+        return LoyaltyMixedPaymentData({ usedPoint: usedPoint, usedToken: usedToken });
+    }
+
     /// @notice 로얄티(포인트/토큰)을 사용하여 구매요청을 종료 함수
     /// @dev 중계서버를 통해서 호출됩니다.
     function closeNewLoyaltyPayment(bytes32 _paymentId, bytes32 _secret, bool _confirm) external {
         require(loyaltyPayments[_paymentId].status == LoyaltyPaymentStatus.OPENED_PAYMENT, "1531");
         require(loyaltyPayments[_paymentId].secretLock == keccak256(abi.encode(_secret)), "1505");
 
-        uint256 totalPoint = loyaltyPayments[_paymentId].paidPoint + loyaltyPayments[_paymentId].feePoint;
+        // 토큰을 함께 사용한 지불은 실제로 사용된 포인트만 임시저장되어 있다.
+        LoyaltyMixedPaymentData memory mixed = loyaltyMixedPayments[_paymentId];
+        uint256 totalPoint = (mixed.usedToken > 0)
+            ? mixed.usedPoint
+            : loyaltyPayments[_paymentId].paidPoint + loyaltyPayments[_paymentId].feePoint;
         if (_confirm) {
             // 임시저장 포인트를 소각한다.
             ledgerContract.subPointBalance(temporaryAddress, totalPoint);
+            // 임시저장 토큰은 포인트를 대신하여 시스템 계정에 지급한다.
+            ledgerContract.transferToken(temporaryAddress, systemAccount, mixed.usedToken);
 
             // 시스템의 토큰으로 교환해 수수료계좌에 지급한다.
             if (ledgerContract.tokenBalanceOf(systemAccount) >= loyaltyPayments[_paymentId].feeToken) {
@@ -164,6 +239,8 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
             ledgerContract.subPointBalance(temporaryAddress, totalPoint);
             // 사용자에게 포인트를 반환한다
             ledgerContract.addPointBalance(loyaltyPayments[_paymentId].account, totalPoint);
+            // 사용자에게 토큰을 반환한다
+            ledgerContract.transferToken(temporaryAddress, loyaltyPayments[_paymentId].account, mixed.usedToken);
             loyaltyPayments[_paymentId].status = LoyaltyPaymentStatus.FAILED_PAYMENT;
         }
         emit LoyaltyPaymentEvent(
@@ -173,11 +250,11 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
     }
 
     /// @notice 로얄티(포인트/토큰)을 사용한 구매에 대하여 취소를 시작하는 함수
-    /// @dev 상점주가 중계서버를 통해서 호출됩니다.
+    /// @dev 상점주가 중계서버를 통해서 호출됩니다. 취소되지 않은 잔여 금액 전체를 취소합니다.
     function openCancelLoyaltyPayment(bytes32 _paymentId, bytes32 _secretLock, bytes calldata _signature) external {
         require(
-            (loyaltyPayments[_paymentId].status != LoyaltyPaymentStatus.CLOSED_PAYMENT) ||
-                (loyaltyPayments[_paymentId].status != LoyaltyPaymentStatus.FAILED_CANCEL),
+            (loyaltyPayments[_paymentId].status == LoyaltyPaymentStatus.CLOSED_PAYMENT) ||
+                (loyaltyPayments[_paymentId].status == LoyaltyPaymentStatus.FAILED_CANCEL),
             "1532"
         );
         require(block.timestamp <= loyaltyPayments[_paymentId].timestamp + 86400 * 7, "1534");
@@ -212,25 +289,112 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
 
         ledgerContract.increaseNonce(shopInfo.account);
 
-        if (
-            ledgerContract.tokenBalanceOf(ledgerContract.getPaymentFeeAccount()) >= loyaltyPayments[_paymentId].feeToken
-        ) {
-            ledgerContract.transferToken(
-                ledgerContract.getPaymentFeeAccount(),
-                temporaryAddress,
-                loyaltyPayments[_paymentId].feeToken
-            );
-            ledgerContract.addPointBalance(
-                temporaryAddress,
-                loyaltyPayments[_paymentId].paidPoint + loyaltyPayments[_paymentId].feePoint
+        _openCancelLoyaltyPayment(
+            _paymentId,
+            loyaltyPayments[_paymentId].paidValue - loyaltyCancelled[_paymentId].cancelValue,
+            _secretLock
+        );
+    }
+
+    /// @notice 로얄티(포인트/토큰)을 사용한 구매에 대하여 일부 금액의 취소를 시작하는 함수
+    /// @dev 상점주가 중계서버를 통해서 호출됩니다. 금액은 결제 통화 기준입니다.
+    function openPartialCancelLoyaltyPayment(
+        bytes32 _paymentId,
+        uint256 _amount,
+        bytes32 _secretLock,
+        bytes calldata _signature
+    ) external {
+        require(
+            (loyaltyPayments[_paymentId].status == LoyaltyPaymentStatus.CLOSED_PAYMENT) ||
+                (loyaltyPayments[_paymentId].status == LoyaltyPaymentStatus.FAILED_CANCEL),
+            "1532"
+        );
+        require(block.timestamp <= loyaltyPayments[_paymentId].timestamp + 86400 * 7, "1534");
+
+        IShop.ShopData memory shopInfo = shopContract.shopOf(loyaltyPayments[_paymentId].shopId);
+        bool pass1 = false;
+        bool pass2 = false;
+        bytes32 dataHash1 = keccak256(
+            abi.encode(
+                _paymentId,
+                loyaltyPayments[_paymentId].purchaseId,
+                _amount,
+                shopInfo.account,
+                block.chainid,
+                ledgerContract.nonceOf(shopInfo.account)
+            )
+        );
+        pass1 = ECDSA.recover(ECDSA.toEthSignedMessageHash(dataHash1), _signature) == shopInfo.account;
+
+        if (shopInfo.delegator != address(0x0)) {
+            bytes32 dataHash2 = keccak256(
+                abi.encode(
+                    _paymentId,
+                    loyaltyPayments[_paymentId].purchaseId,
+                    _amount,
+                    shopInfo.delegator,
+                    block.chainid,
+                    ledgerContract.nonceOf(shopInfo.delegator)
+                )
             );
+            pass2 = ECDSA.recover(ECDSA.toEthSignedMessageHash(dataHash2), _signature) == shopInfo.delegator;
+        }
+        require(pass1 || pass2, "1501");
+
+        ledgerContract.increaseNonce(shopInfo.account);
+
+        _openCancelLoyaltyPayment(_paymentId, _amount, _secretLock);
+    }
+
+    /// @notice 취소할 금액에 해당하는 포인트와 수수료를 계산하고 임시계정에 예치한다.
+    /// @dev 토큰을 함께 사용한 지불도 토큰으로 지불된 부분을 포함하여 모두 포인트로 환불한다.
+    /// 지불에 사용된 토큰은 지불이 종료될 때 시스템 계정에 지급되어 포인트로 교환된 것으로 처리되므로,
+    /// 지불할 때의 환률로 계산된 포인트를 환불하여 지불과 취소 사이의 토큰 가격의 변동이 환불에 영향을 주지 않게 한다.
+    function _openCancelLoyaltyPayment(bytes32 _paymentId, uint256 _amount, bytes32 _secretLock) internal {
+        LoyaltyPaymentData memory payment = loyaltyPayments[_paymentId];
+        LoyaltyCancelData memory cancelled = loyaltyCancelled[_paymentId];
+        uint256 remainValue = payment.paidValue - cancelled.cancelValue;
+        require((_amount > 0) && (_amount <= remainValue), "1535");
+
+        LoyaltyCancelData memory data;
+        if (_amount == remainValue) {
+            // 마지막 취소는 남은 금액을 모두 반환하여 나눗셈 오차를 없앤다.
+            data = LoyaltyCancelData({
+                cancelValue: remainValue,
+                cancelPoint: payment.paidPoint - cancelled.cancelPoint,
+                cancelToken: payment.paidToken - cancelled.cancelToken,
+                cancelFeeValue: payment.feeValue - cancelled.cancelFeeValue,
+                cancelFeePoint: payment.feePoint - cancelled.cancelFeePoint,
+                cancelFeeToken: payment.feeToken - cancelled.cancelFeeToken,
+                cancelValueShop: payment.usedValueShop - cancelled.cancelValueShop,
+                remainValue: remainValue,
+                status: LoyaltyCancelStatus.OPENED
+            });
+        } else {
+            data = LoyaltyCancelData({
+                cancelValue: _amount,
+                cancelPoint: DMS.zeroGWEI((payment.paidPoint * _amount) / payment.paidValue),
+                cancelToken: DMS.zeroGWEI((payment.paidToken * _amount) / payment.paidValue),
+                cancelFeeValue: DMS.zeroGWEI((payment.feeValue * _amount) / payment.paidValue),
+                cancelFeePoint: DMS.zeroGWEI((payment.feePoint * _amount) / payment.paidValue),
+                cancelFeeToken: DMS.zeroGWEI((payment.feeToken * _amount) / payment.paidValue),
+                cancelValueShop: (payment.usedValueShop * _amount) / payment.paidValue,
+                remainValue: remainValue,
+                status: LoyaltyCancelStatus.OPENED
+            });
+        }
 
+        if (ledgerContract.tokenBalanceOf(ledgerContract.getPaymentFeeAccount()) >= data.cancelFeeToken) {
+            ledgerContract.transferToken(ledgerContract.getPaymentFeeAccount(), temporaryAddress, data.cancelFeeToken);
+            ledgerContract.addPointBalance(temporaryAddress, data.cancelPoint + data.cancelFeePoint);
+
+            loyaltyCancels[_paymentId] = data;
             loyaltyPayments[_paymentId].secretLock = _secretLock;
             loyaltyPayments[_paymentId].status = LoyaltyPaymentStatus.OPENED_CANCEL;
-            emit LoyaltyPaymentEvent(
-                loyaltyPayments[_paymentId],
-                ledgerContract.pointBalanceOf(loyaltyPayments[_paymentId].account)
-            );
+
+            uint256 balance = ledgerContract.pointBalanceOf(payment.account);
+            emit LoyaltyCancelEvent(loyaltyPayments[_paymentId], data, balance);
+            emit LoyaltyPaymentEvent(loyaltyPayments[_paymentId], balance);
         } else {
             revert("1513");
         }
@@ -238,41 +402,56 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
 
     /// @notice 로얄티(포인트/토큰)을 사용한 구매에 대하여 취소를 종료하는 함수
     /// @dev 사용자가 중계서버를 통해서 호출됩니다.
+    /// 일부 금액의 취소가 종료되면 지불의 상태는 CLOSED_PAYMENT 로 돌아가며 남은 금액을 다시 취소할 수 있습니다.
     function closeCancelLoyaltyPayment(bytes32 _paymentId, bytes32 _secret, bool _confirm) external {
         require(loyaltyPayments[_paymentId].status == LoyaltyPaymentStatus.OPENED_CANCEL, "1533");
         require(loyaltyPayments[_paymentId].secretLock == keccak256(abi.encode(_secret)), "1505");
 
+        LoyaltyCancelData memory data = loyaltyCancels[_paymentId];
+        bool isPartial = data.cancelValue < data.remainValue;
         uint256 balance;
         if (_confirm) {
-            ledgerContract.transferToken(temporaryAddress, systemAccount, loyaltyPayments[_paymentId].feeToken);
-            ledgerContract.addPointBalance(
-                loyaltyPayments[_paymentId].account,
-                loyaltyPayments[_paymentId].paidPoint + loyaltyPayments[_paymentId].feePoint
-            );
+            ledgerContract.transferToken(temporaryAddress, systemAccount, data.cancelFeeToken);
+            ledgerContract.addPointBalance(loyaltyPayments[_paymentId].account, data.cancelPoint + data.cancelFeePoint);
 
             balance = ledgerContract.pointBalanceOf(loyaltyPayments[_paymentId].account);
             shopContract.subUsedAmount(
                 loyaltyPayments[_paymentId].shopId,
-                loyaltyPayments[_paymentId].usedValueShop,
+                data.cancelValueShop,
                 loyaltyPayments[_paymentId].purchaseId,
                 _paymentId
             );
-            loyaltyPayments[_paymentId].status = LoyaltyPaymentStatus.CLOSED_CANCEL;
-            emit LoyaltyPaymentEvent(loyaltyPayments[_paymentId], balance);
+
+            LoyaltyCancelData storage cancelled = loyaltyCancelled[_paymentId];
+            cancelled.cancelValue += data.cancelValue;
+            cancelled.cancelPoint += data.cancelPoint;
+            cancelled.cancelToken += data.cancelToken;
+            cancelled.cancelFeeValue += data.cancelFeeValue;
+            cancelled.cancelFeePoint += data.cancelFeePoint;
+            cancelled.cancelFeeToken += data.cancelFeeToken;
+            cancelled.cancelValueShop += data.cancelValueShop;
+            cancelled.remainValue = data.remainValue - data.cancelValue;
+            cancelled.status = LoyaltyCancelStatus.CLOSED;
+
+            data.status = LoyaltyCancelStatus.CLOSED;
+            loyaltyPayments[_paymentId].status = isPartial
+                ? LoyaltyPaymentStatus.CLOSED_PAYMENT
+                : LoyaltyPaymentStatus.CLOSED_CANCEL;
         } else {
-            ledgerContract.transferToken(
-                temporaryAddress,
-                ledgerContract.getPaymentFeeAccount(),
-                loyaltyPayments[_paymentId].feeToken
-            );
-            ledgerContract.subPointBalance(
-                temporaryAddress,
-                loyaltyPayments[_paymentId].paidPoint + loyaltyPayments[_paymentId].feePoint
-            );
+            ledgerContract.transferToken(temporaryAddress, ledgerContract.getPaymentFeeAccount(), data.cancelFeeToken);
+            ledgerContract.subPointBalance(temporaryAddress, data.cancelPoint + data.cancelFeePoint);
             balance = ledgerContract.pointBalanceOf(loyaltyPayments[_paymentId].account);
-            loyaltyPayments[_paymentId].status = LoyaltyPaymentStatus.FAILED_CANCEL;
-            emit LoyaltyPaymentEvent(loyaltyPayments[_paymentId], balance);
+
+            data.status = LoyaltyCancelStatus.FAILED;
+            loyaltyPayments[_paymentId].status = isPartial
+                ? LoyaltyPaymentStatus.CLOSED_PAYMENT
+                : LoyaltyPaymentStatus.FAILED_CANCEL;
         }
+        loyaltyCancels[_paymentId] = data;
+
+        emit LoyaltyCancelEvent(loyaltyPayments[_paymentId], data, balance);
+        // 일부 취소의 종료는 지불을 CLOSED_PAYMENT 로 되돌리므로 지불 이벤트를 다시 발생시키지 않는다.
+        if (!isPartial) emit LoyaltyPaymentEvent(loyaltyPayments[_paymentId], balance);
     }
 
     /// @notice 로얄티(포인트/토큰)을 구매데아타를 제공하는 함수
@@ -281,6 +460,24 @@ contract LoyaltyConsumer is LoyaltyConsumerStorage, Initializable, OwnableUpgrad
         return loyaltyPayments[_paymentId];
     }
 
+    /// @notice 포인트와 토큰을 함께 사용한 지불에서 실제로 사용된 포인트와 토큰을 제공하는 함수
+    /// @param _paymentId 지불 아이디
+    function loyaltyMixedPaymentOf(bytes32 _paymentId) external view returns (LoyaltyMixedPaymentData memory) {
+        return loyaltyMixedPayments[_paymentId];
+    }
+
+    /// @notice 진행중이거나 마지막으로 처리된 취소 정보를 제공하는 함수
+    /// @param _paymentId 지불 아이디
+    function loyaltyCancelOf(bytes32 _paymentId) external view returns (LoyaltyCancelData memory) {
+        return loyaltyCancels[_paymentId];
+    }
+
+    /// @notice 취소되지 않고 남아있는 지불 금액(결제 통화)을 제공하는 함수
+    /// @param _paymentId 지불 아이디
+    function cancellableValueOf(bytes32 _paymentId) external view returns (uint256) {
+        return loyaltyPayments[_paymentId].paidValue - loyaltyCancelled[_paymentId].cancelValue;
+    }
+
     /// @notice 이용할 수 있는 지불 아이디 인지 알려준다.
     /// @param _paymentId 지불 아이디
     function isAvailablePaymentId(bytes32 _paymentId) external view returns (bool) {
@@ -35,6 +35,31 @@ contract LoyaltyConsumerStorage {
         LoyaltyPaymentStatus status;
     }
 
+    enum LoyaltyCancelStatus {
+        INVALID,
+        OPENED,
+        CLOSED,
+        FAILED
+    }
+
+    /// @notice 포인트와 토큰을 함께 사용한 지불에서 실제로 사용된 포인트와 토큰
+    struct LoyaltyMixedPaymentData {
+        uint256 usedPoint;
+        uint256 usedToken;
+    }
+
+    struct LoyaltyCancelData {
+        uint256 cancelValue;
+        uint256 cancelPoint;
+        uint256 cancelToken;
+        uint256 cancelFeeValue;
+        uint256 cancelFeePoint;
+        uint256 cancelFeeToken;
+        uint256 cancelValueShop;
+        uint256 remainValue;
+        LoyaltyCancelStatus status;
+    }
+
     address internal systemAccount;
     address internal temporaryAddress;
 
@@ -47,3 +72,16 @@ contract LoyaltyConsumerStorage {
 
     mapping(bytes32 => LoyaltyPaymentData) internal loyaltyPayments;
 }
+
+/// @notice 배포된 프록시의 저장소 배치를 유지하기 위해 추가되는 상태변수는 이 계약에 선언하고,
+/// LoyaltyConsumer 의 상속 목록의 마지막에 둔다.
+/// LoyaltyConsumerStorage 에 상태변수를 추가하면 뒤에 배치되는 OpenZeppelin 계약들의 상태변수가 밀려난다.
+contract LoyaltyConsumerStorageV2 is LoyaltyConsumerStorage {
+    // 진행중이거나 마지막으로 처리된 취소 정보
+    mapping(bytes32 => LoyaltyCancelData) internal loyaltyCancels;
+    // 완료된 취소들의 누적 정보
+    mapping(bytes32 => LoyaltyCancelData) internal loyaltyCancelled;
+
+    // 포인트와 토큰을 함께 사용한 지불의 정보
+    mapping(bytes32 => LoyaltyMixedPaymentData) internal loyaltyMixedPayments;
+}
@@ -381,6 +381,86 @@ export class ContractUtils {
         return res.toLowerCase() === account.toLowerCase();
     }
 
+    public static getLoyaltyNewMixedPaymentMessage(
+        address: string,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        nonce: BigNumberish,
+        chainId?: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["bytes32", "string", "uint256", "string", "bytes32", "address", "bool", "uint256", "uint256"],
+            [
+                paymentId,
+                purchaseId,
+                amount,
+                currency,
+                shopId,
+                address,
+                true,
+                chainId ? chainId : hre.ethers.provider.network.chainId,
+                nonce,
+            ]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
+    public static async signLoyaltyNewMixedPayment(
+        signer: Signer,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        nonce: BigNumberish,
+        chainId?: BigNumberish
+    ): Promise<string> {
+        const message = ContractUtils.getLoyaltyNewMixedPaymentMessage(
+            await signer.getAddress(),
+            paymentId,
+            purchaseId,
+            amount,
+            currency,
+            shopId,
+            nonce,
+            chainId
+        );
+        return signer.signMessage(message);
+    }
+
+    public static verifyLoyaltyNewMixedPayment(
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        nonce: BigNumberish,
+        account: string,
+        signature: BytesLike,
+        chainId?: BigNumberish
+    ): boolean {
+        const message = ContractUtils.getLoyaltyNewMixedPaymentMessage(
+            account,
+            paymentId,
+            purchaseId,
+            amount,
+            currency,
+            shopId,
+            nonce,
+            chainId
+        );
+        let res: string;
+        try {
+            res = verifyMessage(message, signature);
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === account.toLowerCase();
+    }
+
     public static getLoyaltyClosePaymentMessage(
         address: string,
         paymentId: string,
@@ -464,6 +544,66 @@ export class ContractUtils {
         return res.toLowerCase() === account.toLowerCase();
     }
 
+    public static getLoyaltyPartialCancelPaymentMessage(
+        address: string,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        nonce: BigNumberish,
+        chainId?: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["bytes32", "string", "uint256", "address", "uint256", "uint256"],
+            [paymentId, purchaseId, amount, address, chainId ? chainId : hre.ethers.provider.network.chainId, nonce]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
+    public static async signLoyaltyPartialCancelPayment(
+        signer: Signer,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        nonce: BigNumberish,
+        chainId?: BigNumberish
+    ): Promise<string> {
+        const message = ContractUtils.getLoyaltyPartialCancelPaymentMessage(
+            await signer.getAddress(),
+            paymentId,
+            purchaseId,
+            amount,
+            nonce,
+            chainId
+        );
+        return signer.signMessage(message);
+    }
+
+    public static verifyLoyaltyPartialCancelPayment(
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        nonce: BigNumberish,
+        account: string,
+        signature: BytesLike,
+        chainId?: BigNumberish
+    ): boolean {
+        const message = ContractUtils.getLoyaltyPartialCancelPaymentMessage(
+            account,
+            paymentId,
+            purchaseId,
+            amount,
+            nonce,
+            chainId
+        );
+        let res: string;
+        try {
+            res = verifyMessage(message, signature);
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === account.toLowerCase();
+    }
+
     public static getPaymentId(account: string, nonce: BigNumberish): string {
         const encodedResult = defaultAbiCoder.encode(
             ["address", "uint256", "bytes32"],
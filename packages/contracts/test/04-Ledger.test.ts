@@ -1232,6 +1232,308 @@ describe("Test for Ledger", () => {
                 expect(newBalance).to.deep.equal(oldBalance.sub(pointAmount));
             });
         });
+
+        context("Pay point and token", () => {
+            const purchase: IPurchaseData = {
+                purchaseId: getPurchaseId(),
+                amount: 700,
+                providePercent: 5,
+                currency: "krw",
+                shopIndex: 0,
+                userIndex: 1,
+            };
+            let paymentId: string;
+
+            it("Pay point and token - Success", async () => {
+                const account = deployments.accounts.users[purchase.userIndex].address;
+                const nonce = await ledgerContract.nonceOf(account);
+                paymentId = ContractUtils.getPaymentId(account, nonce);
+                const purchaseAmount = Amount.make(purchase.amount, 18).value;
+                const shop = shopData[purchase.shopIndex];
+                const signature = await ContractUtils.signLoyaltyNewMixedPayment(
+                    deployments.accounts.users[purchase.userIndex],
+                    paymentId,
+                    purchase.purchaseId,
+                    purchaseAmount,
+                    purchase.currency,
+                    shop.shopId,
+                    nonce
+                );
+                const feeAmount = ContractUtils.zeroGWEI(
+                    purchaseAmount.mul(await ledgerContract.getPaymentFee()).div(10000)
+                );
+                const oldPointBalance = await ledgerContract.pointBalanceOf(account);
+                const oldTokenBalance = await ledgerContract.tokenBalanceOf(account);
+                const usedPoint = oldPointBalance;
+                const usedToken = ContractUtils.zeroGWEI(
+                    purchaseAmount.add(feeAmount).sub(usedPoint).mul(multiple).div(price)
+                );
+
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract.connect(deployments.accounts.certifiers[0]).openNewLoyaltyPayment({
+                        paymentId,
+                        purchaseId: purchase.purchaseId,
+                        amount: purchaseAmount,
+                        currency: purchase.currency.toLowerCase(),
+                        shopId: shop.shopId,
+                        account,
+                        signature,
+                        secretLock,
+                    })
+                ).to.be.revertedWith("1501");
+
+                await expect(
+                    consumerContract.connect(deployments.accounts.certifiers[0]).openNewLoyaltyPaymentMixed({
+                        paymentId,
+                        purchaseId: purchase.purchaseId,
+                        amount: purchaseAmount,
+                        currency: purchase.currency.toLowerCase(),
+                        shopId: shop.shopId,
+                        account,
+                        signature,
+                        secretLock,
+                    })
+                )
+                    .to.emit(consumerContract, "LoyaltyMixedPaymentEvent")
+                    .withNamedArgs({
+                        paymentId,
+                        usedPoint,
+                        usedToken,
+                        tokenBalance: oldTokenBalance.sub(usedToken),
+                    });
+
+                const mixedData = await consumerContract.loyaltyMixedPaymentOf(paymentId);
+                expect(mixedData.usedPoint).to.deep.equal(usedPoint);
+                expect(mixedData.usedToken).to.deep.equal(usedToken);
+                expect(await ledgerContract.pointBalanceOf(account)).to.deep.equal(BigNumber.from(0));
+
+                const paymentData = await consumerContract.loyaltyPaymentOf(paymentId);
+                expect(paymentData.paidPoint).to.deep.equal(purchaseAmount);
+                expect(paymentData.feePoint).to.deep.equal(feeAmount);
+
+                const oldSystemBalance = await ledgerContract.tokenBalanceOf(deployments.accounts.system.address);
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .closeNewLoyaltyPayment(paymentId, secret, true)
+                ).to.emit(consumerContract, "LoyaltyPaymentEvent");
+
+                expect(await ledgerContract.tokenBalanceOf(account)).to.deep.equal(oldTokenBalance.sub(usedToken));
+                const feeToken = ContractUtils.zeroGWEI(feeAmount.mul(multiple).div(price));
+                expect(await ledgerContract.tokenBalanceOf(deployments.accounts.system.address)).to.deep.equal(
+                    oldSystemBalance.add(usedToken).sub(feeToken)
+                );
+            });
+
+            it("Cancel point and token - Refunded as point", async () => {
+                const account = deployments.accounts.users[purchase.userIndex].address;
+                const shop = shopData[purchase.shopIndex];
+                const paymentData = await consumerContract.loyaltyPaymentOf(paymentId);
+                const oldPointBalance = await ledgerContract.pointBalanceOf(account);
+                const oldTokenBalance = await ledgerContract.tokenBalanceOf(account);
+
+                const signature = await ContractUtils.signLoyaltyCancelPayment(
+                    shop.wallet,
+                    paymentId,
+                    purchase.purchaseId,
+                    await ledgerContract.nonceOf(shop.wallet.address)
+                );
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openCancelLoyaltyPayment(paymentId, secretLock, signature)
+                ).to.emit(consumerContract, "LoyaltyCancelEvent");
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .closeCancelLoyaltyPayment(paymentId, secret, true)
+                ).to.emit(consumerContract, "LoyaltyPaymentEvent");
+
+                // 토큰으로 지불된 부분을 포함하여 모두 지불할 때의 환률로 계산된 포인트로 환불된다
+                expect((await consumerContract.loyaltyPaymentOf(paymentId)).status).to.deep.equal(5);
+                expect(await ledgerContract.pointBalanceOf(account)).to.deep.equal(
+                    oldPointBalance.add(paymentData.paidPoint).add(paymentData.feePoint)
+                );
+                expect(await ledgerContract.tokenBalanceOf(account)).to.deep.equal(oldTokenBalance);
+            });
+        });
+
+        context("Partial cancel", () => {
+            const purchase: IPurchaseData = {
+                purchaseId: "",
+                amount: 100,
+                providePercent: 5,
+                currency: "krw",
+                shopIndex: 0,
+                userIndex: 0,
+            };
+            let paymentId: string;
+            let purchaseAmount: BigNumber;
+
+            const signPartialCancel = async (value: BigNumber) => {
+                const shop = shopData[purchase.shopIndex];
+                const nonce = await ledgerContract.nonceOf(shop.wallet.address);
+                return ContractUtils.signLoyaltyPartialCancelPayment(
+                    shop.wallet,
+                    paymentId,
+                    purchase.purchaseId,
+                    value,
+                    nonce
+                );
+            };
+
+            it("Pay point", async () => {
+                purchase.purchaseId = getPurchaseId();
+                const account = deployments.accounts.users[purchase.userIndex].address;
+                const nonce = await ledgerContract.nonceOf(account);
+                paymentId = ContractUtils.getPaymentId(account, nonce);
+                purchaseAmount = Amount.make(purchase.amount, 18).value;
+                const shop = shopData[purchase.shopIndex];
+                const signature = await ContractUtils.signLoyaltyNewPayment(
+                    deployments.accounts.users[purchase.userIndex],
+                    paymentId,
+                    purchase.purchaseId,
+                    purchaseAmount,
+                    purchase.currency,
+                    shop.shopId,
+                    nonce
+                );
+
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract.connect(deployments.accounts.certifiers[0]).openNewLoyaltyPayment({
+                        paymentId,
+                        purchaseId: purchase.purchaseId,
+                        amount: purchaseAmount,
+                        currency: purchase.currency.toLowerCase(),
+                        shopId: shop.shopId,
+                        account,
+                        signature,
+                        secretLock,
+                    })
+                ).to.emit(consumerContract, "LoyaltyPaymentEvent");
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .closeNewLoyaltyPayment(paymentId, secret, true)
+                ).to.emit(consumerContract, "LoyaltyPaymentEvent");
+                expect(await consumerContract.cancellableValueOf(paymentId)).to.deep.equal(purchaseAmount);
+            });
+
+            it("Partial cancel - Invalid signature", async () => {
+                const cancelAmount = Amount.make(30, 18).value;
+                const signature = await signPartialCancel(cancelAmount.add(1));
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(paymentId, cancelAmount, secretLock, signature)
+                ).to.be.revertedWith("1501");
+            });
+
+            it("Partial cancel - Invalid amount", async () => {
+                const zero = BigNumber.from(0);
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(paymentId, zero, secretLock, await signPartialCancel(zero))
+                ).to.be.revertedWith("1535");
+
+                const over = purchaseAmount.add(1);
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(paymentId, over, secretLock, await signPartialCancel(over))
+                ).to.be.revertedWith("1535");
+            });
+
+            it("Partial cancel - Success", async () => {
+                const account = deployments.accounts.users[purchase.userIndex].address;
+                const paymentData = await consumerContract.loyaltyPaymentOf(paymentId);
+                const cancelAmount = Amount.make(30, 18).value;
+                const cancelPoint = ContractUtils.zeroGWEI(paymentData.paidPoint.mul(cancelAmount).div(purchaseAmount));
+                const cancelFeePoint = ContractUtils.zeroGWEI(
+                    paymentData.feePoint.mul(cancelAmount).div(purchaseAmount)
+                );
+
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(
+                            paymentId,
+                            cancelAmount,
+                            secretLock,
+                            await signPartialCancel(cancelAmount)
+                        )
+                ).to.emit(consumerContract, "LoyaltyCancelEvent");
+
+                const cancelData = await consumerContract.loyaltyCancelOf(paymentId);
+                expect(cancelData.cancelValue).to.deep.equal(cancelAmount);
+                expect(cancelData.cancelPoint).to.deep.equal(cancelPoint);
+                expect(cancelData.cancelFeePoint).to.deep.equal(cancelFeePoint);
+                expect(cancelData.remainValue).to.deep.equal(purchaseAmount);
+                expect((await consumerContract.loyaltyPaymentOf(paymentId)).status).to.deep.equal(4);
+
+                // 진행중인 취소가 있으면 다시 취소할 수 없다
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(
+                            paymentId,
+                            cancelAmount,
+                            secretLock,
+                            await signPartialCancel(cancelAmount)
+                        )
+                ).to.be.revertedWith("1532");
+
+                const oldBalance = await ledgerContract.pointBalanceOf(account);
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .closeCancelLoyaltyPayment(paymentId, secret, true)
+                ).to.emit(consumerContract, "LoyaltyCancelEvent");
+
+                expect(await ledgerContract.pointBalanceOf(account)).to.deep.equal(
+                    oldBalance.add(cancelPoint).add(cancelFeePoint)
+                );
+                expect((await consumerContract.loyaltyPaymentOf(paymentId)).status).to.deep.equal(2);
+                expect(await consumerContract.cancellableValueOf(paymentId)).to.deep.equal(
+                    purchaseAmount.sub(cancelAmount)
+                );
+            });
+
+            it("Partial cancel - Cancel the rest", async () => {
+                const remain = await consumerContract.cancellableValueOf(paymentId);
+
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(paymentId, remain, secretLock, await signPartialCancel(remain))
+                ).to.emit(consumerContract, "LoyaltyCancelEvent");
+                expect((await consumerContract.loyaltyCancelOf(paymentId)).cancelValue).to.deep.equal(remain);
+
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .closeCancelLoyaltyPayment(paymentId, secret, true)
+                ).to.emit(consumerContract, "LoyaltyPaymentEvent");
+                expect((await consumerContract.loyaltyPaymentOf(paymentId)).status).to.deep.equal(5);
+                expect(await consumerContract.cancellableValueOf(paymentId)).to.deep.equal(BigNumber.from(0));
+
+                const value = BigNumber.from(1);
+                [secret, secretLock] = ContractUtils.getSecret();
+                await expect(
+                    consumerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .openPartialCancelLoyaltyPayment(paymentId, value, secretLock, await signPartialCancel(value))
+                ).to.be.revertedWith("1532");
+            });
+        });
     });
 
     context("Many Save Purchase Data", () => {
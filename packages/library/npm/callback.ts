@@ -0,0 +1,54 @@
+import { utils } from "ethers";
+
+export const CALLBACK_TIMESTAMP_HEADER = "X-Callback-Timestamp";
+export const CALLBACK_SIGNATURE_HEADER = "X-Callback-Signature";
+
+/**
+ * Computes the HMAC-SHA256 signature that the relay attaches to a callback.
+ * The signed message is `${timestamp}.${rawBody}`.
+ */
+export function getCallbackSignature(secret: string, timestamp: number | string, rawBody: string): string {
+    return utils
+        .computeHmac(
+            utils.SupportedAlgorithm.sha256,
+            utils.toUtf8Bytes(secret),
+            utils.toUtf8Bytes(`${timestamp}.${rawBody}`)
+        )
+        .substring(2);
+}
+
+function isEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let idx = 0; idx < a.length; idx++) diff |= a.charCodeAt(idx) ^ b.charCodeAt(idx);
+    return diff === 0;
+}
+
+/**
+ * Verifies a callback received from the relay.
+ * @param secrets           The callback secrets. Pass both secrets while they are being rotated.
+ * @param timestamp         The value of the `X-Callback-Timestamp` header
+ * @param rawBody           The request body exactly as received, before JSON parsing
+ * @param signatureHeader   The value of the `X-Callback-Signature` header
+ * @param toleranceSecond   The maximum allowed difference between the timestamp and the current time
+ */
+export function verifyCallbackSignature(
+    secrets: string | string[],
+    timestamp: number | string | undefined,
+    rawBody: string,
+    signatureHeader: string | undefined,
+    toleranceSecond: number = 300
+): boolean {
+    if (timestamp === undefined || signatureHeader === undefined) return false;
+    const now = Math.floor(new Date().getTime() / 1000);
+    if (Number.isNaN(Number(timestamp)) || Math.abs(now - Number(timestamp)) > toleranceSecond) return false;
+
+    const signatures = signatureHeader.split(",").map((m) => m.trim().toLowerCase());
+    for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+        const expected = getCallbackSignature(secret, timestamp, rawBody);
+        for (const signature of signatures) {
+            if (isEqual(signature, expected)) return true;
+        }
+    }
+    return false;
+}
@@ -1,4 +1,6 @@
 import activeContracts from "../../../active_contracts.json";
 
 export * from "../types/";
+export * from "./callback";
+export * from "./receipt";
 export const activeContractsList = activeContracts;
@@ -0,0 +1,57 @@
+import { utils } from "ethers";
+
+export const PAYMENT_RECEIPT_TYPES = {
+    PaymentReceipt: [
+        { name: "paymentId", type: "bytes32" },
+        { name: "purchaseId", type: "string" },
+        { name: "shopId", type: "bytes32" },
+        { name: "shopName", type: "string" },
+        { name: "account", type: "address" },
+        { name: "currency", type: "string" },
+        { name: "amount", type: "uint256" },
+        { name: "paidPoint", type: "uint256" },
+        { name: "paidValue", type: "uint256" },
+        { name: "feePoint", type: "uint256" },
+        { name: "feeValue", type: "uint256" },
+        { name: "totalPoint", type: "uint256" },
+        { name: "totalValue", type: "uint256" },
+        { name: "cancelAmount", type: "uint256" },
+        { name: "cancelPoint", type: "uint256" },
+        { name: "cancelFeePoint", type: "uint256" },
+        { name: "paymentStatus", type: "uint256" },
+        { name: "openNewTxId", type: "string" },
+        { name: "openCancelTxId", type: "string" },
+        { name: "openNewTimestamp", type: "uint256" },
+        { name: "closeNewTimestamp", type: "uint256" },
+        { name: "openCancelTimestamp", type: "uint256" },
+        { name: "closeCancelTimestamp", type: "uint256" },
+    ],
+};
+
+export interface ISignedPaymentReceipt {
+    domain: {
+        name: string;
+        version: string;
+        chainId: number;
+        verifyingContract: string;
+    };
+    receipt: Record<string, any>;
+    signer: string;
+    signature: string;
+}
+
+/**
+ * Verifies a receipt served by `GET /v1/payment/:paymentId/receipt`.
+ * The `signer` field of the response is not trusted, because anyone can sign a receipt with their own key.
+ * @param signed            The `data` field of the response
+ * @param expectedSigner    The address of the relay's receipt key
+ */
+export function verifyPaymentReceipt(signed: ISignedPaymentReceipt, expectedSigner: string): boolean {
+    let recovered: string;
+    try {
+        recovered = utils.verifyTypedData(signed.domain, PAYMENT_RECEIPT_TYPES, signed.receipt, signed.signature);
+    } catch (error) {
+        return false;
+    }
+    return recovered.toLowerCase() === expectedSigner.toLowerCase();
+}
@@ -1,27 +1,40 @@
 import bodyParser from "body-parser";
 import cors from "cors";
 import { Config } from "./common/Config";
+import { logger } from "./common/Logger";
+import { AdminRouter } from "./routers/AdminRouter";
+import { CallbackRouter } from "./routers/CallbackRouter";
 import { DefaultRouter } from "./routers/DefaultRouter";
 import { ETCRouter } from "./routers/ETCRouter";
 import { LedgerRouter } from "./routers/LedgerRouter";
+import { OpenApiRouter } from "./routers/OpenApiRouter";
 import { PaymentRouter } from "./routers/PaymentRouter";
+import { ReconciliationRouter } from "./routers/ReconciliationRouter";
 import { ShopRouter } from "./routers/ShopRouter";
+import { LeaderElector } from "./scheduler/LeaderElector";
 import { Scheduler } from "./scheduler/Scheduler";
 import { WebService } from "./service/WebService";
 
+import express from "express";
 import { register } from "prom-client";
+import { CallbackOutbox } from "./callback/CallbackOutbox";
 import { ContractManager } from "./contract/ContractManager";
+import { GasPriceManager } from "./contract/GasPriceManager";
 import { RelaySigners } from "./contract/Signers";
 import { INotificationEventHandler, INotificationSender, NotificationSender } from "./delegator/NotificationSender";
+import { RateLimiter } from "./limiter/RateLimiter";
 import { Metrics } from "./metrics/Metrics";
+import { PaymentStatusStream } from "./payment/PaymentStatusStream";
 import { BridgeRouter } from "./routers/BridgeRouter";
 import { HistoryRouter } from "./routers/HistoryRouter";
 import { PhoneLinkRouter } from "./routers/PhoneLinkRouter";
 import { ProviderRouter } from "./routers/ProviderRouter";
 import { StorePurchaseRouter } from "./routers/StorePurchaseRouter";
 import { TokenRouter } from "./routers/TokenRouter";
+import { V2Router } from "./routers/V2Router";
 import { GraphStorage } from "./storage/GraphStorage";
 import { RelayStorage } from "./storage/RelayStorage";
+import { ContractUtils } from "./utils/ContractUtils";
 
 export class DefaultServer extends WebService {
     private readonly config: Config;
@@ -37,6 +50,9 @@ export class DefaultServer extends WebService {
     public readonly graph_sidechain: GraphStorage;
     public readonly graph_mainchain: GraphStorage;
     private readonly sender: INotificationSender;
+    public readonly paymentStream: PaymentStatusStream;
+    public readonly callbackOutbox: CallbackOutbox;
+    public readonly rateLimiter: RateLimiter;
     public readonly etcRouter: ETCRouter;
     public readonly purchaseRouter: StorePurchaseRouter;
     public readonly tokenRouter: TokenRouter;
@@ -44,9 +60,25 @@ export class DefaultServer extends WebService {
     public readonly providerRouter: ProviderRouter;
     public readonly bridgeRouter: BridgeRouter;
     public readonly historyRouter: HistoryRouter;
+    public readonly callbackRouter: CallbackRouter;
+    public readonly reconciliationRouter: ReconciliationRouter;
+    public readonly adminRouter: AdminRouter;
+    public readonly v2Router: V2Router;
+    public readonly openApiRouter: OpenApiRouter;
+    public readonly leaderElector: LeaderElector;
 
     private readonly metrics: Metrics;
 
+    /**
+     * 처리중인 요청의 수
+     */
+    private inFlightRequests: number = 0;
+
+    /**
+     * 종료중이면 true
+     */
+    private shuttingDown: boolean = false;
+
     constructor(
         config: Config,
         contractManager: ContractManager,
@@ -54,9 +86,12 @@ export class DefaultServer extends WebService {
         graph_sidechain: GraphStorage,
         graph_mainchain: GraphStorage,
         schedules?: Scheduler[],
-        handler?: INotificationEventHandler
+        handler?: INotificationEventHandler,
+        leaderElector?: LeaderElector
     ) {
         super(config.server.port, config.server.address);
+        // 프록시 뒤에서 운영되면 req.ip 가 X-Forwarded-For 의 클라이언트 주소가 되도록 한다
+        this.app.set("trust proxy", config.server.trustProxy);
         register.clear();
         this.metrics = new Metrics();
         this.metrics.create("gauge", "status", "serve status");
@@ -78,14 +113,58 @@ export class DefaultServer extends WebService {
         this.metrics.createGauge("shop_total_used_amount_clear", "total used amount of shops", ["currency"]);
         this.metrics.createGauge("shop_total_refunded_amount_clear", "total refundable amount of shops", ["currency"]);
 
+        this.metrics.createCounter("payment_rule_rejected", "number of payments rejected by the payment rules", [
+            "rule",
+        ]);
+
+        this.metrics.createGauge("reconciliation_issues", "number of mismatches found by the last reconciliation", [
+            "type",
+        ]);
+        this.metrics.create(
+            "gauge",
+            "reconciliation_payments",
+            "number of payments checked by the last reconciliation"
+        );
+        this.metrics.create("gauge", "reconciliation_timestamp", "time of the last reconciliation");
+
+        this.metrics.createHistogram(
+            "gas_fee_per_gas",
+            "fees per gas chosen by the gas strategies (gwei)",
+            ["chainId", "strategy", "type"],
+            [0.1, 0.5, 1, 1.5, 2, 5, 10, 20, 50, 100, 200, 500, 1000]
+        );
+        GasPriceManager.setMetrics(this.metrics);
+
+        this.metrics.createCounter("rate_limited", "number of requests rejected by the rate limiter", [
+            "route",
+            "type",
+        ]);
+
+        this.metrics.createGauge("scheduler_leader", "1 if this relay is the leader of the scheduler", ["scheduler"]);
+
         this.config = config;
         this.contractManager = contractManager;
         this.storage = storage;
         this.graph_sidechain = graph_sidechain;
         this.graph_mainchain = graph_mainchain;
         this.sender = new NotificationSender(this.config, handler);
-        this.relaySigners = new RelaySigners(this.config);
-        this.defaultRouter = new DefaultRouter(this, this.config, this.contractManager, this.metrics);
+        this.relaySigners = new RelaySigners(this.config, this.storage);
+        this.paymentStream = new PaymentStatusStream(this.storage);
+        this.callbackOutbox = new CallbackOutbox(this.config, this.storage);
+        this.rateLimiter = new RateLimiter(this.config, this.storage, this.metrics);
+        this.leaderElector = leaderElector !== undefined ? leaderElector : new LeaderElector(this.config, this.storage);
+        this.leaderElector.setMetrics(this.metrics);
+        this.defaultRouter = new DefaultRouter(
+            this,
+            this.config,
+            this.contractManager,
+            this.metrics,
+            this.storage,
+            this.graph_sidechain,
+            this.graph_mainchain,
+            this.relaySigners,
+            this.leaderElector
+        );
         this.ledgerRouter = new LedgerRouter(
             this,
             this.config,
@@ -105,7 +184,8 @@ export class DefaultServer extends WebService {
             this.graph_sidechain,
             this.graph_mainchain,
             this.relaySigners,
-            this.sender
+            this.sender,
+            this.callbackOutbox
         );
         this.paymentRouter = new PaymentRouter(
             this,
@@ -116,7 +196,9 @@ export class DefaultServer extends WebService {
             this.graph_sidechain,
             this.graph_mainchain,
             this.relaySigners,
-            this.sender
+            this.sender,
+            this.paymentStream,
+            this.callbackOutbox
         );
         this.etcRouter = new ETCRouter(
             this,
@@ -187,6 +269,18 @@ export class DefaultServer extends WebService {
             this.graph_mainchain,
             this.relaySigners
         );
+        this.callbackRouter = new CallbackRouter(this, this.config, this.metrics, this.storage, this.callbackOutbox);
+        this.reconciliationRouter = new ReconciliationRouter(this, this.config, this.metrics, this.storage);
+        this.adminRouter = new AdminRouter(
+            this,
+            this.config,
+            this.contractManager,
+            this.metrics,
+            this.relaySigners,
+            this.storage
+        );
+        this.v2Router = new V2Router(this);
+        this.openApiRouter = new OpenApiRouter(this, this.config);
 
         if (schedules) {
             schedules.forEach((m) => this.schedules.push(m));
@@ -198,6 +292,9 @@ export class DefaultServer extends WebService {
                     metrics: this.metrics,
                     graph: this.graph_sidechain,
                     signers: this.relaySigners,
+                    paymentStream: this.paymentStream,
+                    callbackOutbox: this.callbackOutbox,
+                    sender: this.sender,
                 })
             );
         }
@@ -207,6 +304,7 @@ export class DefaultServer extends WebService {
      * Setup and start the server
      */
     public async start(): Promise<void> {
+        this.app.use(this.trackRequests.bind(this));
         // parse application/x-www-form-urlencoded
         this.app.use(bodyParser.urlencoded({ extended: false, limit: "1mb" }));
         // parse application/json
@@ -215,11 +313,13 @@ export class DefaultServer extends WebService {
             cors({
                 origin: "*",
                 methods: "GET, POST, OPTIONS",
-                allowedHeaders: "Content-Type, Authorization",
+                allowedHeaders: "Content-Type, Authorization, Idempotency-Key",
                 credentials: true,
                 preflightContinue: false,
             })
         );
+        this.v2Router.registerRoutes();
+        this.app.use(this.rateLimiter.middleware());
 
         this.defaultRouter.registerRoutes();
         this.ledgerRouter.registerRoutes();
@@ -232,7 +332,13 @@ export class DefaultServer extends WebService {
         this.providerRouter.registerRoutes();
         this.bridgeRouter.registerRoutes();
         this.historyRouter.registerRoutes();
+        this.callbackRouter.registerRoutes();
+        this.reconciliationRouter.registerRoutes();
+        this.adminRouter.registerRoutes();
+        this.openApiRouter.registerRoutes();
 
+        await this.paymentStream.start();
+        await this.leaderElector.start();
         for (const m of this.schedules) await m.start();
 
         return super.start();
@@ -242,6 +348,8 @@ export class DefaultServer extends WebService {
         return new Promise<void>(async (resolve, reject) => {
             for (const m of this.schedules) await m.stop();
             for (const m of this.schedules) await m.waitForStop();
+            await this.leaderElector.stop();
+            await this.paymentStream.stop();
             if (this.server != null) {
                 this.server.close((err?) => {
                     if (err) reject(err);
@@ -250,4 +358,121 @@ export class DefaultServer extends WebService {
             } else resolve();
         });
     }
+
+    /**
+     * 처리중인 요청의 수를 센다. 종료중에는 연결을 유지하지 않도록 한다.
+     * 끝나지 않는 응답(Server-Sent Events)은 res.locals.untrack 을 호출하여 세지 않도록 한다
+     */
+    private trackRequests(req: express.Request, res: express.Response, next: express.NextFunction) {
+        if (this.shuttingDown) res.set("Connection", "close");
+        this.inFlightRequests++;
+        let finished = false;
+        const done = () => {
+            if (finished) return;
+            finished = true;
+            this.inFlightRequests--;
+        };
+        res.locals.untrack = done;
+        res.on("finish", done);
+        res.on("close", done);
+        next();
+    }
+
+    /**
+     * 요청을 더 받지 않고, 열려있는 결제 스트림을 닫은 후 처리중인 요청과 스케줄러의 작업, 사용중인 서명자를 기다린 후 데이터베이스의 연결을 닫는다.
+     * 모든 단계는 timeoutSecond 안에 끝나야 하며, 시간안에 끝나지 않은 단계가 있으면 false 를 반환한다
+     */
+    public async shutdown(timeoutSecond: number = this.config.shutdown.timeoutSecond): Promise<boolean> {
+        const deadline = new Date().getTime() + timeoutSecond * 1000;
+        const remaining = () => Math.max(deadline - new Date().getTime(), 0);
+        let completed = true;
+
+        this.shuttingDown = true;
+        logger.info(`Shutdown: Stop accepting requests`);
+        const closed = new Promise<boolean>((resolve) => {
+            if (this.server !== null) this.server.close(() => resolve(true));
+            else resolve(true);
+        });
+
+        logger.info(`Shutdown: Closing ${this.paymentStream.closeAll()} payment streams`);
+
+        logger.info(`Shutdown: Waiting for ${this.inFlightRequests} requests in progress`);
+        while (this.inFlightRequests > 0 && remaining() > 0) await ContractUtils.delay(10);
+        if (this.inFlightRequests > 0) {
+            logger.warn(`Shutdown: ${this.inFlightRequests} requests were not finished`);
+            completed = false;
+        }
+
+        logger.info(`Shutdown: Stopping ${this.schedules.length} schedulers`);
+        for (const m of this.schedules) await m.stop();
+        const stopped = await Promise.all(this.schedules.map((m) => m.waitForStop(remaining())));
+        const unfinished = this.schedules.filter((m, idx) => !stopped[idx]).map((m) => m.constructor.name);
+        if (unfinished.length > 0) {
+            logger.warn(`Shutdown: The work of ${unfinished.join(", ")} was not finished`);
+            completed = false;
+        }
+
+        logger.info(`Shutdown: Releasing the leases of the schedulers`);
+        if (
+            !(await DefaultServer.withDeadline(
+                this.leaderElector.stop().then(() => true),
+                remaining()
+            ))
+        ) {
+            logger.warn(`Shutdown: The leases of the schedulers were not released`);
+            completed = false;
+        }
+
+        logger.info(`Shutdown: Waiting for the signers to be released`);
+        if (!(await this.relaySigners.waitForRelease(remaining()))) {
+            logger.warn(`Shutdown: Some signers were not released`);
+            completed = false;
+        }
+
+        logger.info(`Shutdown: Closing the HTTP server`);
+        if (!(await DefaultServer.withDeadline(closed, remaining()))) {
+            logger.warn(`Shutdown: The HTTP server was not closed`);
+            completed = false;
+        }
+
+        logger.info(`Shutdown: Closing the database pools`);
+        /// 채널을 구독하는 연결이 반환되어야 데이터베이스의 연결을 닫을 수 있다
+        const pools = this.paymentStream
+            .stop()
+            .then(() =>
+                Promise.all([this.storage.close(), this.graph_sidechain.close(), this.graph_mainchain.close()])
+            );
+        if (
+            !(await DefaultServer.withDeadline(
+                pools.then(() => true),
+                remaining()
+            ))
+        ) {
+            logger.warn(`Shutdown: The database pools were not closed`);
+            completed = false;
+        }
+
+        logger.info(`Shutdown: ${completed ? "Completed" : "Completed with the deadline exceeded"}`);
+        return completed;
+    }
+
+    /**
+     * 제한시간 안에 끝나지 않으면 false 를 반환한다
+     */
+    private static async withDeadline(promise: Promise<boolean>, timeout: number): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            return await Promise.race([
+                promise,
+                new Promise<boolean>((resolve) => {
+                    timer = setTimeout(() => resolve(false), timeout);
+                }),
+            ]);
+        } catch (error) {
+            logger.error(`Shutdown: ${error}`);
+            return false;
+        } finally {
+            if (timer !== undefined) clearTimeout(timer);
+        }
+    }
 }
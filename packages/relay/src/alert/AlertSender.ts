@@ -0,0 +1,54 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { ContractUtils } from "../utils/ContractUtils";
+import { HTTPClient } from "../utils/Utils";
+
+/**
+ * 운영자가 확인해야 하는 상황을 설정파일의 relay.alertWebhook 으로 전달한다.
+ * 같은 경고는 일정 시간 동안 한번만 전달한다.
+ */
+export class AlertSender {
+    private static readonly TIMEOUT_MILLISECOND = 10000;
+    private static readonly SUPPRESS_SECOND = 3600;
+
+    private readonly config: Config;
+    private readonly sent: Map<string, number>;
+
+    constructor(config: Config) {
+        this.config = config;
+        this.sent = new Map<string, number>();
+    }
+
+    /**
+     * 경고를 전달한다. key 가 같은 경고가 최근에 전달되었으면 전달하지 않는다.
+     */
+    public async send(key: string, type: string, message: string, data: any): Promise<boolean> {
+        const timestamp = ContractUtils.getTimeStamp();
+        const last = this.sent.get(key);
+        if (last !== undefined && timestamp - last < AlertSender.SUPPRESS_SECOND) return false;
+        this.sent.set(key, timestamp);
+
+        logger.warn(`Alert [${type}] ${message}`);
+        if (this.config.relay.alertWebhook === "") return false;
+        try {
+            const client = new HTTPClient({ timeout: AlertSender.TIMEOUT_MILLISECOND });
+            await client.post(this.config.relay.alertWebhook, {
+                type,
+                message,
+                data,
+                timestamp,
+            });
+            return true;
+        } catch (error: any) {
+            logger.error(`AlertSender.send : ${error.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * 상황이 해소되면 다음에 같은 경고를 바로 전달할 수 있도록 한다
+     */
+    public clear(key: string) {
+        this.sent.delete(key);
+    }
+}
@@ -0,0 +1,193 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ApiKeyData, ApiKeyScope, ApiKeyStatus } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { ResponseMessage } from "../utils/Errors";
+
+import express from "express";
+
+import * as crypto from "crypto";
+
+export interface IApiKeyIdentity {
+    keyId: string;
+    name: string;
+    scopes: ApiKeyScope[];
+    shops: string[];
+}
+
+export interface IIssuedApiKey {
+    keyId: string;
+    key: string;
+    name: string;
+    scopes: ApiKeyScope[];
+    shops: string[];
+    expiresAt: number;
+}
+
+/**
+ * 클라이언트별 API 키를 발급하고 검증한다.
+ * 키는 발급할 때 한번만 전달되며, 저장소에는 키의 해시만 저장된다.
+ * 설정파일의 relay.accessKey 는 모든 권한을 가진 마스터 키로 계속 사용된다.
+ */
+export class ApiKeyRegistry {
+    public static readonly MASTER_KEY_ID = "master";
+    public static readonly PREFIX = "dmsk_";
+
+    private readonly config: Config;
+    private readonly storage: RelayStorage;
+
+    constructor(config: Config, storage: RelayStorage) {
+        this.config = config;
+        this.storage = storage;
+    }
+
+    public static get scopes(): ApiKeyScope[] {
+        return Object.values(ApiKeyScope);
+    }
+
+    public static isScope(value: string): boolean {
+        return ApiKeyRegistry.scopes.includes(value as ApiKeyScope);
+    }
+
+    public static hash(key: string): string {
+        return "0x" + crypto.createHash("sha256").update(key).digest("hex");
+    }
+
+    /**
+     * 새로운 키를 발급한다. shops 가 비어 있으면 모든 상점에 사용할 수 있고, expiresAt 이 0 이면 만료되지 않는다.
+     */
+    public async issue(
+        name: string,
+        scopes: ApiKeyScope[],
+        shops: string[],
+        expiresAt: number,
+        rotatedFrom: string = ""
+    ): Promise<IIssuedApiKey> {
+        const keyId = "key_" + crypto.randomBytes(8).toString("hex");
+        const key = ApiKeyRegistry.PREFIX + crypto.randomBytes(32).toString("hex");
+        const timestamp = ContractUtils.getTimeStamp();
+        const normalizedShops = shops.map((m) => m.toLowerCase());
+        await this.storage.postApiKey({
+            keyId,
+            name,
+            keyHash: ApiKeyRegistry.hash(key),
+            scopes,
+            shops: normalizedShops,
+            expiresAt,
+            status: ApiKeyStatus.ACTIVE,
+            rotatedFrom,
+            timestamp,
+            updatedTimestamp: timestamp,
+        });
+        return { keyId, key, name, scopes, shops: normalizedShops, expiresAt };
+    }
+
+    /**
+     * 같은 속성의 새로운 키를 발급한다. 이전 키는 graceSecond 초 후에 만료되며, 0 이면 바로 폐기된다.
+     */
+    public async rotate(keyId: string, graceSecond: number): Promise<IIssuedApiKey | undefined> {
+        const old = await this.storage.getApiKey(keyId);
+        if (old === undefined || !ApiKeyRegistry.isUsable(old)) return undefined;
+
+        const issued = await this.issue(old.name, old.scopes, old.shops, old.expiresAt, old.keyId);
+        if (graceSecond > 0) {
+            const expiresAt = ContractUtils.getTimeStamp() + graceSecond;
+            if (old.expiresAt === 0 || expiresAt < old.expiresAt)
+                await this.storage.updateApiKeyExpiry(old.keyId, expiresAt);
+        } else {
+            await this.storage.updateApiKeyStatus(old.keyId, ApiKeyStatus.REVOKED);
+        }
+        return issued;
+    }
+
+    public async revoke(keyId: string): Promise<boolean> {
+        const item = await this.storage.getApiKey(keyId);
+        if (item === undefined) return false;
+        if (item.status !== ApiKeyStatus.REVOKED) await this.storage.updateApiKeyStatus(keyId, ApiKeyStatus.REVOKED);
+        return true;
+    }
+
+    public async list(): Promise<ApiKeyData[]> {
+        return this.storage.getApiKeys();
+    }
+
+    /**
+     * 키를 검증한다. 존재하지 않거나 폐기 또는 만료된 키이면 undefined 를 반환한다
+     */
+    public async authenticate(key: string | undefined): Promise<IApiKeyIdentity | undefined> {
+        if (key === undefined || key === "") return undefined;
+        if (key === this.config.relay.accessKey) {
+            return {
+                keyId: ApiKeyRegistry.MASTER_KEY_ID,
+                name: ApiKeyRegistry.MASTER_KEY_ID,
+                scopes: ApiKeyRegistry.scopes,
+                shops: [],
+            };
+        }
+        if (!key.startsWith(ApiKeyRegistry.PREFIX)) return undefined;
+
+        const item = await this.storage.getApiKeyByHash(ApiKeyRegistry.hash(key));
+        if (item === undefined || !ApiKeyRegistry.isUsable(item)) return undefined;
+        return { keyId: item.keyId, name: item.name, scopes: item.scopes, shops: item.shops };
+    }
+
+    private static isUsable(item: ApiKeyData): boolean {
+        if (item.status !== ApiKeyStatus.ACTIVE) return false;
+        return item.expiresAt === 0 || item.expiresAt > ContractUtils.getTimeStamp();
+    }
+
+    public static isShopAllowed(identity: IApiKeyIdentity | undefined, shopId: string): boolean {
+        if (identity === undefined) return false;
+        if (identity.shops.length === 0) return true;
+        return identity.shops.includes(shopId.toLowerCase());
+    }
+
+    /**
+     * 요청에 사용된 키의 정보. guard 를 통과한 요청에서만 사용할 수 있다
+     */
+    public static getIdentity(res: express.Response): IApiKeyIdentity | undefined {
+        return res.locals.apiKey;
+    }
+
+    public static getKeyId(res: express.Response): string {
+        const identity = ApiKeyRegistry.getIdentity(res);
+        return identity !== undefined ? identity.keyId : "";
+    }
+
+    /**
+     * 요청의 키가 scope 권한을 가지고 있는지 검사하는 미들웨어.
+     * 요청에 shopId 가 있으면 키가 그 상점에 사용될 수 있는지도 검사한다.
+     */
+    public guard(scope: ApiKeyScope): express.RequestHandler {
+        const handler = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+            try {
+                let key = req.get("Authorization");
+                if (key === undefined) {
+                    const value = req.body?.accessKey !== undefined ? req.body.accessKey : req.query.accessKey;
+                    if (value !== undefined) key = String(value).trim();
+                }
+
+                const identity = await this.authenticate(key);
+                if (identity === undefined) return res.status(200).json(ResponseMessage.getErrorMessage("2002"));
+                if (!identity.scopes.includes(scope))
+                    return res.status(200).json(ResponseMessage.getErrorMessage("2049"));
+
+                const shopId = req.body?.shopId !== undefined ? req.body.shopId : req.query.shopId;
+                if (shopId !== undefined && !ApiKeyRegistry.isShopAllowed(identity, String(shopId)))
+                    return res.status(200).json(ResponseMessage.getErrorMessage("2055"));
+
+                res.locals.apiKey = identity;
+                next();
+            } catch (error: any) {
+                const msg = ResponseMessage.getEVMErrorMessage(error);
+                logger.error(`ApiKeyRegistry.guard : ${msg.error.message}`);
+                return res.status(200).json(msg);
+            }
+        };
+        // OpenAPI 문서에서 경로에 필요한 권한을 알 수 있도록 한다
+        const guarded: express.RequestHandler & { scope?: ApiKeyScope } = handler;
+        guarded.scope = scope;
+        return guarded;
+    }
+}
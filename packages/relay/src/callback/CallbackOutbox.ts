@@ -0,0 +1,144 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { RelayStorage } from "../storage/RelayStorage";
+import { CallbackData, CallbackStatus, TaskResultCode, TaskResultType } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { HTTPClient } from "../utils/Utils";
+
+/**
+ * 결제와 상점 작업의 처리결과를 저장한 후 콜백 엔드포인트로 전달한다.
+ * 전달에 실패하면 간격을 두 배씩 늘려가며 다시 전달하고, 최대 횟수를 넘기면 DEAD 로 변경한다.
+ */
+export class CallbackOutbox {
+    public static readonly TIMESTAMP_HEADER = "X-Callback-Timestamp";
+    public static readonly SIGNATURE_HEADER = "X-Callback-Signature";
+    private static readonly MAX_INTERVAL_SECOND = 3600;
+    private static readonly TIMEOUT_MILLISECOND = 10000;
+    private static readonly RETRY_LIMIT = 100;
+
+    private readonly config: Config;
+    private readonly storage: RelayStorage;
+
+    constructor(config: Config, storage: RelayStorage) {
+        this.config = config;
+        this.storage = storage;
+    }
+
+    /**
+     * 처리결과를 저장하고 즉시 한번 전달을 시도한다
+     */
+    public async send(type: TaskResultType, code: TaskResultCode, message: string, data: any): Promise<void> {
+        const timestamp = ContractUtils.getTimeStamp();
+        let item: CallbackData;
+        try {
+            item = await this.storage.postCallback({
+                type,
+                code,
+                message,
+                data,
+                nextTimestamp: timestamp + this.getRetryInterval(1),
+                timestamp,
+            });
+        } catch (error: any) {
+            logger.error(`CallbackOutbox.send : ${error.message}`);
+            // 저장하지 못하였더라도 전달은 시도한다
+            try {
+                await this.post(type, code, message, data);
+            } catch (e: any) {
+                logger.error(`CallbackOutbox.send : ${e.message}`);
+            }
+            return;
+        }
+        await this.deliver(item);
+    }
+
+    /**
+     * 재시도할 시간이 된 처리결과들을 다시 전달한다
+     */
+    public async retry(): Promise<void> {
+        const items = await this.storage.getCallbacksToRetry(ContractUtils.getTimeStamp(), CallbackOutbox.RETRY_LIMIT);
+        for (const item of items) {
+            await this.deliver(item);
+        }
+    }
+
+    /**
+     * 처리결과의 재시도 횟수를 초기화하고 다시 전달한다
+     */
+    public async replay(sequence: number): Promise<CallbackData | undefined> {
+        const item = await this.storage.getCallback(sequence);
+        if (item === undefined) return undefined;
+
+        await this.storage.resetCallback(sequence, ContractUtils.getTimeStamp() + this.getRetryInterval(1));
+        item.status = CallbackStatus.PENDING;
+        item.attempts = 0;
+        await this.deliver(item);
+        return this.storage.getCallback(sequence);
+    }
+
+    private async deliver(item: CallbackData): Promise<boolean> {
+        const attempts = item.attempts + 1;
+        try {
+            await this.post(item.type, item.code, item.message, item.data);
+            await this.storage.updateCallbackDelivered(item.sequence, attempts, ContractUtils.getTimeStamp());
+            return true;
+        } catch (error: any) {
+            const lastError = String(error.message).substring(0, 256);
+            logger.error(`CallbackOutbox.deliver ${item.sequence} (${attempts}) : ${lastError}`);
+            try {
+                if (attempts >= this.config.relay.callbackMaxAttempts) {
+                    await this.storage.updateCallbackFailed(item.sequence, CallbackStatus.DEAD, attempts, 0, lastError);
+                } else {
+                    await this.storage.updateCallbackFailed(
+                        item.sequence,
+                        CallbackStatus.PENDING,
+                        attempts,
+                        ContractUtils.getTimeStamp() + this.getRetryInterval(attempts),
+                        lastError
+                    );
+                }
+            } catch (e: any) {
+                logger.error(`CallbackOutbox.deliver : ${e.message}`);
+            }
+            return false;
+        }
+    }
+
+    /**
+     * 비밀키가 설정되어 있으면 타임스탬프와 본문에 대한 서명을 헤더에 포함한다.
+     * 키를 교체하는 동안에는 두 비밀키의 서명이 모두 포함된다.
+     */
+    private async post(type: TaskResultType, code: TaskResultCode, message: string, data: any) {
+        const body = JSON.stringify({
+            accessKey: this.config.relay.callbackAccessKey,
+            type,
+            code,
+            message,
+            data,
+        });
+        const headers: any = {
+            "Content-Type": "application/json",
+            Authorization: this.config.relay.callbackAccessKey,
+        };
+        if (this.config.relay.callbackSecrets.length > 0) {
+            const timestamp = ContractUtils.getTimeStamp();
+            headers[CallbackOutbox.TIMESTAMP_HEADER] = timestamp.toString();
+            headers[CallbackOutbox.SIGNATURE_HEADER] = this.config.relay.callbackSecrets
+                .map((m) => ContractUtils.getCallbackSignature(m, timestamp, body))
+                .join(",");
+        }
+        const client = new HTTPClient({
+            timeout: CallbackOutbox.TIMEOUT_MILLISECOND,
+            headers,
+        });
+        const res = await client.post(this.config.relay.callbackEndpoint, body);
+        logger.info(JSON.stringify(res.data));
+    }
+
+    private getRetryInterval(attempts: number): number {
+        return Math.min(
+            this.config.relay.callbackRetryIntervalSecond * Math.pow(2, attempts - 1),
+            CallbackOutbox.MAX_INTERVAL_SECOND
+        );
+    }
+}
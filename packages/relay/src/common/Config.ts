@@ -25,6 +25,16 @@ export class Config implements IConfig {
 
     public metrics: MetricsConfig;
 
+    public paymentRule: PaymentRuleConfig;
+
+    public gas: GasConfig;
+
+    public rateLimit: RateLimitConfig;
+
+    public health: HealthConfig;
+    public shutdown: ShutdownConfig;
+    public leader: LeaderConfig;
+
     constructor() {
         this.server = new ServerConfig();
         this.database = new DatabaseConfig();
@@ -35,6 +45,12 @@ export class Config implements IConfig {
         this.relay = new RelayConfig();
         this.contracts = new ContractsConfig();
         this.metrics = new MetricsConfig();
+        this.paymentRule = new PaymentRuleConfig();
+        this.gas = new GasConfig();
+        this.rateLimit = new RateLimitConfig();
+        this.health = new HealthConfig();
+        this.shutdown = new ShutdownConfig();
+        this.leader = new LeaderConfig();
     }
 
     public static createWithArgument(): Config {
@@ -79,6 +95,12 @@ export class Config implements IConfig {
         this.relay.readFromObject(cfg.relay);
         this.contracts.readFromObject(cfg.contracts);
         this.metrics.readFromObject(cfg.metrics);
+        this.paymentRule.readFromObject(cfg.paymentRule);
+        this.gas.readFromObject(cfg.gas);
+        this.rateLimit.readFromObject(cfg.rateLimit);
+        this.health.readFromObject(cfg.health);
+        this.shutdown.readFromObject(cfg.shutdown);
+        this.leader.readFromObject(cfg.leader);
         //
         // console.log("Config.server", JSON.stringify(this.server));
         // console.log("Config.database", JSON.stringify(this.database));
@@ -89,12 +111,19 @@ export class Config implements IConfig {
         // console.log("Config.relay", JSON.stringify(this.relay));
         // console.log("Config.contracts", JSON.stringify(this.contracts));
         // console.log("Config.metrics", JSON.stringify(this.metrics));
+        // console.log("Config.paymentRule", JSON.stringify(this.paymentRule));
+        // console.log("Config.gas", JSON.stringify(this.gas));
+        // console.log("Config.rateLimit", JSON.stringify(this.rateLimit));
+        // console.log("Config.health", JSON.stringify(this.health));
+        // console.log("Config.shutdown", JSON.stringify(this.shutdown));
+        // console.log("Config.leader", JSON.stringify(this.leader));
     }
 }
 
 export class ServerConfig implements IServerConfig {
     public address: string;
     public port: number;
+    public trustProxy: boolean | number | string;
 
     constructor(address?: string, port?: number) {
         const conf = extend(true, {}, ServerConfig.defaultValue());
@@ -107,12 +136,14 @@ export class ServerConfig implements IServerConfig {
 
         this.address = conf.address;
         this.port = conf.port;
+        this.trustProxy = conf.trustProxy;
     }
 
     public static defaultValue(): IServerConfig {
         return {
             address: "127.0.0.1",
             port: 3000,
+            trustProxy: false,
         };
     }
 
@@ -126,6 +157,18 @@ export class ServerConfig implements IServerConfig {
         }
         this.address = conf.address;
         this.port = conf.port;
+        this.trustProxy = ServerConfig.toTrustProxy(conf.trustProxy);
+    }
+
+    /**
+     * express 의 "trust proxy" 에 사용되는 값. true/false, 프록시의 단계 수, 또는 신뢰하는 주소의 목록이다
+     */
+    private static toTrustProxy(value: boolean | number | string): boolean | number | string {
+        const text = String(value).trim();
+        if (text === "" || text.toLowerCase() === "false") return false;
+        if (text.toLowerCase() === "true") return true;
+        if (/^\d+$/.test(text)) return Number(text);
+        return text;
     }
 }
 
@@ -202,6 +245,23 @@ export class RelayConfig implements IRelayConfig {
     public accessKey: string;
     public callbackAccessKey: string;
     public callbackEndpoint: string;
+    public callbackSecrets: string[];
+    public callbackMaxAttempts: number;
+    public callbackRetryIntervalSecond: number;
+    public receiptKey: string;
+    public paymentTokenKey: string;
+    public paymentTokenSecond: number;
+    public paymentRequestLink: string;
+    public txRetryMaxAttempts: number;
+    public txRetryIntervalSecond: number;
+    public txRetryGasBumpPercent: number;
+    public txStuckSecond: number;
+    public txMaxSpeedUps: number;
+    public signerFundingKey: string;
+    public signerMinBalance: string;
+    public signerTopUpAmount: string;
+    public signerTopUpDailyCap: string;
+    public alertWebhook: string;
     public paymentTimeoutSecond: number;
     public approvalSecond: number;
     public forcedCloseSecond: number;
@@ -219,6 +279,23 @@ export class RelayConfig implements IRelayConfig {
         this.accessKey = defaults.accessKey;
         this.callbackAccessKey = defaults.callbackAccessKey;
         this.callbackEndpoint = defaults.callbackEndpoint;
+        this.callbackSecrets = defaults.callbackSecrets;
+        this.callbackMaxAttempts = defaults.callbackMaxAttempts;
+        this.callbackRetryIntervalSecond = defaults.callbackRetryIntervalSecond;
+        this.receiptKey = defaults.receiptKey;
+        this.paymentTokenKey = defaults.paymentTokenKey;
+        this.paymentTokenSecond = defaults.paymentTokenSecond;
+        this.paymentRequestLink = defaults.paymentRequestLink;
+        this.txRetryMaxAttempts = defaults.txRetryMaxAttempts;
+        this.txRetryIntervalSecond = defaults.txRetryIntervalSecond;
+        this.txRetryGasBumpPercent = defaults.txRetryGasBumpPercent;
+        this.txStuckSecond = defaults.txStuckSecond;
+        this.txMaxSpeedUps = defaults.txMaxSpeedUps;
+        this.signerFundingKey = defaults.signerFundingKey;
+        this.signerMinBalance = defaults.signerMinBalance;
+        this.signerTopUpAmount = defaults.signerTopUpAmount;
+        this.signerTopUpDailyCap = defaults.signerTopUpDailyCap;
+        this.alertWebhook = defaults.alertWebhook;
         this.paymentTimeoutSecond = defaults.paymentTimeoutSecond;
         this.approvalSecond = defaults.approvalSecond;
         this.forcedCloseSecond = defaults.forcedCloseSecond;
@@ -242,6 +319,23 @@ export class RelayConfig implements IRelayConfig {
             accessKey: process.env.ACCESS_SECRET || "",
             callbackAccessKey: process.env.CALLBACK_ACCESS_KEY || "",
             callbackEndpoint: process.env.CALLBACK_ENDPOINT || "",
+            callbackSecrets: [],
+            callbackMaxAttempts: 10,
+            callbackRetryIntervalSecond: 30,
+            receiptKey: process.env.RECEIPT_KEY || "",
+            paymentTokenKey: process.env.PAYMENT_TOKEN_KEY || "",
+            paymentTokenSecond: 180,
+            paymentRequestLink: process.env.PAYMENT_REQUEST_LINK || "",
+            txRetryMaxAttempts: 5,
+            txRetryIntervalSecond: 10,
+            txRetryGasBumpPercent: 20,
+            txStuckSecond: 120,
+            txMaxSpeedUps: 3,
+            signerFundingKey: process.env.SIGNER_FUNDING_KEY || "",
+            signerMinBalance: "1",
+            signerTopUpAmount: "5",
+            signerTopUpDailyCap: "50",
+            alertWebhook: process.env.ALERT_WEBHOOK || "",
             paymentTimeoutSecond: 45,
             approvalSecond: 3,
             forcedCloseSecond: 300,
@@ -259,6 +353,29 @@ export class RelayConfig implements IRelayConfig {
         if (config.accessKey !== undefined) this.accessKey = config.accessKey;
         if (config.callbackAccessKey !== undefined) this.callbackAccessKey = config.callbackAccessKey;
         if (config.callbackEndpoint !== undefined) this.callbackEndpoint = config.callbackEndpoint;
+        // 키를 교체하는 동안 사용하기 위해 최대 두개의 비밀키를 사용한다
+        if (config.callbackSecrets !== undefined)
+            this.callbackSecrets = config.callbackSecrets
+                .filter((m) => m !== undefined && m !== null && String(m).trim() !== "")
+                .map((m) => String(m).trim())
+                .slice(0, 2);
+        if (config.callbackMaxAttempts !== undefined) this.callbackMaxAttempts = config.callbackMaxAttempts;
+        if (config.callbackRetryIntervalSecond !== undefined)
+            this.callbackRetryIntervalSecond = config.callbackRetryIntervalSecond;
+        if (config.receiptKey !== undefined) this.receiptKey = config.receiptKey;
+        if (config.paymentTokenKey !== undefined) this.paymentTokenKey = config.paymentTokenKey;
+        if (config.paymentTokenSecond !== undefined) this.paymentTokenSecond = config.paymentTokenSecond;
+        if (config.paymentRequestLink !== undefined) this.paymentRequestLink = config.paymentRequestLink;
+        if (config.txRetryMaxAttempts !== undefined) this.txRetryMaxAttempts = config.txRetryMaxAttempts;
+        if (config.txRetryIntervalSecond !== undefined) this.txRetryIntervalSecond = config.txRetryIntervalSecond;
+        if (config.txRetryGasBumpPercent !== undefined) this.txRetryGasBumpPercent = config.txRetryGasBumpPercent;
+        if (config.txStuckSecond !== undefined) this.txStuckSecond = config.txStuckSecond;
+        if (config.txMaxSpeedUps !== undefined) this.txMaxSpeedUps = config.txMaxSpeedUps;
+        if (config.signerFundingKey !== undefined) this.signerFundingKey = config.signerFundingKey;
+        if (config.signerMinBalance !== undefined) this.signerMinBalance = config.signerMinBalance;
+        if (config.signerTopUpAmount !== undefined) this.signerTopUpAmount = config.signerTopUpAmount;
+        if (config.signerTopUpDailyCap !== undefined) this.signerTopUpDailyCap = config.signerTopUpDailyCap;
+        if (config.alertWebhook !== undefined) this.alertWebhook = config.alertWebhook;
         if (config.paymentTimeoutSecond !== undefined) this.paymentTimeoutSecond = config.paymentTimeoutSecond;
         if (config.approvalSecond !== undefined) this.approvalSecond = config.approvalSecond;
         if (config.forcedCloseSecond !== undefined) this.forcedCloseSecond = config.forcedCloseSecond;
@@ -459,9 +576,206 @@ export class SchedulerConfig implements ISchedulerConfig {
     }
 }
 
+export class PaymentRuleConfig implements IPaymentRuleConfig {
+    public enable: boolean;
+    public items: IPaymentRuleItemConfig[];
+
+    constructor() {
+        const defaults = PaymentRuleConfig.defaultValue();
+        this.enable = defaults.enable;
+        this.items = defaults.items;
+    }
+
+    public static defaultValue(): IPaymentRuleConfig {
+        return {
+            enable: false,
+            items: [],
+        } as unknown as IPaymentRuleConfig;
+    }
+
+    public readFromObject(config: IPaymentRuleConfig) {
+        this.enable = false;
+        this.items = [];
+        if (config === undefined) return;
+        if (config.enable !== undefined) this.enable = config.enable.toString().toLowerCase() === "true";
+        if (config.items !== undefined) this.items = config.items;
+    }
+}
+
+export class GasConfig implements IGasConfig {
+    public sideChain: IGasStrategyConfig;
+    public mainChain: IGasStrategyConfig;
+
+    constructor() {
+        const defaults = GasConfig.defaultValue();
+        this.sideChain = defaults.sideChain;
+        this.mainChain = defaults.mainChain;
+    }
+
+    public static defaultStrategy(): IGasStrategyConfig {
+        return {
+            strategy: "eip1559",
+            maxFeePerGas: "1.5",
+            maxPriorityFeePerGas: "1.5",
+            baseFeeMultiplier: 1.265625,
+            gasPriceMultiplier: 1,
+            percentile: 50,
+            blocks: 10,
+            capFeePerGas: "1000",
+        };
+    }
+
+    public static defaultValue(): IGasConfig {
+        return {
+            sideChain: GasConfig.defaultStrategy(),
+            mainChain: GasConfig.defaultStrategy(),
+        };
+    }
+
+    public readFromObject(config: IGasConfig) {
+        if (config === undefined) return;
+        if (config.sideChain !== undefined)
+            this.sideChain = extend(true, GasConfig.defaultStrategy(), config.sideChain);
+        if (config.mainChain !== undefined)
+            this.mainChain = extend(true, GasConfig.defaultStrategy(), config.mainChain);
+    }
+}
+
+export class RateLimitConfig implements IRateLimitConfig {
+    public enable: boolean;
+    public store: string;
+    public items: IRateLimitItemConfig[];
+
+    constructor() {
+        const defaults = RateLimitConfig.defaultValue();
+        this.enable = defaults.enable;
+        this.store = defaults.store;
+        this.items = defaults.items;
+    }
+
+    public static defaultValue(): IRateLimitConfig {
+        return {
+            enable: false,
+            store: "memory",
+            items: [],
+        };
+    }
+
+    public readFromObject(config: IRateLimitConfig) {
+        this.enable = false;
+        this.store = "memory";
+        this.items = [];
+        if (config === undefined) return;
+        if (config.enable !== undefined) this.enable = config.enable.toString().toLowerCase() === "true";
+        if (config.store !== undefined) this.store = config.store;
+        if (config.items !== undefined) this.items = config.items;
+    }
+}
+
+export class HealthConfig implements IHealthConfig {
+    public timeoutMillis: number;
+    public maxLatencyMillis: number;
+    public maxBlockLagSecond: number;
+    public minAvailableSigners: number;
+
+    constructor() {
+        const defaults = HealthConfig.defaultValue();
+        this.timeoutMillis = defaults.timeoutMillis;
+        this.maxLatencyMillis = defaults.maxLatencyMillis;
+        this.maxBlockLagSecond = defaults.maxBlockLagSecond;
+        this.minAvailableSigners = defaults.minAvailableSigners;
+    }
+
+    public static defaultValue(): IHealthConfig {
+        return {
+            timeoutMillis: 3000,
+            maxLatencyMillis: 1000,
+            maxBlockLagSecond: 60,
+            minAvailableSigners: 1,
+        };
+    }
+
+    public readFromObject(config: IHealthConfig) {
+        if (config === undefined) return;
+        if (config.timeoutMillis !== undefined) this.timeoutMillis = Number(config.timeoutMillis);
+        if (config.maxLatencyMillis !== undefined) this.maxLatencyMillis = Number(config.maxLatencyMillis);
+        if (config.maxBlockLagSecond !== undefined) this.maxBlockLagSecond = Number(config.maxBlockLagSecond);
+        if (config.minAvailableSigners !== undefined) this.minAvailableSigners = Number(config.minAvailableSigners);
+    }
+}
+
+export class ShutdownConfig implements IShutdownConfig {
+    public timeoutSecond: number;
+
+    constructor() {
+        const defaults = ShutdownConfig.defaultValue();
+        this.timeoutSecond = defaults.timeoutSecond;
+    }
+
+    public static defaultValue(): IShutdownConfig {
+        return {
+            timeoutSecond: 30,
+        };
+    }
+
+    public readFromObject(config: IShutdownConfig) {
+        if (config === undefined) return;
+        if (config.timeoutSecond !== undefined) this.timeoutSecond = Number(config.timeoutSecond);
+    }
+}
+
+export class LeaderConfig implements ILeaderConfig {
+    public enable: boolean;
+    public instanceId: string;
+    public leaseSecond: number;
+    public renewSecond: number;
+    public schedulers: string[];
+
+    constructor() {
+        const defaults = LeaderConfig.defaultValue();
+        this.enable = defaults.enable;
+        this.instanceId = defaults.instanceId;
+        this.leaseSecond = defaults.leaseSecond;
+        this.renewSecond = defaults.renewSecond;
+        this.schedulers = defaults.schedulers;
+    }
+
+    public static defaultValue(): ILeaderConfig {
+        return {
+            enable: false,
+            instanceId: "",
+            leaseSecond: 15,
+            renewSecond: 5,
+            schedulers: [
+                "approval",
+                "close",
+                "watch",
+                "purchase",
+                "delegatorApproval",
+                "callback",
+                "reconciliation",
+                "paymentRequest",
+                "txRetry",
+                "signer",
+                "signerBalance",
+            ],
+        };
+    }
+
+    public readFromObject(config: ILeaderConfig) {
+        if (config === undefined) return;
+        if (config.enable !== undefined) this.enable = config.enable.toString().toLowerCase() === "true";
+        if (config.instanceId !== undefined) this.instanceId = config.instanceId.toString();
+        if (config.leaseSecond !== undefined) this.leaseSecond = Number(config.leaseSecond);
+        if (config.renewSecond !== undefined) this.renewSecond = Number(config.renewSecond);
+        if (config.schedulers !== undefined) this.schedulers = config.schedulers.map((m) => m.toString());
+    }
+}
+
 export interface IServerConfig {
     address: string;
     port: number;
+    trustProxy: boolean | number | string;
 }
 
 export interface IDatabaseConfig {
@@ -484,6 +798,23 @@ export interface IRelayConfig {
     accessKey: string;
     callbackAccessKey: string;
     callbackEndpoint: string;
+    callbackSecrets: string[];
+    callbackMaxAttempts: number;
+    callbackRetryIntervalSecond: number;
+    receiptKey: string;
+    paymentTokenKey: string;
+    paymentTokenSecond: number;
+    paymentRequestLink: string;
+    txRetryMaxAttempts: number;
+    txRetryIntervalSecond: number;
+    txRetryGasBumpPercent: number;
+    txStuckSecond: number;
+    txMaxSpeedUps: number;
+    signerFundingKey: string;
+    signerMinBalance: string;
+    signerTopUpAmount: string;
+    signerTopUpDailyCap: string;
+    alertWebhook: string;
     paymentTimeoutSecond: number;
     approvalSecond: number;
     forcedCloseSecond: number;
@@ -532,6 +863,19 @@ export interface ISchedulerConfig {
     getScheduler(name: string): ISchedulerItemConfig | undefined;
 }
 
+export interface IPaymentRuleItemConfig {
+    name: string;
+    enable: boolean;
+    periodSecond?: number;
+    count?: number;
+    point?: string;
+}
+
+export interface IPaymentRuleConfig {
+    enable: boolean;
+    items: IPaymentRuleItemConfig[];
+}
+
 export interface IAddressItem {
     name: string;
     address: string;
@@ -541,6 +885,75 @@ export interface IMetricsConfig {
     accounts: IAddressItem[];
 }
 
+/**
+ * 수수료의 단위는 gwei 이다
+ */
+export interface IGasStrategyConfig {
+    strategy: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+    baseFeeMultiplier: number;
+    gasPriceMultiplier: number;
+    percentile: number;
+    blocks: number;
+    capFeePerGas: string;
+}
+
+export interface IGasConfig {
+    sideChain: IGasStrategyConfig;
+    mainChain: IGasStrategyConfig;
+}
+
+/**
+ * route 는 "POST /v1/ledger/transfer" 와 같이 메소드와 경로로 지정한다.
+ * 경로가 * 로 끝나면 그 앞부분으로 시작하는 모든 경로에 적용되며, "*" 는 다른 항목에 해당하지 않는 모든 요청에 적용된다.
+ * ip, apiKey, account 는 periodSecond 초 동안 허용되는 요청의 수이며, 0 이거나 없으면 제한하지 않는다.
+ */
+export interface IRateLimitItemConfig {
+    route: string;
+    periodSecond: number;
+    ip?: number;
+    apiKey?: number;
+    account?: number;
+}
+
+export interface IRateLimitConfig {
+    enable: boolean;
+    store: string;
+    items: IRateLimitItemConfig[];
+}
+
+/**
+ * /health/ready 의 기준. 각 검사는 timeoutMillis 안에 끝나야 하며, maxLatencyMillis 를 넘으면 degraded 이다.
+ * 체인의 마지막 블록이 maxBlockLagSecond 초보다 오래되었거나, 사용할 수 있는 서명자가 minAvailableSigners 보다 적으면 down 이다.
+ */
+export interface IHealthConfig {
+    timeoutMillis: number;
+    maxLatencyMillis: number;
+    maxBlockLagSecond: number;
+    minAvailableSigners: number;
+}
+
+/**
+ * SIGINT, SIGTERM 을 받았을 때 진행중인 요청과 스케줄러의 작업을 기다리는 최대 시간
+ */
+export interface IShutdownConfig {
+    timeoutSecond: number;
+}
+
+/**
+ * 여러 릴레이가 함께 운영될 때 schedulers 의 스케줄러는 데이터베이스의 임대를 가진 하나의 릴레이에서만 실행된다.
+ * 임대는 renewSecond 초마다 갱신되며, 갱신되지 않으면 leaseSecond 초 후에 다른 릴레이가 가져간다.
+ * instanceId 가 비어 있으면 호스트의 이름과 프로세스의 번호로 만든다.
+ */
+export interface ILeaderConfig {
+    enable: boolean;
+    instanceId: string;
+    leaseSecond: number;
+    renewSecond: number;
+    schedulers: string[];
+}
+
 export interface IConfig {
     server: IServerConfig;
     database: IDatabaseConfig;
@@ -551,4 +964,10 @@ export interface IConfig {
     relay: IRelayConfig;
     contracts: IContractsConfig;
     metrics: IMetricsConfig;
+    paymentRule: IPaymentRuleConfig;
+    gas: IGasConfig;
+    rateLimit: IRateLimitConfig;
+    health: IHealthConfig;
+    shutdown: IShutdownConfig;
+    leader: ILeaderConfig;
 }
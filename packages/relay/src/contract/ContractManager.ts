@@ -20,6 +20,8 @@ import * as hre from "hardhat";
 // tslint:disable-next-line:no-submodule-imports
 import { HttpNetworkConfig } from "hardhat/src/types/config";
 import { ContractUtils } from "../utils/ContractUtils";
+import { GasPriceManager } from "./GasPriceManager";
+import { GasStrategyFactory } from "./GasStrategy";
 
 export class ContractManager {
     private readonly config: Config;
@@ -61,6 +63,7 @@ export class ContractManager {
         this._sideChainProvider = hre.ethers.provider;
         this._sideChainId = (await this._sideChainProvider.getNetwork()).chainId;
         logger.info(`SideChain.ChainId: ${this._sideChainId}`);
+        GasPriceManager.setStrategy(this._sideChainId, GasStrategyFactory.create(this.config.gas.sideChain));
 
         this._sideChainURL = this.config.contracts.sideChain.url;
         if (this._sideChainURL === "") {
@@ -149,6 +152,8 @@ export class ContractManager {
         this._mainChainProvider = hre.ethers.provider;
         this._mainChainId = (await this._mainChainProvider.getNetwork()).chainId;
         logger.info(`MainChain.ChainId: ${this._mainChainId}`);
+        if (this._mainChainId !== this._sideChainId)
+            GasPriceManager.setStrategy(this._mainChainId, GasStrategyFactory.create(this.config.gas.mainChain));
 
         this._mainChainURL = this.config.contracts.mainChain.url;
         if (this._mainChainURL === "") {
@@ -1,8 +1,24 @@
 "use strict";
 
+import { Metrics } from "../metrics/Metrics";
+import { capGasFees, EIP1559GasStrategy, IGasFees, IGasStrategy } from "./GasStrategy";
+
 import { BigNumber, ethers } from "ethers";
 
 export class GasPriceManager extends ethers.Signer {
+    public static readonly MAX_PRIORITY_FEE_PER_GAS = 1500000000;
+
+    /**
+     * 수수료 전략이 지정되지 않은 체인에 사용되는 전략
+     */
+    private static readonly DEFAULT_STRATEGY: IGasStrategy = new EIP1559GasStrategy(
+        BigNumber.from(GasPriceManager.MAX_PRIORITY_FEE_PER_GAS),
+        1.265625,
+        ethers.utils.parseUnits("1000", "gwei")
+    );
+    private static strategies: Map<number, IGasStrategy> = new Map<number, IGasStrategy>();
+    private static metrics: Metrics | undefined;
+
     readonly signer: ethers.Signer;
 
     constructor(signer: ethers.Signer) {
@@ -33,30 +49,103 @@ export class GasPriceManager extends ethers.Signer {
         return this.signer.signTransaction(transaction);
     }
 
-    sendTransaction(
+    public static setStrategy(chainId: number, strategy: IGasStrategy) {
+        GasPriceManager.strategies.set(chainId, strategy);
+    }
+
+    public static setMetrics(metrics: Metrics) {
+        GasPriceManager.metrics = metrics;
+    }
+
+    public static async getStrategy(provider: ethers.providers.Provider): Promise<IGasStrategy> {
+        const chainId = (await provider.getNetwork()).chainId;
+        const strategy = GasPriceManager.strategies.get(chainId);
+        return strategy !== undefined ? strategy : GasPriceManager.DEFAULT_STRATEGY;
+    }
+
+    /**
+     * 체인에 지정된 전략으로 계산한 수수료. 선택된 수수료는 gas_fee_per_gas 히스토그램에 기록된다.
+     */
+    public static async getFees(provider?: ethers.providers.Provider): Promise<IGasFees> {
+        if (provider === undefined) {
+            return {
+                maxFeePerGas: BigNumber.from(GasPriceManager.MAX_PRIORITY_FEE_PER_GAS),
+                maxPriorityFeePerGas: BigNumber.from(GasPriceManager.MAX_PRIORITY_FEE_PER_GAS),
+            };
+        }
+        const chainId = (await provider.getNetwork()).chainId;
+        const strategy = await GasPriceManager.getStrategy(provider);
+        const fees = await strategy.getFees(provider);
+        GasPriceManager.observe(chainId, strategy.name, fees);
+        return fees;
+    }
+
+    private static observe(chainId: number, strategy: string, fees: IGasFees) {
+        if (GasPriceManager.metrics === undefined) return;
+        const toGwei = (value: BigNumber) => Number(ethers.utils.formatUnits(value, "gwei"));
+        const labels = { chainId: String(chainId), strategy };
+        if (fees.gasPrice !== undefined) {
+            GasPriceManager.metrics.histogramObserve(
+                "gas_fee_per_gas",
+                { ...labels, type: "gasPrice" },
+                toGwei(fees.gasPrice)
+            );
+        } else {
+            GasPriceManager.metrics.histogramObserve(
+                "gas_fee_per_gas",
+                { ...labels, type: "maxFeePerGas" },
+                toGwei(fees.maxFeePerGas)
+            );
+            GasPriceManager.metrics.histogramObserve(
+                "gas_fee_per_gas",
+                { ...labels, type: "maxPriorityFeePerGas" },
+                toGwei(fees.maxPriorityFeePerGas)
+            );
+        }
+    }
+
+    /**
+     * value 를 percent 만큼 times 번 올린다
+     */
+    public static bump(value: BigNumber, percent: number, times: number): BigNumber {
+        let result = BigNumber.from(value);
+        for (let idx = 0; idx < times; idx++) result = result.mul(100 + percent).div(100);
+        return result;
+    }
+
+    /**
+     * 수수료가 지정된 트랜잭션(재전송)은 그 수수료를 전략의 상한 안에서 사용한다.
+     * 전략이 gasPrice 를 사용하면 지정된 maxFeePerGas 를 gasPrice 로 사용한다.
+     */
+    async sendTransaction(
         transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
     ): Promise<ethers.providers.TransactionResponse> {
         const provider = this.signer.provider;
-        if (provider === undefined) {
-            const maxPriorityFeePerGas = 1500000000;
-            const maxFeePerGas = maxPriorityFeePerGas;
-
-            transaction.maxPriorityFeePerGas = BigNumber.from(maxPriorityFeePerGas);
-            transaction.maxFeePerGas = BigNumber.from(maxFeePerGas);
-            return this.signer.sendTransaction(transaction).then((tx) => {
-                return tx;
-            });
+        let fees: IGasFees;
+        if (transaction.maxFeePerGas !== undefined && transaction.maxPriorityFeePerGas !== undefined) {
+            if (provider === undefined) return this.signer.sendTransaction(transaction);
+            const strategy = await GasPriceManager.getStrategy(provider);
+            const maxFeePerGas = BigNumber.from(await transaction.maxFeePerGas);
+            fees = capGasFees(
+                {
+                    maxFeePerGas,
+                    maxPriorityFeePerGas: BigNumber.from(await transaction.maxPriorityFeePerGas),
+                    gasPrice: strategy.name === "legacy" ? maxFeePerGas : undefined,
+                },
+                strategy.cap
+            );
+        } else {
+            fees = await GasPriceManager.getFees(provider);
+        }
+
+        if (fees.gasPrice !== undefined) {
+            delete transaction.maxFeePerGas;
+            delete transaction.maxPriorityFeePerGas;
+            transaction.gasPrice = fees.gasPrice;
+        } else {
+            transaction.maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
+            transaction.maxFeePerGas = fees.maxFeePerGas;
         }
-        return provider.getBlock("latest").then((block) => {
-            const baseFeePerGas = block.baseFeePerGas != null ? block.baseFeePerGas.toNumber() : 0;
-            const maxPriorityFeePerGas = 1500000000;
-            const maxFeePerGas = Math.floor(baseFeePerGas * 1.265625) + maxPriorityFeePerGas;
-
-            transaction.maxPriorityFeePerGas = BigNumber.from(maxPriorityFeePerGas);
-            transaction.maxFeePerGas = BigNumber.from(maxFeePerGas);
-            return this.signer.sendTransaction(transaction).then((tx) => {
-                return tx;
-            });
-        });
+        return this.signer.sendTransaction(transaction);
     }
 }
@@ -0,0 +1,198 @@
+import { IGasStrategyConfig } from "../common/Config";
+import { logger } from "../common/Logger";
+
+import { BigNumber, ethers } from "ethers";
+
+export interface IGasFees {
+    maxFeePerGas: BigNumber;
+    maxPriorityFeePerGas: BigNumber;
+    gasPrice?: BigNumber;
+}
+
+/**
+ * 트랜잭션의 수수료를 결정하는 방법
+ * gasPrice 가 있으면 EIP-1559 를 지원하지 않는 체인이다.
+ */
+export interface IGasStrategy {
+    readonly name: string;
+    readonly cap: BigNumber;
+    getFees(provider: ethers.providers.Provider): Promise<IGasFees>;
+}
+
+/**
+ * 상한을 넘는 수수료를 상한으로 제한한다
+ */
+export function capGasFees(fees: IGasFees, cap: BigNumber): IGasFees {
+    const res: IGasFees = {
+        maxFeePerGas: fees.maxFeePerGas.gt(cap) ? cap : fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas.gt(cap) ? cap : fees.maxPriorityFeePerGas,
+    };
+    if (res.maxPriorityFeePerGas.gt(res.maxFeePerGas)) res.maxFeePerGas = res.maxPriorityFeePerGas;
+    if (fees.gasPrice !== undefined) res.gasPrice = fees.gasPrice.gt(cap) ? cap : fees.gasPrice;
+    return res;
+}
+
+function toWei(gwei: string): BigNumber {
+    return ethers.utils.parseUnits(String(gwei), "gwei");
+}
+
+function multiply(value: BigNumber, multiplier: number): BigNumber {
+    return value.mul(Math.round(multiplier * 1000000)).div(1000000);
+}
+
+/**
+ * 설정된 수수료를 그대로 사용한다
+ */
+export class FixedGasStrategy implements IGasStrategy {
+    public readonly name = "fixed";
+    public readonly cap: BigNumber;
+    private readonly maxFeePerGas: BigNumber;
+    private readonly maxPriorityFeePerGas: BigNumber;
+
+    constructor(maxFeePerGas: BigNumber, maxPriorityFeePerGas: BigNumber, cap: BigNumber) {
+        this.maxFeePerGas = maxFeePerGas;
+        this.maxPriorityFeePerGas = maxPriorityFeePerGas;
+        this.cap = cap;
+    }
+
+    public async getFees(provider: ethers.providers.Provider): Promise<IGasFees> {
+        return capGasFees(
+            { maxFeePerGas: this.maxFeePerGas, maxPriorityFeePerGas: this.maxPriorityFeePerGas },
+            this.cap
+        );
+    }
+}
+
+/**
+ * 최신 블럭의 기본수수료에 배수를 곱하고 우선수수료를 더한다
+ */
+export class EIP1559GasStrategy implements IGasStrategy {
+    public readonly name = "eip1559";
+    public readonly cap: BigNumber;
+    private readonly maxPriorityFeePerGas: BigNumber;
+    private readonly baseFeeMultiplier: number;
+
+    constructor(maxPriorityFeePerGas: BigNumber, baseFeeMultiplier: number, cap: BigNumber) {
+        this.maxPriorityFeePerGas = maxPriorityFeePerGas;
+        this.baseFeeMultiplier = baseFeeMultiplier;
+        this.cap = cap;
+    }
+
+    public async getFees(provider: ethers.providers.Provider): Promise<IGasFees> {
+        const block = await provider.getBlock("latest");
+        const baseFeePerGas = block.baseFeePerGas != null ? block.baseFeePerGas : BigNumber.from(0);
+        return capGasFees(
+            {
+                maxFeePerGas: multiply(baseFeePerGas, this.baseFeeMultiplier).add(this.maxPriorityFeePerGas),
+                maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+            },
+            this.cap
+        );
+    }
+}
+
+/**
+ * 최근 블럭들의 eth_feeHistory 에서 우선수수료의 백분위수를 구하고, 다음 블럭의 기본수수료에 배수를 곱하여 더한다
+ */
+export class FeeHistoryGasStrategy implements IGasStrategy {
+    public readonly name = "feeHistory";
+    public readonly cap: BigNumber;
+    private readonly percentile: number;
+    private readonly blocks: number;
+    private readonly baseFeeMultiplier: number;
+    private readonly minPriorityFeePerGas: BigNumber;
+
+    constructor(
+        percentile: number,
+        blocks: number,
+        baseFeeMultiplier: number,
+        minPriorityFeePerGas: BigNumber,
+        cap: BigNumber
+    ) {
+        this.percentile = percentile;
+        this.blocks = blocks;
+        this.baseFeeMultiplier = baseFeeMultiplier;
+        this.minPriorityFeePerGas = minPriorityFeePerGas;
+        this.cap = cap;
+    }
+
+    public async getFees(provider: ethers.providers.Provider): Promise<IGasFees> {
+        const history = await (provider as ethers.providers.JsonRpcProvider).send("eth_feeHistory", [
+            ethers.utils.hexValue(this.blocks),
+            "latest",
+            [this.percentile],
+        ]);
+        const rewards: BigNumber[] = (history.reward || [])
+            .map((m: string[]) => BigNumber.from(m[0]))
+            .filter((m: BigNumber) => m.gt(0))
+            .sort((a: BigNumber, b: BigNumber) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+        let maxPriorityFeePerGas = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : BigNumber.from(0);
+        if (maxPriorityFeePerGas.lt(this.minPriorityFeePerGas)) maxPriorityFeePerGas = this.minPriorityFeePerGas;
+
+        // baseFeePerGas 의 마지막 값은 다음 블럭의 기본수수료이다
+        const baseFees: string[] = history.baseFeePerGas || [];
+        const baseFeePerGas = baseFees.length > 0 ? BigNumber.from(baseFees[baseFees.length - 1]) : BigNumber.from(0);
+        return capGasFees(
+            {
+                maxFeePerGas: multiply(baseFeePerGas, this.baseFeeMultiplier).add(maxPriorityFeePerGas),
+                maxPriorityFeePerGas,
+            },
+            this.cap
+        );
+    }
+}
+
+/**
+ * EIP-1559 를 지원하지 않는 체인을 위해 노드의 gasPrice 에 배수를 곱한다
+ */
+export class LegacyGasStrategy implements IGasStrategy {
+    public readonly name = "legacy";
+    public readonly cap: BigNumber;
+    private readonly gasPriceMultiplier: number;
+
+    constructor(gasPriceMultiplier: number, cap: BigNumber) {
+        this.gasPriceMultiplier = gasPriceMultiplier;
+        this.cap = cap;
+    }
+
+    public async getFees(provider: ethers.providers.Provider): Promise<IGasFees> {
+        const gasPrice = multiply(await provider.getGasPrice(), this.gasPriceMultiplier);
+        return capGasFees({ maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice, gasPrice }, this.cap);
+    }
+}
+
+export class GasStrategyFactory {
+    /**
+     * 설정파일의 gas 항목으로 수수료 전략을 생성한다. 지원하지 않는 전략이면 eip1559 를 사용한다.
+     */
+    public static create(config: IGasStrategyConfig): IGasStrategy {
+        const cap = toWei(config.capFeePerGas);
+        switch (config.strategy) {
+            case "fixed":
+                return new FixedGasStrategy(toWei(config.maxFeePerGas), toWei(config.maxPriorityFeePerGas), cap);
+            case "eip1559":
+                return new EIP1559GasStrategy(
+                    toWei(config.maxPriorityFeePerGas),
+                    Number(config.baseFeeMultiplier),
+                    cap
+                );
+            case "feeHistory":
+                return new FeeHistoryGasStrategy(
+                    Number(config.percentile),
+                    Number(config.blocks),
+                    Number(config.baseFeeMultiplier),
+                    toWei(config.maxPriorityFeePerGas),
+                    cap
+                );
+            case "legacy":
+                return new LegacyGasStrategy(Number(config.gasPriceMultiplier), cap);
+            default:
+                logger.warn(`The gas strategy '${config.strategy}' is not supported.`);
+                return new EIP1559GasStrategy(
+                    toWei(config.maxPriorityFeePerGas),
+                    Number(config.baseFeeMultiplier),
+                    cap
+                );
+        }
+    }
+}
@@ -0,0 +1,61 @@
+"use strict";
+
+import { TransactionManager } from "./TransactionManager";
+
+import { ethers } from "ethers";
+
+/**
+ * 데이터베이스에서 할당한 논스로 트랜잭션을 전송하고, 전송된 트랜잭션을 TransactionManager 에 기록한다
+ */
+export class ManagedSigner extends ethers.Signer {
+    readonly signer: ethers.Signer;
+    readonly manager: TransactionManager;
+
+    constructor(signer: ethers.Signer, manager: TransactionManager) {
+        super();
+        this.signer = signer;
+        this.manager = manager;
+        ethers.utils.defineReadOnly(this, "signer", signer);
+        ethers.utils.defineReadOnly(this, "manager", manager);
+        // @ts-ignore
+        ethers.utils.defineReadOnly(this, "provider", signer.provider || null);
+    }
+
+    connect(provider: ethers.providers.Provider): ManagedSigner {
+        return new ManagedSigner(this.signer.connect(provider), this.manager);
+    }
+
+    getAddress(): Promise<string> {
+        return this.signer.getAddress();
+    }
+
+    signMessage(message: ethers.Bytes | string): Promise<string> {
+        return this.signer.signMessage(message);
+    }
+
+    signTransaction(transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>): Promise<string> {
+        return this.signer.signTransaction(transaction);
+    }
+
+    async sendTransaction(
+        transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+    ): Promise<ethers.providers.TransactionResponse> {
+        const provider = this.signer.provider;
+        if (provider === undefined || transaction.nonce !== undefined) return this.signer.sendTransaction(transaction);
+
+        const address = await this.getAddress();
+        const { chainId, nonce } = await this.manager.allocateNonce(address, provider);
+        const request = ethers.utils.shallowCopy(transaction);
+        request.nonce = nonce;
+
+        let tx: ethers.providers.TransactionResponse;
+        try {
+            tx = await this.signer.sendTransaction(request);
+        } catch (error) {
+            await this.manager.releaseNonce(chainId, address, nonce);
+            throw error;
+        }
+        await this.manager.recordSent(chainId, address, tx);
+        return tx;
+    }
+}
@@ -2,10 +2,13 @@ import "@nomiclabs/hardhat-ethers";
 
 import { Signer, Wallet } from "ethers";
 import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
 
-import { NonceManager } from "@ethersproject/experimental";
+import { RelayStorage } from "../storage/RelayStorage";
 import { ContractUtils } from "../utils/ContractUtils";
 import { GasPriceManager } from "./GasPriceManager";
+import { ManagedSigner } from "./ManagedSigner";
+import { TransactionManager } from "./TransactionManager";
 
 import { ethers } from "ethers";
 import * as hre from "hardhat";
@@ -17,11 +20,21 @@ export interface ISignerItem {
 }
 
 export class RelaySigners {
+    /**
+     * 다른 릴레이가 변경한 제외된 서명자의 목록을 다시 읽는 주기(초)
+     */
+    private static readonly EXCLUDED_REFRESH_SECOND = 10;
+
     private readonly _config: Config;
+    private readonly _storage: RelayStorage;
     private readonly _signers: ISignerItem[];
+    private readonly _transactionManager: TransactionManager;
+    private _excluded: Set<string>;
+    private _excludedLoadedAt: number = 0;
 
-    constructor(config: Config) {
+    constructor(config: Config, storage: RelayStorage) {
         this._config = config;
+        this._storage = storage;
 
         this._signers = this._config.relay.managerKeys.map((m) => {
             return {
@@ -30,6 +43,63 @@ export class RelaySigners {
                 using: false,
             };
         });
+        this._transactionManager = new TransactionManager(
+            this._config,
+            storage,
+            this._signers.map((m) => m.wallet)
+        );
+        this._excluded = new Set<string>();
+    }
+
+    public get transactionManager(): TransactionManager {
+        return this._transactionManager;
+    }
+
+    public get addresses(): string[] {
+        return this._transactionManager.addresses;
+    }
+
+    /***
+     * 잔고가 부족하여 충전할 수 없는 서명자는 선택되지 않도록 한다.
+     * 잔고는 지도자인 릴레이만 검사하므로 데이터베이스에 저장하여 다른 릴레이도 같은 서명자를 제외하도록 한다
+     */
+    public async setExcluded(chainId: number, address: string, excluded: boolean) {
+        if (excluded) await this._storage.postSignerExclusion(chainId, address);
+        else await this._storage.removeSignerExclusion(chainId, address);
+
+        const key = `${chainId}:${address.toLowerCase()}`;
+        if (excluded) this._excluded.add(key);
+        else this._excluded.delete(key);
+    }
+
+    /***
+     * 데이터베이스에서 제외된 서명자의 목록을 읽는다. force 가 아니면 EXCLUDED_REFRESH_SECOND 마다 한번만 읽는다.
+     * 읽지 못하면 이전의 목록을 계속 사용한다
+     */
+    public async refreshExcluded(force: boolean = false) {
+        const timestamp = ContractUtils.getTimeStamp();
+        if (!force && timestamp - this._excludedLoadedAt < RelaySigners.EXCLUDED_REFRESH_SECOND) return;
+        try {
+            const rows = await this._storage.getSignerExclusions();
+            this._excluded = new Set<string>(rows.map((m) => `${m.chainId}:${m.address.toLowerCase()}`));
+            this._excludedLoadedAt = timestamp;
+        } catch (error) {
+            logger.error(`Failed to load the excluded signers: ${error}`);
+        }
+    }
+
+    public isExcluded(chainId: number, address: string): boolean {
+        return this._excluded.has(`${chainId}:${address.toLowerCase()}`);
+    }
+
+    /***
+     * 체인에서 사용할 수 있는 서명자의 수. 사용중인 서명자도 곧 반환되므로 사용할 수 있는 것으로 센다
+     */
+    public getAvailability(chainId: number): { total: number; using: number; excluded: number; available: number } {
+        const total = this._signers.length;
+        const excluded = this._signers.filter((m) => this.isExcluded(chainId, m.wallet.address)).length;
+        const using = this._signers.filter((m) => m.using).length;
+        return { total, using, excluded, available: total - excluded };
     }
 
     /***
@@ -40,10 +110,12 @@ export class RelaySigners {
         let signerItem: ISignerItem | undefined;
 
         if (provider === undefined) provider = hre.ethers.provider;
+        const chainId = (await provider.getNetwork()).chainId;
+        await this.refreshExcluded();
 
         const startTime = ContractUtils.getTimeStamp();
         while (true) {
-            const findIndex = this._signers.findIndex((m) => !m.using);
+            const findIndex = this._signers.findIndex((m) => !m.using && !this.isExcluded(chainId, m.wallet.address));
             if (findIndex >= 0) {
                 this._signers.push(...this._signers.splice(findIndex, 1));
                 signerItem = this._signers[this._signers.length - 1];
@@ -56,11 +128,17 @@ export class RelaySigners {
 
         if (signerItem !== undefined) {
             signerItem.using = true;
-            signerItem.signer = new NonceManager(new GasPriceManager(signerItem.wallet.connect(provider)));
+            signerItem.signer = new ManagedSigner(
+                new GasPriceManager(signerItem.wallet.connect(provider)),
+                this._transactionManager
+            );
         } else {
-            signerItem = this._signers[0];
+            signerItem = this._signers.find((m) => !this.isExcluded(chainId, m.wallet.address)) || this._signers[0];
             signerItem.using = true;
-            signerItem.signer = new NonceManager(new GasPriceManager(signerItem.wallet.connect(provider)));
+            signerItem.signer = new ManagedSigner(
+                new GasPriceManager(signerItem.wallet.connect(provider)),
+                this._transactionManager
+            );
         }
 
         return signerItem;
@@ -75,4 +153,17 @@ export class RelaySigners {
             signer.using = false;
         }, 200);
     }
+
+    /***
+     * 사용중인 모든 서명자가 반환될 때 까지 대기한다. 종료할 때 전송중인 트랜잭션을 기다리기 위해 사용된다
+     * @param timeout Timeout milli seconds
+     */
+    public async waitForRelease(timeout: number): Promise<boolean> {
+        const start = new Date().getTime();
+        while (this._signers.some((m) => m.using)) {
+            if (new Date().getTime() - start >= timeout) return false;
+            await ContractUtils.delay(10);
+        }
+        return true;
+    }
 }
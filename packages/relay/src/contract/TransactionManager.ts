@@ -0,0 +1,240 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { RelayStorage } from "../storage/RelayStorage";
+import { SignerTxData, SignerTxStatus } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { GasPriceManager } from "./GasPriceManager";
+
+import { BigNumber, ethers, Wallet } from "ethers";
+
+export interface ISignerStatus {
+    address: string;
+    pendingCount: number;
+    lastConfirmedNonce: number;
+    nextNonce: number;
+    balance: BigNumber;
+}
+
+/**
+ * 서명자의 논스와 전송한 트랜잭션을 데이터베이스에 저장하여
+ * 릴레이가 재시작되거나 여러 릴레이가 함께 실행되어도 논스가 겹치지 않게 한다.
+ * 지연된 트랜잭션은 수수료를 올려서 같은 논스로 다시 전송하고, 정해진 횟수를 넘으면 취소한다.
+ */
+export class TransactionManager {
+    private static readonly CANCEL_GAS_LIMIT = 21000;
+
+    /**
+     * 한번의 검사에서 채우는 최대 논스의 수
+     */
+    private static readonly MAX_GAP_FILL = 10;
+
+    private readonly config: Config;
+    private readonly storage: RelayStorage;
+    private readonly wallets: Wallet[];
+
+    constructor(config: Config, storage: RelayStorage, wallets: Wallet[]) {
+        this.config = config;
+        this.storage = storage;
+        this.wallets = [];
+        for (const wallet of wallets) {
+            if (this.wallets.find((m) => m.address === wallet.address) === undefined) this.wallets.push(wallet);
+        }
+    }
+
+    public get addresses(): string[] {
+        return this.wallets.map((m) => m.address);
+    }
+
+    public async allocateNonce(
+        address: string,
+        provider: ethers.providers.Provider
+    ): Promise<{ chainId: number; nonce: number }> {
+        const chainId = (await provider.getNetwork()).chainId;
+        const chainNonce = await provider.getTransactionCount(address, "pending");
+        const nonce = await this.storage.allocateSignerNonce(chainId, address, chainNonce);
+        return { chainId, nonce };
+    }
+
+    public async releaseNonce(chainId: number, address: string, nonce: number) {
+        try {
+            await this.storage.releaseSignerNonce(chainId, address, nonce);
+        } catch (error) {
+            logger.error(`Failed to release the nonce ${nonce} of the signer ${address}: ${error}`);
+        }
+    }
+
+    public async recordSent(chainId: number, address: string, tx: ethers.providers.TransactionResponse) {
+        const timestamp = ContractUtils.getTimeStamp();
+        try {
+            await this.storage.postSignerTransaction({
+                chainId,
+                address,
+                nonce: tx.nonce,
+                txHash: tx.hash,
+                to: tx.to !== undefined && tx.to !== null ? tx.to : "",
+                data: tx.data,
+                value: tx.value,
+                gasLimit: tx.gasLimit,
+                maxFeePerGas: tx.maxFeePerGas !== undefined ? tx.maxFeePerGas : tx.gasPrice || BigNumber.from(0),
+                maxPriorityFeePerGas:
+                    tx.maxPriorityFeePerGas !== undefined ? tx.maxPriorityFeePerGas : tx.gasPrice || BigNumber.from(0),
+                status: SignerTxStatus.PENDING,
+                speedUps: 0,
+                timestamp,
+                updatedTimestamp: timestamp,
+            });
+        } catch (error) {
+            logger.error(`Failed to record the transaction ${tx.hash} of the signer ${address}: ${error}`);
+        }
+    }
+
+    /**
+     * 블록에 포함된 트랜잭션을 확정하고, 지연된 트랜잭션을 교체하거나 취소한다
+     */
+    public async check(provider: ethers.providers.Provider) {
+        const chainId = (await provider.getNetwork()).chainId;
+        for (const wallet of this.wallets) {
+            try {
+                await this.checkSigner(chainId, wallet, provider);
+            } catch (error) {
+                logger.error(`Failed to check the transactions of the signer ${wallet.address}: ${error}`);
+            }
+        }
+    }
+
+    public async getStatus(provider: ethers.providers.Provider): Promise<ISignerStatus[]> {
+        const chainId = (await provider.getNetwork()).chainId;
+        const res: ISignerStatus[] = [];
+        for (const wallet of this.wallets) {
+            const latestNonce = await provider.getTransactionCount(wallet.address, "latest");
+            const pendingNonce = await provider.getTransactionCount(wallet.address, "pending");
+            const stored = await this.storage.getSignerNonce(chainId, wallet.address);
+            const pending = await this.storage.getSignerPendingTransactions(chainId, wallet.address);
+            res.push({
+                address: wallet.address,
+                pendingCount: pending.length,
+                lastConfirmedNonce: latestNonce - 1,
+                nextNonce: stored !== undefined ? Math.max(stored.nonce, pendingNonce) : pendingNonce,
+                balance: await provider.getBalance(wallet.address),
+            });
+        }
+        return res;
+    }
+
+    private async checkSigner(chainId: number, wallet: Wallet, provider: ethers.providers.Provider) {
+        const timestamp = ContractUtils.getTimeStamp();
+        const latestNonce = await provider.getTransactionCount(wallet.address, "latest");
+        const pending = await this.storage.getSignerPendingTransactions(chainId, wallet.address);
+        const known = new Set<number>();
+        for (const item of pending) {
+            known.add(item.nonce);
+            if (item.nonce < latestNonce) {
+                item.status =
+                    item.status === SignerTxStatus.CANCELLING ? SignerTxStatus.CANCELLED : SignerTxStatus.CONFIRMED;
+                item.updatedTimestamp = timestamp;
+                await this.storage.updateSignerTransaction(item);
+                continue;
+            }
+            if (timestamp - item.updatedTimestamp < this.config.relay.txStuckSecond) continue;
+
+            if (item.status === SignerTxStatus.PENDING && item.speedUps < this.config.relay.txMaxSpeedUps) {
+                await this.replace(item, wallet, provider, false);
+            } else if (item.speedUps < this.config.relay.txMaxSpeedUps * 2) {
+                await this.replace(item, wallet, provider, true);
+            } else {
+                logger.warn(`The transaction ${item.txHash} of the signer ${wallet.address} is still pending`);
+            }
+        }
+
+        // 전송되지 못한 논스가 남아 있으면 이후의 트랜잭션이 처리되지 않으므로 취소 트랜잭션으로 채운다
+        const stored = await this.storage.getSignerNonce(chainId, wallet.address);
+        if (stored === undefined || timestamp - stored.timestamp < this.config.relay.txStuckSecond) return;
+        let filled = 0;
+        for (let nonce = latestNonce; nonce < stored.nonce && filled < TransactionManager.MAX_GAP_FILL; nonce++) {
+            if (known.has(nonce)) continue;
+            filled++;
+            await this.replace(
+                {
+                    chainId,
+                    address: wallet.address,
+                    nonce,
+                    txHash: "",
+                    to: wallet.address,
+                    data: "0x",
+                    value: BigNumber.from(0),
+                    gasLimit: BigNumber.from(TransactionManager.CANCEL_GAS_LIMIT),
+                    maxFeePerGas: BigNumber.from(0),
+                    maxPriorityFeePerGas: BigNumber.from(0),
+                    status: SignerTxStatus.CANCELLING,
+                    speedUps: 0,
+                    timestamp,
+                    updatedTimestamp: timestamp,
+                },
+                wallet,
+                provider,
+                true
+            );
+        }
+    }
+
+    /**
+     * 같은 논스로 수수료를 올린 트랜잭션을 전송한다. 취소는 서명자 자신에게 0 을 전송하는 트랜잭션이다.
+     */
+    private async replace(item: SignerTxData, wallet: Wallet, provider: ethers.providers.Provider, cancel: boolean) {
+        const percent = this.config.relay.txRetryGasBumpPercent;
+        const fees = await GasPriceManager.getFees(provider);
+        let maxPriorityFeePerGas = GasPriceManager.bump(item.maxPriorityFeePerGas, percent, 1);
+        if (fees.maxPriorityFeePerGas.gt(maxPriorityFeePerGas)) maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
+        let maxFeePerGas = GasPriceManager.bump(item.maxFeePerGas, percent, 1);
+        if (fees.maxFeePerGas.gt(maxFeePerGas)) maxFeePerGas = fees.maxFeePerGas;
+        if (maxPriorityFeePerGas.gt(maxFeePerGas)) maxFeePerGas = maxPriorityFeePerGas;
+
+        const request: ethers.providers.TransactionRequest = cancel
+            ? {
+                  to: wallet.address,
+                  data: "0x",
+                  value: 0,
+                  gasLimit: TransactionManager.CANCEL_GAS_LIMIT,
+              }
+            : {
+                  to: item.to !== "" ? item.to : undefined,
+                  data: item.data,
+                  value: item.value,
+                  gasLimit: item.gasLimit,
+              };
+        try {
+            const tx = await new GasPriceManager(wallet.connect(provider)).sendTransaction({
+                ...request,
+                nonce: item.nonce,
+                maxFeePerGas,
+                maxPriorityFeePerGas,
+            });
+            logger.info(
+                `TransactionManager.${cancel ? "cancel" : "speedUp"} ${wallet.address}:${item.nonce} ${
+                    item.txHash
+                } -> ${tx.hash}`
+            );
+            await this.storage.postSignerTransaction({
+                ...item,
+                txHash: tx.hash,
+                to: tx.to !== undefined && tx.to !== null ? tx.to : "",
+                data: tx.data,
+                value: tx.value,
+                gasLimit: tx.gasLimit,
+                maxFeePerGas: tx.maxFeePerGas !== undefined ? tx.maxFeePerGas : tx.gasPrice || maxFeePerGas,
+                maxPriorityFeePerGas:
+                    tx.maxPriorityFeePerGas !== undefined
+                        ? tx.maxPriorityFeePerGas
+                        : tx.gasPrice || maxPriorityFeePerGas,
+                status: cancel ? SignerTxStatus.CANCELLING : SignerTxStatus.PENDING,
+                speedUps: item.speedUps + 1,
+                updatedTimestamp: ContractUtils.getTimeStamp(),
+            });
+            // 결제와 상점작업은 새로운 해시의 트랜잭션을 기다려야 한다
+            if (item.txHash !== "") await this.storage.replaceTxHash(item.txHash, tx.hash);
+        } catch (error) {
+            // 기존의 트랜잭션이 블록에 포함되었으면 다음 검사에서 확정된다
+            logger.warn(`Failed to replace the transaction ${wallet.address}:${item.nonce}: ${error}`);
+        }
+    }
+}
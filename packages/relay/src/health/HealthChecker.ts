@@ -0,0 +1,155 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { RelaySigners } from "../contract/Signers";
+import { ILeadershipStatus, LeaderElector } from "../scheduler/LeaderElector";
+import { Storage } from "../storage/Storage";
+import { ContractUtils } from "../utils/ContractUtils";
+
+import { ethers } from "ethers";
+
+export type HealthStatus = "up" | "degraded" | "down";
+
+export interface IHealthComponent {
+    status: HealthStatus;
+    latencyMillis: number;
+    details?: any;
+    error?: string;
+}
+
+export interface IHealthReport {
+    status: HealthStatus;
+    ready: boolean;
+    timestamp: number;
+    components: { [name: string]: IHealthComponent };
+    leadership: ILeadershipStatus;
+}
+
+/**
+ * 릴레이가 의존하는 데이터베이스, 그래프 데이터베이스, 체인의 RPC, 서명자의 상태를 검사한다.
+ * 하나라도 down 이면 요청을 처리할 준비가 되지 않은 것이다. 스케줄러별로 지도자인지도 함께 보고한다.
+ */
+export class HealthChecker {
+    private readonly config: Config;
+    private readonly contractManager: ContractManager;
+    private readonly storage: Storage;
+    private readonly graph_sidechain: Storage;
+    private readonly graph_mainchain: Storage;
+    private readonly relaySigners: RelaySigners;
+    private readonly leaderElector: LeaderElector;
+
+    constructor(
+        config: Config,
+        contractManager: ContractManager,
+        storage: Storage,
+        graph_sidechain: Storage,
+        graph_mainchain: Storage,
+        relaySigners: RelaySigners,
+        leaderElector: LeaderElector
+    ) {
+        this.config = config;
+        this.contractManager = contractManager;
+        this.storage = storage;
+        this.graph_sidechain = graph_sidechain;
+        this.graph_mainchain = graph_mainchain;
+        this.relaySigners = relaySigners;
+        this.leaderElector = leaderElector;
+    }
+
+    public async check(): Promise<IHealthReport> {
+        const names = ["database", "graph_sidechain", "graph_mainchain", "sideChain", "mainChain", "signers"];
+        const results = await Promise.all([
+            this.measure(() => this.storage.ping()),
+            this.measure(() => this.graph_sidechain.ping()),
+            this.measure(() => this.graph_mainchain.ping()),
+            this.measure(() => this.checkChain(this.contractManager.sideChainProvider)),
+            this.measure(() => this.checkChain(this.contractManager.mainChainProvider)),
+            this.measure(() => this.checkSigners()),
+        ]);
+
+        const components: { [name: string]: IHealthComponent } = {};
+        names.forEach((name, idx) => (components[name] = results[idx]));
+        const status = HealthChecker.summarize(results);
+        return {
+            status,
+            ready: status !== "down",
+            timestamp: ContractUtils.getTimeStamp(),
+            components,
+            leadership: this.leaderElector.getStatus(),
+        };
+    }
+
+    public static summarize(components: IHealthComponent[]): HealthStatus {
+        if (components.some((m) => m.status === "down")) return "down";
+        if (components.some((m) => m.status === "degraded")) return "degraded";
+        return "up";
+    }
+
+    /**
+     * 검사에 걸린 시간을 측정한다. 제한시간을 넘거나 예외가 발생하면 down 이다.
+     * 검사가 반환한 상태가 없으면 걸린 시간으로 up 과 degraded 를 정한다
+     */
+    private async measure(
+        fn: () => Promise<void | { status?: HealthStatus; details?: any }>
+    ): Promise<IHealthComponent> {
+        const started = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(
+                    () => reject(new Error(`Timeout after ${this.config.health.timeoutMillis}ms`)),
+                    this.config.health.timeoutMillis
+                );
+            });
+            const result = await Promise.race([fn(), timeout]);
+            const latencyMillis = Date.now() - started;
+            const component: IHealthComponent = {
+                status: latencyMillis > this.config.health.maxLatencyMillis ? "degraded" : "up",
+                latencyMillis,
+            };
+            if (result) {
+                if (result.status !== undefined && result.status !== "up") component.status = result.status;
+                if (result.details !== undefined) component.details = result.details;
+            }
+            return component;
+        } catch (error: any) {
+            const message = error?.message !== undefined ? String(error.message) : String(error);
+            logger.warn(`HealthChecker : ${message}`);
+            return { status: "down", latencyMillis: Date.now() - started, error: message.substring(0, 256) };
+        } finally {
+            if (timer !== undefined) clearTimeout(timer);
+        }
+    }
+
+    /**
+     * 마지막 블록이 maxBlockLagSecond 초보다 오래되었으면 down 이다. 0 이면 블록의 시간은 검사하지 않는다
+     */
+    private async checkChain(provider: ethers.providers.Provider): Promise<{ status: HealthStatus; details: any }> {
+        const block = await provider.getBlock("latest");
+        const lagSecond = Math.max(ContractUtils.getTimeStamp() - block.timestamp, 0);
+        const maxBlockLagSecond = this.config.health.maxBlockLagSecond;
+        return {
+            status: maxBlockLagSecond > 0 && lagSecond > maxBlockLagSecond ? "down" : "up",
+            details: { blockNumber: block.number, blockTimestamp: block.timestamp, lagSecond },
+        };
+    }
+
+    /**
+     * 잔고가 부족하여 제외되지 않은 서명자가 minAvailableSigners 보다 적은 체인이 있으면 down 이다
+     */
+    private async checkSigners(): Promise<{ status: HealthStatus; details: any }> {
+        await this.relaySigners.refreshExcluded();
+        const chainIds = [this.contractManager.sideChainId];
+        if (this.contractManager.mainChainId !== this.contractManager.sideChainId)
+            chainIds.push(this.contractManager.mainChainId);
+
+        let status: HealthStatus = "up";
+        const details: any = {};
+        for (const chainId of chainIds) {
+            const availability = this.relaySigners.getAvailability(chainId);
+            if (availability.available < this.config.health.minAvailableSigners) status = "down";
+            details[chainId] = availability;
+        }
+        return { status, details };
+    }
+}
@@ -0,0 +1,213 @@
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
+import { Config, IRateLimitItemConfig } from "../common/Config";
+import { logger } from "../common/Logger";
+import { Metrics } from "../metrics/Metrics";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ContractUtils } from "../utils/ContractUtils";
+import { ResponseMessage } from "../utils/Errors";
+
+import express from "express";
+
+export type RateLimitType = "ip" | "apiKey" | "account";
+
+/**
+ * 고정된 구간(window) 동안의 요청수를 저장한다
+ */
+export interface IRateLimitStore {
+    readonly name: string;
+    /**
+     * 키의 요청수를 하나 증가시키고 windowStart 부터 시작하는 구간의 요청수를 반환한다
+     */
+    consume(key: string, windowStart: number, expiresAt: number): Promise<number>;
+    prune(timestamp: number): Promise<void>;
+}
+
+/**
+ * 프로세스의 메모리에 저장한다. 릴레이가 하나일 때 사용한다
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+    public readonly name = "memory";
+    private readonly windows: Map<string, { windowStart: number; count: number; expiresAt: number }>;
+
+    constructor() {
+        this.windows = new Map();
+    }
+
+    public async consume(key: string, windowStart: number, expiresAt: number): Promise<number> {
+        const item = this.windows.get(key);
+        if (item === undefined || item.windowStart !== windowStart) {
+            this.windows.set(key, { windowStart, count: 1, expiresAt });
+            return 1;
+        }
+        item.count++;
+        return item.count;
+    }
+
+    public async prune(timestamp: number): Promise<void> {
+        for (const [key, item] of this.windows) {
+            if (item.expiresAt <= timestamp) this.windows.delete(key);
+        }
+    }
+}
+
+/**
+ * 데이터베이스의 rate_limits 테이블에 저장한다. 여러 릴레이가 요청수를 공유할 때 사용한다
+ */
+export class PostgresRateLimitStore implements IRateLimitStore {
+    public readonly name = "postgres";
+    private readonly storage: RelayStorage;
+
+    constructor(storage: RelayStorage) {
+        this.storage = storage;
+    }
+
+    public async consume(key: string, windowStart: number, expiresAt: number): Promise<number> {
+        return this.storage.consumeRateLimit(key, windowStart, expiresAt);
+    }
+
+    public async prune(timestamp: number): Promise<void> {
+        await this.storage.deleteExpiredRateLimits(timestamp);
+    }
+}
+
+/**
+ * 경로별로 설정된 한도를 넘는 요청을 거부한다.
+ * 요청은 클라이언트의 IP, API 키, 서명을 검증한 계정별로 센다.
+ * IP 와 API 키는 미들웨어에서 검사하고, 계정은 라우터에서 서명을 검증한 후 limitAccount 로 검사한다.
+ */
+export class RateLimiter {
+    private static readonly PRUNE_INTERVAL_SECOND = 600;
+
+    private readonly config: Config;
+    private readonly metrics: Metrics;
+    private readonly store: IRateLimitStore;
+    private lastPruned: number;
+
+    constructor(config: Config, storage: RelayStorage, metrics: Metrics) {
+        this.config = config;
+        this.metrics = metrics;
+        this.store = RateLimiter.createStore(config.rateLimit.store, storage);
+        this.lastPruned = ContractUtils.getTimeStamp();
+    }
+
+    private static createStore(name: string, storage: RelayStorage): IRateLimitStore {
+        switch (name) {
+            case "postgres":
+                return new PostgresRateLimitStore(storage);
+            case "memory":
+                return new MemoryRateLimitStore();
+            default:
+                logger.warn(`Unknown rate limit store '${name}', the memory store is used`);
+                return new MemoryRateLimitStore();
+        }
+    }
+
+    /**
+     * 요청에 적용되는 항목을 찾는다. 정확히 일치하는 경로, 가장 긴 접두사, "*" 의 순서로 찾는다
+     */
+    public findItem(method: string, path: string): IRateLimitItemConfig | undefined {
+        const route = `${method.toUpperCase()} ${path}`;
+        let found: IRateLimitItemConfig | undefined;
+        let length = -1;
+        for (const item of this.config.rateLimit.items) {
+            if (item.route === route) return item;
+            if (item.route === "*") {
+                if (length < 0) {
+                    found = item;
+                    length = 0;
+                }
+            } else if (item.route.endsWith("*")) {
+                const prefix = item.route.substring(0, item.route.length - 1);
+                if (route.startsWith(prefix) && prefix.length > length) {
+                    found = item;
+                    length = prefix.length;
+                }
+            }
+        }
+        return found;
+    }
+
+    private static getLimit(item: IRateLimitItemConfig, type: RateLimitType): number {
+        const limit = item[type];
+        return limit !== undefined ? Number(limit) : 0;
+    }
+
+    /**
+     * 요청을 하나 세고, 한도를 넘었으면 다시 요청할 수 있을 때까지 남은 시간(초)을 반환한다. 넘지 않았으면 0 을 반환한다
+     */
+    public async consume(item: IRateLimitItemConfig, type: RateLimitType, id: string): Promise<number> {
+        const limit = RateLimiter.getLimit(item, type);
+        if (limit <= 0) return 0;
+
+        const periodSecond = Math.max(Number(item.periodSecond), 1);
+        const timestamp = ContractUtils.getTimeStamp();
+        const windowStart = timestamp - (timestamp % periodSecond);
+        const expiresAt = windowStart + periodSecond;
+        const count = await this.store.consume(`${item.route}|${type}|${id}`, windowStart, expiresAt);
+
+        if (timestamp - this.lastPruned >= RateLimiter.PRUNE_INTERVAL_SECOND) {
+            this.lastPruned = timestamp;
+            this.store.prune(timestamp).catch((error) => logger.error(`RateLimiter.prune : ${error}`));
+        }
+
+        if (count <= limit) return 0;
+        return Math.max(expiresAt - timestamp, 1);
+    }
+
+    private reject(res: express.Response, item: IRateLimitItemConfig, type: RateLimitType, retryAfter: number) {
+        this.metrics.counterInc("rate_limited", { route: item.route, type }, 1);
+        res.setHeader("Retry-After", String(retryAfter));
+        // /v1 은 다른 오류와 같이 200 으로 응답하고, /v2 는 응답코드에 따라 429 로 변경된다
+        return res.status(200).json(ResponseMessage.getErrorMessage("2057", { type, retryAfter }));
+    }
+
+    /**
+     * IP 와 API 키의 요청수를 검사하는 미들웨어. 라우터보다 먼저 등록되어야 한다
+     */
+    public middleware(): express.RequestHandler {
+        return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+            if (!this.config.rateLimit.enable) return next();
+            const item = this.findItem(req.method, req.path);
+            if (item === undefined) return next();
+            res.locals.rateLimit = { limiter: this, item };
+
+            try {
+                const ip = req.ip !== undefined ? req.ip : "";
+                let retryAfter = await this.consume(item, "ip", ip);
+                if (retryAfter > 0) return this.reject(res, item, "ip", retryAfter);
+
+                let key = req.get("Authorization");
+                if (key === undefined) {
+                    const value = req.body?.accessKey !== undefined ? req.body.accessKey : req.query.accessKey;
+                    if (value !== undefined) key = String(value).trim();
+                }
+                if (key !== undefined && key !== "") {
+                    retryAfter = await this.consume(item, "apiKey", ApiKeyRegistry.hash(key).substring(0, 34));
+                    if (retryAfter > 0) return this.reject(res, item, "apiKey", retryAfter);
+                }
+            } catch (error) {
+                // 저장소에 문제가 있어도 요청은 처리한다
+                logger.error(`RateLimiter.middleware : ${error}`);
+            }
+            next();
+        };
+    }
+
+    /**
+     * 서명을 검증한 계정의 요청수를 검사한다. 한도를 넘었으면 오류를 응답하고 false 를 반환한다
+     */
+    public static async limitAccount(res: express.Response, account: string): Promise<boolean> {
+        const context: { limiter: RateLimiter; item: IRateLimitItemConfig } | undefined = res.locals.rateLimit;
+        if (context === undefined) return true;
+        try {
+            const retryAfter = await context.limiter.consume(context.item, "account", account.toLowerCase());
+            if (retryAfter > 0) {
+                context.limiter.reject(res, context.item, "account", retryAfter);
+                return false;
+            }
+        } catch (error) {
+            logger.error(`RateLimiter.limitAccount : ${error}`);
+        }
+        return true;
+    }
+}
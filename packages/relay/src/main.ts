@@ -3,17 +3,24 @@ import { logger } from "./common/Logger";
 import { ContractManager } from "./contract/ContractManager";
 import { DefaultServer } from "./DefaultServer";
 import { ApprovalScheduler } from "./scheduler/ApprovalScheduler";
+import { CallbackScheduler } from "./scheduler/CallbackScheduler";
 import { CloseScheduler } from "./scheduler/CloseScheduler";
 import { DelegatorApprovalScheduler } from "./scheduler/DelegatorApprovalScheduler";
+import { LeaderElector } from "./scheduler/LeaderElector";
 import { MetricsScheduler } from "./scheduler/MetricsScheduler";
+import { PaymentRequestScheduler } from "./scheduler/PaymentRequestScheduler";
+import { ReconciliationScheduler } from "./scheduler/ReconciliationScheduler";
 import { Scheduler } from "./scheduler/Scheduler";
+import { SignerBalanceScheduler } from "./scheduler/SignerBalanceScheduler";
+import { SignerScheduler } from "./scheduler/SignerScheduler";
 import { StorePurchaseScheduler } from "./scheduler/StorePurchaseScheduler";
+import { TxRetryScheduler } from "./scheduler/TxRetryScheduler";
 import { WatchScheduler } from "./scheduler/WatchScheduler";
 import { GraphStorage } from "./storage/GraphStorage";
 import { RelayStorage } from "./storage/RelayStorage";
 import { ContractUtils } from "./utils/ContractUtils";
 
-let server: DefaultServer;
+let server: DefaultServer | undefined;
 
 async function main() {
     // Create with the arguments and read from file
@@ -31,37 +38,77 @@ async function main() {
     const graph_sidechain = await GraphStorage.make(config.graph_sidechain);
     const graph_mainchain = await GraphStorage.make(config.graph_mainchain);
 
+    const leaderElector = new LeaderElector(config, storage);
     const schedulers: Scheduler[] = [];
     if (config.scheduler.enable) {
         let scheduler = config.scheduler.getScheduler("approval");
         if (scheduler && scheduler.enable) {
-            schedulers.push(new ApprovalScheduler(scheduler.expression));
+            schedulers.push(leaderElector.register("approval", new ApprovalScheduler(scheduler.expression)));
         }
         scheduler = config.scheduler.getScheduler("close");
         if (scheduler && scheduler.enable) {
-            schedulers.push(new CloseScheduler(scheduler.expression));
+            schedulers.push(leaderElector.register("close", new CloseScheduler(scheduler.expression)));
         }
         scheduler = config.scheduler.getScheduler("watch");
         if (scheduler && scheduler.enable) {
-            schedulers.push(new WatchScheduler(scheduler.expression));
+            schedulers.push(leaderElector.register("watch", new WatchScheduler(scheduler.expression)));
         }
         scheduler = config.scheduler.getScheduler("purchase");
         if (scheduler && scheduler.enable) {
-            schedulers.push(new StorePurchaseScheduler(scheduler.expression));
+            schedulers.push(leaderElector.register("purchase", new StorePurchaseScheduler(scheduler.expression)));
         }
         scheduler = config.scheduler.getScheduler("delegatorApproval");
         if (scheduler && scheduler.enable) {
-            schedulers.push(new DelegatorApprovalScheduler(scheduler.expression));
+            schedulers.push(
+                leaderElector.register("delegatorApproval", new DelegatorApprovalScheduler(scheduler.expression))
+            );
         }
         scheduler = config.scheduler.getScheduler("metrics");
         if (scheduler && scheduler.enable) {
-            schedulers.push(new MetricsScheduler(scheduler.expression));
+            schedulers.push(leaderElector.register("metrics", new MetricsScheduler(scheduler.expression)));
+        }
+        scheduler = config.scheduler.getScheduler("callback");
+        if (scheduler && scheduler.enable) {
+            schedulers.push(leaderElector.register("callback", new CallbackScheduler(scheduler.expression)));
+        }
+        scheduler = config.scheduler.getScheduler("reconciliation");
+        if (scheduler && scheduler.enable) {
+            schedulers.push(
+                leaderElector.register("reconciliation", new ReconciliationScheduler(scheduler.expression))
+            );
+        }
+        scheduler = config.scheduler.getScheduler("paymentRequest");
+        if (scheduler && scheduler.enable) {
+            schedulers.push(
+                leaderElector.register("paymentRequest", new PaymentRequestScheduler(scheduler.expression))
+            );
+        }
+        scheduler = config.scheduler.getScheduler("txRetry");
+        if (scheduler && scheduler.enable) {
+            schedulers.push(leaderElector.register("txRetry", new TxRetryScheduler(scheduler.expression)));
+        }
+        scheduler = config.scheduler.getScheduler("signer");
+        if (scheduler && scheduler.enable) {
+            schedulers.push(leaderElector.register("signer", new SignerScheduler(scheduler.expression)));
+        }
+        scheduler = config.scheduler.getScheduler("signerBalance");
+        if (scheduler && scheduler.enable) {
+            schedulers.push(leaderElector.register("signerBalance", new SignerBalanceScheduler(scheduler.expression)));
         }
     }
 
     const contractManager = new ContractManager(config);
     await contractManager.attach();
-    server = new DefaultServer(config, contractManager, storage, graph_sidechain, graph_mainchain, schedulers);
+    server = new DefaultServer(
+        config,
+        contractManager,
+        storage,
+        graph_sidechain,
+        graph_mainchain,
+        schedulers,
+        undefined,
+        leaderElector
+    );
     return server.start().catch((error: any) => {
         // handle specific listen errors with friendly messages
         switch (error.code) {
@@ -85,8 +132,22 @@ main().catch((error) => {
     process.exitCode = 1;
 });
 
-process.on("SIGINT", () => {
-    server.stop().then(() => {
-        process.exit(0);
-    });
-});
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+
+    logger.info(`Received ${signal}, shutting down`);
+    if (server === undefined) return process.exit(0);
+    try {
+        const completed = await server.shutdown();
+        process.exit(completed ? 0 : 1);
+    } catch (error) {
+        logger.error(`Failed to shut down: ${error}`);
+        process.exit(1);
+    }
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
@@ -68,6 +68,24 @@ export class Metrics {
         }
     }
 
+    public counterInc(name: string, label: any, data: number) {
+        const item = this.instances.get(name);
+        if (item !== undefined) {
+            if (item.type === "counter") {
+                (item.instance as Counter).labels(label).inc(data);
+            }
+        }
+    }
+
+    public histogramObserve(name: string, label: any, data: number) {
+        const item = this.instances.get(name);
+        if (item !== undefined) {
+            if (item.type === "histogram") {
+                (item.instance as Histogram).labels(label).observe(data);
+            }
+        }
+    }
+
     public async metrics() {
         return this.registry.metrics();
     }
@@ -82,4 +100,18 @@ export class Metrics {
         this.registry.registerMetric(instance);
         this.instances.set(name, { type, instance });
     }
+
+    public createCounter(name: string, help: string, labelNames: string[]) {
+        const type: string = "counter";
+        const instance = new Counter({ name, help, labelNames });
+        this.registry.registerMetric(instance);
+        this.instances.set(name, { type, instance });
+    }
+
+    public createHistogram(name: string, help: string, labelNames: string[], buckets: number[]) {
+        const type: string = "histogram";
+        const instance = new Histogram({ name, help, labelNames, buckets });
+        this.registry.registerMetric(instance);
+        this.instances.set(name, { type, instance });
+    }
 }
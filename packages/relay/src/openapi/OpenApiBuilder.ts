@@ -0,0 +1,384 @@
+import { Config } from "../common/Config";
+import { ResponseMessage } from "../utils/Errors";
+import { componentSchemas, IRouteDoc, routeDocs } from "./RouteDocs";
+import { JsonSchema, Schemas } from "./Schemas";
+
+import express from "express";
+
+/**
+ * 경로에 등록된 express-validator 의 검증기 하나의 정보
+ */
+export interface IRouteField {
+    location: string;
+    path: string;
+    required: boolean;
+    schema: JsonSchema;
+}
+
+/**
+ * express 에 등록된 경로의 정보
+ */
+export interface IRouteInfo {
+    method: string;
+    path: string;
+    fields: IRouteField[];
+    scope?: string;
+}
+
+/**
+ * express 에 등록된 경로와 요청 검증기로 OpenAPI 3 문서를 만든다.
+ * 요청의 스키마는 검증기에서 만들어지므로 검증과 문서가 다를 수 없다.
+ * 응답의 data 와 처리기가 응답하는 오류코드는 RouteDocs 에 기술한다.
+ */
+export class OpenApiBuilder {
+    public static readonly PREFIX = "/v1/";
+
+    private readonly config: Config;
+
+    constructor(config: Config) {
+        this.config = config;
+    }
+
+    /**
+     * 등록된 경로 중 /v1 으로 시작하는 경로의 정보
+     */
+    public static getRoutes(app: express.Application): IRouteInfo[] {
+        const routes: IRouteInfo[] = [];
+        const stack: any[] = app._router !== undefined ? app._router.stack : [];
+        for (const layer of stack) {
+            const route = layer.route;
+            if (route === undefined || typeof route.path !== "string") continue;
+            if (!route.path.startsWith(OpenApiBuilder.PREFIX)) continue;
+
+            const fields: IRouteField[] = [];
+            let scope: string | undefined;
+            for (const handler of route.stack) {
+                const handle = handler.handle;
+                if (handle.builder !== undefined) fields.push(...OpenApiBuilder.getFields(handle.builder.build()));
+                if (handle.scope !== undefined) scope = handle.scope;
+            }
+            for (const method of Object.keys(route.methods)) {
+                routes.push({ method: method.toUpperCase(), path: route.path, fields, scope });
+            }
+        }
+        return routes;
+    }
+
+    /**
+     * 검증기의 내용으로 필드의 스키마를 만든다
+     */
+    private static getFields(context: any): IRouteField[] {
+        const schema: JsonSchema = { type: "string" };
+        for (const item of context.stack) {
+            if (item.validator === undefined) continue;
+            const name: string = item.validator.name;
+            const negated: boolean = item.negated === true;
+            const options: any[] = item.options !== undefined ? item.options : [];
+            const option = options[0] !== undefined ? options[0] : {};
+
+            switch (name) {
+                case "isEthereumAddress":
+                    schema.pattern = "^0x[0-9a-fA-F]{40}$";
+                    break;
+                case "matches":
+                    schema.pattern = OpenApiBuilder.toPattern(options[0], options[1]);
+                    break;
+                case "isInt":
+                    schema.type = "integer";
+                    if (option.min !== undefined) schema.minimum = option.min;
+                    if (option.max !== undefined) schema.maximum = option.max;
+                    break;
+                case "isNumeric":
+                    schema.pattern = "^[-+]?[0-9]*\\.?[0-9]+$";
+                    break;
+                case "isIn":
+                    if (!negated) schema.enum = [...option];
+                    break;
+                case "isLength":
+                    if (option.min !== undefined) schema.minLength = option.min;
+                    if (option.max !== undefined) schema.maxLength = option.max;
+                    break;
+                case "isEmpty":
+                    if (negated && schema.minLength === undefined) schema.minLength = 1;
+                    break;
+                case "isBase64":
+                    schema.format = "byte";
+                    break;
+                case "isBoolean":
+                    schema.type = "boolean";
+                    break;
+                case "isAmount":
+                    schema.pattern = "^[0-9]+$";
+                    schema.description = "소수점이하 18자리의 금액";
+                    break;
+                default:
+                    // exists() 와 isArray() 는 이름이 없는 사용자 검증기로 등록된다
+                    if (item.options === undefined && String(item.validator).includes("Array.isArray")) {
+                        schema.type = "array";
+                        delete schema.minLength;
+                    }
+                    break;
+            }
+        }
+
+        const required = context.optional === false;
+        const fields: IRouteField[] = [];
+        for (const location of context.locations) {
+            for (const path of context.fields) {
+                fields.push({ location, path, required, schema: { ...schema } });
+            }
+        }
+        return fields;
+    }
+
+    /**
+     * 정규식을 JSON 스키마의 pattern 으로 변환한다. pattern 에는 플래그가 없으므로 대소문자의 구분을 없앤다
+     */
+    private static toPattern(value: any, modifiers?: string): string {
+        const source: string = value instanceof RegExp ? value.source : String(value);
+        const flags: string = value instanceof RegExp ? value.flags : modifiers !== undefined ? modifiers : "";
+        if (!flags.includes("i")) return source;
+        return source.replace(/a-f/g, "a-fA-F").replace(/a-z/g, "a-zA-Z");
+    }
+
+    /**
+     * OpenAPI 문서를 만든다. version 이 2 이면 /v2 의 경로와 HTTP 상태코드로 기술한다
+     */
+    public build(app: express.Application, version: number = 1): JsonSchema {
+        const paths: JsonSchema = {};
+        const tags = new Set<string>();
+        const operationIds = new Set<string>();
+
+        for (const route of OpenApiBuilder.getRoutes(app)) {
+            const doc: IRouteDoc =
+                routeDocs[`${route.method} ${route.path}`] !== undefined
+                    ? routeDocs[`${route.method} ${route.path}`]
+                    : { tag: "Etc", summary: route.path };
+            tags.add(doc.tag);
+
+            const path = (version === 2 ? "/v2/" : "/v1/") + route.path.substring(OpenApiBuilder.PREFIX.length);
+            const key = path.replace(/:(\w+)/g, "{$1}");
+            if (paths[key] === undefined) paths[key] = {};
+
+            let operationId = OpenApiBuilder.getOperationId(route.method, route.path);
+            for (let idx = 2; operationIds.has(operationId); idx++)
+                operationId = OpenApiBuilder.getOperationId(route.method, route.path) + idx;
+            operationIds.add(operationId);
+
+            const operation: JsonSchema = {
+                tags: [doc.tag],
+                summary: doc.summary,
+                operationId,
+            };
+            if (doc.description !== undefined) operation.description = doc.description;
+
+            const parameters = this.getParameters(route, doc);
+            if (parameters.length > 0) operation.parameters = parameters;
+            const requestBody = this.getRequestBody(route, doc);
+            if (requestBody !== undefined) operation.requestBody = requestBody;
+
+            if (route.scope !== undefined) {
+                operation.security = [{ ApiKey: [] }];
+                operation["x-api-key-scope"] = route.scope;
+            }
+
+            const errors = this.getErrors(route, doc);
+            operation["x-error-codes"] = errors.map((m) => Number(m));
+            operation.responses = version === 2 ? this.getV2Responses(doc, errors) : this.getV1Responses(doc, errors);
+
+            paths[key][route.method.toLowerCase()] = operation;
+        }
+
+        const document: JsonSchema = {
+            openapi: "3.0.3",
+            info: {
+                title: "Loyalty Relay API",
+                version: `${version}.0.0`,
+                description:
+                    version === 2
+                        ? "오류는 응답코드에 해당하는 HTTP 상태코드와 { code, error: { message, details } } 로 전달된다."
+                        : "모든 응답은 HTTP 200 과 { code, data, error } 로 전달된다. code 가 0 이면 성공이다.",
+            },
+            tags: [...tags].sort().map((name) => ({ name })),
+            paths,
+            components: {
+                schemas: {
+                    ...componentSchemas,
+                    ErrorCode: OpenApiBuilder.getErrorCodeSchema(),
+                    Error: Schemas.struct({ message: Schemas.string }),
+                },
+                securitySchemes: {
+                    ApiKey: { type: "apiKey", in: "header", name: "Authorization" },
+                },
+            },
+        };
+        if (this.config.relay.relayEndpoint !== "") document.servers = [{ url: this.config.relay.relayEndpoint }];
+        return document;
+    }
+
+    /**
+     * 메소드와 경로로 만든 operationId. 예) GET /v1/payment/:paymentId/receipt 는 getPaymentReceipt 이다
+     */
+    private static getOperationId(method: string, path: string): string {
+        const words = path
+            .substring(OpenApiBuilder.PREFIX.length)
+            .split(/[/_]/)
+            .filter((m) => m !== "" && !m.startsWith(":"));
+        return method.toLowerCase() + words.map((m) => m.charAt(0).toUpperCase() + m.substring(1)).join("");
+    }
+
+    private getParameters(route: IRouteInfo, doc: IRouteDoc): JsonSchema[] {
+        return route.fields
+            .filter((m) => m.location === "params" || m.location === "query" || m.location === "headers")
+            .map((m) => ({
+                name: m.path,
+                in: m.location === "params" ? "path" : m.location === "headers" ? "header" : "query",
+                required: m.location === "params" ? true : m.required,
+                schema: doc.fields !== undefined && doc.fields[m.path] !== undefined ? doc.fields[m.path] : m.schema,
+            }));
+    }
+
+    private getRequestBody(route: IRouteInfo, doc: IRouteDoc): JsonSchema | undefined {
+        const fields = route.fields.filter((m) => m.location === "body");
+        if (fields.length === 0) return undefined;
+
+        const properties: JsonSchema = {};
+        const required: string[] = [];
+        for (const field of fields) {
+            const fieldSchema =
+                doc.fields !== undefined && doc.fields[field.path] !== undefined
+                    ? doc.fields[field.path]
+                    : field.schema;
+            if (field.path.endsWith(".*")) {
+                const name = field.path.substring(0, field.path.length - 2);
+                if (properties[name] === undefined) properties[name] = { type: "array" };
+                properties[name].items = fieldSchema;
+                continue;
+            }
+            properties[field.path] =
+                properties[field.path] !== undefined && properties[field.path].items !== undefined
+                    ? { ...fieldSchema, type: "array", items: properties[field.path].items }
+                    : fieldSchema;
+            if (field.required) required.push(field.path);
+        }
+
+        const schema: JsonSchema = { type: "object", properties };
+        if (required.length > 0) schema.required = required;
+        return {
+            required: true,
+            content: { "application/json": { schema } },
+        };
+    }
+
+    /**
+     * 경로가 응답하는 오류코드. 검증기, API 키, 요청수의 제한에 의한 오류가 추가된다
+     */
+    private getErrors(route: IRouteInfo, doc: IRouteDoc): string[] {
+        const errors = new Set<string>();
+        if (route.fields.length > 0) errors.add("2001");
+        if (route.scope !== undefined) {
+            errors.add("2002");
+            errors.add("2049");
+            if (route.fields.some((m) => m.path === "shopId" && (m.location === "body" || m.location === "query")))
+                errors.add("2055");
+        }
+        if (doc.errors !== undefined) doc.errors.forEach((m) => errors.add(m));
+        if (this.config.rateLimit.enable) errors.add("2057");
+        return [...errors].sort();
+    }
+
+    private static describeErrors(errors: string[]): string {
+        return errors.map((m) => `${m}: ${ResponseMessage.messages.get(m)}`).join("\n\n");
+    }
+
+    private getV1Responses(doc: IRouteDoc, errors: string[]): JsonSchema {
+        if (doc.contentType !== undefined) {
+            return {
+                "200": {
+                    description: `성공하면 ${
+                        doc.contentType
+                    } 로 응답한다. 실패하면 code 와 error 를 응답한다.\n\n${OpenApiBuilder.describeErrors(errors)}`,
+                    content: { [doc.contentType]: { schema: Schemas.string } },
+                },
+            };
+        }
+        return {
+            "200": {
+                description: `code 가 0 이면 성공이다. 실패하면 error 에 오류의 내용이 있다.\n\n${OpenApiBuilder.describeErrors(
+                    errors
+                )}`,
+                content: {
+                    "application/json": {
+                        schema: {
+                            type: "object",
+                            properties: {
+                                code: Schemas.ref("ErrorCode"),
+                                data: doc.data !== undefined ? doc.data : { type: "object" },
+                                error: Schemas.ref("Error"),
+                            },
+                            required: ["code"],
+                        },
+                    },
+                },
+            },
+        };
+    }
+
+    private getV2Responses(doc: IRouteDoc, errors: string[]): JsonSchema {
+        const responses: JsonSchema = {
+            "200": {
+                description: "성공",
+                content:
+                    doc.contentType !== undefined
+                        ? { [doc.contentType]: { schema: Schemas.string } }
+                        : {
+                              "application/json": {
+                                  schema: Schemas.struct({
+                                      code: { type: "integer", enum: [0] },
+                                      data: doc.data !== undefined ? doc.data : { type: "object" },
+                                  }),
+                              },
+                          },
+            },
+        };
+
+        const groups = new Map<number, string[]>();
+        for (const code of errors) {
+            const status = ResponseMessage.getHttpStatus(Number(code));
+            const group = groups.get(status);
+            if (group === undefined) groups.set(status, [code]);
+            else group.push(code);
+        }
+        for (const status of [...groups.keys()].sort((a, b) => a - b)) {
+            const codes = groups.get(status) as string[];
+            responses[String(status)] = {
+                description: OpenApiBuilder.describeErrors(codes),
+                content: {
+                    "application/json": {
+                        schema: Schemas.struct({
+                            code: { type: "integer", enum: codes.map((m) => Number(m)) },
+                            error: {
+                                type: "object",
+                                properties: { message: Schemas.string, details: { type: "object" } },
+                                required: ["message"],
+                            },
+                        }),
+                    },
+                },
+            };
+        }
+        return responses;
+    }
+
+    /**
+     * 모든 응답코드와 메세지
+     */
+    private static getErrorCodeSchema(): JsonSchema {
+        const codes = [...ResponseMessage.messages.keys()];
+        return {
+            type: "integer",
+            enum: codes.map((m) => Number(m)),
+            "x-enum-descriptions": codes.map((m) => ResponseMessage.messages.get(m)),
+        };
+    }
+}
@@ -0,0 +1,972 @@
+import { JsonSchema, Schemas } from "./Schemas";
+
+/**
+ * 경로의 요청 검증기로 알 수 없는 정보. 요청의 스키마는 검증기에서 만들어진다.
+ */
+export interface IRouteDoc {
+    tag: string;
+    summary: string;
+    description?: string;
+    /**
+     * 성공한 응답의 data 의 스키마
+     */
+    data?: JsonSchema;
+    /**
+     * 처리기가 응답하는 오류코드. 검증오류(2001)와 API 키의 오류는 자동으로 추가된다
+     */
+    errors?: string[];
+    /**
+     * 검증기로 알 수 없는 요청 필드의 스키마
+     */
+    fields?: { [field: string]: JsonSchema };
+    /**
+     * application/json 이 아닌 응답의 형식
+     */
+    contentType?: string;
+}
+
+const txHash = Schemas.object(["txHash"]);
+const nonce = Schemas.object(["account", "nonce"]);
+const balance = Schemas.object(["balance", "value"]);
+const transfer = Schemas.object(["from", "to", "amount", "txHash"]);
+const bridge = Schemas.object(["tokenId", "depositId", "amount", "txHash"]);
+const chainId = Schemas.struct({ chainId: Schemas.integer });
+const tokenBalance = Schemas.object(["account", "balance"]);
+const ledgerBalance = Schemas.struct({
+    account: Schemas.address,
+    point: Schemas.ref("Balance"),
+    token: Schemas.ref("Balance"),
+});
+const chainInfo = Schemas.struct({
+    url: Schemas.string,
+    network: Schemas.object(["name", "chainTransferFee", "chainBridgeFee", "loyaltyTransferFee", "loyaltyBridgeFee"], {
+        chainId: Schemas.integer,
+        ensAddress: Schemas.address,
+    }),
+    contract: { type: "object", additionalProperties: Schemas.address },
+});
+const summary = {
+    tokenInfo: Schemas.struct({ symbol: Schemas.string, name: Schemas.string, decimals: Schemas.integer }),
+    exchangeRate: Schemas.struct({
+        token: Schemas.struct({ symbol: Schemas.string, value: Schemas.amount }),
+        currency: Schemas.struct({ symbol: Schemas.string, value: Schemas.amount }),
+    }),
+    ledger: Schemas.struct({ point: Schemas.ref("Balance"), token: Schemas.ref("Balance") }),
+    mainChain: Schemas.struct({ point: Schemas.ref("Balance"), token: Schemas.ref("Balance") }),
+    sideChain: Schemas.struct({ point: Schemas.ref("Balance"), token: Schemas.ref("Balance") }),
+    protocolFees: Schemas.struct({ transfer: Schemas.amount, withdraw: Schemas.amount, deposit: Schemas.amount }),
+};
+const paymentFields = ["paymentId", "purchaseId", "amount", "currency", "shopId", "account"];
+const paidFields = ["paidPoint", "paidValue", "feePoint", "feeValue", "totalPoint", "totalValue"];
+const cancelFields = ["cancelAmount", "cancelPoint", "cancelFeePoint", "remainAmount", "remainPoint", "remainFeePoint"];
+const timestampFields = ["openNewTimestamp", "closeNewTimestamp", "openCancelTimestamp", "closeCancelTimestamp"];
+const shopTask = Schemas.object(["taskId", "shopId", "name", "currency", "taskStatus", "timestamp"], {
+    txHash: Schemas.bytes32,
+});
+const shopStatusTask = Schemas.object(["taskId", "shopId", "status", "taskStatus", "timestamp"], {
+    txHash: Schemas.bytes32,
+});
+const shopPolicy = Schemas.struct({
+    shopId: Schemas.bytes32,
+    paymentTimeoutSecond: Schemas.integer,
+    approvalSecond: Schemas.integer,
+    forcedCloseSecond: Schemas.integer,
+    timestamp: Schemas.timestamp,
+    applied: Schemas.struct({
+        paymentTimeoutSecond: Schemas.integer,
+        approvalSecond: Schemas.integer,
+        forcedCloseSecond: Schemas.integer,
+    }),
+});
+const pageOf = (items: JsonSchema) =>
+    Schemas.struct({ pageInfo: Schemas.ref("PageInfo"), items: Schemas.array(items) });
+
+/**
+ * 여러 경로에서 사용하는 응답의 스키마
+ */
+export const componentSchemas: { [name: string]: JsonSchema } = {
+    PageInfo: Schemas.struct({ totalCount: Schemas.integer, totalPages: Schemas.integer }),
+    Balance: balance,
+    ShopInfo: Schemas.object([
+        "shopId",
+        "name",
+        "currency",
+        "status",
+        "account",
+        "delegator",
+        "providedAmount",
+        "usedAmount",
+        "refundedAmount",
+    ]),
+    PaymentResult: Schemas.object([
+        ...paymentFields,
+        ...paidFields,
+        "usedPoint",
+        "usedToken",
+        "paymentStatus",
+        ...timestampFields,
+    ]),
+    PaymentClose: Schemas.object([...paymentFields, ...paidFields, "paymentStatus", ...timestampFields]),
+    PaymentCancel: Schemas.object([
+        ...paymentFields,
+        ...paidFields,
+        ...cancelFields,
+        "paymentStatus",
+        ...timestampFields,
+    ]),
+    Payment: Schemas.object([
+        ...paymentFields,
+        ...paidFields,
+        "useToken",
+        "usedPoint",
+        "usedToken",
+        ...cancelFields,
+        "paymentStatus",
+        ...timestampFields,
+    ]),
+    PaymentApproval: Schemas.object([...paymentFields, "paymentStatus"], {
+        cancelAmount: Schemas.amount,
+        txHash: Schemas.bytes32,
+    }),
+    PaymentRequest: Schemas.object([
+        "requestId",
+        "shopId",
+        "purchaseId",
+        "amount",
+        "currency",
+        "description",
+        "status",
+        "paymentId",
+        "account",
+        "expiresAt",
+        "timestamp",
+        "link",
+    ]),
+    LedgerHistory: Schemas.object([
+        "account",
+        "action",
+        "cancel",
+        "amountPoint",
+        "amountToken",
+        "amountValue",
+        "feePoint",
+        "feeToken",
+        "feeValue",
+        "balancePoint",
+        "balanceToken",
+        "purchaseId",
+        "paymentId",
+        "shopId",
+        "blockNumber",
+        "blockTimestamp",
+        "transactionHash",
+    ]),
+    PhoneHistory: Schemas.object([
+        "phone",
+        "action",
+        "amount",
+        "balance",
+        "purchaseId",
+        "shopId",
+        "blockNumber",
+        "blockTimestamp",
+        "transactionHash",
+    ]),
+    TokenHistory: Schemas.object(["from", "to", "value", "blockTimestamp"]),
+    ApiKey: Schemas.object(
+        ["keyId", "name", "scopes", "shops", "expiresAt", "status", "rotatedFrom", "timestamp", "updatedTimestamp"],
+        {
+            scopes: Schemas.array({ type: "string", enum: ["payment", "purchase", "notify", "admin"] }),
+            shops: Schemas.array(Schemas.bytes32),
+            updatedTimestamp: Schemas.timestamp,
+        }
+    ),
+    IssuedApiKey: Schemas.object(["keyId", "key", "name", "scopes", "shops", "expiresAt"], {
+        scopes: Schemas.array({ type: "string", enum: ["payment", "purchase", "notify", "admin"] }),
+        shops: Schemas.array(Schemas.bytes32),
+    }),
+    Callback: Schemas.object(
+        [
+            "sequence",
+            "type",
+            "code",
+            "message",
+            "data",
+            "status",
+            "attempts",
+            "nextTimestamp",
+            "lastError",
+            "timestamp",
+            "deliveredTimestamp",
+        ],
+        {
+            sequence: Schemas.integer,
+            code: Schemas.integer,
+            data: { type: "object" },
+            attempts: Schemas.integer,
+            nextTimestamp: Schemas.timestamp,
+            deliveredTimestamp: Schemas.timestamp,
+        }
+    ),
+};
+
+/**
+ * "METHOD 경로" 별 문서
+ */
+export const routeDocs: { [route: string]: IRouteDoc } = {
+    // region Admin
+    "GET /v1/admin/signers": {
+        tag: "Admin",
+        summary: "릴레이 서명자의 대기중인 트랜잭션의 수, 확정된 마지막 논스, 잔고",
+        data: Schemas.struct({
+            signers: Schemas.array(
+                Schemas.object(["chainId", "address", "pendingCount", "lastConfirmedNonce", "nextNonce", "balance"], {
+                    chainId: Schemas.integer,
+                    address: Schemas.address,
+                    pendingCount: Schemas.integer,
+                    lastConfirmedNonce: Schemas.integer,
+                    nextNonce: Schemas.integer,
+                    excluded: Schemas.boolean,
+                })
+            ),
+        }),
+    },
+    "GET /v1/admin/keys": {
+        tag: "Admin",
+        summary: "발급된 API 키의 목록. 키의 값은 응답하지 않는다",
+        data: Schemas.struct({ keys: Schemas.array(Schemas.ref("ApiKey")) }),
+    },
+    "POST /v1/admin/keys/issue": {
+        tag: "Admin",
+        summary: "API 키를 발급한다. 키의 값은 이 응답에서만 전달된다",
+        data: Schemas.ref("IssuedApiKey"),
+        fields: {
+            "scopes.*": { type: "string", enum: ["payment", "purchase", "notify", "admin"] },
+        },
+    },
+    "POST /v1/admin/keys/rotate": {
+        tag: "Admin",
+        summary: "같은 권한의 새로운 키를 발급하고, 이전 키는 graceSecond 초 후에 만료되도록 한다",
+        data: Schemas.ref("IssuedApiKey"),
+        errors: ["2056"],
+    },
+    "POST /v1/admin/keys/revoke": {
+        tag: "Admin",
+        summary: "API 키를 폐기한다",
+        data: Schemas.object(["keyId"]),
+        errors: ["2056"],
+    },
+    // endregion
+
+    // region Bridge
+    "POST /v1/bridge/withdraw": {
+        tag: "Bridge",
+        summary: "메인체인의 토큰을 사이드체인으로 보낸다",
+        data: bridge,
+        errors: ["1501", "1511", "3001"],
+    },
+    "POST /v1/bridge/deposit": {
+        tag: "Bridge",
+        summary: "사이드체인의 토큰을 메인체인으로 보낸다",
+        data: bridge,
+        errors: ["1501", "1511", "3001"],
+    },
+    // endregion
+
+    // region Callback
+    "GET /v1/callback/pending": {
+        tag: "Callback",
+        summary: "콜백 엔드포인트로 전달되지 않은 처리결과의 목록",
+        data: pageOf(Schemas.ref("Callback")),
+    },
+    "POST /v1/callback/replay": {
+        tag: "Callback",
+        summary: "처리결과를 콜백 엔드포인트로 다시 전달한다. 재시도 횟수는 초기화된다",
+        data: Schemas.ref("Callback"),
+        errors: ["2035"],
+    },
+    // endregion
+
+    // region Mobile
+    "POST /v1/mobile/register": {
+        tag: "Mobile",
+        summary: "모바일 앱의 푸시 토큰을 등록한다",
+        data: Schemas.object(["account", "type", "token", "language", "os"], { type: Schemas.integer }),
+        errors: ["1501"],
+    },
+    "POST /v1/mobile/send": {
+        tag: "Mobile",
+        summary: "모바일 앱으로 푸시 메세지를 보낸다",
+        data: { type: "object" },
+    },
+    "GET /v1/mobile/info/:account": {
+        tag: "Mobile",
+        summary: "등록된 모바일 앱의 정보",
+        data: Schemas.object(["account", "type", "token", "language", "os"], { type: Schemas.integer }),
+        errors: ["2008"],
+    },
+    "GET /v1/mobile/exists/:account": {
+        tag: "Mobile",
+        summary: "모바일 앱이 등록되었는지 확인한다",
+        data: Schemas.object(["account", "type", "exists"], { type: Schemas.integer, exists: Schemas.boolean }),
+    },
+    // endregion
+
+    // region History
+    "GET /v1/token/main/history/:account": {
+        tag: "History",
+        summary: "메인체인의 토큰 이체내역",
+        data: pageOf(Schemas.ref("TokenHistory")),
+    },
+    "GET /v1/token/side/history/:account": {
+        tag: "History",
+        summary: "사이드체인의 토큰 이체내역",
+        data: pageOf(Schemas.ref("TokenHistory")),
+    },
+    "GET /v1/ledger/history/account/:account": {
+        tag: "History",
+        summary: "계정의 원장 변경내역",
+        data: pageOf(Schemas.ref("LedgerHistory")),
+    },
+    "GET /v1/ledger/history/phone/:phone": {
+        tag: "History",
+        summary: "전화번호의 원장 변경내역. 전화번호가 계정에 연결되어 있으면 계정의 내역을 제공한다",
+        data: Schemas.oneOf(
+            Schemas.struct({
+                pageInfo: Schemas.ref("PageInfo"),
+                type: { type: "string", enum: ["account"] },
+                items: Schemas.array(Schemas.ref("LedgerHistory")),
+            }),
+            Schemas.struct({
+                pageInfo: Schemas.ref("PageInfo"),
+                type: { type: "string", enum: ["phone"] },
+                items: Schemas.array(Schemas.ref("PhoneHistory")),
+            })
+        ),
+        errors: ["2007"],
+    },
+    "GET /v1/shop/history/:shopId": {
+        tag: "History",
+        summary: "상점의 정산내역",
+        data: pageOf(
+            Schemas.object([
+                "shopId",
+                "currency",
+                "action",
+                "cancel",
+                "increase",
+                "providedAmount",
+                "usedAmount",
+                "refundedAmount",
+                "purchaseId",
+                "paymentId",
+                "blockNumber",
+                "blockTimestamp",
+                "transactionHash",
+            ])
+        ),
+    },
+    // endregion
+
+    // region Ledger
+    "GET /v1/ledger/nonce/:account": {
+        tag: "Ledger",
+        summary: "원장 컨트랙트의 서명에 사용할 논스",
+        data: nonce,
+    },
+    "POST /v1/ledger/exchangePointToToken": {
+        tag: "Ledger",
+        summary: "포인트를 토큰으로 변환한다",
+        data: txHash,
+        errors: ["1501"],
+    },
+    "POST /v1/ledger/changeToPayablePoint": {
+        tag: "Ledger",
+        summary: "전화번호로 적립된 포인트를 계정의 포인트로 전환한다",
+        data: txHash,
+        errors: ["1501"],
+    },
+    "POST /v1/ledger/removePhoneInfo": {
+        tag: "Ledger",
+        summary: "원장에 저장된 전화번호 정보를 삭제한다",
+        data: txHash,
+        errors: ["1501"],
+    },
+    "GET /v1/ledger/balance/account/:account": {
+        tag: "Ledger",
+        summary: "계정의 포인트와 토큰의 잔고",
+        data: ledgerBalance,
+        errors: ["2004"],
+    },
+    "GET /v1/ledger/balance/phone/:phone": {
+        tag: "Ledger",
+        summary: "전화번호의 포인트와 토큰의 잔고",
+        data: Schemas.struct({
+            phone: Schemas.string,
+            phoneHash: Schemas.bytes32,
+            account: Schemas.address,
+            point: Schemas.ref("Balance"),
+            token: Schemas.ref("Balance"),
+        }),
+        errors: ["2007"],
+    },
+    "GET /v1/ledger/balance/phoneHash/:phoneHash": {
+        tag: "Ledger",
+        summary: "전화번호 해시의 포인트와 토큰의 잔고",
+        data: Schemas.struct({
+            phoneHash: Schemas.bytes32,
+            account: Schemas.address,
+            point: Schemas.ref("Balance"),
+            token: Schemas.ref("Balance"),
+        }),
+    },
+    "GET /v1/phone/hash/:phone": {
+        tag: "Ledger",
+        summary: "전화번호의 해시",
+        data: Schemas.object(["phone", "phoneHash"]),
+        errors: ["2007"],
+    },
+    "GET /v1/currency/convert": {
+        tag: "Ledger",
+        summary: "통화의 금액을 다른 통화의 금액으로 환산한다",
+        data: Schemas.object(["amount"]),
+    },
+    "POST /v1/ledger/transfer": {
+        tag: "Ledger",
+        summary: "원장의 토큰을 다른 계정으로 이체한다",
+        data: transfer,
+        errors: ["1501", "1511"],
+    },
+    "POST /v1/ledger/withdraw_via_bridge": {
+        tag: "Ledger",
+        summary: "원장의 토큰을 브릿지를 통해 메인체인으로 인출한다",
+        data: bridge,
+        errors: ["1501", "1511", "3001"],
+    },
+    "POST /v1/ledger/deposit_via_bridge": {
+        tag: "Ledger",
+        summary: "메인체인의 토큰을 브릿지를 통해 원장으로 입금한다",
+        data: bridge,
+        errors: ["1501", "1511", "3001"],
+    },
+    // endregion
+
+    // region Payment
+    "GET /v1/payment/user/balance": {
+        tag: "Payment",
+        summary: "사용자의 포인트 잔고",
+        data: tokenBalance,
+        errors: ["2004"],
+    },
+    "GET /v1/payment/convert/currency": {
+        tag: "Payment",
+        summary: "통화의 금액을 다른 통화의 금액으로 환산한다",
+        data: Schemas.object(["amount"]),
+    },
+    "GET /v1/payment/shop/info": {
+        tag: "Payment",
+        summary: "상점의 기본적인 정보",
+        data: Schemas.ref("ShopInfo"),
+    },
+    "POST /v1/payment/account/temporary": {
+        tag: "Payment",
+        summary: "결제에 사용할 임시주소를 발급한다",
+        data: Schemas.object(["temporaryAccount"]),
+        errors: ["1501"],
+    },
+    "POST /v1/payment/account/token": {
+        tag: "Payment",
+        summary: "임시주소에 대한 결제용 QR 토큰을 발급한다",
+        data: Schemas.object(["temporaryAccount", "tokenId", "token", "expiresAt"], { tokenId: Schemas.string }),
+        errors: ["1501"],
+    },
+    "POST /v1/payment/account/token/resolve": {
+        tag: "Payment",
+        summary: "결제용 QR 토큰을 검증하고 임시주소를 제공한다. 토큰은 한번만 사용할 수 있다",
+        data: Schemas.object(["temporaryAccount", "expiresAt"]),
+        errors: ["2041", "2042", "2043", "2044"],
+    },
+    "GET /v1/payment/info": {
+        tag: "Payment",
+        summary: "결제할 금액에 대한 포인트와 수수료를 계산한다",
+        data: Schemas.object(["account", "amount", "currency", "balance", "balanceValue", ...paidFields, "feeRate"], {
+            balanceValue: Schemas.amount,
+            feeRate: { type: "number" },
+        }),
+        errors: ["2004"],
+    },
+    "POST /v1/payment/new/open": {
+        tag: "Payment",
+        summary: "새로운 결제를 생성한다. Idempotency-Key 헤더로 같은 요청의 재시도를 구별한다",
+        data: Schemas.ref("PaymentResult"),
+        errors: ["2004", "2009", "2050", "2051", "2052", "2053", "2054", "3072"],
+    },
+    "POST /v1/payment/new/close": {
+        tag: "Payment",
+        summary: "사용자가 승인한 결제를 완료하거나 취소한다",
+        data: Schemas.ref("PaymentClose"),
+        errors: ["2003", "2024", "2026", "2029", "2030", "5000"],
+    },
+    "POST /v1/payment/new/approval": {
+        tag: "Payment",
+        summary: "사용자가 결제를 승인하거나 거부한다",
+        data: Schemas.ref("PaymentApproval"),
+        errors: ["1501", "2003", "2020", "2025", "2026", "2027", "2028", "7000"],
+    },
+    "POST /v1/payment/request/create": {
+        tag: "PaymentRequest",
+        summary: "상점이 미리 결제요청을 만들고 사용자에게 전달할 링크를 제공한다",
+        data: Schemas.ref("PaymentRequest"),
+        errors: ["1201", "1202", "3072"],
+    },
+    "GET /v1/payment/request/list": {
+        tag: "PaymentRequest",
+        summary: "상점의 결제요청 목록",
+        data: pageOf(Schemas.ref("PaymentRequest")),
+    },
+    "POST /v1/payment/request/cancel": {
+        tag: "PaymentRequest",
+        summary: "아직 결제되지 않은 결제요청을 취소한다",
+        data: Schemas.ref("PaymentRequest"),
+        errors: ["2045", "2048"],
+    },
+    "GET /v1/payment/request/item": {
+        tag: "PaymentRequest",
+        summary: "링크로 전달된 결제요청의 정보",
+        data: { allOf: [Schemas.ref("PaymentRequest"), Schemas.object(["shopName"])] },
+        errors: ["2045"],
+    },
+    "POST /v1/payment/request/fulfil": {
+        tag: "PaymentRequest",
+        summary: "사용자가 결제요청에 대한 결제를 생성한다",
+        description: "생성된 결제는 POST /v1/payment/new/approval 로 승인한다",
+        data: { allOf: [Schemas.object(["requestId"]), Schemas.ref("PaymentResult")] },
+        errors: ["1501", "2045", "2046", "2047"],
+    },
+    "GET /v1/payment/item": {
+        tag: "Payment",
+        summary: "결제의 정보",
+        data: Schemas.ref("Payment"),
+        errors: ["2003"],
+    },
+    "GET /v1/payment/:paymentId/receipt": {
+        tag: "Payment",
+        summary: "완료된 결제의 서명된 영수증. format=html 이면 HTML 로 응답한다",
+        data: Schemas.struct({
+            domain: Schemas.struct({
+                name: Schemas.string,
+                version: Schemas.string,
+                chainId: Schemas.integer,
+                verifyingContract: Schemas.address,
+            }),
+            receipt: Schemas.object([
+                "paymentId",
+                "purchaseId",
+                "shopId",
+                "shopName",
+                "account",
+                "currency",
+                "amount",
+                ...paidFields,
+                "cancelAmount",
+                "cancelPoint",
+                "cancelFeePoint",
+                "paymentStatus",
+                "openNewTxId",
+                "openCancelTxId",
+                ...timestampFields,
+            ]),
+            signer: Schemas.address,
+            signature: Schemas.string,
+        }),
+        errors: ["2003", "2037"],
+    },
+    "GET /v1/payment/shop/:shopId": {
+        tag: "Payment",
+        summary: "상점의 결제목록을 조건에 맞게 제공한다. 상점주 또는 위임자의 서명이 필요하다",
+        data: Schemas.struct({
+            shopId: Schemas.bytes32,
+            total: Schemas.object(["totalCount", "paidPoint", "paidValue", "feeValue"], {
+                totalCount: Schemas.integer,
+            }),
+            nextCursor: { type: "string", description: "다음 페이지가 없으면 빈 문자열" },
+            items: Schemas.array(Schemas.ref("PaymentCancel")),
+        }),
+        errors: ["1201", "1501", "1503", "1506"],
+    },
+    "GET /v1/payment/:paymentId/events": {
+        tag: "Payment",
+        summary: "결제의 상태변경 내역",
+        data: Schemas.struct({
+            paymentId: Schemas.bytes32,
+            paymentStatus: { type: "integer", description: "LoyaltyPaymentTaskStatus" },
+            events: Schemas.array(
+                Schemas.object(["fromStatus", "toStatus", "actor", "reason", "txHash", "timestamp"], {
+                    fromStatus: Schemas.integer,
+                    toStatus: Schemas.integer,
+                    txHash: Schemas.string,
+                })
+            ),
+            attempts: Schemas.array(
+                Schemas.object(["kind", "attempt", "txHash", "failure", "reason", "timestamp"], {
+                    attempt: Schemas.integer,
+                    txHash: Schemas.string,
+                })
+            ),
+        }),
+        errors: ["2003"],
+    },
+    "GET /v1/payment/stream": {
+        tag: "Payment",
+        summary: "결제의 상태변경을 Server-Sent Events 로 전달한다",
+        contentType: "text/event-stream",
+        errors: ["2003"],
+    },
+    "POST /v1/payment/cancel/open": {
+        tag: "Payment",
+        summary: "완료된 결제의 취소를 시작한다",
+        data: Schemas.ref("PaymentCancel"),
+        errors: ["1535", "2003", "2005", "2022"],
+    },
+    "POST /v1/payment/cancel/close": {
+        tag: "Payment",
+        summary: "사용자가 승인한 결제의 취소를 완료한다",
+        data: Schemas.ref("PaymentCancel"),
+        errors: ["2003", "2024", "2026", "2029", "2030", "5000"],
+    },
+    "POST /v1/payment/cancel/approval": {
+        tag: "Payment",
+        summary: "상점이 결제의 취소를 승인하거나 거부한다",
+        data: Schemas.ref("PaymentApproval"),
+        errors: ["1501", "2003", "2020", "2025", "2026", "2027", "2028", "7000"],
+    },
+    // endregion
+
+    // region PhoneLink
+    "GET /v1/link/nonce/:account": {
+        tag: "PhoneLink",
+        summary: "전화번호 연결 컨트랙트의 서명에 사용할 논스",
+        data: nonce,
+    },
+    "GET /v1/link/to_account/:phone": {
+        tag: "PhoneLink",
+        summary: "전화번호 해시에 연결된 계정",
+        data: Schemas.object(["phone", "account"]),
+    },
+    "GET /v1/link/to_phone/:account": {
+        tag: "PhoneLink",
+        summary: "계정에 연결된 전화번호 해시",
+        data: Schemas.object(["phone", "account"]),
+    },
+    "POST /v1/link/removePhoneInfo": {
+        tag: "PhoneLink",
+        summary: "계정과 전화번호의 연결을 삭제한다",
+        data: txHash,
+        errors: ["1501"],
+    },
+    // endregion
+
+    // region Provider
+    "GET /v1/provider/balance/:provider": {
+        tag: "Provider",
+        summary: "제공자가 제공할 수 있는 토큰과 포인트",
+        data: Schemas.struct({
+            provider: Schemas.address,
+            providable: Schemas.struct({ token: Schemas.amount, point: Schemas.amount }),
+        }),
+    },
+    "GET /v1/provider/status/:provider": {
+        tag: "Provider",
+        summary: "제공자로 등록되었는지 확인한다",
+        data: Schemas.struct({ provider: Schemas.address, enable: Schemas.boolean }),
+    },
+    "POST /v1/provider/send/account": {
+        tag: "Provider",
+        summary: "제공자가 계정에 포인트를 제공한다",
+        data: Schemas.object(["provider", "receiver", "amount", "txHash"]),
+        errors: ["1501"],
+    },
+    "POST /v1/provider/send/phoneHash": {
+        tag: "Provider",
+        summary: "제공자가 전화번호 해시에 포인트를 제공한다",
+        data: Schemas.object(["provider", "receiver", "amount", "txHash"], { receiver: Schemas.bytes32 }),
+        errors: ["1501"],
+    },
+    "POST /v1/provider/assistant/register": {
+        tag: "Provider",
+        summary: "제공자의 업무를 대신할 보조자를 등록한다",
+        data: Schemas.object(["provider", "assistant", "txHash"]),
+        errors: ["1501"],
+    },
+    "GET /v1/provider/assistant/:provider": {
+        tag: "Provider",
+        summary: "제공자의 보조자",
+        data: Schemas.object(["provider", "assistant"]),
+    },
+    // endregion
+
+    // region Reconciliation
+    "GET /v1/reconciliation/report": {
+        tag: "Reconciliation",
+        summary: "하루 동안의 결제에 대한 대조 결과",
+        data: Schemas.struct({
+            day: Schemas.string,
+            paymentCount: Schemas.integer,
+            issueCount: Schemas.integer,
+            timestamp: Schemas.timestamp,
+            summary: { type: "object", additionalProperties: Schemas.integer },
+            items: Schemas.array(
+                Schemas.object(["day", "paymentId", "issueType", "source", "field", "expected", "actual", "timestamp"])
+            ),
+        }),
+        errors: ["2038"],
+    },
+    // endregion
+
+    // region Shop
+    "GET /v1/shop/nonce/:account": {
+        tag: "Shop",
+        summary: "상점 컨트랙트의 서명에 사용할 논스",
+        data: nonce,
+    },
+    "POST /v1/shop/account/delegator/create": {
+        tag: "Shop",
+        summary: "상점의 위임자 계정을 생성한다",
+        data: Schemas.object(["shopId", "account", "delegator"]),
+        errors: ["1501"],
+    },
+    "POST /v1/shop/account/delegator/remove": {
+        tag: "Shop",
+        summary: "상점의 위임자 계정을 삭제한다",
+        data: Schemas.object(["shopId", "account"]),
+        errors: ["1501"],
+    },
+    "POST /v1/shop/account/delegator/save": {
+        tag: "Shop",
+        summary: "상점의 위임자를 컨트랙트에 저장한다",
+        data: Schemas.object(["shopId", "delegator", "account", "txHash"]),
+        errors: ["1501", "2006"],
+    },
+    "POST /v1/shop/add": {
+        tag: "Shop",
+        summary: "상점을 추가한다",
+        data: Schemas.object(["taskId", "shopId", "name", "currency", "account", "taskStatus", "timestamp", "txHash"]),
+        errors: ["1501", "3072"],
+    },
+    "GET /v1/shop/task": {
+        tag: "Shop",
+        summary: "상점정보를 변경하는 작업의 정보",
+        data: Schemas.object([
+            "taskId",
+            "type",
+            "shopId",
+            "name",
+            "currency",
+            "status",
+            "taskStatus",
+            "account",
+            "timestamp",
+        ]),
+        errors: ["2033"],
+    },
+    "POST /v1/shop/update/create": {
+        tag: "Shop",
+        summary: "상점정보의 수정을 시작한다. 상점주의 승인이 필요하다",
+        data: shopTask,
+        errors: ["1201", "2005", "3072"],
+    },
+    "POST /v1/shop/update/approval": {
+        tag: "Shop",
+        summary: "상점주가 상점정보의 수정을 승인하거나 거부한다",
+        data: shopTask,
+        errors: ["1501", "2033", "2040", "7000"],
+    },
+    "POST /v1/shop/status/create": {
+        tag: "Shop",
+        summary: "상점상태의 변경을 시작한다. 상점주의 승인이 필요하다",
+        data: shopStatusTask,
+        errors: ["1201", "2005", "3072"],
+    },
+    "POST /v1/shop/status/approval": {
+        tag: "Shop",
+        summary: "상점주가 상점상태의 변경을 승인하거나 거부한다",
+        data: shopStatusTask,
+        errors: ["1501", "2033", "2040", "7000"],
+    },
+    "POST /v1/shop/refund": {
+        tag: "Shop",
+        summary: "상점 정산금을 인출 신청한다",
+        data: txHash,
+        errors: ["1501"],
+    },
+    "GET /v1/shop/list": {
+        tag: "Shop",
+        summary: "상점의 목록",
+        data: pageOf(
+            Schemas.object([
+                "shopId",
+                "name",
+                "currency",
+                "status",
+                "account",
+                "providedAmount",
+                "usedAmount",
+                "refundedAmount",
+            ])
+        ),
+    },
+    "GET /v1/shop/info/:shopId": {
+        tag: "Shop",
+        summary: "상점의 기본적인 정보",
+        data: Schemas.ref("ShopInfo"),
+    },
+    "GET /v1/shop/refundable/:shopId": {
+        tag: "Shop",
+        summary: "상점의 반환가능한 정산금",
+        data: Schemas.struct({ refundableAmount: Schemas.amount, refundableToken: Schemas.amount }),
+    },
+    "GET /v1/shop/policy/:shopId": {
+        tag: "Shop",
+        summary: "상점의 시간제한 정책. 0 인 값은 설정파일의 값이 적용된다",
+        data: shopPolicy,
+    },
+    "POST /v1/shop/policy": {
+        tag: "Shop",
+        summary: "상점의 시간제한 정책을 변경한다. 상점주 또는 대리인이 서명해야 한다",
+        data: shopPolicy,
+        errors: ["1201", "1501", "1503", "1506", "2036"],
+    },
+    // endregion
+
+    // region Purchase
+    "POST /v1/purchase/save": {
+        tag: "Purchase",
+        summary: "구매정보를 저장한다",
+        data: { type: "object" },
+    },
+    "POST /v1/purchase/cancel": {
+        tag: "Purchase",
+        summary: "저장된 구매정보를 취소한다",
+        data: { type: "object" },
+    },
+    "GET /v1/purchase/user/provide/:account": {
+        tag: "Purchase",
+        summary: "사용자에게 제공될 예정인 포인트의 목록",
+        data: Schemas.array(
+            Schemas.object(
+                ["account", "timestamp", "currency", "providePoint", "provideValue", "purchaseId", "shopId"],
+                { timestamp: Schemas.string, providePoint: Schemas.amount, provideValue: Schemas.amount }
+            )
+        ),
+    },
+    "GET /v1/purchase/user/provide/total/:account": {
+        tag: "Purchase",
+        summary: "사용자에게 제공될 예정인 포인트의 합계",
+        data: Schemas.object(["account", "providePoint", "provideValue"], {
+            providePoint: Schemas.amount,
+            provideValue: Schemas.amount,
+        }),
+    },
+    "GET /v1/purchase/shop/provide/:shopId": {
+        tag: "Purchase",
+        summary: "상점이 제공할 예정인 금액의 목록",
+        data: Schemas.array(
+            Schemas.object(["shopId", "timestamp", "currency", "providedAmount", "purchaseId"], {
+                timestamp: Schemas.string,
+            })
+        ),
+    },
+    "GET /v1/purchase/shop/provide/total/:shopId": {
+        tag: "Purchase",
+        summary: "상점이 제공할 예정인 금액의 합계",
+        data: Schemas.object(["shopId", "providedAmount"]),
+    },
+    // endregion
+
+    // region Token
+    "GET /v1/token/main/balance/:account": {
+        tag: "Token",
+        summary: "메인체인의 토큰의 잔고",
+        data: tokenBalance,
+    },
+    "GET /v1/token/main/nonce/:account": {
+        tag: "Token",
+        summary: "메인체인의 토큰의 서명에 사용할 논스",
+        data: nonce,
+    },
+    "GET /v1/token/side/balance/:account": {
+        tag: "Token",
+        summary: "사이드체인의 토큰의 잔고",
+        data: tokenBalance,
+    },
+    "GET /v1/token/side/nonce/:account": {
+        tag: "Token",
+        summary: "사이드체인의 토큰의 서명에 사용할 논스",
+        data: nonce,
+    },
+    "POST /v1/token/main/transfer": {
+        tag: "Token",
+        summary: "메인체인의 토큰을 이체한다",
+        data: transfer,
+        errors: ["1501", "1511"],
+    },
+    "POST /v1/token/side/transfer": {
+        tag: "Token",
+        summary: "사이드체인의 토큰을 이체한다",
+        data: transfer,
+        errors: ["1501", "1511"],
+    },
+    "GET /v1/chain/main/id": {
+        tag: "Chain",
+        summary: "메인체인의 체인 아이디",
+        data: chainId,
+    },
+    "GET /v1/chain/side/id": {
+        tag: "Chain",
+        summary: "사이드체인의 체인 아이디",
+        data: chainId,
+    },
+    "GET /v1/chain/main/info": {
+        tag: "Chain",
+        summary: "메인체인의 체인 정보",
+        data: chainInfo,
+    },
+    "GET /v1/chain/side/info": {
+        tag: "Chain",
+        summary: "사이드체인의 체인 정보",
+        data: chainInfo,
+    },
+    "GET /v1/system/info": {
+        tag: "Chain",
+        summary: "토큰의 심볼, 포인트의 정밀도와 기준통화, 언어",
+        data: Schemas.struct({
+            token: Schemas.struct({ symbol: Schemas.string }),
+            point: Schemas.struct({ precision: Schemas.integer, equivalentCurrency: Schemas.string }),
+            language: Schemas.string,
+        }),
+    },
+    "GET /v1/summary/account/:account": {
+        tag: "Summary",
+        summary: "계정의 잔고와 환율, 수수료의 요약",
+        data: Schemas.struct({
+            account: Schemas.address,
+            ...summary,
+            provider: Schemas.struct({ enable: Schemas.boolean, assistant: Schemas.address }),
+        }),
+        errors: ["2004"],
+    },
+    "GET /v1/summary/shop/:shopId": {
+        tag: "Summary",
+        summary: "상점의 잔고와 환율, 수수료의 요약",
+        data: Schemas.struct({
+            shopInfo: {
+                allOf: [
+                    Schemas.ref("ShopInfo"),
+                    Schemas.struct({ refundableAmount: Schemas.amount, refundableToken: Schemas.amount }),
+                ],
+            },
+            ...summary,
+        }),
+    },
+    // endregion
+};
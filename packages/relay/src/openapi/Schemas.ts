@@ -0,0 +1,115 @@
+/**
+ * OpenAPI 문서에서 사용하는 JSON 스키마
+ */
+export type JsonSchema = { [key: string]: any };
+
+const address: JsonSchema = { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" };
+const bytes32: JsonSchema = { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" };
+const amount: JsonSchema = { type: "string", pattern: "^[0-9]+$", description: "소수점이하 18자리의 금액" };
+const integer: JsonSchema = { type: "integer" };
+const string: JsonSchema = { type: "string" };
+const boolean: JsonSchema = { type: "boolean" };
+const timestamp: JsonSchema = { type: "integer", description: "Unix timestamp (초)" };
+
+/**
+ * 여러 응답에서 같은 의미로 사용되는 속성의 스키마
+ */
+const fields: { [name: string]: JsonSchema } = {
+    account: address,
+    delegator: address,
+    provider: address,
+    assistant: address,
+    receiver: address,
+    from: address,
+    to: address,
+    temporaryAccount: address,
+    paymentId: bytes32,
+    shopId: bytes32,
+    requestId: bytes32,
+    phoneHash: bytes32,
+    taskId: bytes32,
+    txHash: bytes32,
+    transactionHash: bytes32,
+    tokenId: bytes32,
+    depositId: bytes32,
+    purchaseId: string,
+    currency: string,
+    name: string,
+    phone: string,
+    amount,
+    balance: amount,
+    value: amount,
+    paidPoint: amount,
+    paidValue: amount,
+    feePoint: amount,
+    feeValue: amount,
+    totalPoint: amount,
+    totalValue: amount,
+    usedPoint: amount,
+    usedToken: amount,
+    cancelAmount: amount,
+    cancelPoint: amount,
+    cancelFeePoint: amount,
+    remainAmount: amount,
+    remainPoint: amount,
+    remainFeePoint: amount,
+    providedAmount: amount,
+    usedAmount: amount,
+    refundedAmount: amount,
+    useToken: boolean,
+    paymentStatus: { type: "integer", description: "LoyaltyPaymentTaskStatus" },
+    taskStatus: { type: "integer", description: "ShopTaskStatus" },
+    status: integer,
+    nonce: { type: "string", pattern: "^[0-9]+$" },
+    timestamp,
+    expiresAt: timestamp,
+    openNewTimestamp: timestamp,
+    closeNewTimestamp: timestamp,
+    openCancelTimestamp: timestamp,
+    closeCancelTimestamp: timestamp,
+    blockNumber: { type: "string", pattern: "^[0-9]+$" },
+    blockTimestamp: { type: "string", pattern: "^[0-9]+$" },
+};
+
+export class Schemas {
+    public static readonly address = address;
+    public static readonly bytes32 = bytes32;
+    public static readonly amount = amount;
+    public static readonly integer = integer;
+    public static readonly string = string;
+    public static readonly boolean = boolean;
+    public static readonly timestamp = timestamp;
+
+    /**
+     * 속성의 이름으로 객체의 스키마를 만든다. 이름이 fields 에 없으면 문자열로 한다.
+     * extra 의 속성은 필수가 아니다.
+     */
+    public static object(names: string[], extra: { [name: string]: JsonSchema } = {}): JsonSchema {
+        const properties: { [name: string]: JsonSchema } = {};
+        for (const name of names) properties[name] = fields[name] !== undefined ? fields[name] : string;
+        return {
+            type: "object",
+            properties: { ...properties, ...extra },
+            required: names,
+        };
+    }
+
+    /**
+     * 모든 속성이 필수인 객체의 스키마
+     */
+    public static struct(properties: { [name: string]: JsonSchema }): JsonSchema {
+        return { type: "object", properties, required: Object.keys(properties) };
+    }
+
+    public static array(items: JsonSchema): JsonSchema {
+        return { type: "array", items };
+    }
+
+    public static ref(name: string): JsonSchema {
+        return { $ref: `#/components/schemas/${name}` };
+    }
+
+    public static oneOf(...schemas: JsonSchema[]): JsonSchema {
+        return { oneOf: schemas };
+    }
+}
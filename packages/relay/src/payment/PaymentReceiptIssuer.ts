@@ -0,0 +1,156 @@
+import { Amount } from "../common/Amount";
+import { Config } from "../common/Config";
+import { ContractManager } from "../contract/ContractManager";
+import { LoyaltyPaymentTaskData, PaymentReceiptData, SignedPaymentReceiptData } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+
+import { BigNumber, Wallet } from "ethers";
+
+/**
+ * 완료된 결제의 영수증을 만들고 EIP-712 형식으로 서명한다
+ */
+export class PaymentReceiptIssuer {
+    private readonly config: Config;
+    private readonly contractManager: ContractManager;
+    private _wallet: Wallet | undefined;
+
+    constructor(config: Config, contractManager: ContractManager) {
+        this.config = config;
+        this.contractManager = contractManager;
+    }
+
+    private get wallet(): Wallet {
+        if (this._wallet === undefined) this._wallet = new Wallet(this.config.relay.receiptKey);
+        return this._wallet;
+    }
+
+    /**
+     * 부분취소가 여러번 있었을 수 있으므로 취소된 금액과 포인트는 마지막 취소가 아닌 전체 취소의 합이다
+     */
+    public make(item: LoyaltyPaymentTaskData, shopName: string): PaymentReceiptData {
+        return {
+            paymentId: item.paymentId,
+            purchaseId: item.purchaseId,
+            shopId: item.shopId,
+            shopName,
+            account: item.account,
+            currency: item.currency,
+            amount: item.amount.toString(),
+            paidPoint: item.paidPoint.toString(),
+            paidValue: item.paidValue.toString(),
+            feePoint: item.feePoint.toString(),
+            feeValue: item.feeValue.toString(),
+            totalPoint: item.totalPoint.toString(),
+            totalValue: item.totalValue.toString(),
+            cancelAmount: item.paidValue.sub(item.remainAmount).toString(),
+            cancelPoint: item.paidPoint.sub(item.remainPoint).toString(),
+            cancelFeePoint: item.feePoint.sub(item.remainFeePoint).toString(),
+            paymentStatus: item.paymentStatus,
+            openNewTxId: item.openNewTxId,
+            openCancelTxId: item.openCancelTxId,
+            openNewTimestamp: item.openNewTimestamp,
+            closeNewTimestamp: item.closeNewTimestamp,
+            openCancelTimestamp: item.openCancelTimestamp,
+            closeCancelTimestamp: item.closeCancelTimestamp,
+        };
+    }
+
+    public async issue(item: LoyaltyPaymentTaskData, shopName: string): Promise<SignedPaymentReceiptData> {
+        const receipt = this.make(item, shopName);
+        const chainId = this.contractManager.sideChainId;
+        const verifyingContract = this.contractManager.sideLoyaltyConsumerContract.address;
+        const signature = await ContractUtils.signPaymentReceipt(this.wallet, receipt, chainId, verifyingContract);
+        const domain = ContractUtils.getPaymentReceiptDomain(chainId, verifyingContract);
+        return {
+            domain: {
+                name: String(domain.name),
+                version: String(domain.version),
+                chainId: Number(chainId),
+                verifyingContract,
+            },
+            receipt,
+            signer: this.wallet.address,
+            signature,
+        };
+    }
+
+    /**
+     * 인쇄할 수 있는 HTML 형식의 영수증
+     */
+    public static toHtml(signed: SignedPaymentReceiptData): string {
+        const r = signed.receipt;
+        const currency = r.currency.toUpperCase();
+        const rows: string[][] = [
+            ["Payment ID", r.paymentId],
+            ["Purchase ID", r.purchaseId],
+            ["Shop", `${r.shopName} (${r.shopId})`],
+            ["Account", r.account],
+            ["Amount", `${PaymentReceiptIssuer.toDisplay(r.amount)} ${currency}`],
+            ["Paid Point", `${PaymentReceiptIssuer.toDisplay(r.paidPoint)} POINT`],
+            ["Fee Point", `${PaymentReceiptIssuer.toDisplay(r.feePoint)} POINT`],
+            ["Total Point", `${PaymentReceiptIssuer.toDisplay(r.totalPoint)} POINT`],
+            ["Fee", `${PaymentReceiptIssuer.toDisplay(r.feeValue)} ${currency}`],
+            ["Total", `${PaymentReceiptIssuer.toDisplay(r.totalValue)} ${currency}`],
+        ];
+        if (r.openCancelTimestamp > 0) {
+            rows.push(["Cancel Amount", `${PaymentReceiptIssuer.toDisplay(r.cancelAmount)} ${currency}`]);
+            rows.push(["Cancel Point", `${PaymentReceiptIssuer.toDisplay(r.cancelPoint)} POINT`]);
+        }
+        rows.push(["Status", String(r.paymentStatus)]);
+        rows.push(["Payment Tx", r.openNewTxId]);
+        rows.push(["Payment Time", PaymentReceiptIssuer.toDate(r.closeNewTimestamp)]);
+        if (r.openCancelTimestamp > 0) {
+            rows.push(["Cancel Tx", r.openCancelTxId]);
+            rows.push(["Cancel Time", PaymentReceiptIssuer.toDate(r.closeCancelTimestamp)]);
+        }
+        rows.push(["Signer", signed.signer]);
+        rows.push(["Signature", signed.signature]);
+
+        const body = rows
+            .map(
+                (m) =>
+                    `<tr><th>${PaymentReceiptIssuer.escape(m[0])}</th><td>${PaymentReceiptIssuer.escape(
+                        m[1]
+                    )}</td></tr>`
+            )
+            .join("\n");
+        return [
+            "<!DOCTYPE html>",
+            "<html lang=en>",
+            "<head>",
+            "<meta charset=utf-8>",
+            `<title>Receipt ${PaymentReceiptIssuer.escape(r.paymentId)}</title>`,
+            "<style>",
+            "body { font-family: sans-serif; max-width: 720px; margin: 24px auto; }",
+            "table { width: 100%; border-collapse: collapse; }",
+            "th, td { text-align: left; padding: 6px; border-bottom: 1px solid #ddd; word-break: break-all; }",
+            "th { width: 30%; }",
+            "</style>",
+            "</head>",
+            "<body>",
+            "<h1>Payment Receipt</h1>",
+            "<table>",
+            body,
+            "</table>",
+            "</body>",
+            "</html>",
+        ].join("\n");
+    }
+
+    private static toDisplay(value: string): string {
+        return new Amount(BigNumber.from(value), 18).toDisplayString(true, 2);
+    }
+
+    private static toDate(timestamp: number): string {
+        return timestamp > 0 ? new Date(timestamp * 1000).toISOString() : "";
+    }
+
+    private static escape(value: string): string {
+        return value
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+}
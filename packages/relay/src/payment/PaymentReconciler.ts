@@ -0,0 +1,262 @@
+import { ContractManager } from "../contract/ContractManager";
+import { GraphStorage } from "../storage/GraphStorage";
+import { RelayStorage } from "../storage/RelayStorage";
+import {
+    ContractLoyaltyPaymentStatus,
+    IGraphLoyaltyPaymentEventData,
+    LoyaltyPaymentTaskData,
+    LoyaltyPaymentTaskStatus,
+    ReconciliationIssueData,
+    ReconciliationIssueType,
+    ReconciliationReportData,
+    ReconciliationSource,
+} from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+
+import { BigNumber } from "ethers";
+
+/**
+ * 대조에 사용되는 컨트랙트 또는 서브그래프의 결제 데이터
+ */
+export interface IReconcileRecord {
+    paidPoint: BigNumber;
+    paidValue: BigNumber;
+    feePoint: BigNumber;
+    feeValue: BigNumber;
+    status: ContractLoyaltyPaymentStatus;
+}
+
+/**
+ * 하루 동안 생성된 결제에 대하여 릴레이의 데이터베이스, LoyaltyConsumer 컨트랙트, 사이드체인 서브그래프를 대조한다.
+ * 날짜는 UTC 기준의 YYYY-MM-DD 이다.
+ */
+export class PaymentReconciler {
+    public static readonly SECONDS_PER_DAY = 86400;
+
+    /**
+     * 종료된 결제의 상태에 대하여 허용되는 컨트랙트의 상태
+     * 일부 취소가 종료되면 컨트랙트의 상태는 CLOSED_PAYMENT 로 돌아간다.
+     */
+    private static readonly EXPECTED_CONTRACT_STATUS: Map<LoyaltyPaymentTaskStatus, ContractLoyaltyPaymentStatus[]> =
+        new Map([
+            [LoyaltyPaymentTaskStatus.CLOSED_NEW, [ContractLoyaltyPaymentStatus.CLOSED_PAYMENT]],
+            [
+                LoyaltyPaymentTaskStatus.FAILED_NEW,
+                [ContractLoyaltyPaymentStatus.INVALID, ContractLoyaltyPaymentStatus.FAILED_PAYMENT],
+            ],
+            [LoyaltyPaymentTaskStatus.CLOSED_CANCEL, [ContractLoyaltyPaymentStatus.CLOSED_CANCEL]],
+            [
+                LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                [ContractLoyaltyPaymentStatus.FAILED_CANCEL, ContractLoyaltyPaymentStatus.CLOSED_PAYMENT],
+            ],
+        ]);
+
+    private static readonly AMOUNT_FIELDS: ("paidPoint" | "paidValue" | "feePoint" | "feeValue")[] = [
+        "paidPoint",
+        "paidValue",
+        "feePoint",
+        "feeValue",
+    ];
+
+    private readonly storage: RelayStorage;
+    private readonly contractManager: ContractManager;
+    private readonly graph: GraphStorage;
+
+    constructor(storage: RelayStorage, contractManager: ContractManager, graph: GraphStorage) {
+        this.storage = storage;
+        this.contractManager = contractManager;
+        this.graph = graph;
+    }
+
+    public static getDay(timestamp: number): string {
+        return new Date(timestamp * 1000).toISOString().substring(0, 10);
+    }
+
+    public static getDayRange(day: string): { from: number; to: number } {
+        const from = Math.floor(Date.parse(`${day}T00:00:00Z`) / 1000);
+        return { from, to: from + PaymentReconciler.SECONDS_PER_DAY };
+    }
+
+    /**
+     * 하나의 결제에 대하여 세 출처의 데이터를 비교한다.
+     * 컨트랙트나 서브그래프에 결제가 없으면 undefined 가 전달된다.
+     */
+    public static compare(
+        day: string,
+        payment: LoyaltyPaymentTaskData,
+        onchain: IReconcileRecord | undefined,
+        event: IReconcileRecord | undefined,
+        timestamp: number
+    ): ReconciliationIssueData[] {
+        const issues: ReconciliationIssueData[] = [];
+        const add = (
+            issueType: ReconciliationIssueType,
+            source: ReconciliationSource,
+            field: string,
+            expected: string,
+            actual: string
+        ) => {
+            issues.push({ day, paymentId: payment.paymentId, issueType, source, field, expected, actual, timestamp });
+        };
+
+        const expectedStatus = PaymentReconciler.EXPECTED_CONTRACT_STATUS.get(payment.paymentStatus);
+        if (expectedStatus === undefined) {
+            add(
+                ReconciliationIssueType.STATUS_DRIFT,
+                ReconciliationSource.RELAY,
+                "paymentStatus",
+                "closed",
+                String(payment.paymentStatus)
+            );
+            return issues;
+        }
+
+        if (onchain === undefined) {
+            if (!expectedStatus.includes(ContractLoyaltyPaymentStatus.INVALID)) {
+                add(
+                    ReconciliationIssueType.MISSING_EVENT,
+                    ReconciliationSource.CONTRACT,
+                    "payment",
+                    expectedStatus.join("|"),
+                    ""
+                );
+            }
+            if (event !== undefined) {
+                add(
+                    ReconciliationIssueType.STATUS_DRIFT,
+                    ReconciliationSource.GRAPH,
+                    "status",
+                    String(ContractLoyaltyPaymentStatus.INVALID),
+                    String(event.status)
+                );
+            }
+            return issues;
+        }
+
+        if (!expectedStatus.includes(onchain.status)) {
+            add(
+                ReconciliationIssueType.STATUS_DRIFT,
+                ReconciliationSource.CONTRACT,
+                "status",
+                expectedStatus.join("|"),
+                String(onchain.status)
+            );
+        }
+        for (const field of PaymentReconciler.AMOUNT_FIELDS) {
+            if (!payment[field].eq(onchain[field])) {
+                add(
+                    ReconciliationIssueType.AMOUNT_MISMATCH,
+                    ReconciliationSource.CONTRACT,
+                    field,
+                    payment[field].toString(),
+                    onchain[field].toString()
+                );
+            }
+        }
+
+        if (event === undefined) {
+            add(
+                ReconciliationIssueType.MISSING_EVENT,
+                ReconciliationSource.GRAPH,
+                "payment",
+                String(onchain.status),
+                ""
+            );
+            return issues;
+        }
+
+        // 일부 취소의 종료는 이벤트를 발생시키지 않으므로 서브그래프에는 OPENED_CANCEL 이 마지막으로 남는다.
+        const partialCancelClosed =
+            onchain.status === ContractLoyaltyPaymentStatus.CLOSED_PAYMENT &&
+            event.status === ContractLoyaltyPaymentStatus.OPENED_CANCEL;
+        if (event.status !== onchain.status && !partialCancelClosed) {
+            add(
+                ReconciliationIssueType.STATUS_DRIFT,
+                ReconciliationSource.GRAPH,
+                "status",
+                String(onchain.status),
+                String(event.status)
+            );
+        }
+        for (const field of PaymentReconciler.AMOUNT_FIELDS) {
+            if (!event[field].eq(onchain[field])) {
+                add(
+                    ReconciliationIssueType.AMOUNT_MISMATCH,
+                    ReconciliationSource.GRAPH,
+                    field,
+                    onchain[field].toString(),
+                    event[field].toString()
+                );
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * 하루 동안의 결제를 대조하고 결과를 저장한다. 같은 날짜를 다시 대조하면 이전의 결과는 대체된다.
+     */
+    public async reconcile(day: string): Promise<ReconciliationReportData> {
+        const timestamp = ContractUtils.getTimeStamp();
+        const range = PaymentReconciler.getDayRange(day);
+        const payments = await this.storage.getPaymentsOfPeriod(range.from, range.to);
+
+        const events = new Map<string, IGraphLoyaltyPaymentEventData>();
+        for (const event of await this.graph.getLatestPaymentEvents(payments.map((m) => m.paymentId))) {
+            events.set(event.paymentId.toLowerCase(), event);
+        }
+
+        const issues: ReconciliationIssueData[] = [];
+        const contract = this.contractManager.sideLoyaltyConsumerContract;
+        for (const payment of payments) {
+            const data = await contract.loyaltyPaymentOf(payment.paymentId);
+            const onchain: IReconcileRecord | undefined =
+                data.status === ContractLoyaltyPaymentStatus.INVALID
+                    ? undefined
+                    : {
+                          paidPoint: data.paidPoint,
+                          paidValue: data.paidValue,
+                          feePoint: data.feePoint,
+                          feeValue: data.feeValue,
+                          status: data.status,
+                      };
+            issues.push(
+                ...PaymentReconciler.compare(
+                    day,
+                    payment,
+                    onchain,
+                    events.get(payment.paymentId.toLowerCase()),
+                    timestamp
+                )
+            );
+        }
+
+        // 블록체인에는 있지만 릴레이에 기록되지 않은 결제
+        const known = new Set<string>(payments.map((m) => m.paymentId.toLowerCase()));
+        for (const paymentId of await this.graph.getOpenedPaymentIdsOfPeriod(range.from, range.to)) {
+            if (known.has(paymentId.toLowerCase())) continue;
+            // 날짜의 경계에서 생성된 결제는 릴레이에 기록된 날짜에 대조된다.
+            if ((await this.storage.getPayment(paymentId)) !== undefined) continue;
+            issues.push({
+                day,
+                paymentId,
+                issueType: ReconciliationIssueType.MISSING_EVENT,
+                source: ReconciliationSource.RELAY,
+                field: "payment",
+                expected: "",
+                actual: "",
+                timestamp,
+            });
+        }
+
+        await this.storage.removeReconciliationIssues(day);
+        for (const issue of issues) await this.storage.postReconciliationIssue(issue);
+        const report: ReconciliationReportData = {
+            day,
+            paymentCount: payments.length,
+            issueCount: issues.length,
+            timestamp,
+        };
+        await this.storage.postReconciliationReport(report);
+        return report;
+    }
+}
@@ -0,0 +1,189 @@
+import { Amount } from "../common/Amount";
+import { Config, IPaymentRuleItemConfig } from "../common/Config";
+import { logger } from "../common/Logger";
+import { Metrics } from "../metrics/Metrics";
+import { RelayStorage } from "../storage/RelayStorage";
+
+import { BigNumber } from "ethers";
+
+export interface IPaymentRuleContext {
+    account: string;
+    shopId: string;
+    totalPoint: BigNumber;
+    timestamp: number;
+}
+
+/**
+ * 결제를 생성하기 전에 검사하는 규칙
+ * 규칙을 위반하면 code 에 해당하는 오류를 응답한다.
+ */
+export interface IPaymentRule {
+    readonly name: string;
+    readonly code: string;
+    isViolated(context: IPaymentRuleContext): Promise<boolean>;
+}
+
+/**
+ * 한번에 결제할 수 있는 최대 포인트
+ */
+export class MaxPointRule implements IPaymentRule {
+    public readonly name = "maxPoint";
+    public readonly code = "2050";
+    private readonly point: BigNumber;
+
+    constructor(point: BigNumber) {
+        this.point = point;
+    }
+
+    public async isViolated(context: IPaymentRuleContext): Promise<boolean> {
+        return context.totalPoint.gt(this.point);
+    }
+}
+
+/**
+ * 기간 동안 계정이 결제할 수 있는 최대 건수
+ */
+export class AccountCountRule implements IPaymentRule {
+    public readonly name = "accountCount";
+    public readonly code = "2051";
+    private readonly storage: RelayStorage;
+    private readonly periodSecond: number;
+    private readonly count: number;
+
+    constructor(storage: RelayStorage, periodSecond: number, count: number) {
+        this.storage = storage;
+        this.periodSecond = periodSecond;
+        this.count = count;
+    }
+
+    public async isViolated(context: IPaymentRuleContext): Promise<boolean> {
+        const stat = await this.storage.getPaymentStatOfAccount(context.account, context.timestamp - this.periodSecond);
+        return stat.count + 1 > this.count;
+    }
+}
+
+/**
+ * 기간 동안 계정이 결제할 수 있는 최대 포인트
+ */
+export class AccountPointRule implements IPaymentRule {
+    public readonly name = "accountPoint";
+    public readonly code = "2052";
+    private readonly storage: RelayStorage;
+    private readonly periodSecond: number;
+    private readonly point: BigNumber;
+
+    constructor(storage: RelayStorage, periodSecond: number, point: BigNumber) {
+        this.storage = storage;
+        this.periodSecond = periodSecond;
+        this.point = point;
+    }
+
+    public async isViolated(context: IPaymentRuleContext): Promise<boolean> {
+        const stat = await this.storage.getPaymentStatOfAccount(context.account, context.timestamp - this.periodSecond);
+        return stat.totalPoint.add(context.totalPoint).gt(this.point);
+    }
+}
+
+/**
+ * 기간 동안 상점에서 결제될 수 있는 최대 포인트
+ */
+export class ShopPointRule implements IPaymentRule {
+    public readonly name = "shopPoint";
+    public readonly code = "2053";
+    private readonly storage: RelayStorage;
+    private readonly periodSecond: number;
+    private readonly point: BigNumber;
+
+    constructor(storage: RelayStorage, periodSecond: number, point: BigNumber) {
+        this.storage = storage;
+        this.periodSecond = periodSecond;
+        this.point = point;
+    }
+
+    public async isViolated(context: IPaymentRuleContext): Promise<boolean> {
+        const stat = await this.storage.getPaymentStatOfShop(context.shopId, context.timestamp - this.periodSecond);
+        return stat.totalPoint.add(context.totalPoint).gt(this.point);
+    }
+}
+
+/**
+ * 같은 계정에 대해 결제를 다시 생성하기 위해 기다려야 하는 시간
+ * 거부되거나 실패한 결제도 포함된다.
+ */
+export class AccountIntervalRule implements IPaymentRule {
+    public readonly name = "accountInterval";
+    public readonly code = "2054";
+    private readonly storage: RelayStorage;
+    private readonly periodSecond: number;
+
+    constructor(storage: RelayStorage, periodSecond: number) {
+        this.storage = storage;
+        this.periodSecond = periodSecond;
+    }
+
+    public async isViolated(context: IPaymentRuleContext): Promise<boolean> {
+        const stat = await this.storage.getPaymentStatOfAccount(context.account, context.timestamp - this.periodSecond);
+        return stat.lastTimestamp > 0;
+    }
+}
+
+/**
+ * 설정파일의 paymentRule 에 정의된 규칙들을 순서대로 검사한다.
+ * 위반된 규칙이 있으면 payment_rule_rejected 카운터를 증가시킨다.
+ */
+export class PaymentRuleEngine {
+    private readonly config: Config;
+    private readonly metrics: Metrics;
+    private readonly rules: IPaymentRule[];
+
+    constructor(config: Config, storage: RelayStorage, metrics: Metrics) {
+        this.config = config;
+        this.metrics = metrics;
+        this.rules = [];
+        for (const item of this.config.paymentRule.items) {
+            if (!item.enable) continue;
+            const rule = PaymentRuleEngine.createRule(item, storage);
+            if (rule !== undefined) this.rules.push(rule);
+            else logger.warn(`The payment rule '${item.name}' is not supported.`);
+        }
+    }
+
+    private static createRule(item: IPaymentRuleItemConfig, storage: RelayStorage): IPaymentRule | undefined {
+        const periodSecond = Number(item.periodSecond);
+        switch (item.name) {
+            case "maxPoint":
+                return new MaxPointRule(Amount.make(String(item.point), 18).value);
+            case "accountCount":
+                return new AccountCountRule(storage, periodSecond, Number(item.count));
+            case "accountPoint":
+                return new AccountPointRule(storage, periodSecond, Amount.make(String(item.point), 18).value);
+            case "shopPoint":
+                return new ShopPointRule(storage, periodSecond, Amount.make(String(item.point), 18).value);
+            case "accountInterval":
+                return new AccountIntervalRule(storage, periodSecond);
+            default:
+                return undefined;
+        }
+    }
+
+    public addRule(rule: IPaymentRule) {
+        this.rules.push(rule);
+    }
+
+    /**
+     * 위반된 첫번째 규칙의 오류코드를 반환한다. 모든 규칙을 통과하면 undefined 를 반환한다.
+     */
+    public async check(context: IPaymentRuleContext): Promise<string | undefined> {
+        if (!this.config.paymentRule.enable) return undefined;
+        for (const rule of this.rules) {
+            if (await rule.isViolated(context)) {
+                logger.warn(
+                    `The payment rule '${rule.name}' is violated - account: ${context.account}, shopId: ${context.shopId}`
+                );
+                this.metrics.counterInc("payment_rule_rejected", { rule: rule.name }, 1);
+                return rule.code;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,186 @@
+import { RelayStorage } from "../storage/RelayStorage";
+import { LoyaltyPaymentTaskData, LoyaltyPaymentTaskStatus, PaymentEventActor, PaymentTransitionField } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { PaymentTransitionError } from "../utils/Errors";
+
+const NEW_PENDING_NEXT = [
+    LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX,
+    LoyaltyPaymentTaskStatus.APPROVED_NEW_FAILED_TX,
+    LoyaltyPaymentTaskStatus.DENIED_NEW,
+    LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
+    LoyaltyPaymentTaskStatus.CLOSED_NEW,
+    LoyaltyPaymentTaskStatus.FAILED_NEW,
+];
+
+const CANCEL_PENDING_NEXT = [
+    LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX,
+    LoyaltyPaymentTaskStatus.APPROVED_CANCEL_FAILED_TX,
+    LoyaltyPaymentTaskStatus.DENIED_CANCEL,
+    LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
+    LoyaltyPaymentTaskStatus.CLOSED_CANCEL,
+    LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+    LoyaltyPaymentTaskStatus.CLOSED_NEW,
+];
+
+/**
+ * 결제의 상태에서 변경될 수 있는 다음 상태들
+ * CLOSED_NEW 로 되돌아가는 취소 과정의 전이는 부분취소가 종료된 경우이다.
+ * 그 외 완료된 상태 사이의 전이는 컨트랙트의 상태에 맞추기 위해서만 사용된다.
+ */
+const TRANSITIONS: Map<LoyaltyPaymentTaskStatus, LoyaltyPaymentTaskStatus[]> = new Map([
+    [LoyaltyPaymentTaskStatus.NULL, [LoyaltyPaymentTaskStatus.OPENED_NEW]],
+    [LoyaltyPaymentTaskStatus.OPENED_NEW, NEW_PENDING_NEXT],
+    [LoyaltyPaymentTaskStatus.APPROVED_NEW_FAILED_TX, NEW_PENDING_NEXT],
+    [LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX, NEW_PENDING_NEXT],
+    [
+        LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX,
+        [
+            LoyaltyPaymentTaskStatus.APPROVED_NEW_CONFIRMED_TX,
+            LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX,
+            LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
+            LoyaltyPaymentTaskStatus.CLOSED_NEW,
+            LoyaltyPaymentTaskStatus.FAILED_NEW,
+        ],
+    ],
+    [
+        LoyaltyPaymentTaskStatus.APPROVED_NEW_CONFIRMED_TX,
+        [
+            LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
+            LoyaltyPaymentTaskStatus.CLOSED_NEW,
+            LoyaltyPaymentTaskStatus.FAILED_NEW,
+        ],
+    ],
+    [LoyaltyPaymentTaskStatus.DENIED_NEW, [LoyaltyPaymentTaskStatus.FAILED_NEW]],
+    [
+        LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
+        [LoyaltyPaymentTaskStatus.CLOSED_NEW, LoyaltyPaymentTaskStatus.FAILED_NEW],
+    ],
+    [
+        LoyaltyPaymentTaskStatus.CLOSED_NEW,
+        [LoyaltyPaymentTaskStatus.OPENED_CANCEL, LoyaltyPaymentTaskStatus.FAILED_NEW],
+    ],
+    [LoyaltyPaymentTaskStatus.FAILED_NEW, [LoyaltyPaymentTaskStatus.CLOSED_NEW]],
+    [LoyaltyPaymentTaskStatus.OPENED_CANCEL, CANCEL_PENDING_NEXT],
+    [LoyaltyPaymentTaskStatus.APPROVED_CANCEL_FAILED_TX, CANCEL_PENDING_NEXT],
+    [LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX, CANCEL_PENDING_NEXT],
+    [
+        LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX,
+        [
+            LoyaltyPaymentTaskStatus.APPROVED_CANCEL_CONFIRMED_TX,
+            LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX,
+            LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
+            LoyaltyPaymentTaskStatus.CLOSED_CANCEL,
+            LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+            LoyaltyPaymentTaskStatus.CLOSED_NEW,
+        ],
+    ],
+    [
+        LoyaltyPaymentTaskStatus.APPROVED_CANCEL_CONFIRMED_TX,
+        [
+            LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
+            LoyaltyPaymentTaskStatus.CLOSED_CANCEL,
+            LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+            LoyaltyPaymentTaskStatus.CLOSED_NEW,
+        ],
+    ],
+    [
+        LoyaltyPaymentTaskStatus.DENIED_CANCEL,
+        [LoyaltyPaymentTaskStatus.FAILED_CANCEL, LoyaltyPaymentTaskStatus.CLOSED_NEW],
+    ],
+    [
+        LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
+        [
+            LoyaltyPaymentTaskStatus.CLOSED_CANCEL,
+            LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+            LoyaltyPaymentTaskStatus.CLOSED_NEW,
+        ],
+    ],
+    [LoyaltyPaymentTaskStatus.CLOSED_CANCEL, [LoyaltyPaymentTaskStatus.FAILED_CANCEL]],
+    [LoyaltyPaymentTaskStatus.FAILED_CANCEL, [LoyaltyPaymentTaskStatus.CLOSED_CANCEL]],
+]);
+
+/**
+ * 결제 상태의 변경을 검사하고, 변경된 상태와 변경된 내역(payment_events)을 하나의 문장으로 저장한다.
+ * 결제의 상태는 이 클래스를 통해서만 변경되어야 한다
+ */
+export class PaymentStateMachine {
+    /**
+     * 컨트랙트의 결제 또는 취소 이벤트로 확정된 금액과 시각
+     */
+    public static readonly PAYMENT_FIELDS: PaymentTransitionField[] = [
+        PaymentTransitionField.AMOUNTS,
+        PaymentTransitionField.REMAIN,
+        PaymentTransitionField.CONTRACT_STATUS,
+        PaymentTransitionField.OPEN_NEW_TIMESTAMP,
+        PaymentTransitionField.CLOSE_NEW_TIMESTAMP,
+        PaymentTransitionField.OPEN_CANCEL_TIMESTAMP,
+        PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP,
+    ];
+
+    private readonly storage: RelayStorage;
+
+    constructor(storage: RelayStorage) {
+        this.storage = storage;
+    }
+
+    public static canTransition(from: LoyaltyPaymentTaskStatus, to: LoyaltyPaymentTaskStatus): boolean {
+        if (from === to) return true;
+        const next = TRANSITIONS.get(from);
+        return next !== undefined && next.includes(to);
+    }
+
+    /**
+     * 새로운 결제를 OPENED_NEW 상태로 저장한다. 같은 결제가 이미 저장되어 있으면 false 를 반환한다
+     */
+    public async open(item: LoyaltyPaymentTaskData, actor: PaymentEventActor, reason: string): Promise<boolean> {
+        const from = item.paymentStatus;
+        const to = LoyaltyPaymentTaskStatus.OPENED_NEW;
+        if (from !== LoyaltyPaymentTaskStatus.NULL) {
+            throw new PaymentTransitionError(item.paymentId, from, to);
+        }
+        item.paymentStatus = to;
+        return this.storage.openPayment(item, {
+            paymentId: item.paymentId,
+            fromStatus: from,
+            toStatus: to,
+            actor,
+            reason,
+            txHash: "",
+            timestamp: ContractUtils.getTimeStamp(),
+        });
+    }
+
+    /**
+     * 결제의 상태를 변경하고 fields 의 항목을 item 의 값으로 함께 저장한다.
+     * 허용되지 않은 변경이거나, 저장된 결제의 상태가 item 의 상태와 다르면(다른 요청이 먼저 변경한 경우)
+     * PaymentTransitionError 를 발생시킨다. 상태가 같으면 fields 의 항목만 저장한다.
+     */
+    public async transition(
+        item: LoyaltyPaymentTaskData,
+        to: LoyaltyPaymentTaskStatus,
+        actor: PaymentEventActor,
+        reason: string,
+        txHash: string = "",
+        fields: PaymentTransitionField[] = []
+    ): Promise<void> {
+        const from = item.paymentStatus;
+        if (!PaymentStateMachine.canTransition(from, to)) {
+            throw new PaymentTransitionError(item.paymentId, from, to);
+        }
+        const applied = await this.storage.transitionPayment(
+            item,
+            {
+                paymentId: item.paymentId,
+                fromStatus: from,
+                toStatus: to,
+                actor,
+                reason,
+                txHash,
+                timestamp: ContractUtils.getTimeStamp(),
+            },
+            fields
+        );
+        if (!applied) throw new PaymentTransitionError(item.paymentId, from, to);
+        item.paymentStatus = to;
+    }
+}
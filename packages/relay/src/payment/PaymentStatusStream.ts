@@ -0,0 +1,151 @@
+import { logger } from "../common/Logger";
+import { Storage } from "../storage/Storage";
+import { PaymentResultData, TaskResultCode, TaskResultType } from "../types";
+
+import { EventEmitter } from "events";
+
+export interface IPaymentStatusMessage {
+    type: TaskResultType;
+    code: TaskResultCode;
+    message: string;
+    data: PaymentResultData;
+}
+
+export type PaymentStatusListener = (message: IPaymentStatusMessage) => void;
+
+/**
+ * 결제의 처리결과를 KIOSK 에 실시간으로 전달하기 위해 구독자들에게 발행한다.
+ * 여러 릴레이가 함께 운영될 때 결제를 처리한 릴레이와 스트림이 연결된 릴레이가 다를 수 있으므로
+ * 데이터베이스의 LISTEN/NOTIFY 로 모든 릴레이의 구독자들에게 발행한다
+ */
+export class PaymentStatusStream {
+    private static readonly EVENT_NAME = "payment";
+    private static readonly CHANNEL = "payment_status";
+    private static readonly RECONNECT_SECOND = 5;
+
+    private readonly storage: Storage | undefined;
+    private readonly emitter: EventEmitter;
+    private readonly streams: Set<() => void>;
+    private closed: boolean = false;
+    private stopped: boolean = false;
+    private unlisten: (() => Promise<void>) | undefined;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+
+    constructor(storage?: Storage) {
+        this.storage = storage;
+        this.emitter = new EventEmitter();
+        this.emitter.setMaxListeners(0);
+        this.streams = new Set();
+    }
+
+    /**
+     * 데이터베이스의 채널을 구독한다. 구독하지 못하는 동안에는 이 릴레이의 구독자들에게만 발행한다
+     */
+    public async start() {
+        if (this.storage === undefined || this.stopped || this.unlisten !== undefined) return;
+        try {
+            this.unlisten = await this.storage.listen(
+                PaymentStatusStream.CHANNEL,
+                (payload: string) => this.emit(payload),
+                (error: Error) => {
+                    logger.error(`PaymentStatusStream: The connection of the channel was lost: ${error}`);
+                    this.unlisten = undefined;
+                    this.reconnect();
+                }
+            );
+        } catch (error) {
+            logger.error(`PaymentStatusStream: Failed to listen to the channel: ${error}`);
+            this.reconnect();
+        }
+    }
+
+    /**
+     * 채널의 구독을 해제한다. 데이터베이스의 연결을 닫기 전에 호출되어야 한다
+     */
+    public async stop() {
+        this.stopped = true;
+        if (this.reconnectTimer !== undefined) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        const unlisten = this.unlisten;
+        this.unlisten = undefined;
+        if (unlisten !== undefined) {
+            try {
+                await unlisten();
+            } catch (error) {
+                logger.error(`PaymentStatusStream: Failed to unlisten to the channel: ${error}`);
+            }
+        }
+    }
+
+    public get openStreams(): number {
+        return this.streams.size;
+    }
+
+    public publish(type: TaskResultType, code: TaskResultCode, message: string, data: PaymentResultData) {
+        if (type !== TaskResultType.NEW && type !== TaskResultType.CANCEL) return;
+        const item: IPaymentStatusMessage = { type, code, message, data };
+        if (this.storage === undefined || this.unlisten === undefined) {
+            this.emitter.emit(PaymentStatusStream.EVENT_NAME, item);
+            return;
+        }
+        /// 발행한 알림은 이 릴레이의 구독에도 전달되므로 직접 발행하지 않는다
+        this.storage.notify(PaymentStatusStream.CHANNEL, JSON.stringify(item)).catch((error) => {
+            logger.error(`PaymentStatusStream: Failed to notify the payment ${data.paymentId}: ${error}`);
+            this.emitter.emit(PaymentStatusStream.EVENT_NAME, item);
+        });
+    }
+
+    /**
+     * 구독을 등록하고, 구독을 해제하는 함수를 반환한다
+     */
+    public subscribe(listener: PaymentStatusListener): () => void {
+        this.emitter.on(PaymentStatusStream.EVENT_NAME, listener);
+        return () => {
+            this.emitter.off(PaymentStatusStream.EVENT_NAME, listener);
+        };
+    }
+
+    /**
+     * 열려있는 스트림을 등록하고, 등록을 해제하는 함수를 반환한다. close 는 스트림을 종료하는 함수이다.
+     * 이미 모든 스트림이 종료되었으면 바로 종료한다
+     */
+    public addStream(close: () => void): () => void {
+        if (this.closed) {
+            close();
+            return () => undefined;
+        }
+        this.streams.add(close);
+        return () => {
+            this.streams.delete(close);
+        };
+    }
+
+    /**
+     * 릴레이가 종료될 때 열려있는 모든 스트림을 종료한다
+     */
+    public closeAll(): number {
+        this.closed = true;
+        const streams = [...this.streams];
+        this.streams.clear();
+        for (const close of streams) close();
+        return streams.length;
+    }
+
+    private emit(payload: string) {
+        try {
+            this.emitter.emit(PaymentStatusStream.EVENT_NAME, JSON.parse(payload));
+        } catch (error) {
+            logger.error(`PaymentStatusStream: Invalid notification: ${error}`);
+        }
+    }
+
+    private reconnect() {
+        if (this.stopped || this.reconnectTimer !== undefined) return;
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.start();
+        }, PaymentStatusStream.RECONNECT_SECOND * 1000);
+    }
+}
@@ -0,0 +1,139 @@
+import { Config } from "../common/Config";
+import { ContractManager } from "../contract/ContractManager";
+import { RelayStorage } from "../storage/RelayStorage";
+import { PaymentTokenPayload } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+
+import { Wallet } from "ethers";
+
+import * as crypto from "crypto";
+
+export interface IIssuedPaymentToken {
+    tokenId: string;
+    temporaryAccount: string;
+    expiresAt: number;
+    token: string;
+}
+
+/**
+ * 임시주소로 결제하기 위한 QR 토큰을 발급하고 검증한다.
+ * 토큰은 "dmspay:버전:토큰아이디:임시주소:만료시간:서명:체크섬" 형식의 문자열이다.
+ */
+export class PaymentTokenIssuer {
+    public static readonly PREFIX = "dmspay";
+    public static readonly VERSION = 1;
+
+    private readonly config: Config;
+    private readonly contractManager: ContractManager;
+    private readonly storage: RelayStorage;
+    private _wallet: Wallet | undefined;
+
+    constructor(config: Config, contractManager: ContractManager, storage: RelayStorage) {
+        this.config = config;
+        this.contractManager = contractManager;
+        this.storage = storage;
+    }
+
+    private get wallet(): Wallet {
+        if (this._wallet === undefined) this._wallet = new Wallet(this.config.relay.paymentTokenKey);
+        return this._wallet;
+    }
+
+    public get signer(): string {
+        return this.wallet.address;
+    }
+
+    /**
+     * 사용자의 임시주소를 만들고 그 임시주소에 대한 토큰을 발급한다
+     */
+    public async issue(account: string): Promise<IIssuedPaymentToken> {
+        const timestamp = ContractUtils.getTimeStamp();
+        const temporaryAccount = await this.storage.getAccountOnTemporary(account);
+        const tokenId = ContractUtils.getRandomId(account);
+        const expiresAt = timestamp + this.config.relay.paymentTokenSecond;
+        const signature = await ContractUtils.signMessage(
+            this.wallet,
+            ContractUtils.getPaymentTokenMessage(
+                PaymentTokenIssuer.VERSION,
+                tokenId,
+                temporaryAccount,
+                expiresAt,
+                this.contractManager.sideChainId
+            )
+        );
+        await this.storage.postPaymentToken({
+            tokenId,
+            account,
+            temporaryAccount,
+            expiresAt,
+            used: false,
+            usedTimestamp: 0,
+            timestamp,
+        });
+        const token = PaymentTokenIssuer.encode({
+            version: PaymentTokenIssuer.VERSION,
+            tokenId,
+            temporaryAccount,
+            expiresAt,
+            signature,
+        });
+        return { tokenId, temporaryAccount, expiresAt, token };
+    }
+
+    /**
+     * 토큰이 이 릴레이에 의해 서명되었는지 검증한다
+     */
+    public verify(payload: PaymentTokenPayload): boolean {
+        return ContractUtils.verifyMessage(
+            this.wallet.address,
+            ContractUtils.getPaymentTokenMessage(
+                payload.version,
+                payload.tokenId,
+                payload.temporaryAccount,
+                payload.expiresAt,
+                this.contractManager.sideChainId
+            ),
+            payload.signature
+        );
+    }
+
+    public static encode(payload: PaymentTokenPayload): string {
+        const body = [
+            PaymentTokenIssuer.PREFIX,
+            payload.version.toString(),
+            payload.tokenId,
+            payload.temporaryAccount,
+            payload.expiresAt.toString(),
+            payload.signature,
+        ].join(":");
+        return `${body}:${PaymentTokenIssuer.getChecksum(body)}`;
+    }
+
+    /**
+     * 토큰의 형식, 버전, 체크섬이 올바르지 않으면 undefined 를 반환한다
+     */
+    public static decode(token: string): PaymentTokenPayload | undefined {
+        const fields = token.trim().split(":");
+        if (fields.length !== 7) return undefined;
+        const [prefix, version, tokenId, temporaryAccount, expiresAt, signature, checksum] = fields;
+        if (prefix !== PaymentTokenIssuer.PREFIX) return undefined;
+        if (version !== PaymentTokenIssuer.VERSION.toString()) return undefined;
+        if (checksum !== PaymentTokenIssuer.getChecksum(fields.slice(0, 6).join(":"))) return undefined;
+        if (!/^0x[0-9a-fA-F]{64}$/.test(tokenId)) return undefined;
+        if (!/^0x[0-9a-fA-F]{40}$/.test(temporaryAccount)) return undefined;
+        if (!ContractUtils.isTemporaryAccount(temporaryAccount)) return undefined;
+        if (!/^[0-9]+$/.test(expiresAt)) return undefined;
+        if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) return undefined;
+        return {
+            version: Number(version),
+            tokenId,
+            temporaryAccount,
+            expiresAt: Number(expiresAt),
+            signature,
+        };
+    }
+
+    private static getChecksum(body: string): string {
+        return crypto.createHash("sha256").update(body).digest("hex").substring(0, 8);
+    }
+}
@@ -0,0 +1,229 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { GasPriceManager } from "../contract/GasPriceManager";
+import { RelayStorage } from "../storage/RelayStorage";
+import { PaymentTxFailure, PaymentTxKind } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+
+import { BigNumber, ethers } from "ethers";
+
+export interface IPaymentTxOverrides {
+    maxFeePerGas?: BigNumber;
+    maxPriorityFeePerGas?: BigNumber;
+    gasLimit?: BigNumber;
+}
+
+export interface IPaymentTxFailureInfo {
+    failure: PaymentTxFailure;
+    reason: string;
+}
+
+/**
+ * 결제의 트랜잭션을 전송한 시도를 기록하고 실패의 원인을 분류한다.
+ * 일시적인 원인으로 실패한 트랜잭션은 수수료를 올려서 정해진 횟수까지 다시 전송한다.
+ */
+export class PaymentTxRecorder {
+    private static readonly TRANSIENT_FAILURES: PaymentTxFailure[] = [
+        PaymentTxFailure.NONCE_TOO_LOW,
+        PaymentTxFailure.UNDERPRICED,
+        PaymentTxFailure.OUT_OF_GAS,
+        PaymentTxFailure.NETWORK,
+        PaymentTxFailure.DROPPED,
+    ];
+
+    private readonly config: Config;
+    private readonly storage: RelayStorage;
+
+    constructor(config: Config, storage: RelayStorage) {
+        this.config = config;
+        this.storage = storage;
+    }
+
+    public static get transientFailures(): PaymentTxFailure[] {
+        return [...PaymentTxRecorder.TRANSIENT_FAILURES];
+    }
+
+    public static isTransient(failure: PaymentTxFailure): boolean {
+        return PaymentTxRecorder.TRANSIENT_FAILURES.includes(failure);
+    }
+
+    /**
+     * 트랜잭션을 전송하거나 기다리는 중에 발생한 오류를 분류한다
+     */
+    public static classify(error: any): IPaymentTxFailureInfo {
+        if (error !== undefined && error !== null && error.receipt) {
+            const gasLimit = error.transaction && error.transaction.gasLimit ? error.transaction.gasLimit : 0;
+            return PaymentTxRecorder.classifyReceipt(error.receipt, BigNumber.from(gasLimit));
+        }
+
+        const codes: string[] = [];
+        const texts: string[] = [];
+        let item = error;
+        while (item !== undefined && item !== null && codes.length + texts.length < 20) {
+            if (item.code !== undefined) codes.push(String(item.code));
+            if (item.reason) texts.push(String(item.reason).toLowerCase());
+            if (item.message) texts.push(String(item.message).toLowerCase());
+            item = item.error;
+        }
+        const text = texts.join(" ");
+        const hasCode = (...values: string[]) => values.some((m) => codes.includes(m));
+        const hasText = (...values: string[]) => values.some((m) => text.includes(m));
+        const reason = error === undefined || error === null ? "" : ContractUtils.cacheEVMError(error);
+
+        let failure: PaymentTxFailure;
+        if (hasCode("NONCE_EXPIRED") || hasText("nonce too low", "nonce has already been used")) {
+            failure = PaymentTxFailure.NONCE_TOO_LOW;
+        } else if (
+            hasCode("REPLACEMENT_UNDERPRICED") ||
+            hasText("underpriced", "fee too low", "less than block base fee")
+        ) {
+            failure = PaymentTxFailure.UNDERPRICED;
+        } else if (hasText("out of gas", "intrinsic gas too low", "gas required exceeds allowance")) {
+            failure = PaymentTxFailure.OUT_OF_GAS;
+        } else if (hasCode("CALL_EXCEPTION", "UNPREDICTABLE_GAS_LIMIT") || hasText("revert")) {
+            failure = PaymentTxFailure.REVERTED;
+        } else if (
+            hasCode("NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT") ||
+            hasText("timeout", "econnrefused", "econnreset")
+        ) {
+            failure = PaymentTxFailure.NETWORK;
+        } else {
+            failure = PaymentTxFailure.UNKNOWN;
+        }
+        return { failure, reason: String(reason).substring(0, 256) };
+    }
+
+    /**
+     * 실패한 트랜잭션의 영수증을 분류한다. 가스를 모두 사용했으면 가스부족으로 본다.
+     */
+    public static classifyReceipt(receipt: { gasUsed: BigNumber }, gasLimit: BigNumber): IPaymentTxFailureInfo {
+        if (gasLimit.gt(0) && BigNumber.from(receipt.gasUsed).gte(gasLimit)) {
+            return { failure: PaymentTxFailure.OUT_OF_GAS, reason: "Out of gas" };
+        }
+        return { failure: PaymentTxFailure.REVERTED, reason: "Transaction reverted" };
+    }
+
+    /**
+     * 마지막 시도가 일시적인 원인으로 실패했고, 재전송 간격이 지났으며, 최대 시도 횟수에 도달하지 않았는지 검사한다
+     */
+    public canRetry(
+        attempt: { attempt: number; failure: PaymentTxFailure; timestamp: number },
+        timestamp: number
+    ): boolean {
+        return (
+            PaymentTxRecorder.isTransient(attempt.failure) &&
+            attempt.attempt < this.config.relay.txRetryMaxAttempts &&
+            timestamp - attempt.timestamp >= this.config.relay.txRetryIntervalSecond
+        );
+    }
+
+    /**
+     * 마지막 시도가 일시적인 원인으로 실패했으면 수수료를 올리고, 가스가 부족했으면 가스한도도 올린다.
+     * 그렇지 않으면 기본 수수료를 사용한다.
+     */
+    public async getOverrides(
+        paymentId: string,
+        kind: PaymentTxKind,
+        provider?: ethers.providers.Provider
+    ): Promise<IPaymentTxOverrides> {
+        const last = await this.storage.getLastPaymentTxAttempt(paymentId, kind);
+        if (last === undefined || !PaymentTxRecorder.isTransient(last.failure)) return {};
+
+        const percent = this.config.relay.txRetryGasBumpPercent;
+        const fees = await GasPriceManager.getFees(provider);
+        const maxPriorityFeePerGas = GasPriceManager.bump(fees.maxPriorityFeePerGas, percent, last.attempt);
+        let maxFeePerGas = GasPriceManager.bump(fees.maxFeePerGas, percent, last.attempt);
+        // 교체되는 트랜잭션은 이전보다 높은 수수료를 가져야 한다
+        if (last.maxFeePerGas.gt(0)) {
+            const minimum = GasPriceManager.bump(last.maxFeePerGas, percent, 1);
+            if (minimum.gt(maxFeePerGas)) maxFeePerGas = minimum;
+        }
+        if (maxPriorityFeePerGas.gt(maxFeePerGas)) maxFeePerGas = maxPriorityFeePerGas;
+
+        const overrides: IPaymentTxOverrides = { maxFeePerGas, maxPriorityFeePerGas };
+        if (last.failure === PaymentTxFailure.OUT_OF_GAS && last.gasLimit.gt(0)) {
+            overrides.gasLimit = GasPriceManager.bump(last.gasLimit, percent, 1);
+        }
+        return overrides;
+    }
+
+    public async recordSent(
+        paymentId: string,
+        kind: PaymentTxKind,
+        tx: ethers.providers.TransactionResponse,
+        signature: string,
+        confirm: boolean
+    ) {
+        await this.record(paymentId, kind, {
+            txHash: tx.hash,
+            signature,
+            confirm,
+            failure: PaymentTxFailure.NONE,
+            reason: "",
+            maxFeePerGas: tx.maxFeePerGas !== undefined ? tx.maxFeePerGas : tx.gasPrice || BigNumber.from(0),
+            gasLimit: tx.gasLimit,
+        });
+    }
+
+    public async recordFailed(
+        paymentId: string,
+        kind: PaymentTxKind,
+        error: any,
+        signature: string,
+        confirm: boolean,
+        overrides: IPaymentTxOverrides
+    ): Promise<IPaymentTxFailureInfo> {
+        const info = PaymentTxRecorder.classify(error);
+        const transaction = error !== undefined && error !== null ? error.transaction : undefined;
+        await this.record(paymentId, kind, {
+            txHash: transaction && transaction.hash ? transaction.hash : "",
+            signature,
+            confirm,
+            failure: info.failure,
+            reason: info.reason,
+            maxFeePerGas:
+                overrides.maxFeePerGas !== undefined
+                    ? overrides.maxFeePerGas
+                    : transaction && transaction.maxFeePerGas
+                    ? BigNumber.from(transaction.maxFeePerGas)
+                    : BigNumber.from(0),
+            gasLimit:
+                transaction && transaction.gasLimit
+                    ? BigNumber.from(transaction.gasLimit)
+                    : overrides.gasLimit !== undefined
+                    ? overrides.gasLimit
+                    : BigNumber.from(0),
+        });
+        return info;
+    }
+
+    /**
+     * 기록에 실패하더라도 결제의 처리는 계속되어야 하므로 오류를 전달하지 않는다
+     */
+    private async record(
+        paymentId: string,
+        kind: PaymentTxKind,
+        data: {
+            txHash: string;
+            signature: string;
+            confirm: boolean;
+            failure: PaymentTxFailure;
+            reason: string;
+            maxFeePerGas: BigNumber;
+            gasLimit: BigNumber;
+        }
+    ) {
+        try {
+            const last = await this.storage.getLastPaymentTxAttempt(paymentId, kind);
+            await this.storage.postPaymentTxAttempt({
+                paymentId,
+                kind,
+                attempt: last !== undefined ? last.attempt + 1 : 1,
+                ...data,
+                timestamp: ContractUtils.getTimeStamp(),
+            });
+        } catch (error) {
+            logger.error(`Failed to record the transaction attempt of the payment ${paymentId}: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { Config } from "../common/Config";
+import { RelayStorage } from "../storage/RelayStorage";
+
+export interface IShopTimeouts {
+    paymentTimeoutSecond: number;
+    approvalSecond: number;
+    forcedCloseSecond: number;
+}
+
+/**
+ * 상점의 정책에 설정된 시간제한을 조회한다. 설정되지 않은 값은 설정파일의 값을 사용한다.
+ */
+export class ShopPolicyResolver {
+    /**
+     * 사용자앱에 전달되는 제한시간은 결제의 제한시간보다 이 값만큼 짧다
+     */
+    public static readonly PUSH_TIMEOUT_MARGIN_SECOND = 15;
+
+    private readonly config: Config;
+    private readonly storage: RelayStorage;
+
+    constructor(config: Config, storage: RelayStorage) {
+        this.config = config;
+        this.storage = storage;
+    }
+
+    public async get(shopId: string): Promise<IShopTimeouts> {
+        const policy = await this.storage.getShopPolicy(shopId);
+        return {
+            paymentTimeoutSecond:
+                policy !== undefined && policy.paymentTimeoutSecond > 0
+                    ? policy.paymentTimeoutSecond
+                    : this.config.relay.paymentTimeoutSecond,
+            approvalSecond:
+                policy !== undefined && policy.approvalSecond > 0
+                    ? policy.approvalSecond
+                    : this.config.relay.approvalSecond,
+            forcedCloseSecond:
+                policy !== undefined && policy.forcedCloseSecond > 0
+                    ? policy.forcedCloseSecond
+                    : this.config.relay.forcedCloseSecond,
+        };
+    }
+
+    public static getPushTimeout(timeouts: IShopTimeouts): number {
+        return Math.max(timeouts.paymentTimeoutSecond - ShopPolicyResolver.PUSH_TIMEOUT_MARGIN_SECOND, 1);
+    }
+}
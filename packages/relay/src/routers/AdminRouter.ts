@@ -0,0 +1,259 @@
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { RelaySigners } from "../contract/Signers";
+import { Metrics } from "../metrics/Metrics";
+import { WebService } from "../service/WebService";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ApiKeyData, ApiKeyScope } from "../types";
+import { ResponseMessage } from "../utils/Errors";
+
+import { ethers } from "ethers";
+import express from "express";
+import { body, validationResult } from "express-validator";
+
+export class AdminRouter {
+    private web_service: WebService;
+    private readonly config: Config;
+    private readonly contractManager: ContractManager;
+    private readonly metrics: Metrics;
+    private readonly relaySigners: RelaySigners;
+    private readonly apiKeys: ApiKeyRegistry;
+
+    constructor(
+        service: WebService,
+        config: Config,
+        contractManager: ContractManager,
+        metrics: Metrics,
+        relaySigners: RelaySigners,
+        storage: RelayStorage
+    ) {
+        this.web_service = service;
+        this.config = config;
+        this.contractManager = contractManager;
+        this.metrics = metrics;
+        this.relaySigners = relaySigners;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
+    }
+
+    private get app(): express.Application {
+        return this.web_service.app;
+    }
+
+    /**
+     * Make the response data
+     * @param code      The result code
+     * @param data      The result data
+     * @param error     The error
+     * @private
+     */
+    private makeResponseData(code: number, data: any, error?: any): any {
+        return {
+            code,
+            data,
+            error,
+        };
+    }
+
+    public registerRoutes() {
+        this.app.get("/v1/admin/signers", [], this.apiKeys.guard(ApiKeyScope.ADMIN), this.admin_signers.bind(this));
+        this.app.get("/v1/admin/keys", [], this.apiKeys.guard(ApiKeyScope.ADMIN), this.admin_keys.bind(this));
+        this.app.post(
+            "/v1/admin/keys/issue",
+            [
+                body("name").exists().trim().isLength({ min: 1, max: 64 }),
+                body("scopes").exists().isArray({ min: 1 }),
+                body("scopes.*").custom((value) => ApiKeyRegistry.isScope(String(value))),
+                body("shops").optional().isArray(),
+                body("shops.*")
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                body("expiresAt").optional().isInt({ min: 0 }),
+            ],
+            this.apiKeys.guard(ApiKeyScope.ADMIN),
+            this.admin_keys_issue.bind(this)
+        );
+        this.app.post(
+            "/v1/admin/keys/rotate",
+            [body("keyId").exists().trim().not().isEmpty(), body("graceSecond").optional().isInt({ min: 0 })],
+            this.apiKeys.guard(ApiKeyScope.ADMIN),
+            this.admin_keys_rotate.bind(this)
+        );
+        this.app.post(
+            "/v1/admin/keys/revoke",
+            [body("keyId").exists().trim().not().isEmpty()],
+            this.apiKeys.guard(ApiKeyScope.ADMIN),
+            this.admin_keys_revoke.bind(this)
+        );
+    }
+
+    /**
+     * 릴레이 서명자의 대기중인 트랜잭션의 수, 확정된 마지막 논스, 잔고
+     * GET /v1/admin/signers
+     * @private
+     */
+    private async admin_signers(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/admin/signers ${req.ip}`);
+
+        try {
+            const chains: { chainId: number; provider: ethers.providers.Provider }[] = [
+                { chainId: this.contractManager.sideChainId, provider: this.contractManager.sideChainProvider },
+            ];
+            if (this.contractManager.mainChainId !== this.contractManager.sideChainId)
+                chains.push({
+                    chainId: this.contractManager.mainChainId,
+                    provider: this.contractManager.mainChainProvider,
+                });
+
+            await this.relaySigners.refreshExcluded();
+            const signers: any[] = [];
+            for (const chain of chains) {
+                const status = await this.relaySigners.transactionManager.getStatus(chain.provider);
+                signers.push(
+                    ...status.map((m) => {
+                        return {
+                            chainId: chain.chainId,
+                            address: m.address,
+                            pendingCount: m.pendingCount,
+                            lastConfirmedNonce: m.lastConfirmedNonce,
+                            nextNonce: m.nextNonce,
+                            balance: m.balance.toString(),
+                            excluded: this.relaySigners.isExcluded(chain.chainId, m.address),
+                        };
+                    })
+                );
+            }
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, { signers }));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/admin/signers : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    private getKeyResponse(item: ApiKeyData): any {
+        return {
+            keyId: item.keyId,
+            name: item.name,
+            scopes: item.scopes,
+            shops: item.shops,
+            expiresAt: item.expiresAt,
+            status: item.status,
+            rotatedFrom: item.rotatedFrom,
+            timestamp: item.timestamp,
+            updatedTimestamp: item.updatedTimestamp,
+        };
+    }
+
+    /**
+     * 발급된 API 키의 목록. 키의 값은 응답하지 않는다
+     * GET /v1/admin/keys
+     * @private
+     */
+    private async admin_keys(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/admin/keys ${req.ip}`);
+
+        try {
+            const keys = await this.apiKeys.list();
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, { keys: keys.map((m) => this.getKeyResponse(m)) }));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/admin/keys : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * API 키를 발급한다. 키의 값은 이 응답에서만 전달된다
+     * POST /v1/admin/keys/issue
+     * @private
+     */
+    private async admin_keys_issue(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/admin/keys/issue ${req.ip}:${JSON.stringify(req.body.name)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const scopes: ApiKeyScope[] = req.body.scopes.map((m: any) => String(m) as ApiKeyScope);
+            const shops: string[] = req.body.shops !== undefined ? req.body.shops.map((m: any) => String(m)) : [];
+            const expiresAt: number = req.body.expiresAt !== undefined ? Number(req.body.expiresAt) : 0;
+            const issued = await this.apiKeys.issue(String(req.body.name), scopes, shops, expiresAt);
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, issued));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/admin/keys/issue : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 같은 권한의 새로운 키를 발급하고, 이전 키는 graceSecond 초 후에 만료되도록 한다
+     * POST /v1/admin/keys/rotate
+     * @private
+     */
+    private async admin_keys_rotate(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/admin/keys/rotate ${req.ip}:${JSON.stringify(req.body.keyId)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const graceSecond: number = req.body.graceSecond !== undefined ? Number(req.body.graceSecond) : 0;
+            const issued = await this.apiKeys.rotate(String(req.body.keyId), graceSecond);
+            if (issued === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2056"));
+            }
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, issued));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/admin/keys/rotate : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * API 키를 폐기한다
+     * POST /v1/admin/keys/revoke
+     * @private
+     */
+    private async admin_keys_revoke(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/admin/keys/revoke ${req.ip}:${JSON.stringify(req.body.keyId)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const keyId = String(req.body.keyId);
+            if (!(await this.apiKeys.revoke(keyId))) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2056"));
+            }
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, { keyId }));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/admin/keys/revoke : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+}
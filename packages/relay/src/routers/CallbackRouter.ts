@@ -0,0 +1,144 @@
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
+import { CallbackOutbox } from "../callback/CallbackOutbox";
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { Metrics } from "../metrics/Metrics";
+import { WebService } from "../service/WebService";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ApiKeyScope, CallbackStatus } from "../types";
+import { ResponseMessage } from "../utils/Errors";
+
+import express from "express";
+import { body, query, validationResult } from "express-validator";
+
+export class CallbackRouter {
+    private web_service: WebService;
+    private readonly config: Config;
+    private readonly metrics: Metrics;
+    private storage: RelayStorage;
+    private readonly apiKeys: ApiKeyRegistry;
+    private readonly callbackOutbox: CallbackOutbox;
+
+    constructor(
+        service: WebService,
+        config: Config,
+        metrics: Metrics,
+        storage: RelayStorage,
+        callbackOutbox: CallbackOutbox
+    ) {
+        this.web_service = service;
+        this.config = config;
+        this.metrics = metrics;
+
+        this.storage = storage;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
+        this.callbackOutbox = callbackOutbox;
+    }
+
+    private get app(): express.Application {
+        return this.web_service.app;
+    }
+
+    /**
+     * Make the response data
+     * @param code      The result code
+     * @param data      The result data
+     * @param error     The error
+     * @private
+     */
+    private makeResponseData(code: number, data: any, error?: any): any {
+        return {
+            code,
+            data,
+            error,
+        };
+    }
+
+    public registerRoutes() {
+        this.app.get(
+            "/v1/callback/pending",
+            [
+                query("status").optional().trim().isIn(["pending", "dead"]),
+                query("pageNumber").optional().trim().isInt({ min: 1 }),
+                query("pageSize").optional().trim().isInt({ min: 1 }),
+            ],
+            this.apiKeys.guard(ApiKeyScope.ADMIN),
+            this.callback_pending.bind(this)
+        );
+        this.app.post(
+            "/v1/callback/replay",
+            [body("sequence").exists().trim().isInt({ min: 1 })],
+            this.apiKeys.guard(ApiKeyScope.ADMIN),
+            this.callback_replay.bind(this)
+        );
+    }
+
+    /**
+     * 콜백 엔드포인트로 전달되지 않은 처리결과의 목록
+     * GET /v1/callback/pending
+     * @private
+     */
+    private async callback_pending(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/callback/pending ${req.ip}:${JSON.stringify(req.query)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            let status: CallbackStatus[];
+            if (req.query.status === "pending") status = [CallbackStatus.PENDING];
+            else if (req.query.status === "dead") status = [CallbackStatus.DEAD];
+            else status = [CallbackStatus.PENDING, CallbackStatus.DEAD];
+
+            let pageSize = req.query.pageSize !== undefined ? Number(req.query.pageSize) : 50;
+            if (pageSize > 50) pageSize = 50;
+            const pageNumber = req.query.pageNumber !== undefined ? Number(req.query.pageNumber) : 1;
+
+            const items = await this.storage.getUndeliveredCallbacks(status, pageNumber, pageSize);
+            const pageInfo = await this.storage.getUndeliveredCallbacksPageInfo(status, pageSize);
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    pageInfo,
+                    items,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/callback/pending : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 처리결과를 콜백 엔드포인트로 다시 전달한다. 재시도 횟수는 초기화된다.
+     * POST /v1/callback/replay
+     * @private
+     */
+    private async callback_replay(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/callback/replay ${req.ip}:${JSON.stringify(req.body)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const item = await this.callbackOutbox.replay(Number(req.body.sequence));
+            if (item === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2035"));
+            }
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, item));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/callback/replay : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+}
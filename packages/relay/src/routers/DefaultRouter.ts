@@ -1,7 +1,12 @@
 import { Config } from "../common/Config";
 import { ContractManager } from "../contract/ContractManager";
+import { RelaySigners } from "../contract/Signers";
+import { HealthChecker } from "../health/HealthChecker";
 import { Metrics } from "../metrics/Metrics";
+import { LeaderElector } from "../scheduler/LeaderElector";
 import { WebService } from "../service/WebService";
+import { GraphStorage } from "../storage/GraphStorage";
+import { RelayStorage } from "../storage/RelayStorage";
 
 import { BigNumber, Wallet } from "ethers";
 import express from "express";
@@ -11,12 +16,32 @@ export class DefaultRouter {
     private readonly config: Config;
     private readonly contractManager: ContractManager;
     private readonly metrics: Metrics;
+    private readonly health: HealthChecker;
 
-    constructor(service: WebService, config: Config, contractManager: ContractManager, metrics: Metrics) {
+    constructor(
+        service: WebService,
+        config: Config,
+        contractManager: ContractManager,
+        metrics: Metrics,
+        storage: RelayStorage,
+        graph_sidechain: GraphStorage,
+        graph_mainchain: GraphStorage,
+        relaySigners: RelaySigners,
+        leaderElector: LeaderElector
+    ) {
         this.web_service = service;
         this.config = config;
         this.contractManager = contractManager;
         this.metrics = metrics;
+        this.health = new HealthChecker(
+            config,
+            contractManager,
+            storage,
+            graph_sidechain,
+            graph_mainchain,
+            relaySigners,
+            leaderElector
+        );
     }
 
     private get app(): express.Application {
@@ -28,12 +53,33 @@ export class DefaultRouter {
         this.app.get("/", [], this.getHealthStatus.bind(this));
         this.app.post("/callback", [], this.callback.bind(this));
         this.app.get("/metrics", [], this.getMetrics.bind(this));
+        this.app.get("/health/live", [], this.getLiveness.bind(this));
+        this.app.get("/health/ready", [], this.getReadiness.bind(this));
     }
 
     private async getHealthStatus(req: express.Request, res: express.Response) {
         return res.status(200).json("OK");
     }
 
+    /**
+     * 프로세스가 요청에 응답할 수 있는지 확인한다. 의존하는 서비스는 검사하지 않는다
+     * GET /health/live
+     * @private
+     */
+    private async getLiveness(req: express.Request, res: express.Response) {
+        return res.status(200).json({ status: "up", uptimeSecond: Math.floor(process.uptime()) });
+    }
+
+    /**
+     * 의존하는 서비스의 상태와 응답시간. 하나라도 down 이면 HTTP 503 으로 응답한다
+     * GET /health/ready
+     * @private
+     */
+    private async getReadiness(req: express.Request, res: express.Response) {
+        const report = await this.health.check();
+        return res.status(report.ready ? 200 : 503).json(report);
+    }
+
     private async callback(req: express.Request, res: express.Response) {
         console.log("----- CALL BACK -----");
         console.log(JSON.stringify(req.body));
@@ -1,11 +1,14 @@
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
 import { INotificationSender } from "../delegator/NotificationSender";
+import { RateLimiter } from "../limiter/RateLimiter";
 import { Metrics } from "../metrics/Metrics";
 import { WebService } from "../service/WebService";
 import { GraphStorage } from "../storage/GraphStorage";
 import { RelayStorage } from "../storage/RelayStorage";
+import { ApiKeyScope } from "../types";
 import { ContractUtils } from "../utils/ContractUtils";
 import { ResponseMessage } from "../utils/Errors";
 
@@ -18,6 +21,7 @@ export class ETCRouter {
     private readonly contractManager: ContractManager;
     private readonly metrics: Metrics;
     private storage: RelayStorage;
+    private readonly apiKeys: ApiKeyRegistry;
     private graph_sidechain: GraphStorage;
     private graph_mainchain: GraphStorage;
     private readonly sender: INotificationSender;
@@ -37,6 +41,7 @@ export class ETCRouter {
         this.contractManager = contractManager;
         this.metrics = metrics;
         this.storage = storage;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
         this.graph_sidechain = graph_sidechain;
         this.graph_mainchain = graph_mainchain;
         this.sender = sender;
@@ -87,12 +92,14 @@ export class ETCRouter {
                 body("contents").exists(),
                 body("contentType").exists(),
             ],
+            this.apiKeys.guard(ApiKeyScope.NOTIFY),
             this.mobile_send.bind(this)
         );
 
         this.app.get(
             "/v1/mobile/info/:account",
             [param("account").exists().trim().isEthereumAddress(), query("type").exists()],
+            this.apiKeys.guard(ApiKeyScope.NOTIFY),
             this.mobile_info.bind(this)
         );
 
@@ -126,6 +133,7 @@ export class ETCRouter {
             // 서명검증
             if (!ContractUtils.verifyMobileToken(account, token, signature))
                 return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
+            if (!(await RateLimiter.limitAccount(res, account))) return;
 
             const item = {
                 account,
@@ -158,12 +166,6 @@ export class ETCRouter {
             return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
         }
 
-        let accessKey = req.get("Authorization");
-        if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-        if (accessKey !== this.config.relay.accessKey) {
-            return res.json(ResponseMessage.getErrorMessage("2002"));
-        }
-
         try {
             const account: string = String(req.body.account).trim();
             const type: number = Number(req.body.type);
@@ -197,10 +199,6 @@ export class ETCRouter {
             return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
         }
 
-        if (req.get("Authorization") !== this.config.relay.accessKey) {
-            return res.json(ResponseMessage.getErrorMessage("2002"));
-        }
-
         try {
             const account: string = String(req.params.account).trim();
             const type: number = Number(req.query.type);
@@ -2,6 +2,7 @@ import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
 import { ISignerItem, RelaySigners } from "../contract/Signers";
+import { RateLimiter } from "../limiter/RateLimiter";
 import { Metrics } from "../metrics/Metrics";
 import { WebService } from "../service/WebService";
 import { GraphStorage } from "../storage/GraphStorage";
@@ -587,6 +588,7 @@ export class LedgerRouter {
             );
             if (!ContractUtils.verifyMessage(from, message, signature))
                 return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
+            if (!(await RateLimiter.limitAccount(res, from))) return;
             const tx = await this.contractManager.sideLoyaltyTransferContract
                 .connect(signerItem.signer)
                 .transferToken(from, to, amount, expiry, signature);
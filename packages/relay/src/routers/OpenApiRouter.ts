@@ -0,0 +1,109 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { OpenApiBuilder } from "../openapi/OpenApiBuilder";
+import { JsonSchema } from "../openapi/Schemas";
+import { WebService } from "../service/WebService";
+import { ResponseMessage } from "../utils/Errors";
+
+import express from "express";
+
+/**
+ * 등록된 경로로 만든 OpenAPI 문서와 문서를 보여주는 화면을 제공한다
+ */
+export class OpenApiRouter {
+    /**
+     * 화면에서 사용하는 Swagger UI 의 위치. 버전을 바꾸면 아래의 무결성 해시도 함께 바꿔야 한다
+     */
+    public static readonly SWAGGER_UI_URL = "https://unpkg.com/swagger-ui-dist@5.33.1";
+    public static readonly SWAGGER_UI_CSS_INTEGRITY =
+        "sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW";
+    public static readonly SWAGGER_UI_BUNDLE_INTEGRITY =
+        "sha384-ZPehFMQommnnuaZ4rpxgkgTT2DKFVp4hZC/7pLit+9Lek9T1YGSo23eHFbvNkXkw";
+
+    private web_service: WebService;
+    private readonly config: Config;
+    private readonly builder: OpenApiBuilder;
+    private readonly documents: Map<number, JsonSchema>;
+
+    constructor(service: WebService, config: Config) {
+        this.web_service = service;
+        this.config = config;
+        this.builder = new OpenApiBuilder(config);
+        this.documents = new Map();
+    }
+
+    private get app(): express.Application {
+        return this.web_service.app;
+    }
+
+    public registerRoutes() {
+        this.app.get("/openapi.json", [], this.openapi.bind(this));
+        this.app.get("/docs", [], this.docs.bind(this));
+    }
+
+    /**
+     * 문서는 처음 요청될 때 만들어진다. 그 때는 모든 경로가 등록되어 있다
+     */
+    private getDocument(version: number): JsonSchema {
+        let document = this.documents.get(version);
+        if (document === undefined) {
+            document = this.builder.build(this.app, version);
+            this.documents.set(version, document);
+        }
+        return document;
+    }
+
+    /**
+     * OpenAPI 문서. version=2 이면 /v2 의 경로로 기술된다
+     * GET /openapi.json
+     * @private
+     */
+    private async openapi(req: express.Request, res: express.Response) {
+        logger.http(`GET /openapi.json ${req.ip}:${JSON.stringify(req.query)}`);
+
+        try {
+            const version = String(req.query.version) === "2" ? 2 : 1;
+            return res.status(200).json(this.getDocument(version));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /openapi.json : ${msg.error.message}`);
+            return res.status(200).json(msg);
+        }
+    }
+
+    /**
+     * OpenAPI 문서를 보여주는 화면
+     * GET /docs
+     * @private
+     */
+    private async docs(req: express.Request, res: express.Response) {
+        logger.http(`GET /docs ${req.ip}`);
+
+        const version = String(req.query.version) === "2" ? 2 : 1;
+        const html = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8" />
+    <title>Loyalty Relay API</title>
+    <link
+        rel="stylesheet"
+        href="${OpenApiRouter.SWAGGER_UI_URL}/swagger-ui.css"
+        integrity="${OpenApiRouter.SWAGGER_UI_CSS_INTEGRITY}"
+        crossorigin="anonymous"
+    />
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script
+        src="${OpenApiRouter.SWAGGER_UI_URL}/swagger-ui-bundle.js"
+        integrity="${OpenApiRouter.SWAGGER_UI_BUNDLE_INTEGRITY}"
+        crossorigin="anonymous"
+    ></script>
+    <script>
+        window.ui = SwaggerUIBundle({ url: "/openapi.json?version=${version}", dom_id: "#swagger-ui" });
+    </script>
+</body>
+</html>`;
+        return res.status(200).type("html").send(html);
+    }
+}
@@ -1,45 +1,90 @@
 import { LoyaltyConsumer } from "../../typechain-types";
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
+import { CallbackOutbox } from "../callback/CallbackOutbox";
 import { Amount } from "../common/Amount";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
 import { ISignerItem, RelaySigners } from "../contract/Signers";
 import { INotificationSender } from "../delegator/NotificationSender";
+import { RateLimiter } from "../limiter/RateLimiter";
 import { Metrics } from "../metrics/Metrics";
+import { PaymentReceiptIssuer } from "../payment/PaymentReceiptIssuer";
+import { PaymentRuleEngine } from "../payment/PaymentRuleEngine";
+import { PaymentStateMachine } from "../payment/PaymentStateMachine";
+import { IPaymentStatusMessage, PaymentStatusStream } from "../payment/PaymentStatusStream";
+import { PaymentTokenIssuer } from "../payment/PaymentTokenIssuer";
+import { PaymentTxRecorder } from "../payment/PaymentTxRecorder";
+import { ShopPolicyResolver } from "../payment/ShopPolicyResolver";
 import { WebService } from "../service/WebService";
 import { GraphStorage } from "../storage/GraphStorage";
 import { RelayStorage } from "../storage/RelayStorage";
 import {
+    ApiKeyScope,
+    ContractLoyaltyCancelEvent,
+    ContractLoyaltyCancelStatus,
     ContractLoyaltyPaymentEvent,
     ContractLoyaltyPaymentStatus,
+    ContractShopStatus,
     LoyaltyPaymentTaskData,
     LoyaltyPaymentTaskStatus,
     MobileType,
+    PaymentEventActor,
+    PaymentRequestData,
+    PaymentRequestStatus,
     PaymentResultData,
+    PaymentTransitionField,
+    PaymentTxKind,
+    ShopPaymentCursor,
+    ShopPaymentFilter,
     TaskResultCode,
     TaskResultType,
 } from "../types";
 import { ContractUtils } from "../utils/ContractUtils";
 import { ResponseMessage } from "../utils/Errors";
-import { HTTPClient } from "../utils/Utils";
 import { Validation } from "../validation";
 
 // tslint:disable-next-line:no-implicit-dependencies
 import { AddressZero } from "@ethersproject/constants";
 import { BigNumber, ContractTransaction, ethers } from "ethers";
 import express from "express";
-import { body, query, validationResult } from "express-validator";
+import { body, header, param, query, validationResult } from "express-validator";
 
 export class PaymentRouter {
+    /**
+     * 상점의 결제목록을 조회하기 위한 서명의 유효시간 (초)
+     */
+    private static readonly SHOP_SIGNATURE_VALID_SECOND = 600;
+
+    /**
+     * 결제요청의 목록을 조회할 때 사용되는 상태의 이름
+     */
+    private static readonly PAYMENT_REQUEST_STATUS: Map<string, PaymentRequestStatus> = new Map([
+        ["opened", PaymentRequestStatus.OPENED],
+        ["paying", PaymentRequestStatus.PAYING],
+        ["paid", PaymentRequestStatus.PAID],
+        ["cancelled", PaymentRequestStatus.CANCELLED],
+        ["expired", PaymentRequestStatus.EXPIRED],
+    ]);
+
     private web_service: WebService;
     private readonly config: Config;
     private readonly contractManager: ContractManager;
     private readonly metrics: Metrics;
     private readonly relaySigners: RelaySigners;
     private storage: RelayStorage;
+    private readonly apiKeys: ApiKeyRegistry;
     private graph_sidechain: GraphStorage;
     private graph_mainchain: GraphStorage;
     private readonly _sender: INotificationSender;
+    private readonly stateMachine: PaymentStateMachine;
+    private readonly ruleEngine: PaymentRuleEngine;
+    private readonly shopPolicies: ShopPolicyResolver;
+    private readonly receiptIssuer: PaymentReceiptIssuer;
+    private readonly tokenIssuer: PaymentTokenIssuer;
+    private readonly txRecorder: PaymentTxRecorder;
+    private readonly paymentStream: PaymentStatusStream;
+    private readonly callbackOutbox: CallbackOutbox;
 
     constructor(
         service: WebService,
@@ -50,7 +95,9 @@ export class PaymentRouter {
         graph_sidechain: GraphStorage,
         graph_mainchain: GraphStorage,
         relaySigners: RelaySigners,
-        sender: INotificationSender
+        sender: INotificationSender,
+        paymentStream: PaymentStatusStream,
+        callbackOutbox: CallbackOutbox
     ) {
         this.web_service = service;
         this.config = config;
@@ -58,10 +105,19 @@ export class PaymentRouter {
         this.metrics = metrics;
 
         this.storage = storage;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
         this.graph_sidechain = graph_sidechain;
         this.graph_mainchain = graph_mainchain;
         this.relaySigners = relaySigners;
         this._sender = sender;
+        this.stateMachine = new PaymentStateMachine(storage);
+        this.ruleEngine = new PaymentRuleEngine(config, storage, metrics);
+        this.shopPolicies = new ShopPolicyResolver(config, storage);
+        this.receiptIssuer = new PaymentReceiptIssuer(config, contractManager);
+        this.tokenIssuer = new PaymentTokenIssuer(config, contractManager, storage);
+        this.txRecorder = new PaymentTxRecorder(config, storage);
+        this.paymentStream = paymentStream;
+        this.callbackOutbox = callbackOutbox;
     }
 
     private get app(): express.Application {
@@ -103,6 +159,24 @@ export class PaymentRouter {
             this.payment_account_temporary.bind(this)
         );
 
+        this.app.post(
+            "/v1/payment/account/token",
+            [
+                body("account").exists().trim().isEthereumAddress(),
+                body("signature")
+                    .exists()
+                    .matches(/^(0x)[0-9a-f]{130}$/i),
+            ],
+            this.payment_account_token.bind(this)
+        );
+
+        this.app.post(
+            "/v1/payment/account/token/resolve",
+            [body("token").exists().trim().isLength({ min: 1, max: 512 })],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
+            this.payment_account_token_resolve.bind(this)
+        );
+
         this.app.get(
             "/v1/payment/info",
             [
@@ -124,13 +198,17 @@ export class PaymentRouter {
                     .trim()
                     .matches(/^(0x)[0-9a-f]{64}$/i),
                 body("account").exists().trim().isEthereumAddress(),
+                body("useToken").optional().trim().toLowerCase().isIn(["true", "false"]),
+                header("Idempotency-Key").optional().trim().isLength({ min: 1, max: 128 }),
             ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
             this.payment_new_open.bind(this)
         );
 
         this.app.post(
             "/v1/payment/new/close",
             [body("confirm").exists().trim().toLowerCase().isIn(["true", "false"]), body("paymentId").exists()],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
             this.payment_new_close.bind(this)
         );
 
@@ -146,13 +224,160 @@ export class PaymentRouter {
             this.payment_new_approval.bind(this)
         );
 
+        this.app.post(
+            "/v1/payment/request/create",
+            [
+                body("shopId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                body("amount").exists().custom(Validation.isAmount),
+                body("currency").exists().trim().isLength({ min: 1, max: 12 }),
+                body("description").optional().isString().isLength({ max: 256 }),
+                body("purchaseId").optional().trim().isLength({ min: 1, max: 66 }),
+                body("expiresIn").optional().trim().isInt({ min: 60, max: 604800 }),
+            ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
+            this.payment_request_create.bind(this)
+        );
+
+        this.app.get(
+            "/v1/payment/request/list",
+            [
+                query("shopId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                query("status")
+                    .optional()
+                    .trim()
+                    .isIn([...PaymentRouter.PAYMENT_REQUEST_STATUS.keys()]),
+                query("pageNumber").optional().trim().isInt({ min: 1 }),
+                query("pageSize").optional().trim().isInt({ min: 1 }),
+            ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
+            this.payment_request_list.bind(this)
+        );
+
+        this.app.post(
+            "/v1/payment/request/cancel",
+            [
+                body("requestId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+            ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
+            this.payment_request_cancel.bind(this)
+        );
+
+        this.app.get(
+            "/v1/payment/request/item",
+            [
+                query("requestId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+            ],
+            this.payment_request_item.bind(this)
+        );
+
+        this.app.post(
+            "/v1/payment/request/fulfil",
+            [
+                body("requestId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                body("account").exists().trim().isEthereumAddress(),
+                body("signature")
+                    .exists()
+                    .matches(/^(0x)[0-9a-f]{130}$/i),
+                body("useToken").optional().trim().toLowerCase().isIn(["true", "false"]),
+            ],
+            this.payment_request_fulfil.bind(this)
+        );
+
         this.app.get("/v1/payment/item", [query("paymentId").exists()], this.payment_item.bind(this));
 
-        this.app.post("/v1/payment/cancel/open", [body("paymentId").exists()], this.payment_cancel_open.bind(this));
+        this.app.get(
+            "/v1/payment/:paymentId/receipt",
+            [
+                param("paymentId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                query("format").optional().trim().toLowerCase().isIn(["json", "html"]),
+            ],
+            this.payment_receipt.bind(this)
+        );
+
+        this.app.get(
+            "/v1/payment/shop/:shopId",
+            [
+                param("shopId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                query("signer").exists().trim().isEthereumAddress(),
+                query("timestamp").exists().trim().isInt({ min: 0 }),
+                query("signature")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{130}$/i),
+                query("status")
+                    .optional()
+                    .trim()
+                    .matches(/^[0-9,]*$/),
+                query("from").optional().trim().isInt({ min: 0 }),
+                query("to").optional().trim().isInt({ min: 0 }),
+                query("account").optional().trim().isEthereumAddress(),
+                query("purchaseId").optional().trim(),
+                query("currency").optional().trim(),
+                query("cursor").optional().trim().isBase64(),
+                query("limit").optional().trim().isInt({ min: 1, max: 100 }),
+            ],
+            this.payment_shop.bind(this)
+        );
+
+        this.app.get(
+            "/v1/payment/:paymentId/events",
+            [
+                param("paymentId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+            ],
+            this.payment_events.bind(this)
+        );
+
+        this.app.get(
+            "/v1/payment/stream",
+            [
+                query("paymentId")
+                    .optional()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                query("shopId")
+                    .optional()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+            ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
+            this.payment_stream.bind(this)
+        );
+
+        this.app.post(
+            "/v1/payment/cancel/open",
+            [body("paymentId").exists(), body("amount").optional().custom(Validation.isAmount)],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
+            this.payment_cancel_open.bind(this)
+        );
 
         this.app.post(
             "/v1/payment/cancel/close",
             [body("confirm").exists().trim().toLowerCase().isIn(["true", "false"]), body("paymentId").exists()],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
             this.payment_cancel_close.bind(this)
         );
 
@@ -335,6 +560,7 @@ export class PaymentRouter {
             if (!ContractUtils.verifyMessage(account, message, signature)) {
                 return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
             }
+            if (!(await RateLimiter.limitAccount(res, account))) return;
             const temporaryAccount = await this.storage.getAccountOnTemporary(account);
             this.metrics.add("success", 1);
             return res.status(200).json(
@@ -350,6 +576,96 @@ export class PaymentRouter {
         }
     }
 
+    /**
+     * 임시주소에 대한 결제용 QR 토큰을 발급한다
+     * POST /v1/payment/account/token
+     * @private
+     */
+    private async payment_account_token(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/payment/account/token ${req.ip}:${JSON.stringify(req.body)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        const account: string = String(req.body.account).trim().toLowerCase();
+        const signature: string = String(req.body.signature).trim();
+
+        try {
+            const message = ContractUtils.getAccountMessage(
+                account,
+                await this.contractManager.sideLedgerContract.nonceOf(account),
+                this.contractManager.sideChainId
+            );
+            if (!ContractUtils.verifyMessage(account, message, signature)) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
+            }
+            const issued = await this.tokenIssuer.issue(account);
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    temporaryAccount: issued.temporaryAccount,
+                    tokenId: issued.tokenId,
+                    token: issued.token,
+                    expiresAt: issued.expiresAt,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/payment/account/token : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(msg);
+        }
+    }
+
+    /**
+     * 결제용 QR 토큰을 검증하고 임시주소를 제공한다. 토큰은 한번만 사용할 수 있다
+     * POST /v1/payment/account/token/resolve
+     * @private
+     */
+    private async payment_account_token_resolve(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/payment/account/token/resolve ${req.ip}:${JSON.stringify(req.body)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const payload = PaymentTokenIssuer.decode(String(req.body.token));
+            if (payload === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2041"));
+            }
+            if (!this.tokenIssuer.verify(payload)) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2042"));
+            }
+            const timestamp = ContractUtils.getTimeStamp();
+            if (payload.expiresAt < timestamp) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2043"));
+            }
+            const item = await this.storage.usePaymentToken(payload.tokenId, timestamp);
+            if (item === undefined || item.temporaryAccount.toLowerCase() !== payload.temporaryAccount.toLowerCase()) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2044"));
+            }
+
+            // 토큰을 확인한 시점부터 임시주소로 결제를 생성할 수 있도록 임시주소의 유효시간을 다시 시작한다
+            await this.storage.refreshAccountOnTemporary(item.account, item.temporaryAccount);
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    temporaryAccount: item.temporaryAccount,
+                    expiresAt: item.expiresAt,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/payment/account/token/resolve : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(msg);
+        }
+    }
+
     /**
      * 결제 / 결제정보를 제공한다
      * GET /v1/payment/info
@@ -442,10 +758,33 @@ export class PaymentRouter {
         }
 
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
+            /// 같은 키로 재요청된 경우 최초의 결제정보를 응답한다
+            let idempotencyKey = req.get("Idempotency-Key");
+            if (idempotencyKey === undefined) idempotencyKey = `${shopId}:${String(req.body.purchaseId).trim()}`;
+            else idempotencyKey = `${shopId}:${idempotencyKey.trim()}`;
+            const requestHash = ContractUtils.getPaymentRequestHash(
+                String(req.body.purchaseId).trim(),
+                BigNumber.from(req.body.amount),
+                String(req.body.currency).trim(),
+                shopId,
+                String(req.body.account).trim()
+            );
+            let prevItem = await this.storage.getPaymentByIdempotencyKey(idempotencyKey);
+            if (
+                prevItem !== undefined &&
+                (prevItem.paymentStatus === LoyaltyPaymentTaskStatus.DENIED_NEW ||
+                    prevItem.paymentStatus === LoyaltyPaymentTaskStatus.FAILED_NEW)
+            ) {
+                /// 거절되거나 실패한 결제의 키는 재사용할 수 있도록 해제한다
+                await this.storage.releaseIdempotencyKey(prevItem.paymentId);
+                prevItem = undefined;
+            }
+            if (prevItem !== undefined) {
+                if (prevItem.requestHash !== requestHash) {
+                    return res.status(200).json(ResponseMessage.getErrorMessage("2009"));
+                }
+                this.metrics.add("success", 1);
+                return res.status(200).json(this.makeResponseData(0, this.getNewOpenResponse(prevItem)));
             }
 
             let account: string = String(req.body.account).trim();
@@ -460,145 +799,555 @@ export class PaymentRouter {
                 }
             }
 
-            const purchaseId: string = String(req.body.purchaseId).trim();
-            const amount: BigNumber = BigNumber.from(req.body.amount);
-            const currency: string = String(req.body.currency).trim();
+            const result = await this.makeNewPayment(
+                String(req.body.purchaseId).trim(),
+                BigNumber.from(req.body.amount),
+                String(req.body.currency).trim(),
+                shopId,
+                account,
+                String(req.body.useToken).trim().toLowerCase() === "true",
+                idempotencyKey,
+                requestHash,
+                ApiKeyRegistry.getKeyId(res)
+            );
+            if (typeof result === "string") {
+                return res.status(200).json(ResponseMessage.getErrorMessage(result));
+            }
+            const item = result;
+            await this.stateMachine.open(item, PaymentEventActor.KIOSK, "Payment requested");
+
+            /// 동시에 들어온 재요청이 먼저 저장된 경우 그 결제정보를 응답한다
+            const savedItem = await this.storage.getPaymentByIdempotencyKey(idempotencyKey);
+            if (savedItem !== undefined && savedItem.paymentId !== item.paymentId) {
+                if (savedItem.requestHash !== requestHash) {
+                    return res.status(200).json(ResponseMessage.getErrorMessage("2009"));
+                }
+                this.metrics.add("success", 1);
+                return res.status(200).json(this.makeResponseData(0, this.getNewOpenResponse(savedItem)));
+            }
 
-            const feeRate = await this.contractManager.sideLedgerContract.getPaymentFee();
-            const rate = await this.contractManager.sideCurrencyRateContract.get(currency.toLowerCase());
-            const multiple = await this.contractManager.sideCurrencyRateContract.multiple();
+            const notified = await this.notifyNewPayment(item);
+            if (notified !== undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage(notified));
+            }
 
-            let balance: BigNumber;
-            let paidPoint: BigNumber;
-            let paidValue: BigNumber;
-            let feePoint: BigNumber;
-            let feeValue: BigNumber;
-            let totalPoint: BigNumber;
-            let totalValue: BigNumber;
+            try {
+                if (temporaryAccount !== "") await this.storage.removeAccountTemporary(temporaryAccount);
+            } catch (_) {
+                //
+            }
 
-            const contract = this.contractManager.sideLedgerContract;
-            balance = await contract.pointBalanceOf(account);
-            paidPoint = ContractUtils.zeroGWEI(amount.mul(rate).div(multiple));
-            feePoint = ContractUtils.zeroGWEI(paidPoint.mul(feeRate).div(10000));
-            totalPoint = paidPoint.add(feePoint);
-            if (totalPoint.gt(balance)) {
-                return res.status(200).json(ResponseMessage.getErrorMessage("1511"));
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, this.getNewOpenResponse(item)));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/payment/new/open : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(msg);
+        }
+    }
+
+    /**
+     * 결제금액과 사용될 포인트를 계산하여 신규 결제를 만든다. 결제할 수 없으면 응답코드를 반환한다
+     * @private
+     */
+    private async makeNewPayment(
+        purchaseId: string,
+        amount: BigNumber,
+        currency: string,
+        shopId: string,
+        account: string,
+        useToken: boolean,
+        idempotencyKey: string,
+        requestHash: string,
+        apiKeyId: string
+    ): Promise<LoyaltyPaymentTaskData | string> {
+        const feeRate = await this.contractManager.sideLedgerContract.getPaymentFee();
+        const rate = await this.contractManager.sideCurrencyRateContract.get(currency.toLowerCase());
+        const multiple = await this.contractManager.sideCurrencyRateContract.multiple();
+
+        let balance: BigNumber;
+        let paidPoint: BigNumber;
+        let paidValue: BigNumber;
+        let feePoint: BigNumber;
+        let feeValue: BigNumber;
+        let totalPoint: BigNumber;
+        let totalValue: BigNumber;
+
+        const contract = this.contractManager.sideLedgerContract;
+        balance = await contract.pointBalanceOf(account);
+        paidPoint = ContractUtils.zeroGWEI(amount.mul(rate).div(multiple));
+        feePoint = ContractUtils.zeroGWEI(paidPoint.mul(feeRate).div(10000));
+        totalPoint = paidPoint.add(feePoint);
+
+        /// 토큰을 함께 사용하면 포인트를 먼저 사용하고 부족한 포인트는 현재의 환률로 계산된 토큰을 사용한다
+        let usedPoint: BigNumber = totalPoint;
+        let usedToken: BigNumber = BigNumber.from(0);
+        if (totalPoint.gt(balance)) {
+            if (!useToken) {
+                return "1511";
             }
-            paidValue = BigNumber.from(amount);
-            feeValue = ContractUtils.zeroGWEI(paidValue.mul(feeRate).div(10000));
-            totalValue = paidValue.add(feeValue);
+            usedPoint = balance;
+            usedToken = await this.contractManager.sideCurrencyRateContract.convertPointToToken(
+                totalPoint.sub(balance)
+            );
+            if (usedToken.gt(await contract.tokenBalanceOf(account))) {
+                return "1511";
+            }
+        }
+
+        /// 결제한도와 결제빈도에 대한 규칙을 검사한다
+        const violation = await this.ruleEngine.check({
+            account,
+            shopId,
+            totalPoint,
+            timestamp: ContractUtils.getTimeStamp(),
+        });
+        if (violation !== undefined) {
+            return violation;
+        }
+
+        paidValue = BigNumber.from(amount);
+        feeValue = ContractUtils.zeroGWEI(paidValue.mul(feeRate).div(10000));
+        totalValue = paidValue.add(feeValue);
+
+        const paymentId = await this.getPaymentId(account);
+        const [secret, secretLock] = ContractUtils.getSecret();
+        const item: LoyaltyPaymentTaskData = {
+            paymentId,
+            purchaseId,
+            amount,
+            currency,
+            shopId,
+            account,
+            secret,
+            secretLock,
+            paidPoint,
+            paidValue,
+            feePoint,
+            feeValue,
+            totalPoint,
+            totalValue,
+            useToken,
+            usedPoint,
+            usedToken,
+            cancelAmount: BigNumber.from(0),
+            cancelPoint: BigNumber.from(0),
+            cancelFeePoint: BigNumber.from(0),
+            remainAmount: paidValue,
+            remainPoint: paidPoint,
+            remainFeePoint: feePoint,
+            paymentStatus: LoyaltyPaymentTaskStatus.NULL,
+            contractStatus: ContractLoyaltyPaymentStatus.INVALID,
+            openNewTimestamp: ContractUtils.getTimeStamp(),
+            closeNewTimestamp: 0,
+            openCancelTimestamp: 0,
+            closeCancelTimestamp: 0,
+            openNewTxId: "",
+            openNewTxTime: 0,
+            openCancelTxId: "",
+            openCancelTxTime: 0,
+            idempotencyKey,
+            requestHash,
+            apiKeyId,
+        };
+        return item;
+    }
+
+    /**
+     * 신규 결제를 사용자에게 푸쉬 메세지로 알린다. 사용자의 모바일 정보가 없으면 응답코드를 반환한다
+     * @private
+     */
+    private async notifyNewPayment(item: LoyaltyPaymentTaskData): Promise<string | undefined> {
+        const shopContract = this.contractManager.sideShopContract;
+        const shopInfo = await shopContract.shopOf(item.shopId);
+
+        const mobileData = await this.storage.getMobile(item.account, MobileType.USER_APP);
+
+        if (!this.config.relay.testMode && mobileData === undefined) {
+            return "2008";
+        }
+
+        if (mobileData !== undefined) {
+            // tslint:disable-next-line:one-variable-per-declaration
+            let title, shopLabel, amountLabel, pointLabel, tokenLabel: string;
+            if (mobileData.language === "ko") {
+                title = "포인트 사용 알림";
+                shopLabel = "구매처";
+                amountLabel = "구매 금액";
+                pointLabel = "포인트 사용";
+                tokenLabel = "토큰 사용";
+            } else {
+                title = "Loyalty usage notification";
+                shopLabel = "Place of purchase";
+                amountLabel = "Amount";
+                pointLabel = "Points used";
+                tokenLabel = "Tokens used";
+            }
+            /// 사용자에게 메세지 발송
+            const to = mobileData.token;
+            const contents: string[] = [];
+            const data = {
+                type: "new",
+                paymentId: item.paymentId,
+                timestamp: item.openNewTimestamp,
+                timeout: ShopPolicyResolver.getPushTimeout(await this.shopPolicies.get(item.shopId)),
+            };
+            contents.push(`${shopLabel} : ${shopInfo.name}`);
+            contents.push(
+                `${amountLabel} : ${new Amount(item.amount, 18).toDisplayString(
+                    true,
+                    0
+                )} ${item.currency.toUpperCase()}`
+            );
+            if (item.usedToken.gt(0)) {
+                contents.push(`${pointLabel} : ${new Amount(item.usedPoint, 18).toDisplayString(true, 0)} POINT`);
+                contents.push(`${tokenLabel} : ${new Amount(item.usedToken, 18).toDisplayString(true, 2)} TOKEN`);
+            } else {
+                contents.push(`${pointLabel} : ${new Amount(item.paidPoint, 18).toDisplayString(true, 0)} POINT`);
+            }
+
+            logger.info(`Notification - to: ${to}, title: ${title}`);
+            await this._sender.send(to, title, contents.join(", "), data);
+        }
+        return undefined;
+    }
+
+    private getNewOpenResponse(item: LoyaltyPaymentTaskData): PaymentResultData {
+        return {
+            paymentId: item.paymentId,
+            purchaseId: item.purchaseId,
+            amount: item.amount.toString(),
+            currency: item.currency,
+            shopId: item.shopId,
+            account: item.account,
+            paidPoint: item.paidPoint.toString(),
+            paidValue: item.paidValue.toString(),
+            feePoint: item.feePoint.toString(),
+            feeValue: item.feeValue.toString(),
+            totalPoint: item.totalPoint.toString(),
+            totalValue: item.totalValue.toString(),
+            usedPoint: item.usedPoint.toString(),
+            usedToken: item.usedToken.toString(),
+            paymentStatus: item.paymentStatus,
+            openNewTimestamp: item.openNewTimestamp,
+            closeNewTimestamp: item.closeNewTimestamp,
+            openCancelTimestamp: item.openCancelTimestamp,
+            closeCancelTimestamp: item.closeCancelTimestamp,
+        };
+    }
 
-            const paymentId = await this.getPaymentId(account);
-            const [secret, secretLock] = ContractUtils.getSecret();
-            const item: LoyaltyPaymentTaskData = {
-                paymentId,
-                purchaseId,
-                amount,
-                currency,
+    private getPaymentRequestResponse(item: PaymentRequestData): any {
+        return {
+            requestId: item.requestId,
+            shopId: item.shopId,
+            purchaseId: item.purchaseId,
+            amount: item.amount.toString(),
+            currency: item.currency,
+            description: item.description,
+            status: item.status,
+            paymentId: item.paymentId,
+            account: item.account,
+            expiresAt: item.expiresAt,
+            timestamp: item.timestamp,
+            link: `${this.config.relay.paymentRequestLink}/${item.requestId}`,
+        };
+    }
+
+    /**
+     * 상점이 미리 결제요청을 만들고 사용자에게 전달할 링크를 제공한다
+     * POST /v1/payment/request/create
+     * @private
+     */
+    private async payment_request_create(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/payment/request/create ${req.ip}:${JSON.stringify(req.body)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        const shopId: string = String(req.body.shopId).trim();
+        if (shopId.substring(0, 6) !== this.config.relay.allowedShopIdPrefix) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("3072"));
+        }
+
+        try {
+            const shopInfo = await this.contractManager.sideShopContract.shopOf(shopId);
+            if (shopInfo.status === ContractShopStatus.INVALID) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1201"));
+            }
+            if (shopInfo.status !== ContractShopStatus.ACTIVE) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1202"));
+            }
+
+            const timestamp = ContractUtils.getTimeStamp();
+            const requestId = ContractUtils.getRandomId(shopInfo.account);
+            const item: PaymentRequestData = {
+                requestId,
                 shopId,
-                account,
-                secret,
-                secretLock,
-                paidPoint,
-                paidValue,
-                feePoint,
-                feeValue,
-                totalPoint,
-                totalValue,
-                paymentStatus: LoyaltyPaymentTaskStatus.OPENED_NEW,
-                contractStatus: ContractLoyaltyPaymentStatus.INVALID,
-                openNewTimestamp: ContractUtils.getTimeStamp(),
-                closeNewTimestamp: 0,
-                openCancelTimestamp: 0,
-                closeCancelTimestamp: 0,
-                openNewTxId: "",
-                openNewTxTime: 0,
-                openCancelTxId: "",
-                openCancelTxTime: 0,
+                purchaseId: req.body.purchaseId !== undefined ? String(req.body.purchaseId).trim() : requestId,
+                amount: BigNumber.from(req.body.amount),
+                currency: String(req.body.currency).trim(),
+                description: req.body.description !== undefined ? String(req.body.description) : "",
+                status: PaymentRequestStatus.OPENED,
+                paymentId: "",
+                account: "",
+                expiresAt: timestamp + (req.body.expiresIn !== undefined ? Number(req.body.expiresIn) : 3600),
+                timestamp,
+                updatedTimestamp: timestamp,
+                apiKeyId: ApiKeyRegistry.getKeyId(res),
             };
-            await this.storage.postPayment(item);
+            await this.storage.postPaymentRequest(item);
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, this.getPaymentRequestResponse(item)));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/payment/request/create : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(msg);
+        }
+    }
+
+    /**
+     * 상점의 결제요청 목록
+     * GET /v1/payment/request/list
+     * @private
+     */
+    private async payment_request_list(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/payment/request/list ${req.ip}:${JSON.stringify(req.query)}`);
 
-            const shopContract = this.contractManager.sideShopContract;
-            const shopInfo = await shopContract.shopOf(item.shopId);
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
 
-            const mobileData = await this.storage.getMobile(item.account, MobileType.USER_APP);
+        try {
+            const shopId: string = String(req.query.shopId).trim();
+            const status: PaymentRequestStatus[] =
+                req.query.status !== undefined
+                    ? [PaymentRouter.PAYMENT_REQUEST_STATUS.get(String(req.query.status)) as PaymentRequestStatus]
+                    : [...PaymentRouter.PAYMENT_REQUEST_STATUS.values()];
+
+            let pageSize = req.query.pageSize !== undefined ? Number(req.query.pageSize) : 50;
+            if (pageSize > 50) pageSize = 50;
+            const pageNumber = req.query.pageNumber !== undefined ? Number(req.query.pageNumber) : 1;
+
+            const items = await this.storage.getPaymentRequestsOfShop(shopId, status, pageNumber, pageSize);
+            const pageInfo = await this.storage.getPaymentRequestsOfShopPageInfo(shopId, status, pageSize);
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    pageInfo,
+                    items: items.map((m) => this.getPaymentRequestResponse(m)),
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/payment/request/list : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 아직 결제되지 않은 결제요청을 취소한다
+     * POST /v1/payment/request/cancel
+     * @private
+     */
+    private async payment_request_cancel(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/payment/request/cancel ${req.ip}:${JSON.stringify(req.body)}`);
 
-            if (!this.config.relay.testMode && mobileData === undefined) {
-                return res.status(200).json(ResponseMessage.getErrorMessage("2008"));
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const requestId: string = String(req.body.requestId).trim();
+            const item = await this.storage.getPaymentRequest(requestId);
+            if (item === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2045"));
+            }
+            if (!ApiKeyRegistry.isShopAllowed(ApiKeyRegistry.getIdentity(res), item.shopId)) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2055"));
+            }
+            const timestamp = ContractUtils.getTimeStamp();
+            if (
+                !(await this.storage.updatePaymentRequestStatus(
+                    requestId,
+                    PaymentRequestStatus.OPENED,
+                    PaymentRequestStatus.CANCELLED,
+                    "",
+                    "",
+                    timestamp
+                ))
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2048"));
             }
+            item.status = PaymentRequestStatus.CANCELLED;
+            item.updatedTimestamp = timestamp;
 
-            if (mobileData !== undefined) {
-                // tslint:disable-next-line:one-variable-per-declaration
-                let title, shopLabel, amountLabel, pointLabel: string;
-                if (mobileData.language === "ko") {
-                    title = "포인트 사용 알림";
-                    shopLabel = "구매처";
-                    amountLabel = "구매 금액";
-                    pointLabel = "포인트 사용";
-                } else {
-                    title = "Loyalty usage notification";
-                    shopLabel = "Place of purchase";
-                    amountLabel = "Amount";
-                    pointLabel = "Points used";
-                }
-                /// 사용자에게 메세지 발송
-                const to = mobileData.token;
-                const contents: string[] = [];
-                const data = {
-                    type: "new",
-                    paymentId: item.paymentId,
-                    timestamp: item.openNewTimestamp,
-                    timeout: 30,
-                };
-                contents.push(`${shopLabel} : ${shopInfo.name}`);
-                contents.push(
-                    `${amountLabel} : ${new Amount(item.amount, 18).toDisplayString(
-                        true,
-                        0
-                    )} ${item.currency.toUpperCase()}`
-                );
-                contents.push(`${pointLabel} : ${new Amount(item.paidPoint, 18).toDisplayString(true, 0)} POINT`);
+            this.metrics.add("success", 1);
+            return res.status(200).json(this.makeResponseData(0, this.getPaymentRequestResponse(item)));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/payment/request/cancel : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(msg);
+        }
+    }
+
+    /**
+     * 링크로 전달된 결제요청의 정보
+     * GET /v1/payment/request/item
+     * @private
+     */
+    private async payment_request_item(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/payment/request/item ${req.ip}:${JSON.stringify(req.query)}`);
 
-                logger.info(`Notification - to: ${to}, title: ${title}`);
-                await this._sender.send(to, title, contents.join(", "), data);
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const item = await this.storage.getPaymentRequest(String(req.query.requestId).trim());
+            if (item === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2045"));
             }
+            const shopInfo = await this.contractManager.sideShopContract.shopOf(item.shopId);
 
-            try {
-                if (temporaryAccount !== "") await this.storage.removeAccountTemporary(temporaryAccount);
-            } catch (_) {
-                //
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    ...this.getPaymentRequestResponse(item),
+                    shopName: shopInfo.name,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/payment/request/item : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 사용자가 결제요청에 대한 결제를 생성한다.
+     * 생성된 결제는 POST /v1/payment/new/approval 로 승인한다
+     * POST /v1/payment/request/fulfil
+     * @private
+     */
+    private async payment_request_fulfil(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/payment/request/fulfil ${req.ip}:${JSON.stringify(req.body)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        const requestId: string = String(req.body.requestId).trim();
+        const account: string = String(req.body.account).trim();
+        const signature: string = String(req.body.signature).trim();
+        let claimed = false;
+        try {
+            const request = await this.storage.getPaymentRequest(requestId);
+            if (request === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2045"));
+            }
+            if (request.status !== PaymentRequestStatus.OPENED) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2046"));
+            }
+            if (request.expiresAt < ContractUtils.getTimeStamp()) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2047"));
+            }
+
+            const message = ContractUtils.getAccountMessage(
+                account,
+                await this.contractManager.sideLedgerContract.nonceOf(account),
+                this.contractManager.sideChainId
+            );
+            if (!ContractUtils.verifyMessage(account, message, signature)) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
+            }
+
+            /// 동시에 요청된 경우 하나의 결제만 생성되도록 결제요청을 먼저 선점한다
+            claimed = await this.storage.updatePaymentRequestStatus(
+                requestId,
+                PaymentRequestStatus.OPENED,
+                PaymentRequestStatus.PAYING,
+                "",
+                account,
+                ContractUtils.getTimeStamp()
+            );
+            if (!claimed) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2046"));
+            }
+
+            const result = await this.makeNewPayment(
+                request.purchaseId,
+                request.amount,
+                request.currency,
+                request.shopId,
+                ethers.utils.getAddress(account),
+                String(req.body.useToken).trim().toLowerCase() === "true",
+                "",
+                "",
+                request.apiKeyId
+            );
+            if (typeof result === "string") {
+                await this.releasePaymentRequest(requestId);
+                return res.status(200).json(ResponseMessage.getErrorMessage(result));
             }
+            const item = result;
+            await this.stateMachine.open(item, PaymentEventActor.USER, `Payment request ${requestId}`);
+            claimed = false;
+            await this.storage.updatePaymentRequestStatus(
+                requestId,
+                PaymentRequestStatus.PAYING,
+                PaymentRequestStatus.PAYING,
+                item.paymentId,
+                item.account,
+                ContractUtils.getTimeStamp()
+            );
 
             this.metrics.add("success", 1);
             return res.status(200).json(
                 this.makeResponseData(0, {
-                    paymentId: item.paymentId,
-                    purchaseId: item.purchaseId,
-                    amount: item.amount.toString(),
-                    currency: item.currency,
-                    shopId: item.shopId,
-                    account: item.account,
-                    paidPoint: item.paidPoint.toString(),
-                    paidValue: item.paidValue.toString(),
-                    feePoint: item.feePoint.toString(),
-                    feeValue: item.feeValue.toString(),
-                    totalPoint: item.totalPoint.toString(),
-                    totalValue: item.totalValue.toString(),
-                    paymentStatus: item.paymentStatus,
-                    openNewTimestamp: item.openNewTimestamp,
-                    closeNewTimestamp: item.closeNewTimestamp,
-                    openCancelTimestamp: item.openCancelTimestamp,
-                    closeCancelTimestamp: item.closeCancelTimestamp,
+                    requestId,
+                    ...this.getNewOpenResponse(item),
                 })
             );
         } catch (error: any) {
+            if (claimed) await this.releasePaymentRequest(requestId);
             const msg = ResponseMessage.getEVMErrorMessage(error);
-            logger.error(`POST /v1/payment/new/open : ${msg.error.message}`);
+            logger.error(`POST /v1/payment/request/fulfil : ${msg.error.message}`);
             this.metrics.add("failure", 1);
             return res.status(200).json(msg);
         }
     }
 
+    /**
+     * 결제를 생성하지 못한 결제요청을 다시 결제할 수 있도록 되돌린다
+     * @private
+     */
+    private async releasePaymentRequest(requestId: string) {
+        try {
+            await this.storage.updatePaymentRequestStatus(
+                requestId,
+                PaymentRequestStatus.PAYING,
+                PaymentRequestStatus.OPENED,
+                "",
+                "",
+                ContractUtils.getTimeStamp()
+            );
+        } catch (error) {
+            logger.error(`Failed to release the payment request ${requestId}: ${error}`);
+        }
+    }
+
     /**
      * POST /v1/payment/new/approval
      * @private
@@ -629,8 +1378,11 @@ export class PaymentRouter {
                     return res.status(200).json(ResponseMessage.getErrorMessage("2020"));
                 }
 
+                const verify = item.useToken
+                    ? ContractUtils.verifyLoyaltyNewMixedPayment
+                    : ContractUtils.verifyLoyaltyNewPayment;
                 if (
-                    !ContractUtils.verifyLoyaltyNewPayment(
+                    !verify(
                         item.paymentId,
                         item.purchaseId,
                         item.amount,
@@ -645,7 +1397,8 @@ export class PaymentRouter {
                     return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
                 }
 
-                if (ContractUtils.getTimeStamp() - item.openNewTimestamp > this.config.relay.paymentTimeoutSecond) {
+                const timeouts = await this.shopPolicies.get(item.shopId);
+                if (ContractUtils.getTimeStamp() - item.openNewTimestamp > timeouts.paymentTimeoutSecond) {
                     const data = ResponseMessage.getErrorMessage("7000");
 
                     await this.sendPaymentResult(
@@ -661,8 +1414,13 @@ export class PaymentRouter {
                 const loyaltyPaymentData = await contract.loyaltyPaymentOf(paymentId);
                 if (approval) {
                     if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.INVALID) {
+                        const overrides = await this.txRecorder.getOverrides(
+                            item.paymentId,
+                            PaymentTxKind.OPEN_NEW,
+                            this.contractManager.sideChainProvider
+                        );
                         try {
-                            const tx = await contract.connect(signerItem.signer).openNewLoyaltyPayment({
+                            const inputData = {
                                 paymentId: item.paymentId,
                                 purchaseId: item.purchaseId,
                                 amount: item.amount,
@@ -671,16 +1429,29 @@ export class PaymentRouter {
                                 account: item.account,
                                 signature,
                                 secretLock: item.secretLock,
-                            });
+                            };
+                            const tx = item.useToken
+                                ? await contract
+                                      .connect(signerItem.signer)
+                                      .openNewLoyaltyPaymentMixed(inputData, overrides)
+                                : await contract.connect(signerItem.signer).openNewLoyaltyPayment(inputData, overrides);
+                            await this.txRecorder.recordSent(
+                                item.paymentId,
+                                PaymentTxKind.OPEN_NEW,
+                                tx,
+                                signature,
+                                false
+                            );
 
                             item.openNewTxId = tx.hash;
-                            item.openNewTimestamp = ContractUtils.getTimeStamp();
-                            item.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX;
-                            await this.storage.updateOpenNewTx(
-                                item.paymentId,
-                                item.openNewTxId,
-                                item.openNewTimestamp,
-                                item.paymentStatus
+                            item.openNewTxTime = ContractUtils.getTimeStamp();
+                            await this.stateMachine.transition(
+                                item,
+                                LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX,
+                                PaymentEventActor.USER,
+                                "Approved by user",
+                                tx.hash,
+                                [PaymentTransitionField.OPEN_NEW_TX]
                             );
 
                             this.metrics.add("success", 1);
@@ -697,31 +1468,59 @@ export class PaymentRouter {
                                 })
                             );
                         } catch (error) {
-                            item.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_NEW_FAILED_TX;
-                            await this.storage.forcedUpdatePaymentStatus(item.paymentId, item.paymentStatus);
+                            await this.txRecorder.recordFailed(
+                                item.paymentId,
+                                PaymentTxKind.OPEN_NEW,
+                                error,
+                                signature,
+                                false,
+                                overrides
+                            );
+                            await this.stateMachine.transition(
+                                item,
+                                LoyaltyPaymentTaskStatus.APPROVED_NEW_FAILED_TX,
+                                PaymentEventActor.USER,
+                                "Failed to send the transaction"
+                            );
                             const msg = ResponseMessage.getEVMErrorMessage(error);
                             logger.error(`POST /v1/payment/new/approval : ${msg.error.message}`);
                             return res.status(200).json(msg);
                         }
                     } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.OPENED_PAYMENT) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
+                            PaymentEventActor.USER,
+                            "Payment is already opened in the contract"
+                        );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2025"));
                     } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_PAYMENT) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.CLOSED_NEW;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                            PaymentEventActor.USER,
+                            "Payment is already closed in the contract"
+                        );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2026"));
                     } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.FAILED_PAYMENT) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_NEW;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_NEW,
+                            PaymentEventActor.USER,
+                            "Payment has already failed in the contract"
+                        );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2027"));
                     } else {
                         return res.status(200).json(ResponseMessage.getErrorMessage("2020"));
                     }
                 } else {
                     if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.INVALID) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.DENIED_NEW;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.DENIED_NEW,
+                            PaymentEventActor.USER,
+                            "Denied by user"
+                        );
 
                         await this.sendPaymentResult(
                             TaskResultType.NEW,
@@ -769,17 +1568,13 @@ export class PaymentRouter {
             return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
         }
 
-        let accessKey = req.get("Authorization");
-        if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-        if (accessKey !== this.config.relay.accessKey) {
-            return res.json(ResponseMessage.getErrorMessage("2002"));
-        }
-
         const confirm: boolean = String(req.body.confirm).trim().toLowerCase() === "true";
         const paymentId: string = String(req.body.paymentId).trim();
         const item = await this.storage.getPayment(paymentId);
         if (item === undefined) {
             return res.status(200).json(ResponseMessage.getErrorMessage("2003"));
+        } else if (!ApiKeyRegistry.isShopAllowed(ApiKeyRegistry.getIdentity(res), item.shopId)) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2055"));
         } else {
             const signerItem = await this.getRelaySigner();
             try {
@@ -787,12 +1582,14 @@ export class PaymentRouter {
                 const loyaltyPaymentData = await contract.loyaltyPaymentOf(paymentId);
                 if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.INVALID) {
                     if (item.paymentStatus === LoyaltyPaymentTaskStatus.DENIED_NEW) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_NEW;
                         item.closeNewTimestamp = ContractUtils.getTimeStamp();
-                        await this.storage.updateCloseNewTimestamp(
-                            item.paymentId,
-                            item.paymentStatus,
-                            item.closeNewTimestamp
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_NEW,
+                            PaymentEventActor.KIOSK,
+                            "Closed after being denied by user",
+                            "",
+                            [PaymentTransitionField.CLOSE_NEW_TIMESTAMP]
                         );
 
                         this.metrics.add("success", 1);
@@ -824,14 +1621,17 @@ export class PaymentRouter {
                         item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_NEW_CONFIRMED_TX ||
                         item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX
                     ) {
-                        const timeout = this.config.relay.paymentTimeoutSecond - 5;
+                        const timeouts = await this.shopPolicies.get(item.shopId);
+                        const timeout = timeouts.paymentTimeoutSecond - 5;
                         if (ContractUtils.getTimeStamp() - item.openNewTimestamp > timeout) {
-                            item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_NEW;
                             item.closeNewTimestamp = ContractUtils.getTimeStamp();
-                            await this.storage.updateCloseNewTimestamp(
-                                item.paymentId,
-                                item.paymentStatus,
-                                item.closeNewTimestamp
+                            await this.stateMachine.transition(
+                                item,
+                                LoyaltyPaymentTaskStatus.FAILED_NEW,
+                                PaymentEventActor.KIOSK,
+                                "Closed after timeout",
+                                "",
+                                [PaymentTransitionField.CLOSE_NEW_TIMESTAMP]
                             );
                             this.metrics.add("success", 1);
                             return res.status(200).json(
@@ -862,31 +1662,43 @@ export class PaymentRouter {
                         item.paymentStatus === LoyaltyPaymentTaskStatus.CLOSED_NEW ||
                         item.paymentStatus === LoyaltyPaymentTaskStatus.FAILED_NEW
                     ) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_NEW;
                         item.closeNewTimestamp = ContractUtils.getTimeStamp();
-                        await this.storage.updateCloseNewTimestamp(
-                            item.paymentId,
-                            item.paymentStatus,
-                            item.closeNewTimestamp
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_NEW,
+                            PaymentEventActor.KIOSK,
+                            "Payment is not opened in the contract",
+                            "",
+                            [PaymentTransitionField.CLOSE_NEW_TIMESTAMP]
                         );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2029"));
                     } else {
                         return res.status(200).json(ResponseMessage.getErrorMessage("2024"));
                     }
                 } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.OPENED_PAYMENT) {
+                    const overrides = await this.txRecorder.getOverrides(
+                        item.paymentId,
+                        PaymentTxKind.CLOSE_NEW,
+                        this.contractManager.sideChainProvider
+                    );
                     try {
                         const tx = await contract
                             .connect(signerItem.signer)
-                            .closeNewLoyaltyPayment(item.paymentId, item.secret, confirm);
+                            .closeNewLoyaltyPayment(item.paymentId, item.secret, confirm, overrides);
 
                         const event = await this.waitPaymentLoyalty(contract, tx);
+                        await this.txRecorder.recordSent(item.paymentId, PaymentTxKind.CLOSE_NEW, tx, "", confirm);
                         if (event !== undefined) {
-                            item.paymentStatus = confirm
-                                ? LoyaltyPaymentTaskStatus.CLOSED_NEW
-                                : LoyaltyPaymentTaskStatus.FAILED_NEW;
                             item.closeNewTimestamp = ContractUtils.getTimeStamp();
                             this.updateEvent(event, item);
-                            await this.storage.updatePayment(item);
+                            await this.stateMachine.transition(
+                                item,
+                                confirm ? LoyaltyPaymentTaskStatus.CLOSED_NEW : LoyaltyPaymentTaskStatus.FAILED_NEW,
+                                PaymentEventActor.KIOSK,
+                                confirm ? "Confirmed by kiosk" : "Rejected by kiosk",
+                                tx.hash,
+                                PaymentStateMachine.PAYMENT_FIELDS
+                            );
 
                             this.metrics.add("success", 1);
                             return res.status(200).json(
@@ -914,26 +1726,38 @@ export class PaymentRouter {
                             return res.status(200).json(ResponseMessage.getErrorMessage("5000"));
                         }
                     } catch (error) {
+                        await this.txRecorder.recordFailed(
+                            item.paymentId,
+                            PaymentTxKind.CLOSE_NEW,
+                            error,
+                            "",
+                            confirm,
+                            overrides
+                        );
                         const msg = ResponseMessage.getEVMErrorMessage(error);
                         logger.error(`POST /v1/payment/new/close : ${msg.error.message}`);
                         return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
                     }
                 } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_PAYMENT) {
-                    item.paymentStatus = LoyaltyPaymentTaskStatus.CLOSED_NEW;
                     item.closeNewTimestamp = ContractUtils.getTimeStamp();
-                    await this.storage.updateCloseNewTimestamp(
-                        item.paymentId,
-                        item.paymentStatus,
-                        item.closeNewTimestamp
+                    await this.stateMachine.transition(
+                        item,
+                        LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                        PaymentEventActor.KIOSK,
+                        "Payment is already closed in the contract",
+                        "",
+                        [PaymentTransitionField.CLOSE_NEW_TIMESTAMP]
                     );
                     return res.status(200).json(ResponseMessage.getErrorMessage("2026"));
                 } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.FAILED_PAYMENT) {
-                    item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_NEW;
                     item.closeNewTimestamp = ContractUtils.getTimeStamp();
-                    await this.storage.updateCloseNewTimestamp(
-                        item.paymentId,
-                        item.paymentStatus,
-                        item.closeNewTimestamp
+                    await this.stateMachine.transition(
+                        item,
+                        LoyaltyPaymentTaskStatus.FAILED_NEW,
+                        PaymentEventActor.KIOSK,
+                        "Payment has already failed in the contract",
+                        "",
+                        [PaymentTransitionField.CLOSE_NEW_TIMESTAMP]
                     );
                     return res.status(200).json(ResponseMessage.getErrorMessage("2026"));
                 } else {
@@ -942,14 +1766,14 @@ export class PaymentRouter {
                     );
                     if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.INVALID) {
                         item.contractStatus = ContractLoyaltyPaymentStatus.FAILED_PAYMENT;
-                        await this.storage.updatePaymentContractStatus(item.paymentId, item.contractStatus);
-
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_NEW;
                         item.closeNewTimestamp = ContractUtils.getTimeStamp();
-                        await this.storage.updateCloseNewTimestamp(
-                            item.paymentId,
-                            item.paymentStatus,
-                            item.closeNewTimestamp
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_NEW,
+                            PaymentEventActor.KIOSK,
+                            "Payment is not opened in the contract",
+                            "",
+                            [PaymentTransitionField.CONTRACT_STATUS, PaymentTransitionField.CLOSE_NEW_TIMESTAMP]
                         );
                     }
                     return res.status(200).json(ResponseMessage.getErrorMessage("2024"));
@@ -998,6 +1822,15 @@ export class PaymentRouter {
                     feeValue: item.feeValue.toString(),
                     totalPoint: item.totalPoint.toString(),
                     totalValue: item.totalValue.toString(),
+                    useToken: item.useToken,
+                    usedPoint: item.usedPoint.toString(),
+                    usedToken: item.usedToken.toString(),
+                    cancelAmount: item.cancelAmount.toString(),
+                    cancelPoint: item.cancelPoint.toString(),
+                    cancelFeePoint: item.cancelFeePoint.toString(),
+                    remainAmount: item.remainAmount.toString(),
+                    remainPoint: item.remainPoint.toString(),
+                    remainFeePoint: item.remainFeePoint.toString(),
                     paymentStatus: item.paymentStatus,
                     openNewTimestamp: item.openNewTimestamp,
                     closeNewTimestamp: item.closeNewTimestamp,
@@ -1013,6 +1846,325 @@ export class PaymentRouter {
         }
     }
 
+    /**
+     * 완료된 결제의 서명된 영수증을 제공한다
+     * GET /v1/payment/:paymentId/receipt
+     * @private
+     */
+    private async payment_receipt(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/payment/:paymentId/receipt ${req.ip}:${JSON.stringify(req.params)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const paymentId: string = String(req.params.paymentId).trim();
+            const format: string = req.query.format !== undefined ? String(req.query.format) : "json";
+            const item = await this.storage.getPayment(paymentId);
+            if (item === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2003"));
+            }
+            if (
+                item.paymentStatus !== LoyaltyPaymentTaskStatus.CLOSED_NEW &&
+                item.paymentStatus !== LoyaltyPaymentTaskStatus.CLOSED_CANCEL
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2037"));
+            }
+
+            const shopInfo = await this.contractManager.sideShopContract.shopOf(item.shopId);
+            const receipt = await this.receiptIssuer.issue(item, shopInfo.name);
+
+            this.metrics.add("success", 1);
+            if (format === "html") {
+                return res.status(200).type("html").send(PaymentReceiptIssuer.toHtml(receipt));
+            }
+            return res.status(200).json(this.makeResponseData(0, receipt));
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/payment/:paymentId/receipt : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 상점의 결제목록을 조건에 맞게 제공한다. 상점주 또는 위임자의 서명이 필요하다.
+     * GET /v1/payment/shop/:shopId
+     * @private
+     */
+    private async payment_shop(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/payment/shop/:shopId ${req.ip}:${JSON.stringify(req.params)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const shopId: string = String(req.params.shopId).trim();
+            const signer: string = String(req.query.signer).trim();
+            const timestamp: number = Number(req.query.timestamp);
+            const signature: string = String(req.query.signature).trim();
+
+            if (Math.abs(ContractUtils.getTimeStamp() - timestamp) > PaymentRouter.SHOP_SIGNATURE_VALID_SECOND) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1506"));
+            }
+            if (
+                !ContractUtils.verifyShopPaymentList(
+                    shopId,
+                    signer,
+                    timestamp,
+                    signature,
+                    this.contractManager.sideChainId
+                )
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
+            }
+
+            const shopInfo = await this.contractManager.sideShopContract.shopOf(shopId);
+            if (shopInfo.status === ContractShopStatus.INVALID) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1201"));
+            }
+            if (
+                signer.toLowerCase() !== shopInfo.account.toLowerCase() &&
+                signer.toLowerCase() !== shopInfo.delegator.toLowerCase()
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1503"));
+            }
+
+            const filter: ShopPaymentFilter = {
+                status:
+                    req.query.status !== undefined
+                        ? String(req.query.status)
+                              .split(",")
+                              .filter((m) => m !== "")
+                              .map((m) => Number(m))
+                        : [],
+                from: req.query.from !== undefined ? Number(req.query.from) : 0,
+                to: req.query.to !== undefined ? Number(req.query.to) : 0,
+                account: req.query.account !== undefined ? String(req.query.account).trim() : "",
+                purchaseId: req.query.purchaseId !== undefined ? String(req.query.purchaseId).trim() : "",
+                currency: req.query.currency !== undefined ? String(req.query.currency).trim() : "",
+            };
+            const limit: number = req.query.limit !== undefined ? Number(req.query.limit) : 20;
+
+            let cursor: ShopPaymentCursor | undefined;
+            if (req.query.cursor !== undefined) {
+                const [createdTimestamp, paymentId] = Buffer.from(String(req.query.cursor).trim(), "base64")
+                    .toString()
+                    .split(":");
+                if (Number.isNaN(Number(createdTimestamp)) || !/^(0x)[0-9a-f]{64}$/i.test(paymentId)) {
+                    return res
+                        .status(200)
+                        .json(ResponseMessage.getErrorMessage("2001", { validation: [{ msg: "Invalid cursor" }] }));
+                }
+                cursor = { createdTimestamp: Number(createdTimestamp), paymentId };
+            }
+
+            /// 다음 페이지가 있는지 확인하기 위해 하나를 더 조회한다
+            const items = await this.storage.getPaymentsOfShop(shopId, filter, cursor, limit + 1);
+            const hasNext = items.length > limit;
+            const page = items.slice(0, limit);
+            const last = page[page.length - 1];
+            const nextCursor =
+                hasNext && last !== undefined
+                    ? Buffer.from(`${last.createdTimestamp}:${last.paymentId}`).toString("base64")
+                    : "";
+            const total = await this.storage.getPaymentsOfShopTotal(shopId, filter);
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    shopId,
+                    total: {
+                        totalCount: total.totalCount,
+                        paidPoint: total.paidPoint.toString(),
+                        paidValue: total.paidValue.toString(),
+                        feeValue: total.feeValue.toString(),
+                    },
+                    nextCursor,
+                    items: page.map((item) => {
+                        return {
+                            paymentId: item.paymentId,
+                            purchaseId: item.purchaseId,
+                            amount: item.amount.toString(),
+                            currency: item.currency,
+                            shopId: item.shopId,
+                            account: item.account,
+                            paidPoint: item.paidPoint.toString(),
+                            paidValue: item.paidValue.toString(),
+                            feePoint: item.feePoint.toString(),
+                            feeValue: item.feeValue.toString(),
+                            totalPoint: item.totalPoint.toString(),
+                            totalValue: item.totalValue.toString(),
+                            cancelAmount: item.cancelAmount.toString(),
+                            cancelPoint: item.cancelPoint.toString(),
+                            cancelFeePoint: item.cancelFeePoint.toString(),
+                            remainAmount: item.remainAmount.toString(),
+                            remainPoint: item.remainPoint.toString(),
+                            remainFeePoint: item.remainFeePoint.toString(),
+                            paymentStatus: item.paymentStatus,
+                            openNewTimestamp: item.openNewTimestamp,
+                            closeNewTimestamp: item.closeNewTimestamp,
+                            openCancelTimestamp: item.openCancelTimestamp,
+                            closeCancelTimestamp: item.closeCancelTimestamp,
+                        };
+                    }),
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/payment/shop/:shopId : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 결제의 상태변경 내역을 제공한다
+     * GET /v1/payment/:paymentId/events
+     * @private
+     */
+    private async payment_events(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/payment/:paymentId/events ${req.ip}:${JSON.stringify(req.params)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const paymentId: string = String(req.params.paymentId).trim();
+            const item = await this.storage.getPayment(paymentId);
+            if (item === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2003"));
+            }
+            const events = await this.storage.getPaymentEvents(paymentId);
+            const attempts = await this.storage.getPaymentTxAttempts(paymentId);
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    paymentId: item.paymentId,
+                    paymentStatus: item.paymentStatus,
+                    events: events.map((m) => {
+                        return {
+                            fromStatus: m.fromStatus,
+                            toStatus: m.toStatus,
+                            actor: m.actor,
+                            reason: m.reason,
+                            txHash: m.txHash,
+                            timestamp: m.timestamp,
+                        };
+                    }),
+                    attempts: attempts.map((m) => {
+                        return {
+                            kind: m.kind,
+                            attempt: m.attempt,
+                            txHash: m.txHash,
+                            failure: m.failure,
+                            reason: m.reason,
+                            timestamp: m.timestamp,
+                        };
+                    }),
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/payment/:paymentId/events : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 결제의 상태변경을 Server-Sent Events 로 전달한다
+     * GET /v1/payment/stream
+     * @private
+     */
+    private async payment_stream(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/payment/stream ${req.ip}:${JSON.stringify(req.query)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        const paymentId: string = req.query.paymentId !== undefined ? String(req.query.paymentId).trim() : "";
+        const shopId: string = req.query.shopId !== undefined ? String(req.query.shopId).trim() : "";
+        if (paymentId === "" && shopId === "") {
+            return res.status(200).json(
+                ResponseMessage.getErrorMessage("2001", {
+                    validation: [{ msg: "paymentId or shopId is required" }],
+                })
+            );
+        }
+
+        try {
+            /// 구독을 시작할 때의 결제정보를 먼저 전달한다
+            let item: LoyaltyPaymentTaskData | undefined;
+            if (paymentId !== "") {
+                item = await this.storage.getPayment(paymentId);
+                if (item === undefined) {
+                    return res.status(200).json(ResponseMessage.getErrorMessage("2003"));
+                }
+                if (!ApiKeyRegistry.isShopAllowed(ApiKeyRegistry.getIdentity(res), item.shopId)) {
+                    return res.status(200).json(ResponseMessage.getErrorMessage("2055"));
+                }
+            }
+
+            res.status(200);
+            res.setHeader("Content-Type", "text/event-stream");
+            res.setHeader("Cache-Control", "no-cache");
+            res.setHeader("Connection", "keep-alive");
+            res.flushHeaders();
+            /// 스트림은 클라이언트가 닫을 때 까지 끝나지 않으므로 처리중인 요청으로 세지 않는다
+            if (res.locals.untrack !== undefined) res.locals.untrack();
+
+            const write = (type: TaskResultType, data: PaymentResultData) => {
+                res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+            };
+
+            if (item !== undefined) {
+                write(
+                    item.paymentStatus < LoyaltyPaymentTaskStatus.OPENED_CANCEL
+                        ? TaskResultType.NEW
+                        : TaskResultType.CANCEL,
+                    this.getCallBackResponse(item)
+                );
+            }
+
+            const unsubscribe = this.paymentStream.subscribe((message: IPaymentStatusMessage) => {
+                if (paymentId !== "" && message.data.paymentId.toLowerCase() !== paymentId.toLowerCase()) return;
+                if (shopId !== "" && message.data.shopId.toLowerCase() !== shopId.toLowerCase()) return;
+                write(message.type, message.data);
+            });
+            const heartbeat = setInterval(() => {
+                res.write(": heartbeat\n\n");
+            }, 15000);
+
+            let removeStream: (() => void) | undefined;
+            const close = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+                if (removeStream !== undefined) removeStream();
+            };
+            req.on("close", close);
+            removeStream = this.paymentStream.addStream(() => {
+                close();
+                res.end();
+            });
+            this.metrics.add("success", 1);
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/payment/stream : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            if (!res.headersSent) return res.status(200).json(msg);
+            res.end();
+        }
+    }
+
     /**
      * 결제 / 결제정보를 제공한다
      * POST /v1/payment/cancel/open
@@ -1027,27 +2179,44 @@ export class PaymentRouter {
         }
 
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
-            }
-
             const paymentId: string = String(req.body.paymentId).trim();
             const item = await this.storage.getPayment(paymentId);
             if (item === undefined) {
                 return res.status(200).json(ResponseMessage.getErrorMessage("2003"));
+            } else if (!ApiKeyRegistry.isShopAllowed(ApiKeyRegistry.getIdentity(res), item.shopId)) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2055"));
             } else {
                 if (item.paymentStatus !== LoyaltyPaymentTaskStatus.CLOSED_NEW) {
                     return res.status(200).json(ResponseMessage.getErrorMessage("2022"));
                 }
 
-                item.paymentStatus = LoyaltyPaymentTaskStatus.OPENED_CANCEL;
+                if (req.body.amount === undefined) {
+                    item.cancelAmount = item.remainAmount;
+                } else {
+                    item.cancelAmount = BigNumber.from(req.body.amount);
+                    if (item.cancelAmount.lte(0) || item.cancelAmount.gt(item.remainAmount)) {
+                        return res.status(200).json(ResponseMessage.getErrorMessage("1535"));
+                    }
+                }
+                if (item.cancelAmount.eq(item.remainAmount)) {
+                    item.cancelPoint = item.remainPoint;
+                    item.cancelFeePoint = item.remainFeePoint;
+                } else {
+                    item.cancelPoint = ContractUtils.zeroGWEI(
+                        item.paidPoint.mul(item.cancelAmount).div(item.paidValue)
+                    );
+                    item.cancelFeePoint = ContractUtils.zeroGWEI(
+                        item.feePoint.mul(item.cancelAmount).div(item.paidValue)
+                    );
+                }
                 item.openCancelTimestamp = ContractUtils.getTimeStamp();
-                await this.storage.updateOpenCancelTimestamp(
-                    item.paymentId,
-                    item.paymentStatus,
-                    item.openCancelTimestamp
+                await this.stateMachine.transition(
+                    item,
+                    LoyaltyPaymentTaskStatus.OPENED_CANCEL,
+                    PaymentEventActor.KIOSK,
+                    "Cancellation requested",
+                    "",
+                    [PaymentTransitionField.CANCEL, PaymentTransitionField.OPEN_CANCEL_TIMESTAMP]
                 );
                 [item.secret, item.secretLock] = ContractUtils.getSecret();
                 await this.storage.updateSecret(item.paymentId, item.secret, item.secretLock);
@@ -1079,6 +2248,12 @@ export class PaymentRouter {
                             feeValue: item.feeValue.toString(),
                             totalPoint: item.totalPoint.toString(),
                             totalValue: item.totalValue.toString(),
+                            cancelAmount: item.cancelAmount.toString(),
+                            cancelPoint: item.cancelPoint.toString(),
+                            cancelFeePoint: item.cancelFeePoint.toString(),
+                            remainAmount: item.remainAmount.toString(),
+                            remainPoint: item.remainPoint.toString(),
+                            remainFeePoint: item.remainFeePoint.toString(),
                             paymentStatus: item.paymentStatus,
                             openNewTimestamp: item.openNewTimestamp,
                             closeNewTimestamp: item.closeNewTimestamp,
@@ -1114,17 +2289,18 @@ export class PaymentRouter {
                     const data = {
                         type: "cancel",
                         paymentId: item.paymentId,
+                        amount: item.cancelAmount.toString(),
                         timestamp: item.openCancelTimestamp,
-                        timeout: 30,
+                        timeout: ShopPolicyResolver.getPushTimeout(await this.shopPolicies.get(item.shopId)),
                     };
                     contents.push(`${shopLabel} : ${shopInfo.name}`);
                     contents.push(
-                        `${amountLabel} : ${new Amount(item.amount, 18).toDisplayString(
+                        `${amountLabel} : ${new Amount(item.cancelAmount, 18).toDisplayString(
                             true,
                             0
                         )} ${item.currency.toUpperCase()}`
                     );
-                    contents.push(`${pointLabel} : ${new Amount(item.paidPoint, 18).toDisplayString(true, 0)} POINT`);
+                    contents.push(`${pointLabel} : ${new Amount(item.cancelPoint, 18).toDisplayString(true, 0)} POINT`);
 
                     logger.info(`Notification - to: ${to}, title: ${title}`);
                     await this._sender.send(to, title, contents.join(", "), data);
@@ -1145,6 +2321,12 @@ export class PaymentRouter {
                         feeValue: item.feeValue.toString(),
                         totalPoint: item.totalPoint.toString(),
                         totalValue: item.totalValue.toString(),
+                        cancelAmount: item.cancelAmount.toString(),
+                        cancelPoint: item.cancelPoint.toString(),
+                        cancelFeePoint: item.cancelFeePoint.toString(),
+                        remainAmount: item.remainAmount.toString(),
+                        remainPoint: item.remainPoint.toString(),
+                        remainFeePoint: item.remainFeePoint.toString(),
                         paymentStatus: item.paymentStatus,
                         openNewTimestamp: item.openNewTimestamp,
                         closeNewTimestamp: item.closeNewTimestamp,
@@ -1201,14 +2383,18 @@ export class PaymentRouter {
                     }
                 }
 
-                if (!hasDelegator) {
-                    const nonce = await this.contractManager.sideLedgerContract.nonceOf(shopData.account);
+                // 원래 결제 금액 중 일부만 취소하는 경우에는 취소 금액이 포함된 서명을 사용한다
+                const isPartialAmount = item.cancelAmount.lt(item.paidValue);
+                const signer = hasDelegator ? shopData.delegator : shopData.account;
+                const nonce = await this.contractManager.sideLedgerContract.nonceOf(signer);
+                if (isPartialAmount) {
                     if (
-                        !ContractUtils.verifyLoyaltyCancelPayment(
+                        !ContractUtils.verifyLoyaltyPartialCancelPayment(
                             item.paymentId,
                             item.purchaseId,
+                            item.cancelAmount,
                             nonce,
-                            shopData.account,
+                            signer,
                             signature,
                             this.contractManager.sideChainId
                         )
@@ -1216,13 +2402,12 @@ export class PaymentRouter {
                         return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
                     }
                 } else {
-                    const nonce = await this.contractManager.sideLedgerContract.nonceOf(shopData.delegator);
                     if (
                         !ContractUtils.verifyLoyaltyCancelPayment(
                             item.paymentId,
                             item.purchaseId,
                             nonce,
-                            shopData.delegator,
+                            signer,
                             signature,
                             this.contractManager.sideChainId
                         )
@@ -1231,7 +2416,8 @@ export class PaymentRouter {
                     }
                 }
 
-                if (ContractUtils.getTimeStamp() - item.openCancelTimestamp > this.config.relay.paymentTimeoutSecond) {
+                const timeouts = await this.shopPolicies.get(item.shopId);
+                if (ContractUtils.getTimeStamp() - item.openCancelTimestamp > timeouts.paymentTimeoutSecond) {
                     const msg = ResponseMessage.getErrorMessage("7000");
 
                     await this.sendPaymentResult(
@@ -1249,18 +2435,28 @@ export class PaymentRouter {
                 if (approval) {
                     if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_PAYMENT) {
                         try {
-                            const tx = await contract
-                                .connect(signerItem.signer)
-                                .openCancelLoyaltyPayment(item.paymentId, item.secretLock, signature);
+                            const tx = isPartialAmount
+                                ? await contract
+                                      .connect(signerItem.signer)
+                                      .openPartialCancelLoyaltyPayment(
+                                          item.paymentId,
+                                          item.cancelAmount,
+                                          item.secretLock,
+                                          signature
+                                      )
+                                : await contract
+                                      .connect(signerItem.signer)
+                                      .openCancelLoyaltyPayment(item.paymentId, item.secretLock, signature);
 
                             item.openCancelTxId = tx.hash;
-                            item.openCancelTimestamp = ContractUtils.getTimeStamp();
-                            item.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX;
-                            await this.storage.updateOpenCancelTx(
-                                item.paymentId,
-                                item.openCancelTxId,
-                                item.openCancelTimestamp,
-                                item.paymentStatus
+                            item.openCancelTxTime = ContractUtils.getTimeStamp();
+                            await this.stateMachine.transition(
+                                item,
+                                LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX,
+                                PaymentEventActor.SHOP,
+                                "Cancellation approved by shop",
+                                tx.hash,
+                                [PaymentTransitionField.OPEN_CANCEL_TX]
                             );
 
                             this.metrics.add("success", 1);
@@ -1272,36 +2468,57 @@ export class PaymentRouter {
                                     currency: item.currency,
                                     shopId: item.shopId,
                                     account: item.account,
+                                    cancelAmount: item.cancelAmount.toString(),
                                     paymentStatus: item.paymentStatus,
                                     txHash: tx.hash,
                                 })
                             );
                         } catch (error) {
-                            item.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_CANCEL_FAILED_TX;
-                            await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                            await this.stateMachine.transition(
+                                item,
+                                LoyaltyPaymentTaskStatus.APPROVED_CANCEL_FAILED_TX,
+                                PaymentEventActor.SHOP,
+                                "Failed to send the transaction"
+                            );
                             const msg = ResponseMessage.getEVMErrorMessage(error);
                             logger.error(`POST /v1/payment/cancel/approval : ${msg.error.message}`);
                             return res.status(200).json(msg);
                         }
                     } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.OPENED_CANCEL) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
+                            PaymentEventActor.SHOP,
+                            "Cancellation is already opened in the contract"
+                        );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2025"));
                     } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_CANCEL) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.CLOSED_CANCEL;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.CLOSED_CANCEL,
+                            PaymentEventActor.SHOP,
+                            "Cancellation is already closed in the contract"
+                        );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2026"));
                     } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.FAILED_CANCEL) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_CANCEL;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                            PaymentEventActor.SHOP,
+                            "Cancellation has already failed in the contract"
+                        );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2027"));
                     } else {
                         return res.status(200).json(ResponseMessage.getErrorMessage("2020"));
                     }
                 } else {
                     if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_PAYMENT) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.DENIED_CANCEL;
-                        await this.storage.updatePaymentStatus(item.paymentId, item.paymentStatus);
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.DENIED_CANCEL,
+                            PaymentEventActor.SHOP,
+                            "Denied by shop"
+                        );
 
                         await this.sendPaymentResult(
                             TaskResultType.CANCEL,
@@ -1350,30 +2567,30 @@ export class PaymentRouter {
             return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
         }
 
-        let accessKey = req.get("Authorization");
-        if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-        if (accessKey !== this.config.relay.accessKey) {
-            return res.json(ResponseMessage.getErrorMessage("2002"));
-        }
-
         const confirm: boolean = String(req.body.confirm).trim().toLowerCase() === "true";
         const paymentId: string = String(req.body.paymentId).trim();
         const item = await this.storage.getPayment(paymentId);
         if (item === undefined) {
             return res.status(200).json(ResponseMessage.getErrorMessage("2003"));
+        } else if (!ApiKeyRegistry.isShopAllowed(ApiKeyRegistry.getIdentity(res), item.shopId)) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2055"));
         } else {
+            // 남은 금액의 일부만 취소하는 경우에는 종료 후 다시 취소할 수 있도록 CLOSED_NEW 로 되돌린다
+            const isPartial = item.cancelAmount.lt(item.remainAmount);
             const signerItem = await this.getRelaySigner();
             try {
                 const contract = this.contractManager.sideLoyaltyConsumerContract;
                 const loyaltyPaymentData = await contract.loyaltyPaymentOf(paymentId);
                 if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_PAYMENT) {
                     if (item.paymentStatus === LoyaltyPaymentTaskStatus.DENIED_CANCEL) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_CANCEL;
                         item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                        await this.storage.updateCloseCancelTimestamp(
-                            item.paymentId,
-                            item.paymentStatus,
-                            item.closeCancelTimestamp
+                        await this.stateMachine.transition(
+                            item,
+                            isPartial ? LoyaltyPaymentTaskStatus.CLOSED_NEW : LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                            PaymentEventActor.KIOSK,
+                            "Closed after being denied by shop",
+                            "",
+                            [PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP]
                         );
 
                         this.metrics.add("success", 1);
@@ -1391,6 +2608,12 @@ export class PaymentRouter {
                                 feeValue: item.feeValue.toString(),
                                 totalPoint: item.totalPoint.toString(),
                                 totalValue: item.totalValue.toString(),
+                                cancelAmount: item.cancelAmount.toString(),
+                                cancelPoint: item.cancelPoint.toString(),
+                                cancelFeePoint: item.cancelFeePoint.toString(),
+                                remainAmount: item.remainAmount.toString(),
+                                remainPoint: item.remainPoint.toString(),
+                                remainFeePoint: item.remainFeePoint.toString(),
                                 paymentStatus: item.paymentStatus,
                                 openNewTimestamp: item.openNewTimestamp,
                                 closeNewTimestamp: item.closeNewTimestamp,
@@ -1405,14 +2628,19 @@ export class PaymentRouter {
                         item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_CANCEL_CONFIRMED_TX ||
                         item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX
                     ) {
-                        const timeout = this.config.relay.paymentTimeoutSecond - 5;
+                        const timeouts = await this.shopPolicies.get(item.shopId);
+                        const timeout = timeouts.paymentTimeoutSecond - 5;
                         if (ContractUtils.getTimeStamp() - item.openCancelTimestamp > timeout) {
-                            item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_CANCEL;
                             item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                            await this.storage.updateCloseCancelTimestamp(
-                                item.paymentId,
-                                item.paymentStatus,
-                                item.closeCancelTimestamp
+                            await this.stateMachine.transition(
+                                item,
+                                isPartial
+                                    ? LoyaltyPaymentTaskStatus.CLOSED_NEW
+                                    : LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                                PaymentEventActor.KIOSK,
+                                "Closed after timeout",
+                                "",
+                                [PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP]
                             );
                             this.metrics.add("success", 1);
                             return res.status(200).json(
@@ -1429,6 +2657,12 @@ export class PaymentRouter {
                                     feeValue: item.feeValue.toString(),
                                     totalPoint: item.totalPoint.toString(),
                                     totalValue: item.totalValue.toString(),
+                                    cancelAmount: item.cancelAmount.toString(),
+                                    cancelPoint: item.cancelPoint.toString(),
+                                    cancelFeePoint: item.cancelFeePoint.toString(),
+                                    remainAmount: item.remainAmount.toString(),
+                                    remainPoint: item.remainPoint.toString(),
+                                    remainFeePoint: item.remainFeePoint.toString(),
                                     paymentStatus: item.paymentStatus,
                                     openNewTimestamp: item.openNewTimestamp,
                                     closeNewTimestamp: item.closeNewTimestamp,
@@ -1443,12 +2677,14 @@ export class PaymentRouter {
                         item.paymentStatus === LoyaltyPaymentTaskStatus.CLOSED_CANCEL ||
                         item.paymentStatus === LoyaltyPaymentTaskStatus.FAILED_CANCEL
                     ) {
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_CANCEL;
                         item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                        await this.storage.updateCloseCancelTimestamp(
-                            item.paymentId,
-                            item.paymentStatus,
-                            item.closeCancelTimestamp
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                            PaymentEventActor.KIOSK,
+                            "Cancellation is not opened in the contract",
+                            "",
+                            [PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP]
                         );
                         return res.status(200).json(ResponseMessage.getErrorMessage("2029"));
                     } else {
@@ -1460,14 +2696,37 @@ export class PaymentRouter {
                             .connect(signerItem.signer)
                             .closeCancelLoyaltyPayment(item.paymentId, item.secret, confirm);
 
-                        const event = await this.waitPaymentLoyalty(contract, tx);
+                        const event = await this.waitCancelLoyalty(contract, tx);
                         if (event !== undefined) {
-                            item.paymentStatus = confirm
-                                ? LoyaltyPaymentTaskStatus.CLOSED_CANCEL
-                                : LoyaltyPaymentTaskStatus.FAILED_CANCEL;
                             item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                            this.updateEvent(event, item);
-                            await this.storage.updatePayment(item);
+                            this.updateCancelEvent(event, item);
+                            if (isPartial) {
+                                await this.stateMachine.transition(
+                                    item,
+                                    LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                                    PaymentEventActor.KIOSK,
+                                    confirm
+                                        ? "Partial cancellation confirmed by kiosk"
+                                        : "Partial cancellation rejected by kiosk",
+                                    tx.hash,
+                                    [
+                                        PaymentTransitionField.REMAIN,
+                                        PaymentTransitionField.CONTRACT_STATUS,
+                                        PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP,
+                                    ]
+                                );
+                            } else {
+                                await this.stateMachine.transition(
+                                    item,
+                                    confirm
+                                        ? LoyaltyPaymentTaskStatus.CLOSED_CANCEL
+                                        : LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                                    PaymentEventActor.KIOSK,
+                                    confirm ? "Confirmed by kiosk" : "Rejected by kiosk",
+                                    tx.hash,
+                                    PaymentStateMachine.PAYMENT_FIELDS
+                                );
+                            }
 
                             this.metrics.add("success", 1);
                             return res.status(200).json(
@@ -1484,6 +2743,12 @@ export class PaymentRouter {
                                     feeValue: item.feeValue.toString(),
                                     totalPoint: item.totalPoint.toString(),
                                     totalValue: item.totalValue.toString(),
+                                    cancelAmount: item.cancelAmount.toString(),
+                                    cancelPoint: item.cancelPoint.toString(),
+                                    cancelFeePoint: item.cancelFeePoint.toString(),
+                                    remainAmount: item.remainAmount.toString(),
+                                    remainPoint: item.remainPoint.toString(),
+                                    remainFeePoint: item.remainFeePoint.toString(),
                                     paymentStatus: item.paymentStatus,
                                     openNewTimestamp: item.openNewTimestamp,
                                     closeNewTimestamp: item.closeNewTimestamp,
@@ -1500,21 +2765,25 @@ export class PaymentRouter {
                         return res.status(200).json(msg);
                     }
                 } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.CLOSED_CANCEL) {
-                    item.paymentStatus = LoyaltyPaymentTaskStatus.CLOSED_CANCEL;
                     item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                    await this.storage.updateCloseCancelTimestamp(
-                        item.paymentId,
-                        item.paymentStatus,
-                        item.closeCancelTimestamp
+                    await this.stateMachine.transition(
+                        item,
+                        LoyaltyPaymentTaskStatus.CLOSED_CANCEL,
+                        PaymentEventActor.KIOSK,
+                        "Cancellation is already closed in the contract",
+                        "",
+                        [PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP]
                     );
                     return res.status(200).json(ResponseMessage.getErrorMessage("2026"));
                 } else if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.FAILED_PAYMENT) {
-                    item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_CANCEL;
                     item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                    await this.storage.updateCloseCancelTimestamp(
-                        item.paymentId,
-                        item.paymentStatus,
-                        item.closeCancelTimestamp
+                    await this.stateMachine.transition(
+                        item,
+                        LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                        PaymentEventActor.KIOSK,
+                        "Payment has already failed in the contract",
+                        "",
+                        [PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP]
                     );
                     return res.status(200).json(ResponseMessage.getErrorMessage("2026"));
                 } else {
@@ -1523,14 +2792,14 @@ export class PaymentRouter {
                     );
                     if (loyaltyPaymentData.status === ContractLoyaltyPaymentStatus.INVALID) {
                         item.contractStatus = ContractLoyaltyPaymentStatus.FAILED_CANCEL;
-                        await this.storage.updatePaymentContractStatus(item.paymentId, item.contractStatus);
-
-                        item.paymentStatus = LoyaltyPaymentTaskStatus.FAILED_CANCEL;
                         item.closeCancelTimestamp = ContractUtils.getTimeStamp();
-                        await this.storage.updateCloseCancelTimestamp(
-                            item.paymentId,
-                            item.paymentStatus,
-                            item.closeCancelTimestamp
+                        await this.stateMachine.transition(
+                            item,
+                            LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                            PaymentEventActor.KIOSK,
+                            "Payment is not found in the contract",
+                            "",
+                            [PaymentTransitionField.CONTRACT_STATUS, PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP]
                         );
                     }
                     return res.status(200).json(ResponseMessage.getErrorMessage("2024"));
@@ -1560,6 +2829,14 @@ export class PaymentRouter {
             feeValue: item.feeValue.toString(),
             totalPoint: item.totalPoint.toString(),
             totalValue: item.totalValue.toString(),
+            usedPoint: item.usedPoint.toString(),
+            usedToken: item.usedToken.toString(),
+            cancelAmount: item.cancelAmount.toString(),
+            cancelPoint: item.cancelPoint.toString(),
+            cancelFeePoint: item.cancelFeePoint.toString(),
+            remainAmount: item.remainAmount.toString(),
+            remainPoint: item.remainPoint.toString(),
+            remainFeePoint: item.remainFeePoint.toString(),
             paymentStatus: item.paymentStatus,
         };
     }
@@ -1576,6 +2853,10 @@ export class PaymentRouter {
         item.feeValue = event.feeValue;
         item.totalPoint = event.totalPoint;
         item.totalValue = event.totalValue;
+        if (event.usedPoint !== undefined && event.usedToken !== undefined) {
+            item.usedPoint = event.usedPoint;
+            item.usedToken = event.usedToken;
+        }
         item.contractStatus = event.status;
     }
 
@@ -1605,6 +2886,51 @@ export class PaymentRouter {
             res.totalPoint = res.paidPoint.add(res.feePoint);
             res.totalValue = res.paidValue.add(res.feeValue);
 
+            /// 토큰을 함께 사용한 지불은 실제로 사용된 포인트와 토큰이 별도의 이벤트로 기록된다
+            const mixedLog = ContractUtils.findLog(contractReceipt, contract.interface, "LoyaltyMixedPaymentEvent");
+            if (mixedLog !== undefined) {
+                const parsedMixedLog = contract.interface.parseLog(mixedLog);
+                res.usedPoint = BigNumber.from(parsedMixedLog.args.usedPoint);
+                res.usedToken = BigNumber.from(parsedMixedLog.args.usedToken);
+            }
+
+            return res;
+        } else return undefined;
+    }
+
+    private updateCancelEvent(event: ContractLoyaltyCancelEvent, item: LoyaltyPaymentTaskData): void {
+        if (item.paymentId !== event.paymentId) return;
+        item.cancelAmount = event.cancelValue;
+        item.cancelPoint = event.cancelPoint;
+        item.cancelFeePoint = event.cancelFeePoint;
+        if (event.cancelStatus === ContractLoyaltyCancelStatus.CLOSED) {
+            item.remainAmount = event.remainValue.sub(event.cancelValue);
+            item.remainPoint = item.remainPoint.sub(event.cancelPoint);
+            item.remainFeePoint = item.remainFeePoint.sub(event.cancelFeePoint);
+        }
+        item.contractStatus = event.status;
+    }
+
+    private async waitCancelLoyalty(
+        contract: LoyaltyConsumer,
+        tx: ContractTransaction
+    ): Promise<ContractLoyaltyCancelEvent | undefined> {
+        const res: any = {};
+        const contractReceipt = await tx.wait();
+        const log = ContractUtils.findLog(contractReceipt, contract.interface, "LoyaltyCancelEvent");
+        if (log !== undefined) {
+            const parsedLog = contract.interface.parseLog(log);
+
+            res.paymentId = parsedLog.args.payment.paymentId;
+            res.cancelValue = BigNumber.from(parsedLog.args.cancel.cancelValue);
+            res.cancelPoint = BigNumber.from(parsedLog.args.cancel.cancelPoint);
+            res.cancelFeeValue = BigNumber.from(parsedLog.args.cancel.cancelFeeValue);
+            res.cancelFeePoint = BigNumber.from(parsedLog.args.cancel.cancelFeePoint);
+            res.remainValue = BigNumber.from(parsedLog.args.cancel.remainValue);
+            res.cancelStatus = BigNumber.from(parsedLog.args.cancel.status).toNumber();
+            res.status = BigNumber.from(parsedLog.args.payment.status).toNumber();
+            res.balance = BigNumber.from(parsedLog.args.balance);
+
             return res;
         } else return undefined;
     }
@@ -1615,22 +2941,7 @@ export class PaymentRouter {
         message: string,
         data: PaymentResultData
     ) {
-        try {
-            const client = new HTTPClient();
-            const res = await client.post(this.config.relay.callbackEndpoint, {
-                accessKey: this.config.relay.callbackAccessKey,
-                type,
-                code,
-                message,
-                data,
-            });
-            logger.info(JSON.stringify(res.data));
-        } catch (error) {
-            if (error instanceof Error) {
-                logger.error(`sendPaymentResult : ${error.message}`);
-            } else {
-                logger.error(`sendPaymentResult : ${JSON.stringify(error)}`);
-            }
-        }
+        this.paymentStream.publish(type, code, message, data);
+        await this.callbackOutbox.send(type, code, message, data);
     }
 }
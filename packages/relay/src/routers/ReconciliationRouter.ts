@@ -0,0 +1,108 @@
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { Metrics } from "../metrics/Metrics";
+import { WebService } from "../service/WebService";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ApiKeyScope, ReconciliationIssueType } from "../types";
+import { ResponseMessage } from "../utils/Errors";
+
+import express from "express";
+import { query, validationResult } from "express-validator";
+
+export class ReconciliationRouter {
+    private web_service: WebService;
+    private readonly config: Config;
+    private readonly metrics: Metrics;
+    private storage: RelayStorage;
+    private readonly apiKeys: ApiKeyRegistry;
+
+    constructor(service: WebService, config: Config, metrics: Metrics, storage: RelayStorage) {
+        this.web_service = service;
+        this.config = config;
+        this.metrics = metrics;
+
+        this.storage = storage;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
+    }
+
+    private get app(): express.Application {
+        return this.web_service.app;
+    }
+
+    /**
+     * Make the response data
+     * @param code      The result code
+     * @param data      The result data
+     * @param error     The error
+     * @private
+     */
+    private makeResponseData(code: number, data: any, error?: any): any {
+        return {
+            code,
+            data,
+            error,
+        };
+    }
+
+    public registerRoutes() {
+        this.app.get(
+            "/v1/reconciliation/report",
+            [
+                query("day")
+                    .exists()
+                    .trim()
+                    .matches(/^\d{4}-\d{2}-\d{2}$/),
+                query("issueType").optional().trim().isIn(Object.values(ReconciliationIssueType)),
+            ],
+            this.apiKeys.guard(ApiKeyScope.ADMIN),
+            this.reconciliation_report.bind(this)
+        );
+    }
+
+    /**
+     * 하루 동안의 결제에 대한 대조 결과
+     * GET /v1/reconciliation/report
+     * @private
+     */
+    private async reconciliation_report(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/reconciliation/report ${req.ip}:${JSON.stringify(req.query)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const day = String(req.query.day).trim();
+            const report = await this.storage.getReconciliationReport(day);
+            if (report === undefined) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2038"));
+            }
+
+            const counts = await this.storage.getReconciliationIssueCounts(day);
+            const summary: any = {};
+            for (const type of Object.values(ReconciliationIssueType)) summary[type] = counts.get(type) || 0;
+
+            const issueType = req.query.issueType !== undefined ? String(req.query.issueType).trim() : "";
+            const items = await this.storage.getReconciliationIssues(day, issueType);
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    day: report.day,
+                    paymentCount: report.paymentCount,
+                    issueCount: report.issueCount,
+                    timestamp: report.timestamp,
+                    summary,
+                    items,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/reconciliation/report : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+}
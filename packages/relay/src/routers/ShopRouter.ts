@@ -1,4 +1,6 @@
 import { Shop } from "../../typechain-types";
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
+import { CallbackOutbox } from "../callback/CallbackOutbox";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ISignerItem, RelaySigners } from "../contract/Signers";
@@ -7,6 +9,7 @@ import { WebService } from "../service/WebService";
 import { GraphStorage } from "../storage/GraphStorage";
 import { RelayStorage } from "../storage/RelayStorage";
 import {
+    ApiKeyScope,
     ContractShopStatus,
     ContractShopUpdateEvent,
     MobileType,
@@ -17,7 +20,6 @@ import {
 } from "../types";
 import { ContractUtils } from "../utils/ContractUtils";
 import { ResponseMessage } from "../utils/Errors";
-import { HTTPClient } from "../utils/Utils";
 import { Validation } from "../validation";
 
 import { ContractTransaction, ethers } from "ethers";
@@ -29,18 +31,25 @@ import * as hre from "hardhat";
 import { AddressZero } from "@ethersproject/constants";
 import { ContractManager } from "../contract/ContractManager";
 import { Metrics } from "../metrics/Metrics";
+import { ShopPolicyResolver } from "../payment/ShopPolicyResolver";
 
 export class ShopRouter {
+    private static readonly SHOP_SIGNATURE_VALID_SECOND = 600;
+    private static readonly MAX_POLICY_SECOND = 86400;
+
     private web_service: WebService;
     private readonly config: Config;
     private readonly contractManager: ContractManager;
     private readonly metrics: Metrics;
     private readonly relaySigners: RelaySigners;
     private storage: RelayStorage;
+    private readonly apiKeys: ApiKeyRegistry;
     private graph_sidechain: GraphStorage;
     private graph_mainchain: GraphStorage;
 
     private readonly _sender: INotificationSender;
+    private readonly callbackOutbox: CallbackOutbox;
+    private readonly shopPolicies: ShopPolicyResolver;
 
     constructor(
         service: WebService,
@@ -51,7 +60,8 @@ export class ShopRouter {
         graph_sidechain: GraphStorage,
         graph_mainchain: GraphStorage,
         relaySigners: RelaySigners,
-        sender: INotificationSender
+        sender: INotificationSender,
+        callbackOutbox: CallbackOutbox
     ) {
         this.web_service = service;
         this.config = config;
@@ -59,10 +69,13 @@ export class ShopRouter {
         this.metrics = metrics;
 
         this.storage = storage;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
         this.graph_sidechain = graph_sidechain;
         this.graph_mainchain = graph_mainchain;
         this.relaySigners = relaySigners;
         this._sender = sender;
+        this.callbackOutbox = callbackOutbox;
+        this.shopPolicies = new ShopPolicyResolver(config, storage);
     }
 
     private get app(): express.Application {
@@ -177,6 +190,7 @@ export class ShopRouter {
                 body("name").exists(),
                 body("currency").exists(),
             ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
             this.shop_update_create.bind(this)
         );
         this.app.post(
@@ -200,6 +214,7 @@ export class ShopRouter {
                     .matches(/^(0x)[0-9a-f]{64}$/i),
                 body("status").exists().trim().isIn(["1", "2"]),
             ],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
             this.shop_status_create.bind(this)
         );
         this.app.post(
@@ -233,6 +248,7 @@ export class ShopRouter {
         this.app.get(
             "/v1/shop/list",
             [query("pageNumber").exists().trim().isNumeric(), query("pageSize").exists().trim().isNumeric()],
+            this.apiKeys.guard(ApiKeyScope.PAYMENT),
             this.shop_list.bind(this)
         );
         this.app.get(
@@ -255,6 +271,35 @@ export class ShopRouter {
             ],
             this.shop_refundable.bind(this)
         );
+        this.app.get(
+            "/v1/shop/policy/:shopId",
+            [
+                param("shopId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+            ],
+            this.shop_policy.bind(this)
+        );
+        this.app.post(
+            "/v1/shop/policy",
+            [
+                body("shopId")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                body("paymentTimeoutSecond").exists().isInt({ min: 0, max: ShopRouter.MAX_POLICY_SECOND }),
+                body("approvalSecond").exists().isInt({ min: 0, max: ShopRouter.MAX_POLICY_SECOND }),
+                body("forcedCloseSecond").exists().isInt({ min: 0, max: ShopRouter.MAX_POLICY_SECOND }),
+                body("account").exists().trim().isEthereumAddress(),
+                body("timestamp").exists().isInt({ min: 0 }),
+                body("signature")
+                    .exists()
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{130}$/i),
+            ],
+            this.shop_policy_save.bind(this)
+        );
     }
 
     private async getNonce(req: express.Request, res: express.Response) {
@@ -564,12 +609,6 @@ export class ShopRouter {
         }
 
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
-            }
-
             const name: string = String(req.body.name).trim();
             const currency: string = String(req.body.currency).trim().toLowerCase();
 
@@ -837,12 +876,6 @@ export class ShopRouter {
 
         const signerItem = await this.getRelaySigner();
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
-            }
-
             const status: number = Number(String(req.body.status).trim());
             const shopInfo = await this.contractManager.sideShopContract.shopOf(shopId);
             if (shopInfo.status !== 0) {
@@ -1169,23 +1202,7 @@ export class ShopRouter {
     }
 
     private async sendTaskResult(type: TaskResultType, code: TaskResultCode, message: string, data: any) {
-        try {
-            const client = new HTTPClient();
-            const res = await client.post(this.config.relay.callbackEndpoint, {
-                accessKey: this.config.relay.callbackAccessKey,
-                type,
-                code,
-                message,
-                data,
-            });
-            logger.info(JSON.stringify(res.data));
-        } catch (error) {
-            if (error instanceof Error) {
-                logger.error(`sendTaskResult : ${error.message}`);
-            } else {
-                logger.error(`sendTaskResult : ${JSON.stringify(error)}`);
-            }
-        }
+        await this.callbackOutbox.send(type, code, message, data);
     }
 
     /**
@@ -1201,12 +1218,6 @@ export class ShopRouter {
         }
 
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.query.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
-            }
-
             let pageSize = Number(req.query.pageSize);
             if (pageSize > 50) pageSize = 50;
             let pageNumber = Number(req.query.pageNumber);
@@ -1308,4 +1319,139 @@ export class ShopRouter {
             return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
         }
     }
+
+    /**
+     * 상점의 시간제한 정책을 제공한다. 0 인 값은 설정파일의 값이 적용된다.
+     * GET /v1/shop/policy/:shopId
+     * @private
+     */
+    private async shop_policy(req: express.Request, res: express.Response) {
+        logger.http(`GET /v1/shop/policy/:shopId ${req.ip}:${JSON.stringify(req.params)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const shopId: string = String(req.params.shopId).trim();
+            const policy = await this.storage.getShopPolicy(shopId);
+            const applied = await this.shopPolicies.get(shopId);
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    shopId,
+                    paymentTimeoutSecond: policy !== undefined ? policy.paymentTimeoutSecond : 0,
+                    approvalSecond: policy !== undefined ? policy.approvalSecond : 0,
+                    forcedCloseSecond: policy !== undefined ? policy.forcedCloseSecond : 0,
+                    timestamp: policy !== undefined ? policy.timestamp : 0,
+                    applied,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`GET /v1/shop/policy/:shopId : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(this.makeResponseData(msg.code, undefined, msg.error));
+        }
+    }
+
+    /**
+     * 상점의 시간제한 정책을 변경한다. 상점주 또는 대리인이 서명해야 한다.
+     * POST /v1/shop/policy
+     * @private
+     */
+    private async shop_policy_save(req: express.Request, res: express.Response) {
+        logger.http(`POST /v1/shop/policy ${req.ip}:${JSON.stringify(req.body)}`);
+
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: errors.array() }));
+        }
+
+        try {
+            const shopId: string = String(req.body.shopId).trim();
+            const paymentTimeoutSecond: number = Number(req.body.paymentTimeoutSecond);
+            const approvalSecond: number = Number(req.body.approvalSecond);
+            const forcedCloseSecond: number = Number(req.body.forcedCloseSecond);
+            const account: string = String(req.body.account).trim();
+            const timestamp: number = Number(req.body.timestamp);
+            const signature: string = String(req.body.signature).trim();
+
+            if (Math.abs(ContractUtils.getTimeStamp() - timestamp) > ShopRouter.SHOP_SIGNATURE_VALID_SECOND) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1506"));
+            }
+            if (
+                !ContractUtils.verifyShopPolicy(
+                    shopId,
+                    paymentTimeoutSecond,
+                    approvalSecond,
+                    forcedCloseSecond,
+                    account,
+                    timestamp,
+                    signature,
+                    this.contractManager.sideChainId
+                )
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1501"));
+            }
+
+            const shopInfo = await this.contractManager.sideShopContract.shopOf(shopId);
+            if (shopInfo.status === ContractShopStatus.INVALID) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1201"));
+            }
+            if (
+                account.toLowerCase() !== shopInfo.account.toLowerCase() &&
+                account.toLowerCase() !== shopInfo.delegator.toLowerCase()
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1503"));
+            }
+
+            /// 먼저 서명된 요청이 나중에 도착하여 변경된 정책을 되돌리지 않도록 한다
+            const prevPolicy = await this.storage.getShopPolicy(shopId);
+            if (prevPolicy !== undefined && timestamp <= prevPolicy.timestamp) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("1506"));
+            }
+
+            /// 사용자의 승인은 결제의 제한시간 안에 이루어져야 하고, 강제종료는 제한시간이 지난 후에 이루어져야 한다
+            const applied = {
+                paymentTimeoutSecond:
+                    paymentTimeoutSecond > 0 ? paymentTimeoutSecond : this.config.relay.paymentTimeoutSecond,
+                approvalSecond: approvalSecond > 0 ? approvalSecond : this.config.relay.approvalSecond,
+                forcedCloseSecond: forcedCloseSecond > 0 ? forcedCloseSecond : this.config.relay.forcedCloseSecond,
+            };
+            if (
+                applied.approvalSecond >= applied.paymentTimeoutSecond ||
+                applied.forcedCloseSecond <= applied.paymentTimeoutSecond
+            ) {
+                return res.status(200).json(ResponseMessage.getErrorMessage("2036"));
+            }
+
+            await this.storage.postShopPolicy({
+                shopId,
+                paymentTimeoutSecond,
+                approvalSecond,
+                forcedCloseSecond,
+                timestamp,
+            });
+
+            this.metrics.add("success", 1);
+            return res.status(200).json(
+                this.makeResponseData(0, {
+                    shopId,
+                    paymentTimeoutSecond,
+                    approvalSecond,
+                    forcedCloseSecond,
+                    timestamp,
+                    applied,
+                })
+            );
+        } catch (error: any) {
+            const msg = ResponseMessage.getEVMErrorMessage(error);
+            logger.error(`POST /v1/shop/policy : ${msg.error.message}`);
+            this.metrics.add("failure", 1);
+            return res.status(200).json(msg);
+        }
+    }
 }
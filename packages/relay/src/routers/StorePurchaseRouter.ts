@@ -1,3 +1,4 @@
+import { ApiKeyRegistry } from "../auth/ApiKeyRegistry";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
@@ -5,7 +6,7 @@ import { Metrics } from "../metrics/Metrics";
 import { WebService } from "../service/WebService";
 import { GraphStorage } from "../storage/GraphStorage";
 import { RelayStorage } from "../storage/RelayStorage";
-import { IStorePurchaseData, PHONE_NULL } from "../types";
+import { ApiKeyScope, IStorePurchaseData, PHONE_NULL } from "../types";
 import { ResponseMessage } from "../utils/Errors";
 
 // tslint:disable-next-line:no-implicit-dependencies
@@ -21,6 +22,7 @@ export class StorePurchaseRouter {
     private readonly contractManager: ContractManager;
     private readonly metrics: Metrics;
     private storage: RelayStorage;
+    private readonly apiKeys: ApiKeyRegistry;
     private graph_sidechain: GraphStorage;
     private graph_mainchain: GraphStorage;
 
@@ -39,6 +41,7 @@ export class StorePurchaseRouter {
         this.metrics = metrics;
 
         this.storage = storage;
+        this.apiKeys = new ApiKeyRegistry(config, storage);
         this.graph_sidechain = graph_sidechain;
         this.graph_mainchain = graph_mainchain;
     }
@@ -81,12 +84,14 @@ export class StorePurchaseRouter {
                 body("loyaltyValue").exists().trim().isNumeric(),
                 body("currency").exists().not().isEmpty(),
             ],
+            this.apiKeys.guard(ApiKeyScope.PURCHASE),
             this.purchase_save.bind(this)
         );
 
         this.app.post(
             "/v1/purchase/cancel",
             [body("purchaseId").exists().not().isEmpty()],
+            this.apiKeys.guard(ApiKeyScope.PURCHASE),
             this.purchase_cancel.bind(this)
         );
 
@@ -138,11 +143,6 @@ export class StorePurchaseRouter {
         }
 
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
-            }
             const loyaltyValue: BigNumber = BigNumber.from(String(req.body.loyaltyValue).trim());
 
             if (loyaltyValue.gt(0)) {
@@ -211,11 +211,6 @@ export class StorePurchaseRouter {
         }
 
         try {
-            let accessKey = req.get("Authorization");
-            if (accessKey === undefined) accessKey = String(req.body.accessKey).trim();
-            if (accessKey !== this.config.relay.accessKey) {
-                return res.json(ResponseMessage.getErrorMessage("2002"));
-            }
             const purchaseId: string = String(req.body.purchaseId).trim();
             await this.storage.cancelStorePurchase(purchaseId);
             this.metrics.add("success", 1);
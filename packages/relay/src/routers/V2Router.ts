@@ -0,0 +1,64 @@
+import { WebService } from "../service/WebService";
+import { ResponseMessage } from "../utils/Errors";
+
+import express from "express";
+
+/**
+ * /v2 로 시작하는 요청을 같은 경로의 /v1 라우터에서 처리한다.
+ * /v1 은 모든 응답을 HTTP 200 으로 전달하지만, /v2 는 응답코드에 해당하는 HTTP 상태코드와 하나의 오류 형식으로 전달한다.
+ */
+export class V2Router {
+    public static readonly PREFIX = "/v2/";
+
+    private web_service: WebService;
+
+    constructor(service: WebService) {
+        this.web_service = service;
+    }
+
+    private get app(): express.Application {
+        return this.web_service.app;
+    }
+
+    /**
+     * 다른 라우터와 요청을 제한하는 미들웨어보다 먼저 등록되어야 한다
+     */
+    public registerRoutes() {
+        this.app.use(this.rewrite.bind(this));
+    }
+
+    /**
+     * /v1 의 응답을 /v2 의 형식으로 변환한다.
+     * 성공하면 { code: 0, data }, 실패하면 { code, error: { message, details } } 이다.
+     */
+    public static toV2Body(body: any): any {
+        if (body === null || typeof body !== "object" || typeof body.code !== "number") return body;
+        if (body.code === 0) return { code: 0, data: body.data };
+
+        const { message, ...details } = body.error !== undefined && body.error !== null ? body.error : ({} as any);
+        const error: any = {
+            message:
+                message !== undefined
+                    ? message
+                    : ResponseMessage.messages.get(String(body.code).padStart(4, "0")) || "Unknown Error",
+        };
+        if (Object.keys(details).length > 0) error.details = details;
+        return { code: body.code, error };
+    }
+
+    private rewrite(req: express.Request, res: express.Response, next: express.NextFunction) {
+        if (!req.url.startsWith(V2Router.PREFIX)) return next();
+
+        req.url = "/v1" + req.url.substring(3);
+        res.locals.apiVersion = 2;
+
+        const json = res.json.bind(res);
+        res.json = (body: any) => {
+            const converted = V2Router.toV2Body(body);
+            // 미들웨어에서 이미 정한 상태코드는 유지한다
+            if (converted !== body && res.statusCode === 200) res.status(ResponseMessage.getHttpStatus(converted.code));
+            return json(converted);
+        };
+        next();
+    }
+}
@@ -2,6 +2,7 @@ import "@nomiclabs/hardhat-ethers";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
+import { ShopPolicyResolver } from "../payment/ShopPolicyResolver";
 import { RelayStorage } from "../storage/RelayStorage";
 import {
     ContractLoyaltyPaymentStatus,
@@ -32,6 +33,7 @@ export class ApprovalScheduler extends Scheduler {
     private _config: Config | undefined;
     private _contractManager: ContractManager | undefined;
     private _storage: RelayStorage | undefined;
+    private _shopPolicies: ShopPolicyResolver | undefined;
     private _wallets: IWalletData[];
 
     constructor(expression: string) {
@@ -75,6 +77,11 @@ export class ApprovalScheduler extends Scheduler {
         }
     }
 
+    private get shopPolicies(): ShopPolicyResolver {
+        if (this._shopPolicies === undefined) this._shopPolicies = new ShopPolicyResolver(this.config, this.storage);
+        return this._shopPolicies;
+    }
+
     private get contractManager(): ContractManager {
         if (this._contractManager !== undefined) return this._contractManager;
         else {
@@ -114,7 +121,8 @@ export class ApprovalScheduler extends Scheduler {
             LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX,
         ]);
         for (const payment of payments) {
-            if (ContractUtils.getTimeStamp() - payment.openNewTimestamp < this.config.relay.approvalSecond) continue;
+            const timeouts = await this.shopPolicies.get(payment.shopId);
+            if (ContractUtils.getTimeStamp() - payment.openNewTimestamp < timeouts.approvalSecond) continue;
 
             const ledgerContract = this.contractManager.sideLedgerContract;
             const consumerContract = this.contractManager.sideLoyaltyConsumerContract;
@@ -125,7 +133,10 @@ export class ApprovalScheduler extends Scheduler {
             if (wallet !== undefined) {
                 logger.info(`ApprovalScheduler.onNewPayment ${payment.paymentId}`);
                 const nonce = await ledgerContract.nonceOf(wallet.address);
-                const signature = await ContractUtils.signLoyaltyNewPayment(
+                const sign = payment.useToken
+                    ? ContractUtils.signLoyaltyNewMixedPayment
+                    : ContractUtils.signLoyaltyNewPayment;
+                const signature = await sign(
                     new Wallet(wallet.privateKey),
                     payment.paymentId,
                     payment.purchaseId,
@@ -176,7 +187,8 @@ export class ApprovalScheduler extends Scheduler {
             LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX,
         ]);
         for (const payment of payments) {
-            if (ContractUtils.getTimeStamp() - payment.openCancelTimestamp < this.config.relay.approvalSecond) continue;
+            const timeouts = await this.shopPolicies.get(payment.shopId);
+            if (ContractUtils.getTimeStamp() - payment.openCancelTimestamp < timeouts.approvalSecond) continue;
 
             const ledgerContract = this.contractManager.sideLedgerContract;
             const consumerContract = this.contractManager.sideLoyaltyConsumerContract;
@@ -188,13 +200,22 @@ export class ApprovalScheduler extends Scheduler {
             if (wallet !== undefined) {
                 logger.info(`ApprovalScheduler.onCancelPayment ${payment.paymentId}`);
                 const nonce = await ledgerContract.nonceOf(wallet.address);
-                const signature = await ContractUtils.signLoyaltyCancelPayment(
-                    new Wallet(wallet.privateKey),
-                    payment.paymentId,
-                    payment.purchaseId,
-                    nonce,
-                    this.contractManager.sideChainId
-                );
+                const signature = payment.cancelAmount.lt(payment.paidValue)
+                    ? await ContractUtils.signLoyaltyPartialCancelPayment(
+                          new Wallet(wallet.privateKey),
+                          payment.paymentId,
+                          payment.purchaseId,
+                          payment.cancelAmount,
+                          nonce,
+                          this.contractManager.sideChainId
+                      )
+                    : await ContractUtils.signLoyaltyCancelPayment(
+                          new Wallet(wallet.privateKey),
+                          payment.paymentId,
+                          payment.purchaseId,
+                          nonce,
+                          this.contractManager.sideChainId
+                      );
 
                 const serverURL = this.config.relay.relayEndpoint;
                 const client = axios.create();
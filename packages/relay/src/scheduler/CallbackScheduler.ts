@@ -0,0 +1,42 @@
+import "@nomiclabs/hardhat-ethers";
+import { CallbackOutbox } from "../callback/CallbackOutbox";
+import { logger } from "../common/Logger";
+import { Scheduler } from "./Scheduler";
+
+/**
+ * 콜백 엔드포인트로 전달하지 못한 처리결과들을 재전송한다
+ */
+export class CallbackScheduler extends Scheduler {
+    private _callbackOutbox: CallbackOutbox | undefined;
+
+    constructor(expression: string) {
+        super(expression);
+    }
+
+    private get callbackOutbox(): CallbackOutbox {
+        if (this._callbackOutbox !== undefined) return this._callbackOutbox;
+        else {
+            logger.error("CallbackOutbox is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    public setOption(options: any) {
+        if (options) {
+            if (options.callbackOutbox && options.callbackOutbox instanceof CallbackOutbox)
+                this._callbackOutbox = options.callbackOutbox;
+        }
+    }
+
+    public async onStart() {
+        //
+    }
+
+    protected async work() {
+        try {
+            await this.callbackOutbox.retry();
+        } catch (error) {
+            logger.error(`Failed to execute the CallbackScheduler: ${error}`);
+        }
+    }
+}
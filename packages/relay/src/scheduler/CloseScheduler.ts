@@ -2,6 +2,7 @@ import "@nomiclabs/hardhat-ethers";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
+import { ShopPolicyResolver } from "../payment/ShopPolicyResolver";
 import { RelayStorage } from "../storage/RelayStorage";
 import { ContractLoyaltyPaymentStatus, LoyaltyPaymentTaskStatus } from "../types";
 import { ContractUtils } from "../utils/ContractUtils";
@@ -17,6 +18,7 @@ export class CloseScheduler extends Scheduler {
     private _config: Config | undefined;
     private _contractManager: ContractManager | undefined;
     private _storage: RelayStorage | undefined;
+    private _shopPolicies: ShopPolicyResolver | undefined;
 
     constructor(expression: string) {
         super(expression);
@@ -38,6 +40,11 @@ export class CloseScheduler extends Scheduler {
         }
     }
 
+    private get shopPolicies(): ShopPolicyResolver {
+        if (this._shopPolicies === undefined) this._shopPolicies = new ShopPolicyResolver(this.config, this.storage);
+        return this._shopPolicies;
+    }
+
     private get contractManager(): ContractManager {
         if (this._contractManager !== undefined) return this._contractManager;
         else {
@@ -82,7 +89,8 @@ export class CloseScheduler extends Scheduler {
             LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
         ]);
         for (const payment of payments) {
-            if (ContractUtils.getTimeStamp() - payment.openNewTimestamp < this.config.relay.forcedCloseSecond) continue;
+            const timeouts = await this.shopPolicies.get(payment.shopId);
+            if (ContractUtils.getTimeStamp() - payment.openNewTimestamp < timeouts.forcedCloseSecond) continue;
             logger.info(`CloseScheduler.onNewPayment ${payment.paymentId}`);
 
             const serverURL = this.config.relay.relayEndpoint;
@@ -120,8 +128,8 @@ export class CloseScheduler extends Scheduler {
             LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
         ]);
         for (const payment of payments) {
-            if (ContractUtils.getTimeStamp() - payment.openCancelTimestamp < this.config.relay.forcedCloseSecond)
-                continue;
+            const timeouts = await this.shopPolicies.get(payment.shopId);
+            if (ContractUtils.getTimeStamp() - payment.openCancelTimestamp < timeouts.forcedCloseSecond) continue;
             logger.info(`CloseScheduler.onCancelPayment ${payment.paymentId}`);
 
             const serverURL = this.config.relay.relayEndpoint;
@@ -231,5 +239,6 @@ export class CloseScheduler extends Scheduler {
 
     private async onRemoveExpiredAccount() {
         await this.storage.removeExpiredAccountOnTemporary();
+        await this.storage.removeExpiredPaymentTokens(ContractUtils.getTimeStamp());
     }
 }
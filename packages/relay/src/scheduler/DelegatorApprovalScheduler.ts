@@ -95,13 +95,22 @@ export class DelegatorApprovalScheduler extends Scheduler {
                 if (wallet !== undefined && wallet.address.toLowerCase() === shopInfo.delegator.toLowerCase()) {
                     logger.info(`DelegatorApprovalScheduler.onCancelPayment ${payment.paymentId}`);
                     const nonce = await ledgerContract.nonceOf(wallet.address);
-                    const signature = await ContractUtils.signLoyaltyCancelPayment(
-                        wallet,
-                        payment.paymentId,
-                        payment.purchaseId,
-                        nonce,
-                        this.contractManager.sideChainId
-                    );
+                    const signature = payment.cancelAmount.lt(payment.paidValue)
+                        ? await ContractUtils.signLoyaltyPartialCancelPayment(
+                              wallet,
+                              payment.paymentId,
+                              payment.purchaseId,
+                              payment.cancelAmount,
+                              nonce,
+                              this.contractManager.sideChainId
+                          )
+                        : await ContractUtils.signLoyaltyCancelPayment(
+                              wallet,
+                              payment.paymentId,
+                              payment.purchaseId,
+                              nonce,
+                              this.contractManager.sideChainId
+                          );
 
                     const serverURL = this.config.relay.relayEndpoint;
                     const client = axios.create();
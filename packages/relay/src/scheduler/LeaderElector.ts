@@ -0,0 +1,139 @@
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { Metrics } from "../metrics/Metrics";
+import { RelayStorage } from "../storage/RelayStorage";
+import { Scheduler } from "./Scheduler";
+
+import * as crypto from "crypto";
+import * as os from "os";
+
+export interface ILeadershipStatus {
+    enable: boolean;
+    instanceId: string;
+    schedulers: { [name: string]: boolean };
+}
+
+/**
+ * 여러 릴레이가 함께 운영될 때 스케줄러마다 하나의 릴레이만 작업을 실행하도록 데이터베이스의 임대로 지도자를 정한다.
+ * 임대를 가진 릴레이가 종료되거나 갱신하지 못하면 임대가 만료된 후 다른 릴레이가 가져간다.
+ */
+export class LeaderElector {
+    private readonly config: Config;
+    private readonly storage: RelayStorage;
+    private metrics: Metrics | undefined;
+
+    public readonly instanceId: string;
+
+    /**
+     * 선출에 참여하는 스케줄러별 지도자의 자격이 끝나는 시각(밀리초). 지도자가 아니면 0 이다
+     */
+    private readonly leases: Map<string, number>;
+    private timer: NodeJS.Timeout | undefined;
+    private electing: boolean = false;
+
+    constructor(config: Config, storage: RelayStorage) {
+        this.config = config;
+        this.storage = storage;
+        this.instanceId =
+            this.config.leader.instanceId !== ""
+                ? this.config.leader.instanceId
+                : `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+        this.leases = new Map();
+    }
+
+    public setMetrics(metrics: Metrics) {
+        this.metrics = metrics;
+    }
+
+    /**
+     * 설정의 leader.schedulers 에 포함된 스케줄러는 지도자일 때만 작업을 실행하도록 한다
+     */
+    public register<T extends Scheduler>(name: string, scheduler: T): T {
+        if (this.config.leader.enable && this.config.leader.schedulers.includes(name)) {
+            this.leases.set(name, 0);
+            scheduler.setLeaderElection(this, name);
+        }
+        return scheduler;
+    }
+
+    /**
+     * 선출에 참여하지 않는 스케줄러는 항상 지도자이다
+     */
+    public isLeader(name: string): boolean {
+        const expiresAt = this.leases.get(name);
+        if (expiresAt === undefined) return true;
+        return expiresAt > new Date().getTime();
+    }
+
+    public getStatus(): ILeadershipStatus {
+        const schedulers: { [name: string]: boolean } = {};
+        for (const name of this.leases.keys()) schedulers[name] = this.isLeader(name);
+        return { enable: this.config.leader.enable, instanceId: this.instanceId, schedulers };
+    }
+
+    public async start() {
+        if (this.leases.size === 0) return;
+        logger.info(`LeaderElector: ${this.instanceId} joins the election of ${[...this.leases.keys()].join(", ")}`);
+        await this.elect();
+        this.timer = setInterval(() => this.elect(), this.config.leader.renewSecond * 1000);
+    }
+
+    /**
+     * 임대를 반환하여 다른 릴레이가 바로 가져갈 수 있도록 한다. 스케줄러가 모두 종료된 후에 호출되어야 한다
+     */
+    public async stop() {
+        if (this.timer !== undefined) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        for (const name of this.leases.keys()) {
+            if (!this.isLeader(name)) continue;
+            this.setLeader(name, 0);
+            try {
+                await this.storage.releaseSchedulerLease(name, this.instanceId);
+            } catch (error) {
+                logger.error(`LeaderElector: Failed to release the lease of ${name}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * 모든 스케줄러의 임대를 가져오거나 연장한다.
+     * 데이터베이스의 오류로 갱신하지 못하면 가지고 있던 임대가 만료될 때 까지만 지도자로 남는다
+     */
+    public async elect() {
+        if (this.electing) return;
+        this.electing = true;
+        try {
+            for (const name of this.leases.keys()) {
+                /// 데이터베이스의 임대는 요청을 보낸 후에 연장되므로 요청을 보내기 전의 시각부터 세면 먼저 만료된다
+                const expiresAt = new Date().getTime() + this.config.leader.leaseSecond * 1000;
+                try {
+                    const acquired = await this.storage.acquireSchedulerLease(
+                        name,
+                        this.instanceId,
+                        this.config.leader.leaseSecond
+                    );
+                    this.setLeader(name, acquired ? expiresAt : 0);
+                } catch (error) {
+                    logger.error(`LeaderElector: Failed to renew the lease of ${name}: ${error}`);
+                    this.setLeader(name, this.leases.get(name) || 0);
+                }
+            }
+        } finally {
+            this.electing = false;
+        }
+    }
+
+    private setLeader(name: string, expiresAt: number) {
+        const wasLeader = this.isLeader(name);
+        this.leases.set(name, expiresAt);
+        const isLeader = this.isLeader(name);
+        if (wasLeader !== isLeader) {
+            if (isLeader) logger.info(`LeaderElector: ${this.instanceId} became the leader of ${name}`);
+            else logger.warn(`LeaderElector: ${this.instanceId} is no longer the leader of ${name}`);
+        }
+        if (this.metrics !== undefined)
+            this.metrics.gaugeLabels("scheduler_leader", { scheduler: name }, isLeader ? 1 : 0);
+    }
+}
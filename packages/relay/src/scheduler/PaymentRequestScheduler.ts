@@ -0,0 +1,187 @@
+import "@nomiclabs/hardhat-ethers";
+import { Amount } from "../common/Amount";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { INotificationSender } from "../delegator/NotificationSender";
+import { RelayStorage } from "../storage/RelayStorage";
+import { LoyaltyPaymentTaskStatus, MobileType, PaymentRequestData, PaymentRequestStatus } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { Scheduler } from "./Scheduler";
+
+/**
+ * 결제요청의 결제결과를 반영하고 만료된 결제요청을 처리한다.
+ * 결제되거나 만료되면 상점주에게 푸쉬 메세지를 발송한다.
+ */
+export class PaymentRequestScheduler extends Scheduler {
+    /**
+     * 결제가 생성되지 않은 채로 결제중 상태에 머무를 수 있는 최대 시간 (초)
+     */
+    private static readonly STALE_CLAIM_SECOND = 60;
+
+    private _contractManager: ContractManager | undefined;
+    private _storage: RelayStorage | undefined;
+    private _sender: INotificationSender | undefined;
+
+    constructor(expression: string) {
+        super(expression);
+    }
+
+    private get storage(): RelayStorage {
+        if (this._storage !== undefined) return this._storage;
+        else {
+            logger.error("Storage is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get contractManager(): ContractManager {
+        if (this._contractManager !== undefined) return this._contractManager;
+        else {
+            logger.error("ContractManager is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get sender(): INotificationSender {
+        if (this._sender !== undefined) return this._sender;
+        else {
+            logger.error("NotificationSender is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    public setOption(options: any) {
+        if (options) {
+            if (options.contractManager && options.contractManager instanceof ContractManager)
+                this._contractManager = options.contractManager;
+            if (options.storage && options.storage instanceof RelayStorage) this._storage = options.storage;
+            if (options.sender) this._sender = options.sender;
+        }
+    }
+
+    public async onStart() {
+        //
+    }
+
+    protected async work() {
+        try {
+            await this.onPayingRequest();
+            await this.onExpiredRequest();
+        } catch (error) {
+            logger.error(`Failed to execute the PaymentRequestScheduler: ${error}`);
+        }
+    }
+
+    /**
+     * 결제중인 결제요청에 결제의 결과를 반영한다. 거부되거나 실패한 결제요청은 다시 결제할 수 있다.
+     */
+    private async onPayingRequest() {
+        const requests = await this.storage.getPaymentRequestsStatusOf([PaymentRequestStatus.PAYING]);
+        for (const request of requests) {
+            const timestamp = ContractUtils.getTimeStamp();
+            if (request.paymentId === "") {
+                /// 결제를 생성하는 중에 중단된 결제요청은 다시 결제할 수 있도록 되돌린다
+                if (timestamp - request.updatedTimestamp > PaymentRequestScheduler.STALE_CLAIM_SECOND) {
+                    await this.storage.updatePaymentRequestStatus(
+                        request.requestId,
+                        PaymentRequestStatus.PAYING,
+                        PaymentRequestStatus.OPENED,
+                        "",
+                        "",
+                        timestamp
+                    );
+                }
+                continue;
+            }
+            const payment = await this.storage.getPayment(request.paymentId);
+            if (payment === undefined) continue;
+            if (payment.paymentStatus === LoyaltyPaymentTaskStatus.CLOSED_NEW) {
+                if (
+                    await this.storage.updatePaymentRequestStatus(
+                        request.requestId,
+                        PaymentRequestStatus.PAYING,
+                        PaymentRequestStatus.PAID,
+                        request.paymentId,
+                        request.account,
+                        timestamp
+                    )
+                ) {
+                    await this.notify(request, PaymentRequestStatus.PAID, timestamp);
+                }
+            } else if (
+                payment.paymentStatus === LoyaltyPaymentTaskStatus.DENIED_NEW ||
+                payment.paymentStatus === LoyaltyPaymentTaskStatus.FAILED_NEW
+            ) {
+                await this.storage.updatePaymentRequestStatus(
+                    request.requestId,
+                    PaymentRequestStatus.PAYING,
+                    PaymentRequestStatus.OPENED,
+                    "",
+                    "",
+                    timestamp
+                );
+            }
+        }
+    }
+
+    private async onExpiredRequest() {
+        const timestamp = ContractUtils.getTimeStamp();
+        const requests = await this.storage.getPaymentRequestsStatusOf([PaymentRequestStatus.OPENED]);
+        for (const request of requests) {
+            if (request.expiresAt >= timestamp) continue;
+            if (
+                await this.storage.updatePaymentRequestStatus(
+                    request.requestId,
+                    PaymentRequestStatus.OPENED,
+                    PaymentRequestStatus.EXPIRED,
+                    "",
+                    "",
+                    timestamp
+                )
+            ) {
+                await this.notify(request, PaymentRequestStatus.EXPIRED, timestamp);
+            }
+        }
+    }
+
+    private async notify(request: PaymentRequestData, status: PaymentRequestStatus, timestamp: number) {
+        try {
+            const shopInfo = await this.contractManager.sideShopContract.shopOf(request.shopId);
+            const mobileData = await this.storage.getMobile(shopInfo.account, MobileType.SHOP_APP);
+            if (mobileData === undefined) return;
+
+            const paid = status === PaymentRequestStatus.PAID;
+            let title: string;
+            let amountLabel: string;
+            let descriptionLabel: string;
+            if (mobileData.language === "ko") {
+                title = paid ? "결제요청 완료 알림" : "결제요청 만료 알림";
+                amountLabel = "결제 금액";
+                descriptionLabel = "내용";
+            } else {
+                title = paid ? "Payment request paid" : "Payment request expired";
+                amountLabel = "Amount";
+                descriptionLabel = "Description";
+            }
+            const contents: string[] = [];
+            const data = {
+                type: paid ? "payment_request_paid" : "payment_request_expired",
+                requestId: request.requestId,
+                paymentId: request.paymentId,
+                timestamp,
+            };
+            contents.push(
+                `${amountLabel} : ${new Amount(request.amount, 18).toDisplayString(
+                    true,
+                    0
+                )} ${request.currency.toUpperCase()}`
+            );
+            if (request.description !== "") contents.push(`${descriptionLabel} : ${request.description}`);
+
+            logger.info(`Notification - to: ${mobileData.token}, title: ${title}`);
+            await this.sender.send(mobileData.token, title, contents.join(", "), data);
+        } catch (error) {
+            logger.error(`Failed to send the notification of the payment request ${request.requestId}: ${error}`);
+        }
+    }
+}
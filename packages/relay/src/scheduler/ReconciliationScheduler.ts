@@ -0,0 +1,96 @@
+import "@nomiclabs/hardhat-ethers";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { Metrics } from "../metrics/Metrics";
+import { PaymentReconciler } from "../payment/PaymentReconciler";
+import { GraphStorage } from "../storage/GraphStorage";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ReconciliationIssueType } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { Scheduler } from "./Scheduler";
+
+/**
+ * 전날 생성된 결제를 릴레이, 컨트랙트, 서브그래프의 데이터와 대조한다.
+ */
+export class ReconciliationScheduler extends Scheduler {
+    private _contractManager: ContractManager | undefined;
+    private _metrics: Metrics | undefined;
+    private _storage: RelayStorage | undefined;
+    private _graph: GraphStorage | undefined;
+    private _reconciler: PaymentReconciler | undefined;
+
+    constructor(expression: string) {
+        super(expression);
+    }
+
+    private get metrics(): Metrics {
+        if (this._metrics !== undefined) return this._metrics;
+        else {
+            logger.error("Metrics is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get storage(): RelayStorage {
+        if (this._storage !== undefined) return this._storage;
+        else {
+            logger.error("Storage is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get contractManager(): ContractManager {
+        if (this._contractManager !== undefined) return this._contractManager;
+        else {
+            logger.error("ContractManager is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get graph(): GraphStorage {
+        if (this._graph !== undefined) return this._graph;
+        else {
+            logger.error("GraphStorage is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get reconciler(): PaymentReconciler {
+        if (this._reconciler === undefined)
+            this._reconciler = new PaymentReconciler(this.storage, this.contractManager, this.graph);
+        return this._reconciler;
+    }
+
+    public setOption(options: any) {
+        if (options) {
+            if (options.contractManager && options.contractManager instanceof ContractManager)
+                this._contractManager = options.contractManager;
+            if (options.storage && options.storage instanceof RelayStorage) this._storage = options.storage;
+            if (options.graph && options.graph instanceof GraphStorage) this._graph = options.graph;
+            if (options.metrics && options.metrics instanceof Metrics) this._metrics = options.metrics;
+        }
+    }
+
+    public async onStart() {
+        //
+    }
+
+    protected async work() {
+        try {
+            const day = PaymentReconciler.getDay(ContractUtils.getTimeStamp() - PaymentReconciler.SECONDS_PER_DAY);
+            const report = await this.reconciler.reconcile(day);
+            logger.info(
+                `ReconciliationScheduler ${day} - payments: ${report.paymentCount}, issues: ${report.issueCount}`
+            );
+
+            const counts = await this.storage.getReconciliationIssueCounts(day);
+            for (const type of Object.values(ReconciliationIssueType)) {
+                this.metrics.gaugeLabels("reconciliation_issues", { type }, counts.get(type) || 0);
+            }
+            this.metrics.add("reconciliation_payments", report.paymentCount);
+            this.metrics.add("reconciliation_timestamp", report.timestamp);
+        } catch (error) {
+            logger.error(`Failed to execute the ReconciliationScheduler: ${error}`);
+        }
+    }
+}
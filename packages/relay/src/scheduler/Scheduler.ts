@@ -1,3 +1,5 @@
+import { LeaderElector } from "./LeaderElector";
+
 import * as cron from "node-cron";
 
 /**
@@ -36,6 +38,11 @@ export class Scheduler {
      */
     private is_working: boolean = false;
 
+    /**
+     * 지도자일 때만 작업을 실행하는 스케줄러의 선출기와 선출에 사용되는 이름
+     */
+    private leader: { elector: LeaderElector; name: string } | undefined;
+
     /**
      * Constructor
      */
@@ -91,13 +98,13 @@ export class Scheduler {
      */
     public waitForStop(timeout: number = 60000): Promise<boolean> {
         return new Promise<boolean>((resolve) => {
-            const start = Math.floor(new Date().getTime() / 1000);
+            const start = new Date().getTime();
             const wait = () => {
                 if (this.state === ScheduleState.STOPPED) {
                     this.stopTask();
                     resolve(true);
                 } else {
-                    const now = Math.floor(new Date().getTime() / 1000);
+                    const now = new Date().getTime();
                     if (now - start < timeout) setTimeout(wait, 10);
                     else {
                         this.stopTask();
@@ -123,6 +130,20 @@ export class Scheduler {
         return this.is_working;
     }
 
+    /**
+     * 여러 릴레이 중 지도자로 선출된 릴레이에서만 작업을 실행하도록 한다
+     */
+    public setLeaderElection(elector: LeaderElector, name: string) {
+        this.leader = { elector, name };
+    }
+
+    /**
+     * 선출에 참여하지 않으면 항상 true 를 반환한다
+     */
+    public isLeader(): boolean {
+        return this.leader === undefined || this.leader.elector.isLeader(this.leader.name);
+    }
+
     /**
      * Enter the option needed to perform the task
      * @param options The option needed to perform the task
@@ -138,6 +159,7 @@ export class Scheduler {
     private async workTask() {
         if (this.state === ScheduleState.STOPPED) return;
         if (this.is_working) return;
+        if (!this.isLeader()) return;
 
         this.is_working = true;
         try {
@@ -0,0 +1,185 @@
+import "@nomiclabs/hardhat-ethers";
+import { AlertSender } from "../alert/AlertSender";
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { GasPriceManager } from "../contract/GasPriceManager";
+import { RelaySigners } from "../contract/Signers";
+import { RelayStorage } from "../storage/RelayStorage";
+import { ContractUtils } from "../utils/ContractUtils";
+import { Scheduler } from "./Scheduler";
+
+import { BigNumber, ethers, Wallet } from "ethers";
+
+/**
+ * 릴레이 서명자의 잔고를 확인하여 부족하면 충전용 계정에서 충전한다.
+ * 하루(UTC)에 충전할 수 있는 금액은 제한되며, 충전할 수 없는 서명자는 선택되지 않도록 제외한다.
+ */
+export class SignerBalanceScheduler extends Scheduler {
+    private static readonly SECONDS_PER_DAY = 86400;
+
+    private _config: Config | undefined;
+    private _contractManager: ContractManager | undefined;
+    private _storage: RelayStorage | undefined;
+    private _signers: RelaySigners | undefined;
+    private _alert: AlertSender | undefined;
+
+    constructor(expression: string) {
+        super(expression);
+    }
+
+    private get config(): Config {
+        if (this._config !== undefined) return this._config;
+        else {
+            logger.error("Config is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get storage(): RelayStorage {
+        if (this._storage !== undefined) return this._storage;
+        else {
+            logger.error("Storage is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get contractManager(): ContractManager {
+        if (this._contractManager !== undefined) return this._contractManager;
+        else {
+            logger.error("ContractManager is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get signers(): RelaySigners {
+        if (this._signers !== undefined) return this._signers;
+        else {
+            logger.error("Signers is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get alert(): AlertSender {
+        if (this._alert === undefined) this._alert = new AlertSender(this.config);
+        return this._alert;
+    }
+
+    public setOption(options: any) {
+        if (options) {
+            if (options.config && options.config instanceof Config) this._config = options.config;
+            if (options.contractManager && options.contractManager instanceof ContractManager)
+                this._contractManager = options.contractManager;
+            if (options.storage && options.storage instanceof RelayStorage) this._storage = options.storage;
+            if (options.signers && options.signers instanceof RelaySigners) this._signers = options.signers;
+        }
+    }
+
+    public async onStart() {
+        //
+    }
+
+    protected async work() {
+        try {
+            await this.checkChain(this.contractManager.sideChainId, this.contractManager.sideChainProvider);
+            if (this.contractManager.mainChainId !== this.contractManager.sideChainId)
+                await this.checkChain(this.contractManager.mainChainId, this.contractManager.mainChainProvider);
+        } catch (error) {
+            logger.error(`Failed to execute the SignerBalanceScheduler: ${error}`);
+        }
+    }
+
+    private async checkChain(chainId: number, provider: ethers.providers.Provider) {
+        const minBalance = ethers.utils.parseEther(this.config.relay.signerMinBalance);
+        await this.signers.refreshExcluded(true);
+        for (const address of this.signers.addresses) {
+            const key = `${chainId}:${address}`;
+            const balance = await provider.getBalance(address);
+            if (balance.gte(minBalance)) {
+                if (this.signers.isExcluded(chainId, address)) {
+                    await this.signers.setExcluded(chainId, address, false);
+                    logger.info(`The signer ${address} is included again on the chain ${chainId}`);
+                }
+                this.alert.clear(key);
+                continue;
+            }
+
+            const funded = await this.topUp(chainId, provider, address, balance);
+            if (funded) {
+                await this.signers.setExcluded(chainId, address, false);
+                this.alert.clear(key);
+            } else if (!this.signers.isExcluded(chainId, address)) {
+                await this.signers.setExcluded(chainId, address, true);
+                await this.alert.send(
+                    key,
+                    "signer_excluded",
+                    `The balance of the signer ${address} is low and it could not be funded`,
+                    { chainId, address, balance: balance.toString() }
+                );
+            }
+        }
+    }
+
+    /**
+     * 서명자에게 설정된 금액을 충전한다. 충전용 계정이 없거나 하루 한도를 넘으면 충전하지 않는다.
+     */
+    private async topUp(
+        chainId: number,
+        provider: ethers.providers.Provider,
+        address: string,
+        balance: BigNumber
+    ): Promise<boolean> {
+        if (this.config.relay.signerFundingKey === "") return false;
+
+        const amount = ethers.utils.parseEther(this.config.relay.signerTopUpAmount);
+        const dailyCap = ethers.utils.parseEther(this.config.relay.signerTopUpDailyCap);
+        const timestamp = ContractUtils.getTimeStamp();
+        const from = timestamp - (timestamp % SignerBalanceScheduler.SECONDS_PER_DAY);
+        const spent = await this.storage.getSignerTopUpAmount(chainId, from);
+        if (spent.add(amount).gt(dailyCap)) {
+            await this.alert.send(
+                `${chainId}:daily_cap`,
+                "signer_topup_daily_cap",
+                `The daily cap for topping up signers on the chain ${chainId} is reached`,
+                { chainId, spent: spent.toString(), dailyCap: dailyCap.toString() }
+            );
+            return false;
+        }
+
+        const funder = new Wallet(this.config.relay.signerFundingKey, provider);
+        const funderBalance = await funder.getBalance();
+        if (funderBalance.lt(amount.mul(2))) {
+            await this.alert.send(
+                `${chainId}:funder`,
+                "funder_balance_low",
+                `The balance of the funding account ${funder.address} is low`,
+                { chainId, address: funder.address, balance: funderBalance.toString() }
+            );
+            if (funderBalance.lt(amount)) return false;
+        }
+
+        let tx: ethers.providers.TransactionResponse;
+        try {
+            tx = await new GasPriceManager(funder).sendTransaction({ to: address, value: amount });
+        } catch (error) {
+            logger.error(`Failed to top up the signer ${address}: ${error}`);
+            return false;
+        }
+
+        // 블록에 포함되기를 기다리는 동안 실패하거나 종료되어도 하루 한도를 넘지 않도록 전송하자마자 기록한다
+        try {
+            await this.storage.postSignerTopUp(chainId, address, amount, tx.hash);
+        } catch (error) {
+            logger.error(`Failed to record the top up ${tx.hash} of the signer ${address}: ${error}`);
+        }
+
+        try {
+            await tx.wait();
+            logger.info(`SignerBalanceScheduler.topUp ${address} - balance: ${balance.toString()}, tx: ${tx.hash}`);
+            return true;
+        } catch (error) {
+            logger.error(`Failed to top up the signer ${address}: ${error}`);
+            return false;
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import "@nomiclabs/hardhat-ethers";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { RelaySigners } from "../contract/Signers";
+import { Scheduler } from "./Scheduler";
+
+/**
+ * 릴레이 서명자가 전송한 트랜잭션을 확인하고, 지연된 트랜잭션을 교체하거나 취소한다
+ */
+export class SignerScheduler extends Scheduler {
+    private _contractManager: ContractManager | undefined;
+    private _signers: RelaySigners | undefined;
+
+    constructor(expression: string) {
+        super(expression);
+    }
+
+    private get contractManager(): ContractManager {
+        if (this._contractManager !== undefined) return this._contractManager;
+        else {
+            logger.error("ContractManager is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get signers(): RelaySigners {
+        if (this._signers !== undefined) return this._signers;
+        else {
+            logger.error("Signers is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    public setOption(options: any) {
+        if (options) {
+            if (options.contractManager && options.contractManager instanceof ContractManager)
+                this._contractManager = options.contractManager;
+            if (options.signers && options.signers instanceof RelaySigners) this._signers = options.signers;
+        }
+    }
+
+    public async onStart() {
+        //
+    }
+
+    protected async work() {
+        try {
+            await this.signers.transactionManager.check(this.contractManager.sideChainProvider);
+            if (this.contractManager.mainChainId !== this.contractManager.sideChainId)
+                await this.signers.transactionManager.check(this.contractManager.mainChainProvider);
+        } catch (error) {
+            logger.error(`Failed to execute the SignerScheduler: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,196 @@
+import "@nomiclabs/hardhat-ethers";
+import { Config } from "../common/Config";
+import { logger } from "../common/Logger";
+import { ContractManager } from "../contract/ContractManager";
+import { PaymentTxRecorder } from "../payment/PaymentTxRecorder";
+import { ShopPolicyResolver } from "../payment/ShopPolicyResolver";
+import { RelayStorage } from "../storage/RelayStorage";
+import { LoyaltyPaymentTaskStatus, PaymentTxFailure, PaymentTxKind } from "../types";
+import { ContractUtils } from "../utils/ContractUtils";
+import { HTTPClient } from "../utils/Utils";
+import { Scheduler } from "./Scheduler";
+
+import URI from "urijs";
+
+/**
+ * 일시적인 원인(논스, 수수료, 가스부족, 네트워크)으로 실패한 결제의 트랜잭션을 다시 전송한다.
+ * 전송은 릴레이의 엔드포인트를 통해 이루어지며, 엔드포인트는 기록된 시도에 따라 수수료를 올린다.
+ */
+export class TxRetryScheduler extends Scheduler {
+    private _config: Config | undefined;
+    private _contractManager: ContractManager | undefined;
+    private _storage: RelayStorage | undefined;
+    private _shopPolicies: ShopPolicyResolver | undefined;
+    private _recorder: PaymentTxRecorder | undefined;
+
+    constructor(expression: string) {
+        super(expression);
+    }
+
+    private get config(): Config {
+        if (this._config !== undefined) return this._config;
+        else {
+            logger.error("Config is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get storage(): RelayStorage {
+        if (this._storage !== undefined) return this._storage;
+        else {
+            logger.error("Storage is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get contractManager(): ContractManager {
+        if (this._contractManager !== undefined) return this._contractManager;
+        else {
+            logger.error("ContractManager is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get shopPolicies(): ShopPolicyResolver {
+        if (this._shopPolicies === undefined) this._shopPolicies = new ShopPolicyResolver(this.config, this.storage);
+        return this._shopPolicies;
+    }
+
+    private get recorder(): PaymentTxRecorder {
+        if (this._recorder === undefined) this._recorder = new PaymentTxRecorder(this.config, this.storage);
+        return this._recorder;
+    }
+
+    public setOption(options: any) {
+        if (options) {
+            if (options.config && options.config instanceof Config) this._config = options.config;
+            if (options.contractManager && options.contractManager instanceof ContractManager)
+                this._contractManager = options.contractManager;
+            if (options.storage && options.storage instanceof RelayStorage) this._storage = options.storage;
+        }
+    }
+
+    public async onStart() {
+        //
+    }
+
+    protected async work() {
+        try {
+            await this.onRevertedNewPayment();
+            await this.onFailedNewPayment();
+            await this.onFailedCloseNewPayment();
+        } catch (error) {
+            logger.error(`Failed to execute the TxRetryScheduler: ${error}`);
+        }
+    }
+
+    /**
+     * 되돌려진 트랜잭션의 영수증으로 실패의 원인을 분류한다. 영수증이 없으면 트랜잭션이 버려진 것이다.
+     */
+    private async onRevertedNewPayment() {
+        const payments = await this.storage.getPaymentsStatusOf([LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX]);
+        for (const payment of payments) {
+            const last = await this.storage.getLastPaymentTxAttempt(payment.paymentId, PaymentTxKind.OPEN_NEW);
+            if (last === undefined || last.failure !== PaymentTxFailure.NONE || last.txHash === "") continue;
+            try {
+                const receipt = await this.contractManager.sideChainProvider.getTransactionReceipt(last.txHash);
+                const info =
+                    receipt === null
+                        ? { failure: PaymentTxFailure.DROPPED, reason: "Transaction dropped" }
+                        : PaymentTxRecorder.classifyReceipt(receipt, last.gasLimit);
+                await this.storage.updatePaymentTxAttemptFailure(
+                    last.paymentId,
+                    last.kind,
+                    last.attempt,
+                    info.failure,
+                    info.reason
+                );
+            } catch (error) {
+                logger.warn(`TxRetryScheduler.onRevertedNewPayment ${payment.paymentId}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * 사용자가 승인할 때 기록된 서명으로 결제의 생성을 다시 요청한다
+     */
+    private async onFailedNewPayment() {
+        const payments = await this.storage.getPaymentsStatusOf([
+            LoyaltyPaymentTaskStatus.APPROVED_NEW_FAILED_TX,
+            LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX,
+        ]);
+        for (const payment of payments) {
+            const timestamp = ContractUtils.getTimeStamp();
+            const last = await this.storage.getLastPaymentTxAttempt(payment.paymentId, PaymentTxKind.OPEN_NEW);
+            if (last === undefined || last.signature === "" || !this.recorder.canRetry(last, timestamp)) continue;
+
+            const timeouts = await this.shopPolicies.get(payment.shopId);
+            if (timestamp - payment.openNewTimestamp > timeouts.paymentTimeoutSecond) continue;
+
+            logger.info(`TxRetryScheduler.onFailedNewPayment ${payment.paymentId} - attempt: ${last.attempt + 1}`);
+            const client = new HTTPClient();
+            try {
+                const response = await client.post(
+                    URI(this.config.relay.relayEndpoint).directory("/v1/payment/new").filename("approval").toString(),
+                    {
+                        paymentId: payment.paymentId,
+                        approval: true,
+                        signature: last.signature,
+                    }
+                );
+                if (response.data.error !== undefined) {
+                    logger.warn(
+                        `TxRetryScheduler.onFailedNewPayment: ${response.data.code} - ${response.data.error.message}`
+                    );
+                }
+            } catch (e) {
+                //
+            }
+        }
+    }
+
+    /**
+     * 키오스크가 요청했던 결과(confirm)로 결제의 완료를 다시 요청한다
+     */
+    private async onFailedCloseNewPayment() {
+        const attempts = await this.storage.getLastPaymentTxAttemptsOf(
+            PaymentTxKind.CLOSE_NEW,
+            PaymentTxRecorder.transientFailures
+        );
+        for (const attempt of attempts) {
+            if (!this.recorder.canRetry(attempt, ContractUtils.getTimeStamp())) continue;
+            const payment = await this.storage.getPayment(attempt.paymentId);
+            if (
+                payment === undefined ||
+                payment.paymentStatus === LoyaltyPaymentTaskStatus.CLOSED_NEW ||
+                payment.paymentStatus === LoyaltyPaymentTaskStatus.FAILED_NEW
+            )
+                continue;
+
+            logger.info(
+                `TxRetryScheduler.onFailedCloseNewPayment ${payment.paymentId} - attempt: ${attempt.attempt + 1}`
+            );
+            const client = new HTTPClient({
+                headers: {
+                    Authorization: this.config.relay.accessKey,
+                },
+            });
+            try {
+                const response = await client.post(
+                    URI(this.config.relay.relayEndpoint).directory("/v1/payment/new").filename("close").toString(),
+                    {
+                        confirm: attempt.confirm,
+                        paymentId: payment.paymentId,
+                    }
+                );
+                if (response.data.error !== undefined) {
+                    logger.warn(
+                        `TxRetryScheduler.onFailedCloseNewPayment: ${response.data.code} - ${response.data.error.message}`
+                    );
+                }
+            } catch (e) {
+                //
+            }
+        }
+    }
+}
@@ -1,9 +1,12 @@
 import "@nomiclabs/hardhat-ethers";
 import { LoyaltyConsumer, Shop } from "../../typechain-types";
+import { CallbackOutbox } from "../callback/CallbackOutbox";
 import { Config } from "../common/Config";
 import { logger } from "../common/Logger";
 import { ContractManager } from "../contract/ContractManager";
 import { ISignerItem, RelaySigners } from "../contract/Signers";
+import { PaymentStateMachine } from "../payment/PaymentStateMachine";
+import { PaymentStatusStream } from "../payment/PaymentStatusStream";
 import { RelayStorage } from "../storage/RelayStorage";
 import {
     ContractLoyaltyPaymentEvent,
@@ -11,6 +14,7 @@ import {
     ContractShopUpdateEvent,
     LoyaltyPaymentTaskData,
     LoyaltyPaymentTaskStatus,
+    PaymentEventActor,
     PaymentResultData,
     ShopTaskData,
     ShopTaskStatus,
@@ -18,7 +22,6 @@ import {
     TaskResultType,
 } from "../types";
 import { ContractUtils } from "../utils/ContractUtils";
-import { HTTPClient } from "../utils/Utils";
 import { Scheduler } from "./Scheduler";
 
 // tslint:disable-next-line:no-implicit-dependencies
@@ -33,6 +36,9 @@ export class WatchScheduler extends Scheduler {
     private _contractManager: ContractManager | undefined;
     private _storage: RelayStorage | undefined;
     private _signers: RelaySigners | undefined;
+    private _stateMachine: PaymentStateMachine | undefined;
+    private _paymentStream: PaymentStatusStream | undefined;
+    private _callbackOutbox: CallbackOutbox | undefined;
 
     constructor(expression: string) {
         super(expression);
@@ -70,6 +76,22 @@ export class WatchScheduler extends Scheduler {
         }
     }
 
+    private get callbackOutbox(): CallbackOutbox {
+        if (this._callbackOutbox !== undefined) return this._callbackOutbox;
+        else {
+            logger.error("CallbackOutbox is not ready yet.");
+            process.exit(1);
+        }
+    }
+
+    private get stateMachine(): PaymentStateMachine {
+        if (this._stateMachine !== undefined) return this._stateMachine;
+        else {
+            logger.error("PaymentStateMachine is not ready yet.");
+            process.exit(1);
+        }
+    }
+
     private async getRelaySigner(provider?: ethers.providers.Provider): Promise<ISignerItem> {
         if (provider === undefined) provider = this.contractManager.sideChainProvider;
         return this.signers.getSigner(provider);
@@ -84,8 +106,15 @@ export class WatchScheduler extends Scheduler {
             if (options.config && options.config instanceof Config) this._config = options.config;
             if (options.contractManager && options.contractManager instanceof ContractManager)
                 this._contractManager = options.contractManager;
-            if (options.storage && options.storage instanceof RelayStorage) this._storage = options.storage;
+            if (options.storage && options.storage instanceof RelayStorage) {
+                this._storage = options.storage;
+                this._stateMachine = new PaymentStateMachine(options.storage);
+            }
             if (options.signers && options.signers instanceof RelaySigners) this._signers = options.signers;
+            if (options.paymentStream && options.paymentStream instanceof PaymentStatusStream)
+                this._paymentStream = options.paymentStream;
+            if (options.callbackOutbox && options.callbackOutbox instanceof CallbackOutbox)
+                this._callbackOutbox = options.callbackOutbox;
         }
     }
 
@@ -130,8 +159,14 @@ export class WatchScheduler extends Scheduler {
                 this.updateEvent(event, payment);
                 const item = await this.storage.getPayment(payment.paymentId);
                 if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX) {
-                    payment.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_NEW_CONFIRMED_TX;
-                    await this.storage.updatePayment(payment);
+                    await this.stateMachine.transition(
+                        payment,
+                        LoyaltyPaymentTaskStatus.APPROVED_NEW_CONFIRMED_TX,
+                        PaymentEventActor.SCHEDULER,
+                        "Transaction confirmed",
+                        payment.openNewTxId,
+                        PaymentStateMachine.PAYMENT_FIELDS
+                    );
                 }
 
                 await this.sendPaymentResult(
@@ -142,19 +177,36 @@ export class WatchScheduler extends Scheduler {
                 );
 
                 if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX) {
-                    payment.paymentStatus = LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW;
-                    await this.storage.updatePaymentStatus(payment.paymentId, payment.paymentStatus);
+                    await this.stateMachine.transition(
+                        payment,
+                        LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW,
+                        PaymentEventActor.SCHEDULER,
+                        "Result sent to kiosk"
+                    );
                 }
             } else {
                 const item = await this.storage.getPayment(payment.paymentId);
                 if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX) {
-                    payment.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX;
-                    await this.storage.forcedUpdatePaymentStatus(payment.paymentId, payment.paymentStatus);
+                    await this.stateMachine.transition(
+                        payment,
+                        LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX,
+                        PaymentEventActor.SCHEDULER,
+                        "Transaction reverted",
+                        payment.openNewTxId
+                    );
                 }
             }
         } catch (error) {
-            payment.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX;
-            await this.storage.forcedUpdatePaymentStatus(payment.paymentId, payment.paymentStatus);
+            const item = await this.storage.getPayment(payment.paymentId);
+            if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX) {
+                await this.stateMachine.transition(
+                    item,
+                    LoyaltyPaymentTaskStatus.APPROVED_NEW_REVERTED_TX,
+                    PaymentEventActor.SCHEDULER,
+                    "Failed to check the transaction",
+                    item.openNewTxId
+                );
+            }
         } finally {
             this.releaseRelaySigner(signerItem);
         }
@@ -173,8 +225,14 @@ export class WatchScheduler extends Scheduler {
                 this.updateEvent(event, payment);
                 const item = await this.storage.getPayment(payment.paymentId);
                 if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX) {
-                    payment.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_CANCEL_CONFIRMED_TX;
-                    await this.storage.updatePayment(payment);
+                    await this.stateMachine.transition(
+                        payment,
+                        LoyaltyPaymentTaskStatus.APPROVED_CANCEL_CONFIRMED_TX,
+                        PaymentEventActor.SCHEDULER,
+                        "Transaction confirmed",
+                        payment.openCancelTxId,
+                        PaymentStateMachine.PAYMENT_FIELDS
+                    );
                 }
 
                 await this.sendPaymentResult(
@@ -185,19 +243,36 @@ export class WatchScheduler extends Scheduler {
                 );
 
                 if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX) {
-                    payment.paymentStatus = LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL;
-                    await this.storage.updatePaymentStatus(payment.paymentId, payment.paymentStatus);
+                    await this.stateMachine.transition(
+                        payment,
+                        LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL,
+                        PaymentEventActor.SCHEDULER,
+                        "Result sent to kiosk"
+                    );
                 }
             } else {
                 const item = await this.storage.getPayment(payment.paymentId);
                 if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX) {
-                    payment.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX;
-                    await this.storage.forcedUpdatePaymentStatus(payment.paymentId, payment.paymentStatus);
+                    await this.stateMachine.transition(
+                        payment,
+                        LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX,
+                        PaymentEventActor.SCHEDULER,
+                        "Transaction reverted",
+                        payment.openCancelTxId
+                    );
                 }
             }
         } catch (error) {
-            payment.paymentStatus = LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX;
-            await this.storage.forcedUpdatePaymentStatus(payment.paymentId, payment.paymentStatus);
+            const item = await this.storage.getPayment(payment.paymentId);
+            if (item !== undefined && item.paymentStatus === LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX) {
+                await this.stateMachine.transition(
+                    item,
+                    LoyaltyPaymentTaskStatus.APPROVED_CANCEL_REVERTED_TX,
+                    PaymentEventActor.SCHEDULER,
+                    "Failed to check the transaction",
+                    item.openCancelTxId
+                );
+            }
         } finally {
             this.releaseRelaySigner(signerItem);
         }
@@ -217,6 +292,14 @@ export class WatchScheduler extends Scheduler {
             feeValue: item.feeValue.toString(),
             totalPoint: item.totalPoint.toString(),
             totalValue: item.totalValue.toString(),
+            usedPoint: item.usedPoint.toString(),
+            usedToken: item.usedToken.toString(),
+            cancelAmount: item.cancelAmount.toString(),
+            cancelPoint: item.cancelPoint.toString(),
+            cancelFeePoint: item.cancelFeePoint.toString(),
+            remainAmount: item.remainAmount.toString(),
+            remainPoint: item.remainPoint.toString(),
+            remainFeePoint: item.remainFeePoint.toString(),
             paymentStatus: item.paymentStatus,
         };
     }
@@ -233,6 +316,10 @@ export class WatchScheduler extends Scheduler {
         item.feeValue = event.feeValue;
         item.totalPoint = event.totalPoint;
         item.totalValue = event.totalValue;
+        if (event.usedPoint !== undefined && event.usedToken !== undefined) {
+            item.usedPoint = event.usedPoint;
+            item.usedToken = event.usedToken;
+        }
         item.contractStatus = event.status;
     }
 
@@ -262,6 +349,14 @@ export class WatchScheduler extends Scheduler {
             res.totalPoint = res.paidPoint.add(res.feePoint);
             res.totalValue = res.paidValue.add(res.feeValue);
 
+            /// 토큰을 함께 사용한 지불은 실제로 사용된 포인트와 토큰이 별도의 이벤트로 기록된다
+            const mixedLog = ContractUtils.findLog(contractReceipt, contract.interface, "LoyaltyMixedPaymentEvent");
+            if (mixedLog !== undefined) {
+                const parsedMixedLog = contract.interface.parseLog(mixedLog);
+                res.usedPoint = BigNumber.from(parsedMixedLog.args.usedPoint);
+                res.usedToken = BigNumber.from(parsedMixedLog.args.usedToken);
+            }
+
             return res;
         } else return undefined;
     }
@@ -272,27 +367,8 @@ export class WatchScheduler extends Scheduler {
         message: string,
         data: PaymentResultData
     ) {
-        try {
-            const client = new HTTPClient({
-                headers: {
-                    Authorization: this.config.relay.callbackAccessKey,
-                },
-            });
-            const res = await client.post(this.config.relay.callbackEndpoint, {
-                accessKey: this.config.relay.callbackAccessKey,
-                type,
-                code,
-                message,
-                data,
-            });
-            logger.info(JSON.stringify(res.data));
-        } catch (error) {
-            if (error instanceof Error) {
-                logger.error(`sendPaymentResult : ${error.message}`);
-            } else {
-                logger.error(`sendPaymentResult : ${JSON.stringify(error)}`);
-            }
-        }
+        if (this._paymentStream !== undefined) this._paymentStream.publish(type, code, message, data);
+        await this.callbackOutbox.send(type, code, message, data);
     }
     /// endregion
 
@@ -1,6 +1,7 @@
 import { IDatabaseConfig } from "../common/Config";
 import {
     IGraphAccountLedgerHistoryData,
+    IGraphLoyaltyPaymentEventData,
     IGraphPageInfo,
     IGraphPhoneLedgerHistoryData,
     IGraphShopData,
@@ -37,6 +38,7 @@ export class GraphStorage extends Storage {
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/graph/user.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/graph/token.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/graph/statistics.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/graph/loyalty_payment.xml")]);
         await this.createTables();
     }
 
@@ -452,4 +454,49 @@ export class GraphStorage extends Storage {
                 });
         });
     }
+
+    /**
+     * 결제별로 가장 마지막에 발생한 LoyaltyPaymentEvent 를 조회한다.
+     */
+    public getLatestPaymentEvents(paymentIds: string[]): Promise<IGraphLoyaltyPaymentEventData[]> {
+        return new Promise<IGraphLoyaltyPaymentEventData[]>(async (resolve, reject) => {
+            if (paymentIds.length === 0) return resolve([]);
+            this.queryForMapper("loyalty_payment", "getLatestPaymentEvents", { scheme: this.scheme, paymentIds })
+                .then((result) => {
+                    return resolve(
+                        result.rows.map((m) => {
+                            return {
+                                paymentId: "0x" + m.payment_id.toString("hex"),
+                                paidPoint: BigNumber.from(m.paid_point),
+                                paidValue: BigNumber.from(m.paid_value),
+                                feePoint: BigNumber.from(m.fee_point),
+                                feeValue: BigNumber.from(m.fee_value),
+                                status: Number(m.status),
+                                blockTimestamp: Number(m.block_timestamp),
+                            };
+                        })
+                    );
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 주어진 기간에 블록체인에서 생성된 결제의 아이디를 조회한다. (from <= block_timestamp < to)
+     */
+    public getOpenedPaymentIdsOfPeriod(from: number, to: number): Promise<string[]> {
+        return new Promise<string[]>(async (resolve, reject) => {
+            this.queryForMapper("loyalty_payment", "getOpenedPaymentIdsOfPeriod", { scheme: this.scheme, from, to })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => "0x" + m.payment_id.toString("hex")));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
 }
@@ -7,16 +7,42 @@ import MybatisMapper from "mybatis-mapper";
 
 import path from "path";
 import {
+    ApiKeyData,
+    ApiKeyScope,
+    ApiKeyStatus,
+    CallbackData,
+    CallbackStatus,
     ContractLoyaltyPaymentStatus,
     GWI_UNIT,
+    IGraphPageInfo,
     IStorePurchaseData,
     IToBeProvideOfShop,
     IToBeProvideOfUser,
     LoyaltyPaymentTaskData,
     LoyaltyPaymentTaskStatus,
     MobileData,
+    PaymentEventData,
+    PaymentRequestData,
+    PaymentRequestStatus,
+    PaymentStatData,
+    PaymentTokenData,
+    PaymentTransitionField,
+    PaymentTxAttemptData,
+    PaymentTxFailure,
+    PaymentTxKind,
+    ReconciliationIssueData,
+    ReconciliationReportData,
+    SchedulerLeaseData,
+    ShopPaymentCursor,
+    ShopPaymentFilter,
+    ShopPaymentItem,
+    ShopPaymentTotal,
+    ShopPolicyData,
     ShopTaskData,
     ShopTaskStatus,
+    SignerNonceData,
+    SignerTxData,
+    SignerTxStatus,
     TaskResultType,
 } from "../types";
 import { ContractUtils } from "../utils/ContractUtils";
@@ -35,11 +61,22 @@ export class RelayStorage extends Storage {
         await super.initialize();
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/table.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/payment.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/payment_event.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/task.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/mobile.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/purchase.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/delegator.xml")]);
         MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/temporary_accounts.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/payment_token.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/payment_request.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/payment_tx_attempt.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/signer.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/callback.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/shop_policy.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/reconciliation.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/apikey.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/ratelimit.xml")]);
+        MybatisMapper.createMapper([path.resolve(Utils.getInitCWD(), "src/storage/mapper/lease.xml")]);
         await this.createTables();
     }
 
@@ -61,31 +98,7 @@ export class RelayStorage extends Storage {
 
     public postPayment(item: LoyaltyPaymentTaskData): Promise<void> {
         return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "postPayment", {
-                paymentId: item.paymentId,
-                purchaseId: item.purchaseId,
-                amount: item.amount.toString(),
-                currency: item.currency,
-                shopId: item.shopId,
-                account: item.account,
-                secret: item.secret,
-                secretLock: item.secretLock,
-                paidPoint: item.paidPoint.toString(),
-                paidValue: item.paidValue.toString(),
-                feePoint: item.feePoint.toString(),
-                feeValue: item.feeValue.toString(),
-                totalPoint: item.totalPoint.toString(),
-                totalValue: item.totalValue.toString(),
-                paymentStatus: item.paymentStatus,
-                openNewTimestamp: item.openNewTimestamp,
-                closeNewTimestamp: item.closeNewTimestamp,
-                openCancelTimestamp: item.openCancelTimestamp,
-                closeCancelTimestamp: item.closeCancelTimestamp,
-                openNewTxId: item.openNewTxId,
-                openNewTxTime: item.openNewTxTime,
-                openCancelTxId: item.openCancelTxId,
-                openCancelTxTime: item.openCancelTxTime,
-            })
+            this.queryForMapper("payment", "postPayment", RelayStorage.fromPayment(item))
                 .then(() => {
                     return resolve();
                 })
@@ -117,6 +130,15 @@ export class RelayStorage extends Storage {
                             feeValue: BigNumber.from(m.feeValue),
                             totalPoint: BigNumber.from(m.totalPoint),
                             totalValue: BigNumber.from(m.totalValue),
+                            useToken: m.useToken === "Y",
+                            usedPoint: BigNumber.from(m.usedPoint),
+                            usedToken: BigNumber.from(m.usedToken),
+                            cancelAmount: BigNumber.from(m.cancelAmount),
+                            cancelPoint: BigNumber.from(m.cancelPoint),
+                            cancelFeePoint: BigNumber.from(m.cancelFeePoint),
+                            remainAmount: BigNumber.from(m.remainAmount),
+                            remainPoint: BigNumber.from(m.remainPoint),
+                            remainFeePoint: BigNumber.from(m.remainFeePoint),
                             paymentStatus: m.paymentStatus,
                             contractStatus: m.contractStatus,
                             openNewTimestamp: m.openNewTimestamp,
@@ -127,6 +149,9 @@ export class RelayStorage extends Storage {
                             openNewTxTime: m.openNewTxTime,
                             openCancelTxId: m.openCancelTxId,
                             openCancelTxTime: m.openCancelTxTime,
+                            idempotencyKey: m.idempotencyKey,
+                            requestHash: m.requestHash,
+                            apiKeyId: m.apiKeyId,
                         });
                     } else {
                         return resolve(undefined);
@@ -139,57 +164,53 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public updatePayment(item: LoyaltyPaymentTaskData): Promise<void> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "updatePayment", {
-                paymentId: item.paymentId,
-                paidPoint: item.paidPoint.toString(),
-                paidValue: item.paidValue.toString(),
-                feePoint: item.feePoint.toString(),
-                feeValue: item.feeValue.toString(),
-                totalPoint: item.totalPoint.toString(),
-                totalValue: item.totalValue.toString(),
-                paymentStatus: item.paymentStatus,
-                contractStatus: item.contractStatus,
-                openNewTimestamp: item.openNewTimestamp,
-                closeNewTimestamp: item.closeNewTimestamp,
-                openCancelTimestamp: item.openCancelTimestamp,
-                closeCancelTimestamp: item.closeCancelTimestamp,
-            })
-                .then(() => {
-                    return resolve();
-                })
-                .catch((reason) => {
-                    if (reason instanceof Error) return reject(reason);
-                    return reject(new Error(reason));
-                });
-        });
-    }
-
-    public updatePaymentStatus(paymentId: string, paymentStatus: LoyaltyPaymentTaskStatus): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "updateStatus", {
-                paymentId,
-                paymentStatus,
-            })
-                .then(() => {
-                    return resolve();
-                })
-                .catch((reason) => {
-                    if (reason instanceof Error) return reject(reason);
-                    return reject(new Error(reason));
-                });
-        });
-    }
-
-    public forcedUpdatePaymentStatus(paymentId: string, paymentStatus: LoyaltyPaymentTaskStatus): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "forcedUpdateStatus", {
-                paymentId,
-                paymentStatus,
-            })
-                .then(() => {
-                    return resolve();
+    public getPaymentByIdempotencyKey(idempotencyKey: string): Promise<LoyaltyPaymentTaskData | undefined> {
+        return new Promise<LoyaltyPaymentTaskData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("payment", "getPaymentByIdempotencyKey", { idempotencyKey })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        const m = result.rows[0];
+                        return resolve({
+                            paymentId: m.paymentId,
+                            purchaseId: m.purchaseId,
+                            amount: BigNumber.from(m.amount),
+                            currency: m.currency,
+                            shopId: m.shopId,
+                            account: m.account,
+                            secret: m.secret,
+                            secretLock: m.secretLock,
+                            paidPoint: BigNumber.from(m.paidPoint),
+                            paidValue: BigNumber.from(m.paidValue),
+                            feePoint: BigNumber.from(m.feePoint),
+                            feeValue: BigNumber.from(m.feeValue),
+                            totalPoint: BigNumber.from(m.totalPoint),
+                            totalValue: BigNumber.from(m.totalValue),
+                            useToken: m.useToken === "Y",
+                            usedPoint: BigNumber.from(m.usedPoint),
+                            usedToken: BigNumber.from(m.usedToken),
+                            cancelAmount: BigNumber.from(m.cancelAmount),
+                            cancelPoint: BigNumber.from(m.cancelPoint),
+                            cancelFeePoint: BigNumber.from(m.cancelFeePoint),
+                            remainAmount: BigNumber.from(m.remainAmount),
+                            remainPoint: BigNumber.from(m.remainPoint),
+                            remainFeePoint: BigNumber.from(m.remainFeePoint),
+                            paymentStatus: m.paymentStatus,
+                            contractStatus: m.contractStatus,
+                            openNewTimestamp: m.openNewTimestamp,
+                            closeNewTimestamp: m.closeNewTimestamp,
+                            openCancelTimestamp: m.openCancelTimestamp,
+                            closeCancelTimestamp: m.closeCancelTimestamp,
+                            openNewTxId: m.openNewTxId,
+                            openNewTxTime: m.openNewTxTime,
+                            openCancelTxId: m.openCancelTxId,
+                            openCancelTxTime: m.openCancelTxTime,
+                            idempotencyKey: m.idempotencyKey,
+                            requestHash: m.requestHash,
+                            apiKeyId: m.apiKeyId,
+                        });
+                    } else {
+                        return resolve(undefined);
+                    }
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -214,58 +235,10 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public updateCloseNewTimestamp(
-        paymentId: string,
-        paymentStatus: LoyaltyPaymentTaskStatus,
-        value: number
-    ): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "updateCloseNewTimestamp", {
-                paymentId,
-                paymentStatus,
-                value,
-            })
-                .then(() => {
-                    return resolve();
-                })
-                .catch((reason) => {
-                    if (reason instanceof Error) return reject(reason);
-                    return reject(new Error(reason));
-                });
-        });
-    }
-
-    public updateOpenCancelTimestamp(
-        paymentId: string,
-        paymentStatus: LoyaltyPaymentTaskStatus,
-        value: number
-    ): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "updateOpenCancelTimestamp", {
-                paymentId,
-                paymentStatus,
-                value,
-            })
-                .then(() => {
-                    return resolve();
-                })
-                .catch((reason) => {
-                    if (reason instanceof Error) return reject(reason);
-                    return reject(new Error(reason));
-                });
-        });
-    }
-
-    public updateCloseCancelTimestamp(
-        paymentId: string,
-        paymentStatus: LoyaltyPaymentTaskStatus,
-        value: number
-    ): Promise<any> {
+    public releaseIdempotencyKey(paymentId: string): Promise<any> {
         return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "updateCloseCancelTimestamp", {
+            this.queryForMapper("payment", "releaseIdempotencyKey", {
                 paymentId,
-                paymentStatus,
-                value,
             })
                 .then(() => {
                     return resolve();
@@ -340,29 +313,6 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public updateOpenCancelTx(
-        paymentId: string,
-        txId: string,
-        txTime: number,
-        paymentStatus: LoyaltyPaymentTaskStatus
-    ): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("payment", "updateOpenCancelTx", {
-                paymentId,
-                txId,
-                txTime,
-                paymentStatus,
-            })
-                .then(() => {
-                    return resolve();
-                })
-                .catch((reason) => {
-                    if (reason instanceof Error) return reject(reason);
-                    return reject(new Error(reason));
-                });
-        });
-    }
-
     public updateCloseCancelTx(
         paymentId: string,
         txId: string,
@@ -407,6 +357,15 @@ export class RelayStorage extends Storage {
                                 feeValue: BigNumber.from(m.feeValue),
                                 totalPoint: BigNumber.from(m.totalPoint),
                                 totalValue: BigNumber.from(m.totalValue),
+                                useToken: m.useToken === "Y",
+                                usedPoint: BigNumber.from(m.usedPoint),
+                                usedToken: BigNumber.from(m.usedToken),
+                                cancelAmount: BigNumber.from(m.cancelAmount),
+                                cancelPoint: BigNumber.from(m.cancelPoint),
+                                cancelFeePoint: BigNumber.from(m.cancelFeePoint),
+                                remainAmount: BigNumber.from(m.remainAmount),
+                                remainPoint: BigNumber.from(m.remainPoint),
+                                remainFeePoint: BigNumber.from(m.remainFeePoint),
                                 paymentStatus: m.paymentStatus,
                                 contractStatus: m.contractStatus,
                                 openNewTimestamp: m.openNewTimestamp,
@@ -417,6 +376,9 @@ export class RelayStorage extends Storage {
                                 openNewTxTime: m.openNewTxTime,
                                 openCancelTxId: m.openCancelTxId,
                                 openCancelTxTime: m.openCancelTxTime,
+                                idempotencyKey: m.idempotencyKey,
+                                requestHash: m.requestHash,
+                                apiKeyId: m.apiKeyId,
                             };
                         })
                     );
@@ -452,6 +414,15 @@ export class RelayStorage extends Storage {
                                 feeValue: BigNumber.from(m.feeValue),
                                 totalPoint: BigNumber.from(m.totalPoint),
                                 totalValue: BigNumber.from(m.totalValue),
+                                useToken: m.useToken === "Y",
+                                usedPoint: BigNumber.from(m.usedPoint),
+                                usedToken: BigNumber.from(m.usedToken),
+                                cancelAmount: BigNumber.from(m.cancelAmount),
+                                cancelPoint: BigNumber.from(m.cancelPoint),
+                                cancelFeePoint: BigNumber.from(m.cancelFeePoint),
+                                remainAmount: BigNumber.from(m.remainAmount),
+                                remainPoint: BigNumber.from(m.remainPoint),
+                                remainFeePoint: BigNumber.from(m.remainFeePoint),
                                 paymentStatus: m.paymentStatus,
                                 contractStatus: m.contractStatus,
                                 openNewTimestamp: m.openNewTimestamp,
@@ -462,6 +433,9 @@ export class RelayStorage extends Storage {
                                 openNewTxTime: m.openNewTxTime,
                                 openCancelTxId: m.openCancelTxId,
                                 openCancelTxTime: m.openCancelTxTime,
+                                idempotencyKey: m.idempotencyKey,
+                                requestHash: m.requestHash,
+                                apiKeyId: m.apiKeyId,
                             };
                         })
                     );
@@ -473,55 +447,69 @@ export class RelayStorage extends Storage {
         });
     }
 
-    /// endregion
-
-    /// region Task
-
-    public postTask(item: ShopTaskData): Promise<void> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("task", "postTask", {
-                taskId: item.taskId,
-                type: item.type,
-                shopId: item.shopId,
-                account: item.account,
-                currency: item.currency,
-                name: item.name,
-                status: item.status,
-                taskStatus: item.taskStatus,
-                timestamp: item.timestamp,
+    public getPaymentsOfShop(
+        shopId: string,
+        filter: ShopPaymentFilter,
+        cursor: ShopPaymentCursor | undefined,
+        limit: number
+    ): Promise<ShopPaymentItem[]> {
+        return new Promise<ShopPaymentItem[]>(async (resolve, reject) => {
+            this.queryForMapper("payment", "getPaymentsOfShop", {
+                shopId,
+                status: filter.status,
+                from: filter.from,
+                to: filter.to,
+                account: filter.account,
+                purchaseId: filter.purchaseId,
+                currency: filter.currency,
+                cursorTimestamp: cursor !== undefined ? cursor.createdTimestamp : 0,
+                cursorPaymentId: cursor !== undefined ? cursor.paymentId : "",
+                limit,
             })
-                .then(() => {
-                    return resolve();
-                })
-                .catch((reason) => {
-                    if (reason instanceof Error) return reject(reason);
-                    return reject(new Error(reason));
-                });
-        });
-    }
-
-    public getTask(taskId: string): Promise<ShopTaskData | undefined> {
-        return new Promise<ShopTaskData | undefined>(async (resolve, reject) => {
-            this.queryForMapper("task", "getTask", { taskId })
                 .then((result) => {
-                    if (result.rows.length > 0) {
-                        const m = result.rows[0];
-                        return resolve({
-                            taskId: m.taskId,
-                            type: m.type,
-                            shopId: m.shopId,
-                            account: m.account,
-                            name: m.name,
-                            currency: m.currency,
-                            status: m.status,
-                            taskStatus: m.taskStatus,
-                            timestamp: m.timestamp,
-                            txId: m.txId,
-                            txTime: m.txTime,
-                        });
-                    } else {
-                        return resolve(undefined);
-                    }
+                    return resolve(
+                        result.rows.map((m) => {
+                            return {
+                                paymentId: m.paymentId,
+                                purchaseId: m.purchaseId,
+                                amount: BigNumber.from(m.amount),
+                                currency: m.currency,
+                                shopId: m.shopId,
+                                account: m.account,
+                                secret: m.secret,
+                                secretLock: m.secretLock,
+                                paidPoint: BigNumber.from(m.paidPoint),
+                                paidValue: BigNumber.from(m.paidValue),
+                                feePoint: BigNumber.from(m.feePoint),
+                                feeValue: BigNumber.from(m.feeValue),
+                                totalPoint: BigNumber.from(m.totalPoint),
+                                totalValue: BigNumber.from(m.totalValue),
+                                useToken: m.useToken === "Y",
+                                usedPoint: BigNumber.from(m.usedPoint),
+                                usedToken: BigNumber.from(m.usedToken),
+                                cancelAmount: BigNumber.from(m.cancelAmount),
+                                cancelPoint: BigNumber.from(m.cancelPoint),
+                                cancelFeePoint: BigNumber.from(m.cancelFeePoint),
+                                remainAmount: BigNumber.from(m.remainAmount),
+                                remainPoint: BigNumber.from(m.remainPoint),
+                                remainFeePoint: BigNumber.from(m.remainFeePoint),
+                                paymentStatus: m.paymentStatus,
+                                contractStatus: m.contractStatus,
+                                openNewTimestamp: m.openNewTimestamp,
+                                closeNewTimestamp: m.closeNewTimestamp,
+                                openCancelTimestamp: m.openCancelTimestamp,
+                                closeCancelTimestamp: m.closeCancelTimestamp,
+                                openNewTxId: m.openNewTxId,
+                                openNewTxTime: m.openNewTxTime,
+                                openCancelTxId: m.openCancelTxId,
+                                openCancelTxTime: m.openCancelTxTime,
+                                idempotencyKey: m.idempotencyKey,
+                                requestHash: m.requestHash,
+                                apiKeyId: m.apiKeyId,
+                                createdTimestamp: m.createdTimestamp,
+                            };
+                        })
+                    );
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -530,18 +518,26 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public updateTask(item: ShopTaskData): Promise<void> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("task", "updateTask", {
-                taskId: item.taskId,
-                name: item.name,
-                currency: item.currency,
-                status: item.status,
-                taskStatus: item.taskStatus,
-                timestamp: item.timestamp,
+    public getPaymentsOfShopTotal(shopId: string, filter: ShopPaymentFilter): Promise<ShopPaymentTotal> {
+        return new Promise<ShopPaymentTotal>(async (resolve, reject) => {
+            this.queryForMapper("payment", "getPaymentsOfShopTotal", {
+                shopId,
+                completedStatus: LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                status: filter.status,
+                from: filter.from,
+                to: filter.to,
+                account: filter.account,
+                purchaseId: filter.purchaseId,
+                currency: filter.currency,
             })
-                .then(() => {
-                    return resolve();
+                .then((result) => {
+                    const m = result.rows[0];
+                    return resolve({
+                        totalCount: Number(m.totalCount),
+                        paidPoint: BigNumber.from(m.paidPoint),
+                        paidValue: BigNumber.from(m.paidValue),
+                        feeValue: BigNumber.from(m.feeValue),
+                    });
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -550,14 +546,24 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public updateTaskStatus(taskId: string, taskStatus: ShopTaskStatus): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("task", "updateStatus", {
-                taskId,
-                taskStatus,
+    /**
+     * 주어진 시각 이후에 생성된 계정의 결제 건수와 포인트 합계를 조회한다.
+     * 거부되거나 실패한 결제는 건수와 합계에서 제외된다.
+     */
+    public getPaymentStatOfAccount(account: string, from: number): Promise<PaymentStatData> {
+        return new Promise<PaymentStatData>(async (resolve, reject) => {
+            this.queryForMapper("payment", "getPaymentStatOfAccount", {
+                account,
+                from,
+                excludedStatus: [LoyaltyPaymentTaskStatus.DENIED_NEW, LoyaltyPaymentTaskStatus.FAILED_NEW],
             })
-                .then(() => {
-                    return resolve();
+                .then((result) => {
+                    const m = result.rows[0];
+                    return resolve({
+                        count: Number(m.count),
+                        totalPoint: BigNumber.from(m.totalPoint),
+                        lastTimestamp: Number(m.lastTimestamp),
+                    });
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -566,14 +572,24 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public forcedUpdateTaskStatus(taskId: string, taskStatus: ShopTaskStatus): Promise<any> {
-        return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("task", "forcedUpdateStatus", {
-                taskId,
-                taskStatus,
+    /**
+     * 주어진 시각 이후에 생성된 상점의 결제 건수와 포인트 합계를 조회한다.
+     * 거부되거나 실패한 결제는 건수와 합계에서 제외된다.
+     */
+    public getPaymentStatOfShop(shopId: string, from: number): Promise<PaymentStatData> {
+        return new Promise<PaymentStatData>(async (resolve, reject) => {
+            this.queryForMapper("payment", "getPaymentStatOfShop", {
+                shopId,
+                from,
+                excludedStatus: [LoyaltyPaymentTaskStatus.DENIED_NEW, LoyaltyPaymentTaskStatus.FAILED_NEW],
             })
-                .then(() => {
-                    return resolve();
+                .then((result) => {
+                    const m = result.rows[0];
+                    return resolve({
+                        count: Number(m.count),
+                        totalPoint: BigNumber.from(m.totalPoint),
+                        lastTimestamp: Number(m.lastTimestamp),
+                    });
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -582,21 +598,276 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public getTasksStatusOf(type: TaskResultType[], status: ShopTaskStatus[]): Promise<ShopTaskData[]> {
-        return new Promise<ShopTaskData[]>(async (resolve, reject) => {
-            this.queryForMapper("task", "getTasksStatusOf", { type, status })
+    /**
+     * 주어진 기간에 생성된 결제를 조회한다. (from <= openNewTimestamp < to)
+     */
+    public getPaymentsOfPeriod(from: number, to: number): Promise<LoyaltyPaymentTaskData[]> {
+        return new Promise<LoyaltyPaymentTaskData[]>(async (resolve, reject) => {
+            this.queryForMapper("payment", "getPaymentsOfPeriod", { from, to })
                 .then((result) => {
-                    resolve(
+                    return resolve(
                         result.rows.map((m) => {
                             return {
-                                taskId: m.taskId,
-                                type: m.type,
+                                paymentId: m.paymentId,
+                                purchaseId: m.purchaseId,
+                                amount: BigNumber.from(m.amount),
+                                currency: m.currency,
                                 shopId: m.shopId,
                                 account: m.account,
-                                name: m.name,
-                                currency: m.currency,
-                                status: m.status,
-                                taskStatus: m.taskStatus,
+                                secret: m.secret,
+                                secretLock: m.secretLock,
+                                paidPoint: BigNumber.from(m.paidPoint),
+                                paidValue: BigNumber.from(m.paidValue),
+                                feePoint: BigNumber.from(m.feePoint),
+                                feeValue: BigNumber.from(m.feeValue),
+                                totalPoint: BigNumber.from(m.totalPoint),
+                                totalValue: BigNumber.from(m.totalValue),
+                                useToken: m.useToken === "Y",
+                                usedPoint: BigNumber.from(m.usedPoint),
+                                usedToken: BigNumber.from(m.usedToken),
+                                cancelAmount: BigNumber.from(m.cancelAmount),
+                                cancelPoint: BigNumber.from(m.cancelPoint),
+                                cancelFeePoint: BigNumber.from(m.cancelFeePoint),
+                                remainAmount: BigNumber.from(m.remainAmount),
+                                remainPoint: BigNumber.from(m.remainPoint),
+                                remainFeePoint: BigNumber.from(m.remainFeePoint),
+                                paymentStatus: m.paymentStatus,
+                                contractStatus: m.contractStatus,
+                                openNewTimestamp: m.openNewTimestamp,
+                                closeNewTimestamp: m.closeNewTimestamp,
+                                openCancelTimestamp: m.openCancelTimestamp,
+                                closeCancelTimestamp: m.closeCancelTimestamp,
+                                openNewTxId: m.openNewTxId,
+                                openNewTxTime: m.openNewTxTime,
+                                openCancelTxId: m.openCancelTxId,
+                                openCancelTxTime: m.openCancelTxTime,
+                                idempotencyKey: m.idempotencyKey,
+                                requestHash: m.requestHash,
+                                apiKeyId: m.apiKeyId,
+                            };
+                        })
+                    );
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /// endregion
+
+    /// region Task
+
+    /**
+     * 결제와 생성된 이벤트를 하나의 문장으로 저장한다. 이미 저장된 결제이면 false 를 반환한다
+     */
+    public openPayment(item: LoyaltyPaymentTaskData, event: PaymentEventData): Promise<boolean> {
+        return new Promise<boolean>(async (resolve, reject) => {
+            this.queryForMapper("payment_event", "openPayment", {
+                ...RelayStorage.fromPayment(item),
+                paymentStatus: event.toStatus,
+                fromStatus: event.fromStatus,
+                actor: event.actor,
+                reason: event.reason,
+                txHash: event.txHash,
+                timestamp: event.timestamp,
+            })
+                .then((result) => {
+                    return resolve(result.rows[0].count > 0);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 결제의 상태가 event.fromStatus 일 때만 event.toStatus 로 변경하고 fields 의 항목을 함께 저장한다.
+     * 상태가 바뀌면 같은 문장에서 payment_events 에 기록한다. 결제의 상태가 다르면 false 를 반환한다
+     */
+    public transitionPayment(
+        item: LoyaltyPaymentTaskData,
+        event: PaymentEventData,
+        fields: PaymentTransitionField[]
+    ): Promise<boolean> {
+        return new Promise<boolean>(async (resolve, reject) => {
+            this.queryForMapper("payment_event", "transition", {
+                ...RelayStorage.fromPayment(item),
+                contractStatus: item.contractStatus,
+                fromStatus: event.fromStatus,
+                toStatus: event.toStatus,
+                actor: event.actor,
+                reason: event.reason,
+                txHash: event.txHash,
+                timestamp: event.timestamp,
+                saveAmounts: fields.includes(PaymentTransitionField.AMOUNTS),
+                saveRemain: fields.includes(PaymentTransitionField.REMAIN),
+                saveCancel: fields.includes(PaymentTransitionField.CANCEL),
+                saveContractStatus: fields.includes(PaymentTransitionField.CONTRACT_STATUS),
+                saveOpenNewTimestamp: fields.includes(PaymentTransitionField.OPEN_NEW_TIMESTAMP),
+                saveCloseNewTimestamp: fields.includes(PaymentTransitionField.CLOSE_NEW_TIMESTAMP),
+                saveOpenCancelTimestamp: fields.includes(PaymentTransitionField.OPEN_CANCEL_TIMESTAMP),
+                saveCloseCancelTimestamp: fields.includes(PaymentTransitionField.CLOSE_CANCEL_TIMESTAMP),
+                saveOpenNewTx: fields.includes(PaymentTransitionField.OPEN_NEW_TX),
+                saveOpenCancelTx: fields.includes(PaymentTransitionField.OPEN_CANCEL_TX),
+            })
+                .then((result) => {
+                    return resolve(result.rows[0].count > 0);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getPaymentEvents(paymentId: string): Promise<PaymentEventData[]> {
+        return new Promise<PaymentEventData[]>(async (resolve, reject) => {
+            this.queryForMapper("payment_event", "getPaymentEvents", { paymentId })
+                .then((result) => {
+                    return resolve(
+                        result.rows.map((m) => {
+                            return {
+                                paymentId: m.paymentId,
+                                fromStatus: m.fromStatus,
+                                toStatus: m.toStatus,
+                                actor: m.actor,
+                                reason: m.reason,
+                                txHash: m.txHash,
+                                timestamp: m.timestamp,
+                            };
+                        })
+                    );
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public postTask(item: ShopTaskData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("task", "postTask", {
+                taskId: item.taskId,
+                type: item.type,
+                shopId: item.shopId,
+                account: item.account,
+                currency: item.currency,
+                name: item.name,
+                status: item.status,
+                taskStatus: item.taskStatus,
+                timestamp: item.timestamp,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getTask(taskId: string): Promise<ShopTaskData | undefined> {
+        return new Promise<ShopTaskData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("task", "getTask", { taskId })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        const m = result.rows[0];
+                        return resolve({
+                            taskId: m.taskId,
+                            type: m.type,
+                            shopId: m.shopId,
+                            account: m.account,
+                            name: m.name,
+                            currency: m.currency,
+                            status: m.status,
+                            taskStatus: m.taskStatus,
+                            timestamp: m.timestamp,
+                            txId: m.txId,
+                            txTime: m.txTime,
+                        });
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateTask(item: ShopTaskData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("task", "updateTask", {
+                taskId: item.taskId,
+                name: item.name,
+                currency: item.currency,
+                status: item.status,
+                taskStatus: item.taskStatus,
+                timestamp: item.timestamp,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateTaskStatus(taskId: string, taskStatus: ShopTaskStatus): Promise<any> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("task", "updateStatus", {
+                taskId,
+                taskStatus,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public forcedUpdateTaskStatus(taskId: string, taskStatus: ShopTaskStatus): Promise<any> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("task", "forcedUpdateStatus", {
+                taskId,
+                taskStatus,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getTasksStatusOf(type: TaskResultType[], status: ShopTaskStatus[]): Promise<ShopTaskData[]> {
+        return new Promise<ShopTaskData[]>(async (resolve, reject) => {
+            this.queryForMapper("task", "getTasksStatusOf", { type, status })
+                .then((result) => {
+                    resolve(
+                        result.rows.map((m) => {
+                            return {
+                                taskId: m.taskId,
+                                type: m.type,
+                                shopId: m.shopId,
+                                account: m.account,
+                                name: m.name,
+                                currency: m.currency,
+                                status: m.status,
+                                taskStatus: m.taskStatus,
                                 timestamp: m.timestamp,
                                 txId: m.txId,
                                 txTime: m.txTime,
@@ -678,6 +949,53 @@ export class RelayStorage extends Storage {
 
     /// endregion
 
+    // region ShopPolicy
+
+    public postShopPolicy(item: ShopPolicyData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("shop_policy", "postShopPolicy", {
+                shopId: item.shopId,
+                paymentTimeoutSecond: item.paymentTimeoutSecond,
+                approvalSecond: item.approvalSecond,
+                forcedCloseSecond: item.forcedCloseSecond,
+                timestamp: item.timestamp,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getShopPolicy(shopId: string): Promise<ShopPolicyData | undefined> {
+        return new Promise<ShopPolicyData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("shop_policy", "getShopPolicy", { shopId })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        const m = result.rows[0];
+                        return resolve({
+                            shopId: m.shopId,
+                            paymentTimeoutSecond: m.paymentTimeoutSecond,
+                            approvalSecond: m.approvalSecond,
+                            forcedCloseSecond: m.forcedCloseSecond,
+                            timestamp: m.timestamp,
+                        });
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /// endregion
+
     // region StorePurchase
     public postStorePurchase(data: IStorePurchaseData): Promise<void> {
         return new Promise<void>(async (resolve, reject) => {
@@ -907,18 +1225,17 @@ export class RelayStorage extends Storage {
         });
     }
 
-    // region Delegator
-    public async createDelegator(account: string, key: string): Promise<string> {
-        const wallet = hre.ethers.Wallet.createRandom();
-
-        return new Promise<string>(async (resolve, reject) => {
-            this.queryForMapper("delegators", "postDelegator", {
+    /**
+     * 임시주소의 유효시간을 현재부터 다시 시작한다
+     */
+    public refreshAccountOnTemporary(account: string, temporary_account: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("temporary_accounts", "postAccount", {
                 account: account.toLowerCase(),
-                delegator: wallet.address,
-                content: ContractUtils.encrypt(wallet.privateKey, key),
+                temporary_account: temporary_account.toLowerCase(),
             })
                 .then(() => {
-                    return resolve(wallet.address);
+                    return resolve();
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -927,17 +1244,19 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public hasDelegator(account: string): Promise<boolean> {
-        return new Promise<boolean>(async (resolve, reject) => {
-            this.queryForMapper("delegators", "getDelegator", {
-                account,
+    // region PaymentToken
+
+    public postPaymentToken(item: PaymentTokenData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("payment_token", "postToken", {
+                tokenId: item.tokenId,
+                account: item.account,
+                temporaryAccount: item.temporaryAccount,
+                expiresAt: item.expiresAt,
+                timestamp: item.timestamp,
             })
-                .then((result) => {
-                    if (result.rows.length > 0) {
-                        return resolve(true);
-                    } else {
-                        return resolve(false);
-                    }
+                .then(() => {
+                    return resolve();
                 })
                 .catch((reason) => {
                     if (reason instanceof Error) return reject(reason);
@@ -946,14 +1265,263 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public getDelegator(account: string, key: string): Promise<Wallet | undefined> {
-        return new Promise<Wallet | undefined>(async (resolve, reject) => {
-            this.queryForMapper("delegators", "getDelegator", {
+    public getPaymentToken(tokenId: string): Promise<PaymentTokenData | undefined> {
+        return new Promise<PaymentTokenData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("payment_token", "getToken", { tokenId })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        return resolve(RelayStorage.toPaymentToken(result.rows[0]));
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 사용되지 않은 토큰을 사용된 것으로 변경한다. 이미 사용되었거나 없는 토큰이면 undefined 를 반환한다
+     */
+    public usePaymentToken(tokenId: string, usedTimestamp: number): Promise<PaymentTokenData | undefined> {
+        return new Promise<PaymentTokenData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("payment_token", "useToken", { tokenId, usedTimestamp })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        return resolve(RelayStorage.toPaymentToken(result.rows[0]));
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public removeExpiredPaymentTokens(timestamp: number): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("payment_token", "removeExpiredTokens", { timestamp })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    private static toPaymentToken(m: any): PaymentTokenData {
+        return {
+            tokenId: m.tokenId,
+            account: hre.ethers.utils.getAddress(m.account),
+            temporaryAccount: hre.ethers.utils.getAddress(m.temporaryAccount),
+            expiresAt: Number(m.expiresAt),
+            used: m.used === "Y",
+            usedTimestamp: Number(m.usedTimestamp),
+            timestamp: Number(m.timestamp),
+        };
+    }
+
+    /// endregion
+
+    // region PaymentRequest
+
+    public postPaymentRequest(item: PaymentRequestData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("payment_request", "postRequest", {
+                requestId: item.requestId,
+                shopId: item.shopId,
+                purchaseId: item.purchaseId,
+                amount: item.amount.toString(),
+                currency: item.currency,
+                description: item.description,
+                status: item.status,
+                paymentId: item.paymentId,
+                account: item.account,
+                expiresAt: item.expiresAt,
+                timestamp: item.timestamp,
+                apiKeyId: item.apiKeyId,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getPaymentRequest(requestId: string): Promise<PaymentRequestData | undefined> {
+        return new Promise<PaymentRequestData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("payment_request", "getRequest", { requestId })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        return resolve(RelayStorage.toPaymentRequest(result.rows[0]));
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getPaymentRequestsOfShop(
+        shopId: string,
+        status: PaymentRequestStatus[],
+        pageNumber: number,
+        pageSize: number
+    ): Promise<PaymentRequestData[]> {
+        return new Promise<PaymentRequestData[]>(async (resolve, reject) => {
+            this.queryForMapper("payment_request", "getRequestsOfShop", { shopId, status, pageNumber, pageSize })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toPaymentRequest(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getPaymentRequestsOfShopPageInfo(
+        shopId: string,
+        status: PaymentRequestStatus[],
+        pageSize: number
+    ): Promise<IGraphPageInfo> {
+        return new Promise<IGraphPageInfo>(async (resolve, reject) => {
+            this.queryForMapper("payment_request", "getRequestsOfShopPageInfo", { shopId, status, pageSize })
+                .then((result) => {
+                    const m = result.rows[0];
+                    return resolve({
+                        totalCount: Number(m.totalCount),
+                        totalPages: Number(m.totalPages),
+                    });
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getPaymentRequestsStatusOf(status: PaymentRequestStatus[]): Promise<PaymentRequestData[]> {
+        return new Promise<PaymentRequestData[]>(async (resolve, reject) => {
+            this.queryForMapper("payment_request", "getRequestsStatusOf", { status })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toPaymentRequest(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 결제요청의 상태가 fromStatus 인 경우에만 변경한다. 변경되었으면 true 를 반환한다
+     */
+    public updatePaymentRequestStatus(
+        requestId: string,
+        fromStatus: PaymentRequestStatus,
+        status: PaymentRequestStatus,
+        paymentId: string,
+        account: string,
+        updatedTimestamp: number
+    ): Promise<boolean> {
+        return new Promise<boolean>(async (resolve, reject) => {
+            this.queryForMapper("payment_request", "updateStatus", {
+                requestId,
+                fromStatus,
+                status,
+                paymentId,
                 account,
+                updatedTimestamp,
+            })
+                .then((result) => {
+                    return resolve(result.rows.length > 0);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    private static toPaymentRequest(m: any): PaymentRequestData {
+        return {
+            requestId: m.requestId,
+            shopId: m.shopId,
+            purchaseId: m.purchaseId,
+            amount: BigNumber.from(m.amount),
+            currency: m.currency,
+            description: m.description,
+            status: Number(m.status),
+            paymentId: m.paymentId,
+            account: m.account,
+            expiresAt: Number(m.expiresAt),
+            timestamp: Number(m.timestamp),
+            updatedTimestamp: Number(m.updatedTimestamp),
+            apiKeyId: m.apiKeyId,
+        };
+    }
+
+    /// endregion
+
+    // region PaymentTxAttempt
+
+    public postPaymentTxAttempt(item: PaymentTxAttemptData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("payment_tx_attempt", "postAttempt", {
+                paymentId: item.paymentId,
+                kind: item.kind,
+                attempt: item.attempt,
+                txHash: item.txHash,
+                signature: item.signature,
+                confirm: item.confirm ? "Y" : "N",
+                failure: item.failure,
+                reason: item.reason,
+                maxFeePerGas: item.maxFeePerGas.toString(),
+                gasLimit: item.gasLimit.toString(),
+                timestamp: item.timestamp,
             })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getPaymentTxAttempts(paymentId: string): Promise<PaymentTxAttemptData[]> {
+        return new Promise<PaymentTxAttemptData[]>(async (resolve, reject) => {
+            this.queryForMapper("payment_tx_attempt", "getAttempts", { paymentId })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toPaymentTxAttempt(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getLastPaymentTxAttempt(paymentId: string, kind: PaymentTxKind): Promise<PaymentTxAttemptData | undefined> {
+        return new Promise<PaymentTxAttemptData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("payment_tx_attempt", "getLastAttempt", { paymentId, kind })
                 .then((result) => {
                     if (result.rows.length > 0) {
-                        return resolve(new Wallet(ContractUtils.decrypt(result.rows[0].content, key)));
+                        return resolve(RelayStorage.toPaymentTxAttempt(result.rows[0]));
                     } else {
                         return resolve(undefined);
                     }
@@ -965,12 +1533,202 @@ export class RelayStorage extends Storage {
         });
     }
 
-    public removeDelegator(account: string): Promise<void> {
+    /**
+     * 결제별 마지막 시도 중에서 실패 유형이 failure 에 포함된 시도들
+     */
+    public getLastPaymentTxAttemptsOf(
+        kind: PaymentTxKind,
+        failure: PaymentTxFailure[]
+    ): Promise<PaymentTxAttemptData[]> {
+        return new Promise<PaymentTxAttemptData[]>(async (resolve, reject) => {
+            this.queryForMapper("payment_tx_attempt", "getLastAttemptsOf", { kind, failure })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toPaymentTxAttempt(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updatePaymentTxAttemptFailure(
+        paymentId: string,
+        kind: PaymentTxKind,
+        attempt: number,
+        failure: PaymentTxFailure,
+        failureReason: string
+    ): Promise<void> {
         return new Promise<void>(async (resolve, reject) => {
-            this.queryForMapper("delegators", "removeDelegator", {
-                account,
+            this.queryForMapper("payment_tx_attempt", "updateFailure", {
+                paymentId,
+                kind,
+                attempt,
+                failure,
+                reason: failureReason,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    private static toPaymentTxAttempt(m: any): PaymentTxAttemptData {
+        return {
+            paymentId: m.paymentId,
+            kind: Number(m.kind),
+            attempt: Number(m.attempt),
+            txHash: m.txHash,
+            signature: m.signature,
+            confirm: m.confirm === "Y",
+            failure: Number(m.failure),
+            reason: m.reason,
+            maxFeePerGas: BigNumber.from(m.maxFeePerGas),
+            gasLimit: BigNumber.from(m.gasLimit),
+            timestamp: Number(m.timestamp),
+        };
+    }
+
+    /// endregion
+
+    // region Signer
+
+    /**
+     * 서명자의 다음 논스를 할당한다. 저장된 논스와 블록체인의 논스 중 큰 값이 사용된다.
+     */
+    public allocateSignerNonce(chainId: number, address: string, chainNonce: number): Promise<number> {
+        return new Promise<number>(async (resolve, reject) => {
+            this.queryForMapper("signer", "allocateNonce", {
+                chainId,
+                address,
+                chainNonce,
+                timestamp: ContractUtils.getTimeStamp(),
+            })
+                .then((result) => {
+                    return resolve(Number(result.rows[0].nonce));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 전송하지 못한 트랜잭션의 논스를 되돌린다. 이후에 다른 논스가 할당되었으면 되돌리지 않는다.
+     */
+    public releaseSignerNonce(chainId: number, address: string, nonce: number): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("signer", "releaseNonce", { chainId, address, nonce })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getSignerNonce(chainId: number, address: string): Promise<SignerNonceData | undefined> {
+        return new Promise<SignerNonceData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("signer", "getNonce", { chainId, address })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        const m = result.rows[0];
+                        return resolve({
+                            chainId: Number(m.chainId),
+                            address: hre.ethers.utils.getAddress(m.address),
+                            nonce: Number(m.nonce),
+                            timestamp: Number(m.timestamp),
+                        });
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public postSignerTransaction(item: SignerTxData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("signer", "postTransaction", RelayStorage.fromSignerTransaction(item))
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateSignerTransaction(item: SignerTxData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("signer", "updateTransaction", RelayStorage.fromSignerTransaction(item))
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 수수료를 올리거나 취소하여 교체된 트랜잭션의 해시를 결제와 상점작업에 반영한다
+     */
+    public replaceTxHash(oldTxId: string, newTxId: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            try {
+                await this.queryForMapper("payment", "replaceTxId", { oldTxId, newTxId });
+                await this.queryForMapper("task", "replaceTxId", { oldTxId, newTxId });
+                return resolve();
+            } catch (reason) {
+                if (reason instanceof Error) return reject(reason);
+                return reject(new Error(String(reason)));
+            }
+        });
+    }
+
+    /**
+     * 아직 블록에 포함되지 않은 트랜잭션들 (전송됨, 취소중)
+     */
+    public getSignerPendingTransactions(chainId: number, address: string): Promise<SignerTxData[]> {
+        return new Promise<SignerTxData[]>(async (resolve, reject) => {
+            this.queryForMapper("signer", "getPendingTransactions", {
+                chainId,
+                address,
+                status: [SignerTxStatus.PENDING, SignerTxStatus.CANCELLING],
             })
                 .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toSignerTransaction(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public postSignerTopUp(chainId: number, address: string, amount: BigNumber, txHash: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("signer", "postTopUp", {
+                chainId,
+                address,
+                amount: amount.toString(),
+                txHash,
+                timestamp: ContractUtils.getTimeStamp(),
+            })
+                .then(() => {
                     return resolve();
                 })
                 .catch((reason) => {
@@ -979,5 +1737,702 @@ export class RelayStorage extends Storage {
                 });
         });
     }
+
+    /**
+     * from 이후에 서명자들에게 충전한 금액의 합계
+     */
+    public getSignerTopUpAmount(chainId: number, from: number): Promise<BigNumber> {
+        return new Promise<BigNumber>(async (resolve, reject) => {
+            this.queryForMapper("signer", "getTopUpAmount", { chainId, from })
+                .then((result) => {
+                    return resolve(BigNumber.from(result.rows[0].amount));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 잔고가 부족하여 선택되지 않도록 제외된 서명자. 모든 릴레이가 같은 목록을 사용한다
+     */
+    public postSignerExclusion(chainId: number, address: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("signer", "postExclusion", {
+                chainId,
+                address,
+                timestamp: ContractUtils.getTimeStamp(),
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public removeSignerExclusion(chainId: number, address: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("signer", "removeExclusion", { chainId, address })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getSignerExclusions(): Promise<{ chainId: number; address: string }[]> {
+        return new Promise<{ chainId: number; address: string }[]>(async (resolve, reject) => {
+            this.queryForMapper("signer", "getExclusions", {})
+                .then((result) => {
+                    return resolve(
+                        result.rows.map((m) => {
+                            return { chainId: Number(m.chainId), address: m.address };
+                        })
+                    );
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    private static fromPayment(item: LoyaltyPaymentTaskData): any {
+        return {
+            paymentId: item.paymentId,
+            purchaseId: item.purchaseId,
+            amount: item.amount.toString(),
+            currency: item.currency,
+            shopId: item.shopId,
+            account: item.account,
+            secret: item.secret,
+            secretLock: item.secretLock,
+            paidPoint: item.paidPoint.toString(),
+            paidValue: item.paidValue.toString(),
+            feePoint: item.feePoint.toString(),
+            feeValue: item.feeValue.toString(),
+            totalPoint: item.totalPoint.toString(),
+            totalValue: item.totalValue.toString(),
+            useToken: item.useToken ? "Y" : "N",
+            usedPoint: item.usedPoint.toString(),
+            usedToken: item.usedToken.toString(),
+            cancelAmount: item.cancelAmount.toString(),
+            cancelPoint: item.cancelPoint.toString(),
+            cancelFeePoint: item.cancelFeePoint.toString(),
+            remainAmount: item.remainAmount.toString(),
+            remainPoint: item.remainPoint.toString(),
+            remainFeePoint: item.remainFeePoint.toString(),
+            paymentStatus: item.paymentStatus,
+            openNewTimestamp: item.openNewTimestamp,
+            closeNewTimestamp: item.closeNewTimestamp,
+            openCancelTimestamp: item.openCancelTimestamp,
+            closeCancelTimestamp: item.closeCancelTimestamp,
+            openNewTxId: item.openNewTxId,
+            openNewTxTime: item.openNewTxTime,
+            openCancelTxId: item.openCancelTxId,
+            openCancelTxTime: item.openCancelTxTime,
+            idempotencyKey: item.idempotencyKey,
+            requestHash: item.requestHash,
+            apiKeyId: item.apiKeyId,
+        };
+    }
+
+    private static fromSignerTransaction(item: SignerTxData): any {
+        return {
+            chainId: item.chainId,
+            address: item.address,
+            nonce: item.nonce,
+            txHash: item.txHash,
+            to: item.to,
+            data: item.data,
+            value: item.value.toString(),
+            gasLimit: item.gasLimit.toString(),
+            maxFeePerGas: item.maxFeePerGas.toString(),
+            maxPriorityFeePerGas: item.maxPriorityFeePerGas.toString(),
+            status: item.status,
+            speedUps: item.speedUps,
+            timestamp: item.timestamp,
+            updatedTimestamp: item.updatedTimestamp,
+        };
+    }
+
+    private static toSignerTransaction(m: any): SignerTxData {
+        return {
+            chainId: Number(m.chainId),
+            address: hre.ethers.utils.getAddress(m.address),
+            nonce: Number(m.nonce),
+            txHash: m.txHash,
+            to: m.to,
+            data: m.data,
+            value: BigNumber.from(m.value),
+            gasLimit: BigNumber.from(m.gasLimit),
+            maxFeePerGas: BigNumber.from(m.maxFeePerGas),
+            maxPriorityFeePerGas: BigNumber.from(m.maxPriorityFeePerGas),
+            status: Number(m.status),
+            speedUps: Number(m.speedUps),
+            timestamp: Number(m.timestamp),
+            updatedTimestamp: Number(m.updatedTimestamp),
+        };
+    }
+
+    /// endregion
+
+    // region Delegator
+    public async createDelegator(account: string, key: string): Promise<string> {
+        const wallet = hre.ethers.Wallet.createRandom();
+
+        return new Promise<string>(async (resolve, reject) => {
+            this.queryForMapper("delegators", "postDelegator", {
+                account: account.toLowerCase(),
+                delegator: wallet.address,
+                content: ContractUtils.encrypt(wallet.privateKey, key),
+            })
+                .then(() => {
+                    return resolve(wallet.address);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public hasDelegator(account: string): Promise<boolean> {
+        return new Promise<boolean>(async (resolve, reject) => {
+            this.queryForMapper("delegators", "getDelegator", {
+                account,
+            })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        return resolve(true);
+                    } else {
+                        return resolve(false);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getDelegator(account: string, key: string): Promise<Wallet | undefined> {
+        return new Promise<Wallet | undefined>(async (resolve, reject) => {
+            this.queryForMapper("delegators", "getDelegator", {
+                account,
+            })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        return resolve(new Wallet(ContractUtils.decrypt(result.rows[0].content, key)));
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public removeDelegator(account: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("delegators", "removeDelegator", {
+                account,
+            })
+                .then((result) => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+    /// endregion
+
+    /// region Reconciliation
+
+    public postReconciliationIssue(item: ReconciliationIssueData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("reconciliation", "postIssue", {
+                day: item.day,
+                paymentId: item.paymentId,
+                issueType: item.issueType,
+                source: item.source,
+                field: item.field,
+                expected: item.expected,
+                actual: item.actual,
+                timestamp: item.timestamp,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public removeReconciliationIssues(day: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("reconciliation", "removeIssues", { day })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getReconciliationIssues(day: string, issueType: string = ""): Promise<ReconciliationIssueData[]> {
+        return new Promise<ReconciliationIssueData[]>(async (resolve, reject) => {
+            this.queryForMapper("reconciliation", "getIssues", { day, issueType })
+                .then((result) => {
+                    return resolve(
+                        result.rows.map((m) => {
+                            return {
+                                day: m.day,
+                                paymentId: m.paymentId,
+                                issueType: m.issueType,
+                                source: m.source,
+                                field: m.field,
+                                expected: m.expected,
+                                actual: m.actual,
+                                timestamp: m.timestamp,
+                            };
+                        })
+                    );
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /**
+     * 불일치의 유형별 건수
+     */
+    public getReconciliationIssueCounts(day: string): Promise<Map<string, number>> {
+        return new Promise<Map<string, number>>(async (resolve, reject) => {
+            this.queryForMapper("reconciliation", "getIssueCounts", { day })
+                .then((result) => {
+                    const counts = new Map<string, number>();
+                    for (const m of result.rows) counts.set(m.issueType, Number(m.count));
+                    return resolve(counts);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public postReconciliationReport(item: ReconciliationReportData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("reconciliation", "postReport", {
+                day: item.day,
+                paymentCount: item.paymentCount,
+                issueCount: item.issueCount,
+                timestamp: item.timestamp,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getReconciliationReport(day: string): Promise<ReconciliationReportData | undefined> {
+        return new Promise<ReconciliationReportData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("reconciliation", "getReport", { day })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        const m = result.rows[0];
+                        return resolve({
+                            day: m.day,
+                            paymentCount: m.paymentCount,
+                            issueCount: m.issueCount,
+                            timestamp: m.timestamp,
+                        });
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    /// endregion
+
+    /// region Callback
+
+    private static toCallbackData(m: any): CallbackData {
+        return {
+            sequence: Number(m.sequence),
+            type: m.type,
+            code: m.code,
+            message: m.message,
+            data: JSON.parse(m.data),
+            status: m.status,
+            attempts: m.attempts,
+            nextTimestamp: m.nextTimestamp,
+            lastError: m.lastError,
+            timestamp: m.timestamp,
+            deliveredTimestamp: m.deliveredTimestamp,
+        };
+    }
+
+    public postCallback(
+        item: Pick<CallbackData, "type" | "code" | "message" | "data" | "nextTimestamp" | "timestamp">
+    ): Promise<CallbackData> {
+        return new Promise<CallbackData>(async (resolve, reject) => {
+            this.queryForMapper("callback", "postCallback", {
+                type: item.type,
+                code: item.code,
+                message: item.message,
+                data: JSON.stringify(item.data),
+                status: CallbackStatus.PENDING,
+                nextTimestamp: item.nextTimestamp,
+                timestamp: item.timestamp,
+            })
+                .then((result) => {
+                    return resolve(RelayStorage.toCallbackData(result.rows[0]));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getCallback(sequence: number): Promise<CallbackData | undefined> {
+        return new Promise<CallbackData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("callback", "getCallback", { sequence })
+                .then((result) => {
+                    if (result.rows.length > 0) {
+                        return resolve(RelayStorage.toCallbackData(result.rows[0]));
+                    } else {
+                        return resolve(undefined);
+                    }
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getCallbacksToRetry(timestamp: number, limit: number): Promise<CallbackData[]> {
+        return new Promise<CallbackData[]>(async (resolve, reject) => {
+            this.queryForMapper("callback", "getCallbacksToRetry", { timestamp, limit })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toCallbackData(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getUndeliveredCallbacks(
+        status: CallbackStatus[],
+        pageNumber: number,
+        pageSize: number
+    ): Promise<CallbackData[]> {
+        return new Promise<CallbackData[]>(async (resolve, reject) => {
+            this.queryForMapper("callback", "getUndeliveredCallbacks", { status, pageNumber, pageSize })
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toCallbackData(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getUndeliveredCallbacksPageInfo(status: CallbackStatus[], pageSize: number): Promise<IGraphPageInfo> {
+        return new Promise<IGraphPageInfo>(async (resolve, reject) => {
+            this.queryForMapper("callback", "getUndeliveredCallbacksPageInfo", { status, pageSize })
+                .then((result) => {
+                    const m = result.rows[0];
+                    return resolve({
+                        totalCount: Number(m.totalCount),
+                        totalPages: Number(m.totalPages),
+                    });
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateCallbackDelivered(sequence: number, attempts: number, deliveredTimestamp: number): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("callback", "updateDelivered", { sequence, attempts, deliveredTimestamp })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateCallbackFailed(
+        sequence: number,
+        status: CallbackStatus,
+        attempts: number,
+        nextTimestamp: number,
+        lastError: string
+    ): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("callback", "updateFailed", { sequence, status, attempts, nextTimestamp, lastError })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public resetCallback(sequence: number, nextTimestamp: number): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("callback", "resetCallback", { sequence, nextTimestamp })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+    /// endregion
+
+    /// region ApiKey
+
+    public postApiKey(item: ApiKeyData): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("apikey", "postKey", {
+                keyId: item.keyId,
+                name: item.name,
+                keyHash: item.keyHash,
+                scopes: item.scopes.join(","),
+                shops: item.shops.join(","),
+                expiresAt: item.expiresAt,
+                status: item.status,
+                rotatedFrom: item.rotatedFrom,
+                timestamp: item.timestamp,
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getApiKey(keyId: string): Promise<ApiKeyData | undefined> {
+        return new Promise<ApiKeyData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("apikey", "getKey", { keyId })
+                .then((result) => {
+                    if (result.rows.length > 0) return resolve(RelayStorage.toApiKey(result.rows[0]));
+                    else return resolve(undefined);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getApiKeyByHash(keyHash: string): Promise<ApiKeyData | undefined> {
+        return new Promise<ApiKeyData | undefined>(async (resolve, reject) => {
+            this.queryForMapper("apikey", "getKeyByHash", { keyHash })
+                .then((result) => {
+                    if (result.rows.length > 0) return resolve(RelayStorage.toApiKey(result.rows[0]));
+                    else return resolve(undefined);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getApiKeys(): Promise<ApiKeyData[]> {
+        return new Promise<ApiKeyData[]>(async (resolve, reject) => {
+            this.queryForMapper("apikey", "getKeys", {})
+                .then((result) => {
+                    return resolve(result.rows.map((m) => RelayStorage.toApiKey(m)));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateApiKeyStatus(keyId: string, status: ApiKeyStatus): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("apikey", "updateStatus", {
+                keyId,
+                status,
+                updatedTimestamp: ContractUtils.getTimeStamp(),
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public updateApiKeyExpiry(keyId: string, expiresAt: number): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("apikey", "updateExpiry", {
+                keyId,
+                expiresAt,
+                updatedTimestamp: ContractUtils.getTimeStamp(),
+            })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    private static toApiKey(m: any): ApiKeyData {
+        return {
+            keyId: m.keyId,
+            name: m.name,
+            keyHash: m.keyHash,
+            scopes: m.scopes === "" ? [] : m.scopes.split(",").map((s: string) => s as ApiKeyScope),
+            shops: m.shops === "" ? [] : m.shops.split(","),
+            expiresAt: Number(m.expiresAt),
+            status: Number(m.status),
+            rotatedFrom: m.rotatedFrom,
+            timestamp: Number(m.timestamp),
+            updatedTimestamp: Number(m.updatedTimestamp),
+        };
+    }
+    /// endregion
+
+    /// region RateLimit
+
+    /**
+     * 키의 요청수를 하나 증가시키고 windowStart 부터 시작하는 구간의 요청수를 반환한다
+     */
+    public consumeRateLimit(key: string, windowStart: number, expiresAt: number): Promise<number> {
+        return new Promise<number>(async (resolve, reject) => {
+            this.queryForMapper("ratelimit", "consume", { key, windowStart, expiresAt })
+                .then((result) => {
+                    return resolve(Number(result.rows[0].count));
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public deleteExpiredRateLimits(timestamp: number): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("ratelimit", "deleteExpired", { timestamp })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+    /// endregion
+
+    /// region SchedulerLease
+
+    /**
+     * 스케줄러의 임대를 가져오거나 leaseSecond 초 만큼 연장한다. 다른 소유자의 임대가 만료되지 않았으면 false 를 반환한다.
+     * 릴레이들의 시각이 달라도 같은 기준으로 판단하도록 임대의 만료는 데이터베이스의 시각으로 계산한다
+     */
+    public acquireSchedulerLease(name: string, owner: string, leaseSecond: number): Promise<boolean> {
+        return new Promise<boolean>(async (resolve, reject) => {
+            this.queryForMapper("lease", "acquire", { name, owner, leaseSecond })
+                .then((result) => {
+                    return resolve(result.rows.length > 0);
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public releaseSchedulerLease(name: string, owner: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            this.queryForMapper("lease", "release", { name, owner })
+                .then(() => {
+                    return resolve();
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
+
+    public getSchedulerLeases(): Promise<SchedulerLeaseData[]> {
+        return new Promise<SchedulerLeaseData[]>(async (resolve, reject) => {
+            this.queryForMapper("lease", "getLeases", {})
+                .then((result) => {
+                    return resolve(
+                        result.rows.map((m) => {
+                            return {
+                                name: m.name,
+                                owner: m.owner,
+                                expiresAt: Number(m.expiresAt),
+                                updatedTimestamp: Number(m.updatedTimestamp),
+                            };
+                        })
+                    );
+                })
+                .catch((reason) => {
+                    if (reason instanceof Error) return reject(reason);
+                    return reject(new Error(reason));
+                });
+        });
+    }
     /// endregion
 }
@@ -55,6 +55,68 @@ export class Storage {
         return this.pool.end();
     }
 
+    /**
+     * 데이터베이스에 연결할 수 있는지 확인한다
+     */
+    public ping(): Promise<void> {
+        return this.exec("SELECT 1;");
+    }
+
+    /**
+     * 채널에 알림을 발행한다. 알림은 같은 데이터베이스의 채널을 구독하는 모든 연결에 전달된다
+     */
+    public notify(channel: string, payload: string): Promise<void> {
+        return new Promise<void>(async (resolve, reject) => {
+            try {
+                await this.pool.query("SELECT pg_notify($1, $2);", [channel, payload]);
+                resolve();
+            } catch (err) {
+                return reject(err);
+            }
+        });
+    }
+
+    /**
+     * 채널을 구독하는 연결을 풀에서 가져오고, 구독을 해제하고 연결을 반환하는 함수를 반환한다.
+     * 연결에 오류가 발생하면 연결을 반환한 후 onError 가 호출된다
+     */
+    public async listen(
+        channel: string,
+        onNotify: (payload: string) => void,
+        onError: (error: Error) => void
+    ): Promise<() => Promise<void>> {
+        const client = await this.pool.connect();
+        let released = false;
+        const release = (error?: Error) => {
+            if (released) return;
+            released = true;
+            client.removeAllListeners("notification");
+            client.removeAllListeners("error");
+            client.release(error);
+        };
+        client.on("notification", (message: pg.Notification) => {
+            if (message.channel === channel && message.payload !== undefined) onNotify(message.payload);
+        });
+        client.on("error", (error: Error) => {
+            release(error);
+            onError(error);
+        });
+        try {
+            await client.query(`LISTEN "${channel}";`);
+        } catch (err) {
+            release(err as Error);
+            throw err;
+        }
+        return async () => {
+            if (released) return;
+            try {
+                await client.query(`UNLISTEN "${channel}";`);
+            } finally {
+                release();
+            }
+        };
+    }
+
     public queryForMapper<R extends QueryResultRow = any, I extends any[] = any[]>(
         namespace: string,
         sql_id: string,
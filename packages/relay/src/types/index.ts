@@ -34,6 +34,27 @@ export interface ContractLoyaltyPaymentEvent {
     totalValue: BigNumber;
     status: number;
     balance: BigNumber;
+    usedPoint?: BigNumber;
+    usedToken?: BigNumber;
+}
+
+export enum ContractLoyaltyCancelStatus {
+    INVALID,
+    OPENED,
+    CLOSED,
+    FAILED,
+}
+
+export interface ContractLoyaltyCancelEvent {
+    paymentId: string;
+    cancelValue: BigNumber;
+    cancelPoint: BigNumber;
+    cancelFeeValue: BigNumber;
+    cancelFeePoint: BigNumber;
+    remainValue: BigNumber;
+    cancelStatus: ContractLoyaltyCancelStatus;
+    status: number;
+    balance: BigNumber;
 }
 
 export interface ContractShopUpdateEvent {
@@ -88,6 +109,17 @@ export interface LoyaltyPaymentTaskData {
     totalPoint: BigNumber;
     totalValue: BigNumber;
 
+    useToken: boolean;
+    usedPoint: BigNumber;
+    usedToken: BigNumber;
+
+    cancelAmount: BigNumber;
+    cancelPoint: BigNumber;
+    cancelFeePoint: BigNumber;
+    remainAmount: BigNumber;
+    remainPoint: BigNumber;
+    remainFeePoint: BigNumber;
+
     paymentStatus: LoyaltyPaymentTaskStatus;
     contractStatus: ContractLoyaltyPaymentStatus;
 
@@ -100,6 +132,46 @@ export interface LoyaltyPaymentTaskData {
     openNewTxTime: number;
     openCancelTxId: string;
     openCancelTxTime: number;
+
+    idempotencyKey: string;
+    requestHash: string;
+    apiKeyId: string;
+}
+
+export enum PaymentEventActor {
+    KIOSK = "kiosk",
+    USER = "user",
+    SHOP = "shop",
+    SCHEDULER = "scheduler",
+}
+
+export interface PaymentEventData {
+    paymentId: string;
+    fromStatus: LoyaltyPaymentTaskStatus;
+    toStatus: LoyaltyPaymentTaskStatus;
+    actor: PaymentEventActor;
+    reason: string;
+    txHash: string;
+    timestamp: number;
+}
+
+/**
+ * 결제의 상태를 변경할 때 상태와 함께 저장되는 항목들
+ * amounts: 지불된 포인트, 수수료, 사용된 포인트와 토큰
+ * remain: 취소되지 않고 남은 금액과 포인트
+ * cancel: 요청된 취소 금액과 포인트
+ */
+export enum PaymentTransitionField {
+    AMOUNTS = "amounts",
+    REMAIN = "remain",
+    CANCEL = "cancel",
+    CONTRACT_STATUS = "contractStatus",
+    OPEN_NEW_TIMESTAMP = "openNewTimestamp",
+    CLOSE_NEW_TIMESTAMP = "closeNewTimestamp",
+    OPEN_CANCEL_TIMESTAMP = "openCancelTimestamp",
+    CLOSE_CANCEL_TIMESTAMP = "closeCancelTimestamp",
+    OPEN_NEW_TX = "openNewTx",
+    OPEN_CANCEL_TX = "openCancelTx",
 }
 
 export enum TaskResultType {
@@ -131,7 +203,15 @@ export interface PaymentResultData {
     feeValue: string;
     totalPoint: string;
     totalValue: string;
+    usedPoint?: string;
+    usedToken?: string;
     balance?: string;
+    cancelAmount?: string;
+    cancelPoint?: string;
+    cancelFeePoint?: string;
+    remainAmount?: string;
+    remainPoint?: string;
+    remainFeePoint?: string;
     paymentStatus?: LoyaltyPaymentTaskStatus;
     openNewTimestamp?: number;
     closeNewTimestamp?: number;
@@ -139,6 +219,290 @@ export interface PaymentResultData {
     closeCancelTimestamp?: number;
 }
 
+/**
+ * 결제 영수증, 금액은 소수점이하 18자리로 표시된 문자이다
+ */
+export interface PaymentReceiptData {
+    paymentId: string;
+    purchaseId: string;
+    shopId: string;
+    shopName: string;
+    account: string;
+    currency: string;
+    amount: string;
+    paidPoint: string;
+    paidValue: string;
+    feePoint: string;
+    feeValue: string;
+    totalPoint: string;
+    totalValue: string;
+    cancelAmount: string;
+    cancelPoint: string;
+    cancelFeePoint: string;
+    paymentStatus: LoyaltyPaymentTaskStatus;
+    openNewTxId: string;
+    openCancelTxId: string;
+    openNewTimestamp: number;
+    closeNewTimestamp: number;
+    openCancelTimestamp: number;
+    closeCancelTimestamp: number;
+}
+
+export interface SignedPaymentReceiptData {
+    domain: {
+        name: string;
+        version: string;
+        chainId: number;
+        verifyingContract: string;
+    };
+    receipt: PaymentReceiptData;
+    signer: string;
+    signature: string;
+}
+
+/**
+ * 임시주소로 결제하기 위한 QR 토큰의 내용
+ */
+export interface PaymentTokenPayload {
+    version: number;
+    tokenId: string;
+    temporaryAccount: string;
+    expiresAt: number;
+    signature: string;
+}
+
+/**
+ * 발급된 QR 토큰, 한번만 사용할 수 있다
+ */
+export interface PaymentTokenData {
+    tokenId: string;
+    account: string;
+    temporaryAccount: string;
+    expiresAt: number;
+    used: boolean;
+    usedTimestamp: number;
+    timestamp: number;
+}
+
+export enum PaymentRequestStatus {
+    OPENED = 0,
+    PAYING = 1,
+    PAID = 2,
+    CANCELLED = 3,
+    EXPIRED = 4,
+}
+
+/**
+ * 상점이 미리 만들어 두는 결제요청, 사용자는 링크를 열어 모바일 앱에서 결제한다
+ */
+export interface PaymentRequestData {
+    requestId: string;
+    shopId: string;
+    purchaseId: string;
+    amount: BigNumber;
+    currency: string;
+    description: string;
+    status: PaymentRequestStatus;
+    paymentId: string;
+    account: string;
+    expiresAt: number;
+    timestamp: number;
+    updatedTimestamp: number;
+    apiKeyId: string;
+}
+
+export enum PaymentTxKind {
+    OPEN_NEW = 0,
+    CLOSE_NEW = 1,
+}
+
+/**
+ * 트랜잭션의 실패 유형, NONE 은 전송된 트랜잭션이다
+ */
+export enum PaymentTxFailure {
+    NONE = 0,
+    NONCE_TOO_LOW = 1,
+    UNDERPRICED = 2,
+    OUT_OF_GAS = 3,
+    NETWORK = 4,
+    DROPPED = 5,
+    REVERTED = 6,
+    UNKNOWN = 7,
+}
+
+/**
+ * 결제의 트랜잭션을 전송한 시도, 재전송에 필요한 사용자의 서명과 종료 여부를 함께 기록한다
+ */
+export interface PaymentTxAttemptData {
+    paymentId: string;
+    kind: PaymentTxKind;
+    attempt: number;
+    txHash: string;
+    signature: string;
+    confirm: boolean;
+    failure: PaymentTxFailure;
+    reason: string;
+    maxFeePerGas: BigNumber;
+    gasLimit: BigNumber;
+    timestamp: number;
+}
+
+export enum SignerTxStatus {
+    PENDING = 0,
+    CONFIRMED = 1,
+    CANCELLING = 2,
+    CANCELLED = 3,
+}
+
+/**
+ * 릴레이의 서명자가 전송한 트랜잭션, 지연된 트랜잭션을 같은 논스로 교체하기 위해 내용을 함께 저장한다
+ */
+export interface SignerTxData {
+    chainId: number;
+    address: string;
+    nonce: number;
+    txHash: string;
+    to: string;
+    data: string;
+    value: BigNumber;
+    gasLimit: BigNumber;
+    maxFeePerGas: BigNumber;
+    maxPriorityFeePerGas: BigNumber;
+    status: SignerTxStatus;
+    speedUps: number;
+    timestamp: number;
+    updatedTimestamp: number;
+}
+
+/**
+ * 서명자별로 다음에 사용할 논스
+ */
+export interface SignerNonceData {
+    chainId: number;
+    address: string;
+    nonce: number;
+    timestamp: number;
+}
+
+export enum ApiKeyScope {
+    PAYMENT = "payment",
+    PURCHASE = "purchase",
+    NOTIFY = "notify",
+    ADMIN = "admin",
+}
+
+export enum ApiKeyStatus {
+    ACTIVE = 0,
+    REVOKED = 1,
+}
+
+export interface ApiKeyData {
+    keyId: string;
+    name: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    shops: string[];
+    expiresAt: number;
+    status: ApiKeyStatus;
+    rotatedFrom: string;
+    timestamp: number;
+    updatedTimestamp: number;
+}
+
+export interface SchedulerLeaseData {
+    name: string;
+    owner: string;
+    expiresAt: number;
+    updatedTimestamp: number;
+}
+
+export interface ShopPaymentFilter {
+    status: LoyaltyPaymentTaskStatus[];
+    from: number;
+    to: number;
+    account: string;
+    purchaseId: string;
+    currency: string;
+}
+
+/**
+ * 결제가 생성된 후에 바뀌지 않는 생성시간과 결제아이디로 페이지를 나눈다
+ */
+export interface ShopPaymentCursor {
+    createdTimestamp: number;
+    paymentId: string;
+}
+
+export interface ShopPaymentItem extends LoyaltyPaymentTaskData {
+    createdTimestamp: number;
+}
+
+export interface ShopPaymentTotal {
+    totalCount: number;
+    paidPoint: BigNumber;
+    paidValue: BigNumber;
+    feeValue: BigNumber;
+}
+
+export interface PaymentStatData {
+    count: number;
+    totalPoint: BigNumber;
+    lastTimestamp: number;
+}
+
+export enum ReconciliationIssueType {
+    MISSING_EVENT = "missing_event",
+    AMOUNT_MISMATCH = "amount_mismatch",
+    STATUS_DRIFT = "status_drift",
+}
+
+/**
+ * 불일치가 발견된 데이터의 출처
+ */
+export enum ReconciliationSource {
+    RELAY = "relay",
+    CONTRACT = "contract",
+    GRAPH = "graph",
+}
+
+export interface ReconciliationIssueData {
+    day: string;
+    paymentId: string;
+    issueType: ReconciliationIssueType;
+    source: ReconciliationSource;
+    field: string;
+    expected: string;
+    actual: string;
+    timestamp: number;
+}
+
+export interface ReconciliationReportData {
+    day: string;
+    paymentCount: number;
+    issueCount: number;
+    timestamp: number;
+}
+
+export enum CallbackStatus {
+    PENDING = 0,
+    DELIVERED = 1,
+    DEAD = 2,
+}
+
+export interface CallbackData {
+    sequence: number;
+    type: TaskResultType;
+    code: TaskResultCode;
+    message: string;
+    data: any;
+    status: CallbackStatus;
+    attempts: number;
+    nextTimestamp: number;
+    lastError: string;
+    timestamp: number;
+    deliveredTimestamp: number;
+}
+
 export enum ShopTaskStatus {
     NULL = 0,
     OPENED = 11,
@@ -164,6 +528,17 @@ export interface ShopTaskData {
     txTime: number;
 }
 
+/**
+ * 상점별로 적용되는 결제의 시간제한, 0 이면 설정파일의 값을 사용한다
+ */
+export interface ShopPolicyData {
+    shopId: string;
+    paymentTimeoutSecond: number;
+    approvalSecond: number;
+    forcedCloseSecond: number;
+    timestamp: number;
+}
+
 export interface IShopData {
     shopId: string;
     name: string;
@@ -202,6 +577,16 @@ export interface IGraphShopData {
     refundedAmount: BigNumber;
 }
 
+export interface IGraphLoyaltyPaymentEventData {
+    paymentId: string;
+    paidPoint: BigNumber;
+    paidValue: BigNumber;
+    feePoint: BigNumber;
+    feeValue: BigNumber;
+    status: ContractLoyaltyPaymentStatus;
+    blockTimestamp: number;
+}
+
 export interface IGraphPageInfo {
     totalCount: number;
     totalPages: number;
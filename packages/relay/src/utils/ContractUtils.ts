@@ -1,7 +1,7 @@
 // tslint:disable-next-line:no-implicit-dependencies
 import { defaultAbiCoder, Interface } from "@ethersproject/abi";
 // tslint:disable-next-line:no-implicit-dependencies
-import { Signer } from "@ethersproject/abstract-signer";
+import { Signer, TypedDataDomain, TypedDataField } from "@ethersproject/abstract-signer";
 // tslint:disable-next-line:no-implicit-dependencies
 import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
 // tslint:disable-next-line:no-implicit-dependencies
@@ -19,12 +19,14 @@ import { Log } from "@ethersproject/providers";
 // tslint:disable-next-line:no-implicit-dependencies
 import { randomBytes } from "@ethersproject/random";
 // tslint:disable-next-line:no-implicit-dependencies
-import { verifyMessage } from "@ethersproject/wallet";
+import { verifyMessage, verifyTypedData, Wallet } from "@ethersproject/wallet";
 
 import * as crypto from "crypto";
 
 import * as hre from "hardhat";
 
+import { PaymentReceiptData } from "../types";
+
 export enum LoyaltyNetworkID {
     ACC_TESTNET = 1,
     ACC_MAINNET = 2,
@@ -314,6 +316,117 @@ export class ContractUtils {
         );
         return arrayify(keccak256(encodedResult));
     }
+
+    /**
+     * 상점의 결제목록을 조회하기 위한 메세지, 트랜잭션에 사용되는 메세지와 구분하기 위해 문자열을 포함한다
+     */
+    public static getShopPaymentListMessage(
+        shopId: BytesLike,
+        account: string,
+        timestamp: BigNumberish,
+        chainId: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["string", "bytes32", "address", "uint256", "uint256"],
+            ["ShopPaymentList", shopId, account, chainId, timestamp]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
+    public static async signShopPaymentList(
+        signer: Signer,
+        shopId: BytesLike,
+        timestamp: BigNumberish,
+        chainId: BigNumberish
+    ): Promise<string> {
+        const message = ContractUtils.getShopPaymentListMessage(shopId, await signer.getAddress(), timestamp, chainId);
+        return signer.signMessage(message);
+    }
+
+    public static verifyShopPaymentList(
+        shopId: BytesLike,
+        account: string,
+        timestamp: BigNumberish,
+        signature: BytesLike,
+        chainId: BigNumberish
+    ): boolean {
+        const message = ContractUtils.getShopPaymentListMessage(shopId, account, timestamp, chainId);
+        let res: string;
+        try {
+            res = verifyMessage(message, signature);
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === account.toLowerCase();
+    }
+
+    /**
+     * 상점의 시간제한 정책을 변경하기 위한 메세지, 트랜잭션에 사용되는 메세지와 구분하기 위해 문자열을 포함한다
+     */
+    public static getShopPolicyMessage(
+        shopId: BytesLike,
+        paymentTimeoutSecond: BigNumberish,
+        approvalSecond: BigNumberish,
+        forcedCloseSecond: BigNumberish,
+        account: string,
+        timestamp: BigNumberish,
+        chainId: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["string", "bytes32", "uint256", "uint256", "uint256", "address", "uint256", "uint256"],
+            ["ShopPolicy", shopId, paymentTimeoutSecond, approvalSecond, forcedCloseSecond, account, chainId, timestamp]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
+    public static async signShopPolicy(
+        signer: Signer,
+        shopId: BytesLike,
+        paymentTimeoutSecond: BigNumberish,
+        approvalSecond: BigNumberish,
+        forcedCloseSecond: BigNumberish,
+        timestamp: BigNumberish,
+        chainId: BigNumberish
+    ): Promise<string> {
+        const message = ContractUtils.getShopPolicyMessage(
+            shopId,
+            paymentTimeoutSecond,
+            approvalSecond,
+            forcedCloseSecond,
+            await signer.getAddress(),
+            timestamp,
+            chainId
+        );
+        return signer.signMessage(message);
+    }
+
+    public static verifyShopPolicy(
+        shopId: BytesLike,
+        paymentTimeoutSecond: BigNumberish,
+        approvalSecond: BigNumberish,
+        forcedCloseSecond: BigNumberish,
+        account: string,
+        timestamp: BigNumberish,
+        signature: BytesLike,
+        chainId: BigNumberish
+    ): boolean {
+        const message = ContractUtils.getShopPolicyMessage(
+            shopId,
+            paymentTimeoutSecond,
+            approvalSecond,
+            forcedCloseSecond,
+            account,
+            timestamp,
+            chainId
+        );
+        let res: string;
+        try {
+            res = verifyMessage(message, signature);
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === account.toLowerCase();
+    }
     // endregion
 
     // region Ledger
@@ -443,6 +556,76 @@ export class ContractUtils {
         return res.toLowerCase() === account.toLowerCase();
     }
 
+    public static getLoyaltyNewMixedPaymentMessage(
+        address: string,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        nonce: BigNumberish,
+        chainId: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["bytes32", "string", "uint256", "string", "bytes32", "address", "bool", "uint256", "uint256"],
+            [paymentId, purchaseId, amount, currency, shopId, address, true, chainId, nonce]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
+    public static async signLoyaltyNewMixedPayment(
+        signer: Signer,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        nonce: BigNumberish,
+        chainId: BigNumberish
+    ): Promise<string> {
+        const message = ContractUtils.getLoyaltyNewMixedPaymentMessage(
+            await signer.getAddress(),
+            paymentId,
+            purchaseId,
+            amount,
+            currency,
+            shopId,
+            nonce,
+            chainId
+        );
+        return signer.signMessage(message);
+    }
+
+    public static verifyLoyaltyNewMixedPayment(
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        nonce: BigNumberish,
+        account: string,
+        signature: BytesLike,
+        chainId: BigNumberish
+    ): boolean {
+        const message = ContractUtils.getLoyaltyNewMixedPaymentMessage(
+            account,
+            paymentId,
+            purchaseId,
+            amount,
+            currency,
+            shopId,
+            nonce,
+            chainId
+        );
+        let res: string;
+        try {
+            res = verifyMessage(message, signature);
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === account.toLowerCase();
+    }
+
     public static getLoyaltyClosePaymentMessage(
         address: string,
         paymentId: string,
@@ -526,6 +709,66 @@ export class ContractUtils {
         return res.toLowerCase() === account.toLowerCase();
     }
 
+    public static getLoyaltyPartialCancelPaymentMessage(
+        address: string,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        nonce: BigNumberish,
+        chainId: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["bytes32", "string", "uint256", "address", "uint256", "uint256"],
+            [paymentId, purchaseId, amount, address, chainId, nonce]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
+    public static async signLoyaltyPartialCancelPayment(
+        signer: Signer,
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        nonce: BigNumberish,
+        chainId: BigNumberish
+    ): Promise<string> {
+        const message = ContractUtils.getLoyaltyPartialCancelPaymentMessage(
+            await signer.getAddress(),
+            paymentId,
+            purchaseId,
+            amount,
+            nonce,
+            chainId
+        );
+        return signer.signMessage(message);
+    }
+
+    public static verifyLoyaltyPartialCancelPayment(
+        paymentId: string,
+        purchaseId: string,
+        amount: BigNumberish,
+        nonce: BigNumberish,
+        account: string,
+        signature: BytesLike,
+        chainId: BigNumberish
+    ): boolean {
+        const message = ContractUtils.getLoyaltyPartialCancelPaymentMessage(
+            account,
+            paymentId,
+            purchaseId,
+            amount,
+            nonce,
+            chainId
+        );
+        let res: string;
+        try {
+            res = verifyMessage(message, signature);
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === account.toLowerCase();
+    }
+
     public static getPaymentId(account: string, nonce: BigNumberish): string {
         const encodedResult = defaultAbiCoder.encode(
             ["address", "uint256", "bytes32"],
@@ -810,6 +1053,139 @@ export class ContractUtils {
         return [secret, secretLock];
     }
 
+    public static getPaymentRequestHash(
+        purchaseId: string,
+        amount: BigNumberish,
+        currency: string,
+        shopId: string,
+        account: string
+    ): string {
+        const encodedResult = defaultAbiCoder.encode(
+            ["string", "uint256", "string", "bytes32", "string"],
+            [purchaseId, amount, currency.toLowerCase(), shopId, account.toLowerCase()]
+        );
+        return keccak256(encodedResult);
+    }
+
+    /**
+     * 콜백의 타임스탬프와 본문에 대한 HMAC-SHA256 서명
+     */
+    public static getCallbackSignature(secret: string, timestamp: number | string, body: string): string {
+        return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    }
+
+    /**
+     * 콜백의 서명 헤더에 포함된 서명 중 하나라도 secrets 중 하나로 생성된 것이면 유효하다
+     */
+    public static verifyCallbackSignature(
+        secrets: string[],
+        timestamp: number | string,
+        body: string,
+        signatureHeader: string,
+        toleranceSecond: number = 300
+    ): boolean {
+        if (Math.abs(ContractUtils.getTimeStamp() - Number(timestamp)) > toleranceSecond) return false;
+        const signatures = signatureHeader.split(",").map((m) => Buffer.from(m.trim(), "hex"));
+        for (const secret of secrets) {
+            const expected = Buffer.from(ContractUtils.getCallbackSignature(secret, timestamp, body), "hex");
+            for (const signature of signatures) {
+                if (signature.length === expected.length && crypto.timingSafeEqual(signature, expected)) return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * 결제 영수증에 서명하기 위한 EIP-712 도메인
+     */
+    public static getPaymentReceiptDomain(chainId: BigNumberish, verifyingContract: string): TypedDataDomain {
+        return {
+            name: "DMS Payment Receipt",
+            version: "1",
+            chainId,
+            verifyingContract,
+        };
+    }
+
+    public static readonly PAYMENT_RECEIPT_TYPES: Record<string, TypedDataField[]> = {
+        PaymentReceipt: [
+            { name: "paymentId", type: "bytes32" },
+            { name: "purchaseId", type: "string" },
+            { name: "shopId", type: "bytes32" },
+            { name: "shopName", type: "string" },
+            { name: "account", type: "address" },
+            { name: "currency", type: "string" },
+            { name: "amount", type: "uint256" },
+            { name: "paidPoint", type: "uint256" },
+            { name: "paidValue", type: "uint256" },
+            { name: "feePoint", type: "uint256" },
+            { name: "feeValue", type: "uint256" },
+            { name: "totalPoint", type: "uint256" },
+            { name: "totalValue", type: "uint256" },
+            { name: "cancelAmount", type: "uint256" },
+            { name: "cancelPoint", type: "uint256" },
+            { name: "cancelFeePoint", type: "uint256" },
+            { name: "paymentStatus", type: "uint256" },
+            { name: "openNewTxId", type: "string" },
+            { name: "openCancelTxId", type: "string" },
+            { name: "openNewTimestamp", type: "uint256" },
+            { name: "closeNewTimestamp", type: "uint256" },
+            { name: "openCancelTimestamp", type: "uint256" },
+            { name: "closeCancelTimestamp", type: "uint256" },
+        ],
+    };
+
+    public static async signPaymentReceipt(
+        signer: Wallet,
+        receipt: PaymentReceiptData,
+        chainId: BigNumberish,
+        verifyingContract: string
+    ): Promise<string> {
+        return signer._signTypedData(
+            ContractUtils.getPaymentReceiptDomain(chainId, verifyingContract),
+            ContractUtils.PAYMENT_RECEIPT_TYPES,
+            { ...receipt }
+        );
+    }
+
+    /**
+     * 영수증이 signer 에 의해 서명되었는지 검증한다
+     */
+    public static verifyPaymentReceipt(
+        receipt: PaymentReceiptData,
+        signature: BytesLike,
+        signer: string,
+        chainId: BigNumberish,
+        verifyingContract: string
+    ): boolean {
+        let res: string;
+        try {
+            res = verifyTypedData(
+                ContractUtils.getPaymentReceiptDomain(chainId, verifyingContract),
+                ContractUtils.PAYMENT_RECEIPT_TYPES,
+                { ...receipt },
+                signature
+            );
+        } catch (error) {
+            return false;
+        }
+        return res.toLowerCase() === signer.toLowerCase();
+    }
+
+    public static getPaymentTokenMessage(
+        version: number,
+        tokenId: string,
+        temporaryAccount: string,
+        expiresAt: number,
+        chainId: BigNumberish
+    ): Uint8Array {
+        const encodedResult = defaultAbiCoder.encode(
+            ["uint256", "bytes32", "address", "uint256", "uint256"],
+            [version, tokenId, temporaryAccount, expiresAt, chainId]
+        );
+        return arrayify(keccak256(encodedResult));
+    }
+
     public static getTemporaryAccount(): string {
         return hre.ethers.utils.getAddress("0xffffffff" + Buffer.from(randomBytes(12)).toString("hex") + "00000000");
     }
@@ -50,6 +50,7 @@ export class ResponseMessage {
         ["1532", "The status of the payment corresponding to the payment ID is not a cancellable condition"],
         ["1533", "The status of the payment corresponding to the payment ID is not being cancelled"],
         ["1534", "The period for cancellation of payment has expired"],
+        ["1535", "The cancellation amount exceeds the remaining amount of the payment"],
         ["1711", "Already Exist Deposit"],
         ["1712", "No Exist Withdraw"],
         ["1714", "The value entered is not an appropriate value"],
@@ -65,6 +66,7 @@ export class ResponseMessage {
         ["2006", "Can not found delegator"],
         ["2007", "The phone number format is invalid."],
         ["2008", "Mobile information not found."],
+        ["2009", "The idempotency key has already been used for a different request"],
         ["2020", "The status code for this payment cannot be approved"],
         ["2022", "The status code for this payment cannot be cancel"],
         ["2024", "The status code for this payment cannot process closing"],
@@ -75,7 +77,29 @@ export class ResponseMessage {
         ["2029", "This payment has forced to close"],
         ["2030", "This payment cannot be closed before it is approved"],
         ["2033", "The task ID is not exist"],
+        ["2034", "The status of this payment cannot be changed to the requested status"],
+        ["2035", "The callback is not exist"],
+        ["2036", "The timeouts of the shop policy are invalid"],
+        ["2037", "The receipt can only be issued for a closed payment"],
+        ["2038", "The reconciliation report is not exist"],
         ["2040", "The status code for this task cannot be approved"],
+        ["2041", "The payment token is malformed"],
+        ["2042", "The signature of the payment token is invalid"],
+        ["2043", "The payment token has expired"],
+        ["2044", "The payment token is not exist or has already been used"],
+        ["2045", "The payment request is not exist"],
+        ["2046", "This payment request cannot be paid"],
+        ["2047", "The payment request has expired"],
+        ["2048", "Only an open payment request can be cancelled"],
+        ["2049", "The API key does not have the required scope"],
+        ["2050", "The payment amount exceeds the maximum allowed"],
+        ["2051", "The number of payments of this account exceeds the limit"],
+        ["2052", "The payment amount of this account exceeds the limit"],
+        ["2053", "The payment amount of this shop exceeds the limit"],
+        ["2054", "The payment was requested too soon after the previous payment of this account"],
+        ["2055", "The API key is not allowed for this shop"],
+        ["2056", "The API key is not exist"],
+        ["2057", "Too many requests, please retry later"],
         ["3001", "Bridge functionality is not yet available"],
         ["3072", "The shopId is invalid"],
         ["4000", "Denied by user"],
@@ -84,7 +108,73 @@ export class ResponseMessage {
         ["7000", "Timeout period expired"],
     ]);
 
+    /**
+     * /v2 의 응답에 사용되는 HTTP 상태코드. 여기에 없는 코드는 getHttpStatus 에서 범위로 정한다
+     */
+    static statuses: Map<string, number> = new Map([
+        ["1030", 400],
+        ["1031", 400],
+        ["1160", 409],
+        ["1200", 409],
+        ["1201", 404],
+        ["1221", 409],
+        ["1501", 401],
+        ["1502", 404],
+        ["1505", 401],
+        ["1506", 401],
+        ["1521", 400],
+        ["1530", 409],
+        ["1711", 409],
+        ["1712", 404],
+        ["1714", 400],
+        ["1715", 409],
+        ["2002", 401],
+        ["2003", 404],
+        ["2004", 404],
+        ["2005", 422],
+        ["2006", 404],
+        ["2008", 404],
+        ["2009", 409],
+        ["2020", 409],
+        ["2022", 409],
+        ["2024", 409],
+        ["2025", 409],
+        ["2026", 409],
+        ["2027", 409],
+        ["2028", 409],
+        ["2029", 409],
+        ["2030", 409],
+        ["2033", 404],
+        ["2034", 409],
+        ["2035", 404],
+        ["2037", 422],
+        ["2038", 404],
+        ["2040", 409],
+        ["2042", 401],
+        ["2043", 422],
+        ["2044", 404],
+        ["2045", 404],
+        ["2046", 409],
+        ["2047", 422],
+        ["2048", 409],
+        ["2049", 403],
+        ["2050", 422],
+        ["2051", 422],
+        ["2052", 422],
+        ["2053", 422],
+        ["2054", 422],
+        ["2055", 403],
+        ["2056", 404],
+        ["2057", 429],
+        ["3001", 503],
+        ["6000", 500],
+        ["7000", 503],
+    ]);
+
     public static getEVMErrorMessage(error: any): { code: number; error: any } {
+        if (error instanceof PaymentTransitionError) {
+            return ResponseMessage.getErrorMessage("2034", { from: error.from, to: error.to });
+        }
         const code = ContractUtils.cacheEVMError(error);
         const message = ResponseMessage.messages.get(code);
         if (message !== undefined) {
@@ -116,4 +206,28 @@ export class ResponseMessage {
         }
         return { code: 9000, error: { message: "Unknown Error" } };
     }
+
+    public static getHttpStatus(code: number): number {
+        if (code === 0) return 200;
+        const status = ResponseMessage.statuses.get(String(code).padStart(4, "0"));
+        if (status !== undefined) return status;
+        if (code >= 1000 && code < 2000) return 422;
+        if (code >= 2000 && code < 4000) return 400;
+        if (code === 4000 || code === 5000) return 422;
+        return 500;
+    }
+}
+
+export class PaymentTransitionError extends Error {
+    public readonly paymentId: string;
+    public readonly from: number;
+    public readonly to: number;
+
+    constructor(paymentId: string, from: number, to: number) {
+        super(`The status of payment ${paymentId} cannot be changed from ${from} to ${to}`);
+        this.name = "PaymentTransitionError";
+        this.paymentId = paymentId;
+        this.from = from;
+        this.to = to;
+    }
 }
@@ -0,0 +1,104 @@
+import "@nomiclabs/hardhat-ethers";
+
+import { ApiKeyRegistry } from "../src/auth/ApiKeyRegistry";
+import { Config } from "../src/common/Config";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { ApiKeyScope, ApiKeyStatus } from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import path from "path";
+
+describe("Test for the API keys", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const shopId1 = "0x0001000000000000000000000000000000000000000000000000000000000001";
+    const shopId2 = "0x0001000000000000000000000000000000000000000000000000000000000002";
+
+    let storage: RelayStorage;
+    let registry: ApiKeyRegistry;
+
+    before("Create Storage", async () => {
+        storage = await RelayStorage.make(config.database);
+        registry = new ApiKeyRegistry(config, storage);
+    });
+
+    after("Drop Storage", async () => {
+        await storage.dropTestDB();
+    });
+
+    it("The master key has all scopes", async () => {
+        const identity = await registry.authenticate(config.relay.accessKey);
+        assert.ok(identity !== undefined);
+        assert.deepStrictEqual(identity.keyId, ApiKeyRegistry.MASTER_KEY_ID);
+        assert.deepStrictEqual(identity.scopes, ApiKeyRegistry.scopes);
+        assert.ok(ApiKeyRegistry.isShopAllowed(identity, shopId1));
+    });
+
+    it("Unknown keys are rejected", async () => {
+        assert.ok((await registry.authenticate(undefined)) === undefined);
+        assert.ok((await registry.authenticate("")) === undefined);
+        assert.ok((await registry.authenticate(ApiKeyRegistry.PREFIX + "00")) === undefined);
+    });
+
+    let keyId: string;
+    let key: string;
+
+    it("Issue a key restricted to a shop", async () => {
+        const issued = await registry.issue("kiosk", [ApiKeyScope.PAYMENT], [shopId1.toUpperCase()], 0);
+        keyId = issued.keyId;
+        key = issued.key;
+
+        const stored = await storage.getApiKey(keyId);
+        assert.ok(stored !== undefined);
+        assert.deepStrictEqual(stored.keyHash, ApiKeyRegistry.hash(key));
+        assert.deepStrictEqual(stored.scopes, [ApiKeyScope.PAYMENT]);
+        assert.deepStrictEqual(stored.shops, [shopId1.toLowerCase()]);
+
+        const identity = await registry.authenticate(key);
+        assert.ok(identity !== undefined);
+        assert.deepStrictEqual(identity.keyId, keyId);
+        assert.ok(identity.scopes.includes(ApiKeyScope.PAYMENT));
+        assert.ok(!identity.scopes.includes(ApiKeyScope.ADMIN));
+        assert.ok(ApiKeyRegistry.isShopAllowed(identity, shopId1));
+        assert.ok(!ApiKeyRegistry.isShopAllowed(identity, shopId2));
+    });
+
+    it("Expired keys are rejected", async () => {
+        const issued = await registry.issue("old", [ApiKeyScope.NOTIFY], [], ContractUtils.getTimeStamp() - 1);
+        assert.ok((await registry.authenticate(issued.key)) === undefined);
+    });
+
+    it("Rotate with a grace period", async () => {
+        const issued = await registry.rotate(keyId, 60);
+        assert.ok(issued !== undefined);
+        assert.notDeepStrictEqual(issued.key, key);
+        assert.deepStrictEqual(issued.shops, [shopId1.toLowerCase()]);
+        assert.deepStrictEqual((await storage.getApiKey(issued.keyId))?.rotatedFrom, keyId);
+
+        const old = await storage.getApiKey(keyId);
+        assert.ok(old !== undefined);
+        assert.ok(old.expiresAt > ContractUtils.getTimeStamp());
+        assert.ok((await registry.authenticate(key)) !== undefined);
+        assert.ok((await registry.authenticate(issued.key)) !== undefined);
+
+        const rotated = await registry.rotate(issued.keyId, 0);
+        assert.ok(rotated !== undefined);
+        assert.deepStrictEqual((await storage.getApiKey(issued.keyId))?.status, ApiKeyStatus.REVOKED);
+        assert.ok((await registry.authenticate(issued.key)) === undefined);
+        keyId = rotated.keyId;
+        key = rotated.key;
+    });
+
+    it("Revoke", async () => {
+        assert.ok(await registry.revoke(keyId));
+        assert.ok((await registry.authenticate(key)) === undefined);
+        assert.ok((await registry.rotate(keyId, 0)) === undefined);
+        assert.ok(!(await registry.revoke("key_0000000000000000")));
+
+        const keys = await registry.list();
+        assert.deepStrictEqual(keys.length, 4);
+    });
+});
@@ -0,0 +1,195 @@
+import "@nomiclabs/hardhat-ethers";
+import "@nomiclabs/hardhat-waffle";
+
+import { ApiKeyRegistry } from "../src/auth/ApiKeyRegistry";
+import { Config } from "../src/common/Config";
+import { ContractManager } from "../src/contract/ContractManager";
+import { GraphStorage } from "../src/storage/GraphStorage";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { ApiKeyScope, CallbackStatus, TaskResultCode, TaskResultType } from "../src/types";
+import { ContractUtils, LoyaltyNetworkID } from "../src/utils/ContractUtils";
+import { Deployments } from "./helper/Deployments";
+import { FakerCallbackServer } from "./helper/FakerCallbackServer";
+import { TestClient, TestServer } from "./helper/Utility";
+
+import assert from "assert";
+import path from "path";
+import URI from "urijs";
+import { URL } from "url";
+
+describe("Test for Callback Outbox", function () {
+    this.timeout(1000 * 60 * 5);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+    const deployments = new Deployments(config);
+
+    let client: TestClient;
+    let server: TestServer;
+    let storage: RelayStorage;
+    let serverURL: URL;
+    let fakerCallbackServer: FakerCallbackServer;
+
+    const paymentId = "0x9aa18cfb0df5e528f0415fb1aeea2b2454508655314bf58b91f96e4502b22828";
+    let sequence: number;
+
+    before("Deploy", async () => {
+        deployments.setShopData([]);
+        await deployments.doDeploy();
+    });
+
+    before("Create Config", async () => {
+        config.contracts.sideChain.tokenAddress = deployments.getContractAddress("TestLYT") || "";
+        config.contracts.sideChain.currencyRateAddress = deployments.getContractAddress("CurrencyRate") || "";
+        config.contracts.sideChain.phoneLinkerAddress = deployments.getContractAddress("PhoneLinkCollection") || "";
+        config.contracts.sideChain.ledgerAddress = deployments.getContractAddress("Ledger") || "";
+        config.contracts.sideChain.shopAddress = deployments.getContractAddress("Shop") || "";
+        config.contracts.sideChain.loyaltyProviderAddress = deployments.getContractAddress("LoyaltyProvider") || "";
+        config.contracts.sideChain.loyaltyConsumerAddress = deployments.getContractAddress("LoyaltyConsumer") || "";
+        config.contracts.sideChain.loyaltyExchangerAddress = deployments.getContractAddress("LoyaltyExchanger") || "";
+        config.contracts.sideChain.loyaltyTransferAddress = deployments.getContractAddress("LoyaltyTransfer") || "";
+        config.contracts.sideChain.loyaltyBridgeAddress = deployments.getContractAddress("LoyaltyBridge") || "";
+        config.contracts.sideChain.chainBridgeAddress = deployments.getContractAddress("SideChainBridge") || "";
+
+        config.contracts.mainChain.tokenAddress = deployments.getContractAddress("MainChainKIOS") || "";
+        config.contracts.mainChain.loyaltyBridgeAddress =
+            deployments.getContractAddress("MainChainLoyaltyBridge") || "";
+        config.contracts.mainChain.chainBridgeAddress = deployments.getContractAddress("MainChainBridge") || "";
+
+        config.relay.managerKeys = deployments.accounts.certifiers.map((m) => m.privateKey);
+        config.relay.callbackEndpoint = "http://127.0.0.1:3400/callback";
+        config.relay.relayEndpoint = `http://127.0.0.1:${config.server.port}`;
+        config.relay.callbackMaxAttempts = 2;
+        config.relay.callbackSecrets = ["new-callback-secret", "old-callback-secret"];
+
+        client = new TestClient({
+            headers: {
+                Authorization: config.relay.accessKey,
+            },
+        });
+    });
+
+    before("Create TestServer", async () => {
+        serverURL = new URL(`http://127.0.0.1:${config.server.port}`);
+
+        storage = await RelayStorage.make(config.database);
+        const graph_sidechain = await GraphStorage.make(config.graph_sidechain);
+        const graph_mainchain = await GraphStorage.make(config.graph_mainchain);
+        const contractManager = new ContractManager(config);
+        await contractManager.attach();
+        server = new TestServer(config, contractManager, storage, graph_sidechain, graph_mainchain);
+    });
+
+    before("Start TestServer", async () => {
+        await server.start();
+    });
+
+    after("Stop TestServer", async () => {
+        await server.stop();
+        await fakerCallbackServer.stop();
+        await storage.dropTestDB();
+    });
+
+    it("Send the result while the callback endpoint is not available", async () => {
+        await server.callbackOutbox.send(TaskResultType.NEW, TaskResultCode.SUCCESS, "Success", { paymentId });
+    });
+
+    it("Endpoint GET /v1/callback/pending", async () => {
+        const response = await client.get(
+            URI(serverURL).directory("/v1/callback").filename("pending").addQuery("status", "pending").toString()
+        );
+        assert.deepStrictEqual(response.data.code, 0);
+        assert.deepStrictEqual(response.data.data.pageInfo.totalCount, 1);
+        const item = response.data.data.items[0];
+        assert.deepStrictEqual(item.type, TaskResultType.NEW);
+        assert.deepStrictEqual(item.data.paymentId, paymentId);
+        assert.deepStrictEqual(item.status, CallbackStatus.PENDING);
+        assert.deepStrictEqual(item.attempts, 1);
+        assert.ok(item.lastError !== "");
+        sequence = item.sequence;
+    });
+
+    it("Reject the key without the admin scope", async () => {
+        const registry = new ApiKeyRegistry(config, storage);
+        const issued = await registry.issue(
+            "kiosk",
+            [ApiKeyScope.PAYMENT],
+            [ContractUtils.getShopId(deployments.accounts.shops[0].address, LoyaltyNetworkID.KIOS_TESTNET)],
+            0
+        );
+        const shopClient = new TestClient({
+            headers: {
+                Authorization: issued.key,
+            },
+        });
+
+        const response = await shopClient.get(
+            URI(serverURL).directory("/v1/callback").filename("pending").addQuery("status", "pending").toString()
+        );
+        assert.deepStrictEqual(response.data.code, 2049);
+
+        const response2 = await shopClient.post(
+            URI(serverURL).directory("/v1/callback").filename("replay").toString(),
+            { sequence }
+        );
+        assert.deepStrictEqual(response2.data.code, 2049);
+    });
+
+    it("Move to the dead letter when the maximum number of attempts is exceeded", async () => {
+        config.relay.callbackMaxAttempts = 1;
+        const response = await client.post(URI(serverURL).directory("/v1/callback").filename("replay").toString(), {
+            sequence,
+        });
+        assert.deepStrictEqual(response.data.code, 0);
+        assert.deepStrictEqual(response.data.data.status, CallbackStatus.DEAD);
+
+        const response2 = await client.get(
+            URI(serverURL).directory("/v1/callback").filename("pending").addQuery("status", "dead").toString()
+        );
+        assert.deepStrictEqual(response2.data.data.pageInfo.totalCount, 1);
+        assert.deepStrictEqual(response2.data.data.items[0].sequence, sequence);
+    });
+
+    it("Start CallbackServer", async () => {
+        fakerCallbackServer = new FakerCallbackServer(3400);
+        await fakerCallbackServer.start();
+    });
+
+    it("Endpoint POST /v1/callback/replay", async () => {
+        const response = await client.post(URI(serverURL).directory("/v1/callback").filename("replay").toString(), {
+            sequence,
+        });
+        assert.deepStrictEqual(response.data.code, 0);
+        assert.deepStrictEqual(response.data.data.status, CallbackStatus.DELIVERED);
+        assert.deepStrictEqual(fakerCallbackServer.responseData.length, 1);
+        assert.deepStrictEqual(fakerCallbackServer.responseData[0].type, TaskResultType.NEW);
+        assert.deepStrictEqual(fakerCallbackServer.responseData[0].data.paymentId, paymentId);
+
+        const response2 = await client.get(URI(serverURL).directory("/v1/callback").filename("pending").toString());
+        assert.deepStrictEqual(response2.data.data.pageInfo.totalCount, 0);
+    });
+
+    it("Verify the signature of the callback", async () => {
+        const request = fakerCallbackServer.rawRequests[0];
+        const timestamp = request.headers["x-callback-timestamp"] as string;
+        const signature = request.headers["x-callback-signature"] as string;
+        assert.deepStrictEqual(signature.split(",").length, 2);
+        assert.ok(ContractUtils.verifyCallbackSignature(["new-callback-secret"], timestamp, request.body, signature));
+        assert.ok(ContractUtils.verifyCallbackSignature(["old-callback-secret"], timestamp, request.body, signature));
+        assert.ok(!ContractUtils.verifyCallbackSignature(["wrong-secret"], timestamp, request.body, signature));
+        assert.ok(
+            !ContractUtils.verifyCallbackSignature(
+                ["new-callback-secret"],
+                timestamp,
+                request.body.replace("Success", "Failure"),
+                signature
+            )
+        );
+    });
+
+    it("Replay of the callback that does not exist", async () => {
+        const response = await client.post(URI(serverURL).directory("/v1/callback").filename("replay").toString(), {
+            sequence: sequence + 100,
+        });
+        assert.deepStrictEqual(response.data.code, 2035);
+    });
+});
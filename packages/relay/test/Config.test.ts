@@ -13,6 +13,7 @@ describe("Test of Config", () => {
         config.readFromFile(path.resolve("test", "config.test.yaml"));
         assert.strictEqual(config.server.address, "127.0.0.1");
         assert.strictEqual(config.server.port.toString(), "3000");
+        assert.strictEqual(config.server.trustProxy, false);
         assert.strictEqual(config.logging.level, "debug");
         assert.deepStrictEqual(config.relay.managerKeys, [
             "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
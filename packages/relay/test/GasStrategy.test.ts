@@ -0,0 +1,85 @@
+import "@nomiclabs/hardhat-ethers";
+
+import { Config, GasConfig } from "../src/common/Config";
+import { GasPriceManager } from "../src/contract/GasPriceManager";
+import { capGasFees, GasStrategyFactory } from "../src/contract/GasStrategy";
+
+import assert from "assert";
+import { BigNumber, ethers } from "ethers";
+import * as hre from "hardhat";
+import path from "path";
+
+describe("Test for the gas strategies", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const gwei = (value: string) => ethers.utils.parseUnits(value, "gwei");
+
+    it("Read the strategies of each chain", async () => {
+        assert.deepStrictEqual(config.gas.sideChain.strategy, "eip1559");
+        assert.deepStrictEqual(config.gas.mainChain.strategy, "feeHistory");
+        assert.deepStrictEqual(config.gas.mainChain.maxPriorityFeePerGas, "1.5");
+    });
+
+    it("Cap", async () => {
+        const fees = capGasFees({ maxFeePerGas: gwei("30"), maxPriorityFeePerGas: gwei("20") }, gwei("10"));
+        assert.deepStrictEqual(fees.maxFeePerGas, gwei("10"));
+        assert.deepStrictEqual(fees.maxPriorityFeePerGas, gwei("10"));
+        assert.ok(fees.gasPrice === undefined);
+    });
+
+    it("Fixed", async () => {
+        const strategy = GasStrategyFactory.create({
+            ...GasConfig.defaultStrategy(),
+            strategy: "fixed",
+            maxFeePerGas: "3",
+            maxPriorityFeePerGas: "2",
+        });
+        const fees = await strategy.getFees(hre.ethers.provider);
+        assert.deepStrictEqual(fees.maxFeePerGas, gwei("3"));
+        assert.deepStrictEqual(fees.maxPriorityFeePerGas, gwei("2"));
+    });
+
+    it("EIP-1559 multiplier", async () => {
+        const strategy = GasStrategyFactory.create({ ...GasConfig.defaultStrategy(), baseFeeMultiplier: 2 });
+        const block = await hre.ethers.provider.getBlock("latest");
+        const baseFeePerGas = block.baseFeePerGas || BigNumber.from(0);
+        const fees = await strategy.getFees(hre.ethers.provider);
+        assert.deepStrictEqual(fees.maxPriorityFeePerGas, gwei("1.5"));
+        assert.deepStrictEqual(fees.maxFeePerGas, baseFeePerGas.mul(2).add(gwei("1.5")));
+    });
+
+    it("Percentile over eth_feeHistory", async () => {
+        const strategy = GasStrategyFactory.create({ ...GasConfig.defaultStrategy(), strategy: "feeHistory" });
+        const fees = await strategy.getFees(hre.ethers.provider);
+        assert.ok(fees.maxPriorityFeePerGas.gte(gwei("1.5")));
+        assert.ok(fees.maxFeePerGas.gte(fees.maxPriorityFeePerGas));
+    });
+
+    it("Legacy gasPrice", async () => {
+        const strategy = GasStrategyFactory.create({
+            ...GasConfig.defaultStrategy(),
+            strategy: "legacy",
+            capFeePerGas: "0.000000001",
+        });
+        const fees = await strategy.getFees(hre.ethers.provider);
+        assert.deepStrictEqual(fees.gasPrice, BigNumber.from(1));
+    });
+
+    it("Use the strategy of the chain", async () => {
+        const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+        GasPriceManager.setStrategy(
+            chainId,
+            GasStrategyFactory.create({
+                ...GasConfig.defaultStrategy(),
+                strategy: "fixed",
+                maxFeePerGas: "5",
+                maxPriorityFeePerGas: "2",
+            })
+        );
+        const fees = await GasPriceManager.getFees(hre.ethers.provider);
+        assert.deepStrictEqual(fees.maxFeePerGas, gwei("5"));
+        GasPriceManager.setStrategy(chainId, GasStrategyFactory.create(config.gas.sideChain));
+    });
+});
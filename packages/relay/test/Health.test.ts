@@ -0,0 +1,172 @@
+import "@nomiclabs/hardhat-ethers";
+import "@nomiclabs/hardhat-waffle";
+
+import { Config } from "../src/common/Config";
+import { ContractManager } from "../src/contract/ContractManager";
+import { HealthChecker } from "../src/health/HealthChecker";
+import { GraphStorage } from "../src/storage/GraphStorage";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { Deployments } from "./helper/Deployments";
+import { TestClient, TestServer } from "./helper/Utility";
+
+import assert from "assert";
+import * as path from "path";
+import { URL } from "url";
+
+// tslint:disable-next-line:no-var-requires
+const URI = require("urijs");
+
+describe("Test for the health endpoints", function () {
+    this.timeout(1000 * 60 * 5);
+
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+    const contractManager = new ContractManager(config);
+    const deployments = new Deployments(config);
+    const client = new TestClient();
+
+    let server: TestServer;
+    let storage: RelayStorage;
+    let graph_sidechain: GraphStorage;
+    let graph_mainchain: GraphStorage;
+    let serverURL: URL;
+
+    before("Deploy", async () => {
+        deployments.setShopData([]);
+        await deployments.doDeploy();
+    });
+
+    before("Create Config", async () => {
+        config.contracts.sideChain.tokenAddress = deployments.getContractAddress("TestLYT") || "";
+        config.contracts.sideChain.currencyRateAddress = deployments.getContractAddress("CurrencyRate") || "";
+        config.contracts.sideChain.phoneLinkerAddress = deployments.getContractAddress("PhoneLinkCollection") || "";
+        config.contracts.sideChain.ledgerAddress = deployments.getContractAddress("Ledger") || "";
+        config.contracts.sideChain.shopAddress = deployments.getContractAddress("Shop") || "";
+        config.contracts.sideChain.loyaltyProviderAddress = deployments.getContractAddress("LoyaltyProvider") || "";
+        config.contracts.sideChain.loyaltyConsumerAddress = deployments.getContractAddress("LoyaltyConsumer") || "";
+        config.contracts.sideChain.loyaltyExchangerAddress = deployments.getContractAddress("LoyaltyExchanger") || "";
+        config.contracts.sideChain.loyaltyTransferAddress = deployments.getContractAddress("LoyaltyTransfer") || "";
+        config.contracts.sideChain.loyaltyBridgeAddress = deployments.getContractAddress("LoyaltyBridge") || "";
+        config.contracts.sideChain.chainBridgeAddress = deployments.getContractAddress("SideChainBridge") || "";
+
+        config.contracts.mainChain.tokenAddress = deployments.getContractAddress("MainChainKIOS") || "";
+        config.contracts.mainChain.loyaltyBridgeAddress =
+            deployments.getContractAddress("MainChainLoyaltyBridge") || "";
+        config.contracts.mainChain.chainBridgeAddress = deployments.getContractAddress("MainChainBridge") || "";
+
+        config.relay.managerKeys = deployments.accounts.certifiers.map((m) => m.privateKey);
+        config.relay.relayEndpoint = `http://127.0.0.1:${config.server.port}`;
+    });
+
+    before("Create TestServer", async () => {
+        serverURL = new URL(`http://127.0.0.1:${config.server.port}`);
+        storage = await RelayStorage.make(config.database);
+        graph_sidechain = await GraphStorage.make(config.graph_sidechain);
+        graph_mainchain = await GraphStorage.make(config.graph_mainchain);
+        await contractManager.attach();
+        server = new TestServer(config, contractManager, storage, graph_sidechain, graph_mainchain);
+        await server.start();
+    });
+
+    after("Stop TestServer", async () => {
+        await server.stop();
+        await storage.dropTestDB();
+    });
+
+    it("Summarize the status of the components", async () => {
+        assert.deepStrictEqual(
+            HealthChecker.summarize([
+                { status: "up", latencyMillis: 1 },
+                { status: "up", latencyMillis: 1 },
+            ]),
+            "up"
+        );
+        assert.deepStrictEqual(
+            HealthChecker.summarize([
+                { status: "up", latencyMillis: 1 },
+                { status: "degraded", latencyMillis: 2000 },
+            ]),
+            "degraded"
+        );
+        assert.deepStrictEqual(
+            HealthChecker.summarize([
+                { status: "degraded", latencyMillis: 2000 },
+                { status: "down", latencyMillis: 1 },
+            ]),
+            "down"
+        );
+    });
+
+    it("Liveness", async () => {
+        const response = await client.get(URI(serverURL).directory("health").filename("live").toString());
+        assert.deepStrictEqual(response.status, 200);
+        assert.deepStrictEqual(response.data.status, "up");
+        assert.ok(response.data.uptimeSecond >= 0);
+    });
+
+    it("Readiness", async () => {
+        const response = await client.get(URI(serverURL).directory("health").filename("ready").toString());
+        assert.deepStrictEqual(response.status, 200);
+        assert.deepStrictEqual(response.data.ready, true);
+        assert.deepStrictEqual(Object.keys(response.data.components), [
+            "database",
+            "graph_sidechain",
+            "graph_mainchain",
+            "sideChain",
+            "mainChain",
+            "signers",
+        ]);
+        for (const name of Object.keys(response.data.components)) {
+            assert.notDeepStrictEqual(response.data.components[name].status, "down");
+            assert.ok(response.data.components[name].latencyMillis >= 0);
+        }
+        const signers = response.data.components.signers.details[contractManager.sideChainId];
+        assert.deepStrictEqual(signers.total, config.relay.managerKeys.length);
+        assert.deepStrictEqual(signers.available, config.relay.managerKeys.length);
+    });
+
+    it("Not ready when all signers are excluded", async () => {
+        const checker = new HealthChecker(
+            config,
+            contractManager,
+            storage,
+            graph_sidechain,
+            graph_mainchain,
+            server.relaySigners,
+            server.leaderElector
+        );
+        for (const address of server.relaySigners.addresses)
+            await server.relaySigners.setExcluded(contractManager.sideChainId, address, true);
+
+        const report = await checker.check();
+        assert.deepStrictEqual(report.status, "down");
+        assert.deepStrictEqual(report.ready, false);
+        assert.deepStrictEqual(report.components.signers.status, "down");
+        assert.notDeepStrictEqual(report.components.database.status, "down");
+
+        for (const address of server.relaySigners.addresses)
+            await server.relaySigners.setExcluded(contractManager.sideChainId, address, false);
+        assert.deepStrictEqual((await checker.check()).ready, true);
+    });
+
+    it("Down when the check exceeds the timeout", async () => {
+        const checker = new HealthChecker(
+            config,
+            contractManager,
+            storage,
+            graph_sidechain,
+            graph_mainchain,
+            server.relaySigners,
+            server.leaderElector
+        );
+        const timeoutMillis = config.health.timeoutMillis;
+        config.health.timeoutMillis = 0;
+        try {
+            const report = await checker.check();
+            assert.deepStrictEqual(report.components.database.status, "down");
+            assert.ok(report.components.database.error?.includes("Timeout"));
+        } finally {
+            config.health.timeoutMillis = timeoutMillis;
+        }
+    });
+});
@@ -0,0 +1,123 @@
+import { Config } from "../src/common/Config";
+import { Metrics } from "../src/metrics/Metrics";
+import { LeaderElector } from "../src/scheduler/LeaderElector";
+import { Scheduler } from "../src/scheduler/Scheduler";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import path from "path";
+import { register } from "prom-client";
+
+describe("Test for the leader election of the schedulers", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+    config.leader.enable = true;
+    config.leader.leaseSecond = 2;
+    config.leader.schedulers = ["approval", "close"];
+
+    let storage: RelayStorage;
+    let elector1: LeaderElector;
+    let elector2: LeaderElector;
+    let metrics: Metrics;
+
+    const scheduler1 = new Scheduler("*/1 * * * * *");
+    const scheduler2 = new Scheduler("*/1 * * * * *");
+    const metricsScheduler = new Scheduler("*/1 * * * * *");
+
+    before("Create Storage", async () => {
+        storage = await RelayStorage.make(config.database);
+
+        register.clear();
+        metrics = new Metrics();
+        metrics.createGauge("scheduler_leader", "1 if this relay is the leader of the scheduler", ["scheduler"]);
+
+        config.leader.instanceId = "relay-1";
+        elector1 = new LeaderElector(config, storage);
+        elector1.setMetrics(metrics);
+        config.leader.instanceId = "relay-2";
+        elector2 = new LeaderElector(config, storage);
+    });
+
+    after("Drop Storage", async () => {
+        await storage.dropTestDB();
+    });
+
+    it("Register the schedulers", async () => {
+        assert.deepStrictEqual(elector1.register("approval", scheduler1), scheduler1);
+        elector1.register("metrics", metricsScheduler);
+        elector2.register("approval", scheduler2);
+
+        assert.deepStrictEqual(scheduler1.isLeader(), false);
+        assert.deepStrictEqual(scheduler2.isLeader(), false);
+        assert.deepStrictEqual(metricsScheduler.isLeader(), true);
+        assert.deepStrictEqual(elector1.getStatus(), {
+            enable: true,
+            instanceId: "relay-1",
+            schedulers: { approval: false },
+        });
+    });
+
+    it("Only one instance is the leader", async () => {
+        await elector1.elect();
+        await elector2.elect();
+        assert.deepStrictEqual(scheduler1.isLeader(), true);
+        assert.deepStrictEqual(scheduler2.isLeader(), false);
+
+        await elector1.elect();
+        await elector2.elect();
+        assert.deepStrictEqual(scheduler1.isLeader(), true);
+        assert.deepStrictEqual(scheduler2.isLeader(), false);
+
+        const leases = await storage.getSchedulerLeases();
+        assert.deepStrictEqual(leases.length, 1);
+        assert.deepStrictEqual(leases[0].name, "approval");
+        assert.deepStrictEqual(leases[0].owner, "relay-1");
+
+        assert.ok((await metrics.metrics()).includes(`scheduler_leader{scheduler="approval"} 1`));
+    });
+
+    it("Fail over when the lease expires", async () => {
+        await ContractUtils.delay((config.leader.leaseSecond + 1) * 1000);
+        assert.deepStrictEqual(scheduler1.isLeader(), false);
+
+        await elector2.elect();
+        assert.deepStrictEqual(scheduler2.isLeader(), true);
+        await elector1.elect();
+        assert.deepStrictEqual(scheduler1.isLeader(), false);
+        assert.ok((await metrics.metrics()).includes(`scheduler_leader{scheduler="approval"} 0`));
+    });
+
+    it("Fail over when the leader releases the lease", async () => {
+        await elector2.stop();
+        assert.deepStrictEqual(scheduler2.isLeader(), false);
+        assert.deepStrictEqual((await storage.getSchedulerLeases()).length, 0);
+
+        await elector1.elect();
+        assert.deepStrictEqual(scheduler1.isLeader(), true);
+        assert.deepStrictEqual(elector1.getStatus().schedulers, { approval: true });
+        await elector1.stop();
+    });
+
+    it("Every scheduler is the leader when the election is disabled", async () => {
+        const disabled = new Config();
+        disabled.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+        const elector = new LeaderElector(disabled, storage);
+        const scheduler = elector.register("approval", new Scheduler("*/1 * * * * *"));
+        assert.deepStrictEqual(scheduler.isLeader(), true);
+        assert.deepStrictEqual(elector.getStatus().schedulers, {});
+    });
+
+    it("The lease expires by the clock of the database", async () => {
+        assert.deepStrictEqual(await storage.acquireSchedulerLease("close", "relay-3", 60), true);
+        assert.deepStrictEqual(await storage.acquireSchedulerLease("close", "relay-4", 60), false);
+
+        const lease = (await storage.getSchedulerLeases()).find((m) => m.name === "close");
+        assert.ok(lease !== undefined);
+        assert.deepStrictEqual(lease.owner, "relay-3");
+        assert.deepStrictEqual(lease.expiresAt - lease.updatedTimestamp, 60);
+
+        await storage.releaseSchedulerLease("close", "relay-3");
+    });
+});
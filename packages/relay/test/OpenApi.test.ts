@@ -0,0 +1,139 @@
+import "@nomiclabs/hardhat-ethers";
+
+import { Config } from "../src/common/Config";
+import { Metrics } from "../src/metrics/Metrics";
+import { OpenApiBuilder } from "../src/openapi/OpenApiBuilder";
+import { OpenApiRouter } from "../src/routers/OpenApiRouter";
+import { ReconciliationRouter } from "../src/routers/ReconciliationRouter";
+import { WebService } from "../src/service/WebService";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { Validation } from "../src/validation";
+import { TestClient } from "./helper/Utility";
+
+import assert from "assert";
+import express from "express";
+import { body, header, param } from "express-validator";
+import path from "path";
+import { register } from "prom-client";
+import URI from "urijs";
+
+describe("Test for the OpenAPI document", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const port = 3922;
+    const service = new WebService(port);
+    const client = new TestClient();
+    const endpoint = `http://127.0.0.1:${port}`;
+
+    let storage: RelayStorage;
+
+    before("Start a server", async () => {
+        storage = await RelayStorage.make(config.database);
+        register.clear();
+        new ReconciliationRouter(service, config, new Metrics(), storage).registerRoutes();
+        service.app.post(
+            "/v1/sample/:account/item",
+            [
+                param("account").exists().trim().isEthereumAddress(),
+                body("amount").exists().custom(Validation.isAmount),
+                body("count").optional().isInt({ min: 1, max: 10 }),
+                body("shops").exists().isArray(),
+                body("shops.*")
+                    .trim()
+                    .matches(/^(0x)[0-9a-f]{64}$/i),
+                header("Idempotency-Key").optional().trim().isLength({ min: 1, max: 128 }),
+            ],
+            (req: express.Request, res: express.Response) => res.status(200).json({ code: 0, data: {} })
+        );
+        new OpenApiRouter(service, config).registerRoutes();
+        await service.start();
+    });
+
+    after("Stop the server", async () => {
+        service.server?.close();
+        await storage.dropTestDB();
+    });
+
+    it("Make the request schema from the validators", async () => {
+        const document = new OpenApiBuilder(config).build(service.app);
+        const operation = document.paths["/v1/sample/{account}/item"].post;
+        assert.ok(operation !== undefined);
+        assert.deepStrictEqual(operation.operationId, "postSampleItem");
+
+        const account = operation.parameters.find((m: any) => m.name === "account");
+        assert.deepStrictEqual(account.in, "path");
+        assert.deepStrictEqual(account.required, true);
+        assert.deepStrictEqual(account.schema.pattern, "^0x[0-9a-fA-F]{40}$");
+
+        const idempotencyKey = operation.parameters.find((m: any) => m.name === "Idempotency-Key");
+        assert.deepStrictEqual(idempotencyKey.in, "header");
+        assert.deepStrictEqual(idempotencyKey.required, false);
+        assert.deepStrictEqual(idempotencyKey.schema.maxLength, 128);
+
+        const schema = operation.requestBody.content["application/json"].schema;
+        assert.deepStrictEqual(schema.required, ["amount", "shops"]);
+        assert.deepStrictEqual(schema.properties.amount.pattern, "^[0-9]+$");
+        assert.deepStrictEqual(schema.properties.count.type, "integer");
+        assert.deepStrictEqual(schema.properties.count.minimum, 1);
+        assert.deepStrictEqual(schema.properties.count.maximum, 10);
+        assert.deepStrictEqual(schema.properties.shops.type, "array");
+        assert.deepStrictEqual(schema.properties.shops.items.pattern, "^(0x)[0-9a-fA-F]{64}$");
+
+        assert.deepStrictEqual(operation["x-error-codes"], [2001]);
+    });
+
+    it("Describe the routes with the route documents", async () => {
+        const document = new OpenApiBuilder(config).build(service.app);
+        const operation = document.paths["/v1/reconciliation/report"].get;
+        assert.ok(operation !== undefined);
+        assert.deepStrictEqual(operation.tags, ["Reconciliation"]);
+        assert.deepStrictEqual(operation.security, [{ ApiKey: [] }]);
+        assert.deepStrictEqual(operation["x-api-key-scope"], "admin");
+        assert.deepStrictEqual(operation["x-error-codes"], [2001, 2002, 2038, 2049]);
+
+        const day = operation.parameters.find((m: any) => m.name === "day");
+        assert.deepStrictEqual(day.in, "query");
+        assert.deepStrictEqual(day.required, true);
+        const issueType = operation.parameters.find((m: any) => m.name === "issueType");
+        assert.deepStrictEqual(issueType.required, false);
+        assert.deepStrictEqual(issueType.schema.enum, ["missing_event", "amount_mismatch", "status_drift"]);
+
+        const data = operation.responses["200"].content["application/json"].schema.properties.data;
+        assert.ok(data.properties.issueCount !== undefined);
+        assert.ok(document.components.schemas.ErrorCode.enum.includes(2038));
+    });
+
+    it("Serve the document", async () => {
+        const response = await client.get(URI(endpoint).filename("openapi.json").toString());
+        assert.deepStrictEqual(response.data.openapi, "3.0.3");
+        assert.ok(response.data.paths["/v1/reconciliation/report"] !== undefined);
+        assert.ok(response.data.paths["/openapi.json"] === undefined);
+    });
+
+    it("Serve the document of /v2 with the HTTP statuses", async () => {
+        const response = await client.get(URI(endpoint).filename("openapi.json").addQuery("version", "2").toString());
+        const operation = response.data.paths["/v2/reconciliation/report"].get;
+        assert.ok(operation !== undefined);
+        assert.deepStrictEqual(operation.responses["400"].content["application/json"].schema.properties.code.enum, [
+            2001,
+        ]);
+        assert.deepStrictEqual(operation.responses["401"].content["application/json"].schema.properties.code.enum, [
+            2002,
+        ]);
+        assert.deepStrictEqual(operation.responses["403"].content["application/json"].schema.properties.code.enum, [
+            2049,
+        ]);
+        assert.deepStrictEqual(operation.responses["404"].content["application/json"].schema.properties.code.enum, [
+            2038,
+        ]);
+    });
+
+    it("Serve the page of the document", async () => {
+        const response = await client.get(URI(endpoint).filename("docs").toString());
+        assert.ok(String(response.data).includes("/openapi.json?version=1"));
+        assert.ok(String(response.data).includes(`integrity="${OpenApiRouter.SWAGGER_UI_BUNDLE_INTEGRITY}"`));
+        assert.ok(String(response.data).includes(`integrity="${OpenApiRouter.SWAGGER_UI_CSS_INTEGRITY}"`));
+    });
+});
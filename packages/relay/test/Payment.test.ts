@@ -5,12 +5,14 @@ import { Amount } from "../src/common/Amount";
 import { Config } from "../src/common/Config";
 import { ContractManager } from "../src/contract/ContractManager";
 import { INotificationEventHandler } from "../src/delegator/NotificationSender";
+import { PaymentStateMachine } from "../src/payment/PaymentStateMachine";
 import { Scheduler } from "../src/scheduler/Scheduler";
 import { WatchScheduler } from "../src/scheduler/WatchScheduler";
 import { GraphStorage } from "../src/storage/GraphStorage";
 import { RelayStorage } from "../src/storage/RelayStorage";
-import { LoyaltyPaymentTaskStatus } from "../src/types";
+import { LoyaltyPaymentTaskStatus, PaymentEventActor } from "../src/types";
 import { ContractUtils, LoyaltyNetworkID } from "../src/utils/ContractUtils";
+import { PaymentTransitionError } from "../src/utils/Errors";
 import {
     BIP20DelegatedTransfer,
     CurrencyRate,
@@ -31,6 +33,7 @@ import { solidity } from "ethereum-waffle";
 
 import * as assert from "assert";
 import { BigNumber, Wallet } from "ethers";
+import * as http from "http";
 import * as path from "path";
 import { URL } from "url";
 
@@ -376,10 +379,45 @@ describe("Test of Server", function () {
                 assert.ok(response.data.data !== undefined);
 
                 assert.deepStrictEqual(response.data.data.account, users[purchase.userIndex].address);
+                assert.deepStrictEqual(response.data.data.usedPoint, response.data.data.totalPoint);
+                assert.deepStrictEqual(response.data.data.usedToken, "0");
 
                 paymentId = response.data.data.paymentId;
             });
 
+            it("Endpoint POST /v1/payment/new/open - retry with same request", async () => {
+                const url = URI(serverURL).directory("/v1/payment/new").filename("open").toString();
+
+                const params = {
+                    purchaseId: purchaseOfLoyalty.purchaseId,
+                    amount: amountOfLoyalty.toString(),
+                    currency: "krw",
+                    shopId: shopData[purchaseOfLoyalty.shopIndex].shopId,
+                    account: users[purchaseOfLoyalty.userIndex].address,
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.paymentId, paymentId);
+            });
+
+            it("Endpoint POST /v1/payment/new/open - retry with different request", async () => {
+                const url = URI(serverURL).directory("/v1/payment/new").filename("open").toString();
+
+                const params = {
+                    purchaseId: purchaseOfLoyalty.purchaseId,
+                    amount: amountOfLoyalty.add(Amount.make(1, 18).value).toString(),
+                    currency: "krw",
+                    shopId: shopData[purchaseOfLoyalty.shopIndex].shopId,
+                    account: users[purchaseOfLoyalty.userIndex].address,
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 2009);
+                assert.ok(response.data.error !== undefined);
+            });
+
             it("Endpoint POST /v1/payment/item", async () => {
                 const url = URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString();
                 const response = await client.get(url);
@@ -543,6 +581,29 @@ describe("Test of Server", function () {
                 assert.ok(response.data.error.message === "Invalid signature");
             });
 
+            let streamRequest: http.ClientRequest;
+            let streamText = "";
+            it("Endpoint GET /v1/payment/stream", async () => {
+                const url = URI(serverURL)
+                    .directory("/v1/payment")
+                    .filename("stream")
+                    .addQuery("paymentId", paymentId)
+                    .toString();
+                await new Promise<void>((resolve, reject) => {
+                    streamRequest = http.get(url, { headers: { Authorization: config.relay.accessKey } }, (res) => {
+                        assert.deepStrictEqual(res.headers["content-type"], "text/event-stream");
+                        res.setEncoding("utf8");
+                        res.on("data", (chunk: string) => {
+                            streamText += chunk;
+                            if (streamText.includes("\n\n")) resolve();
+                        });
+                    });
+                    streamRequest.on("error", reject);
+                });
+                assert.ok(streamText.startsWith("event: pay_new\n"));
+                assert.ok(streamText.includes(paymentId));
+            });
+
             it("Endpoint POST /v1/payment/new/approval", async () => {
                 const responseItem = await client.get(
                     URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
@@ -591,6 +652,18 @@ describe("Test of Server", function () {
                 assert.deepStrictEqual(fakerCallbackServer.responseData[1].code, 0);
             });
 
+            it("Check Stream", async () => {
+                streamRequest.destroy();
+                const events = streamText
+                    .split("\n\n")
+                    .filter((m) => m.startsWith("event: "))
+                    .map((m) => JSON.parse(m.split("\n")[1].substring("data: ".length)));
+                assert.ok(events.length >= 2);
+                const last = events[events.length - 1];
+                assert.deepStrictEqual(last.paymentId, paymentId);
+                assert.deepStrictEqual(last.paymentStatus, fakerCallbackServer.responseData[1].data.paymentStatus);
+            });
+
             it("Endpoint POST /v1/payment/new/approval", async () => {
                 const responseItem = await client.get(
                     URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
@@ -933,6 +1006,20 @@ describe("Test of Server", function () {
                 assert.deepStrictEqual(response.data.data.point.balance, pointAmount.sub(totalPoint).toString());
             });
 
+            it("The remain amounts of a payment saved before the upgrade are filled", async () => {
+                await storage.pool.query(
+                    `UPDATE payments SET "remainAmount" = '0', "remainPoint" = '0', "remainFeePoint" = '0' WHERE "paymentId" = $1`,
+                    [paymentId]
+                );
+                await storage.createTables();
+
+                const item = await storage.getPayment(paymentId);
+                assert.ok(item !== undefined);
+                assert.deepStrictEqual(item.remainAmount, item.paidValue);
+                assert.deepStrictEqual(item.remainPoint, item.paidPoint);
+                assert.deepStrictEqual(item.remainFeePoint, item.feePoint);
+            });
+
             it("Endpoint POST /v1/payment/cancel/open", async () => {
                 const url = URI(serverURL).directory("/v1/payment/cancel").filename("open").toString();
 
@@ -1029,6 +1116,640 @@ describe("Test of Server", function () {
                 );
             });
 
+            it("Endpoint GET /v1/payment/:paymentId/events", async () => {
+                const response = await client.get(
+                    URI(serverURL).directory(`/v1/payment/${paymentId}`).filename("events").toString()
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+
+                const events = response.data.data.events;
+                assert.ok(events.length > 0);
+                assert.deepStrictEqual(events[0].fromStatus, LoyaltyPaymentTaskStatus.NULL);
+                assert.deepStrictEqual(events[0].toStatus, LoyaltyPaymentTaskStatus.OPENED_NEW);
+                for (let idx = 1; idx < events.length; idx++) {
+                    assert.deepStrictEqual(events[idx].fromStatus, events[idx - 1].toStatus);
+                }
+                assert.deepStrictEqual(events[events.length - 1].toStatus, LoyaltyPaymentTaskStatus.CLOSED_CANCEL);
+                assert.ok(
+                    events.find(
+                        (m: any) => m.toStatus === LoyaltyPaymentTaskStatus.CLOSED_NEW && m.actor === "kiosk"
+                    ) !== undefined
+                );
+            });
+
+            it("A stale status is not changed and the event is not recorded", async () => {
+                const stateMachine = new PaymentStateMachine(storage);
+                const before = await storage.getPaymentEvents(paymentId);
+                const item = await storage.getPayment(paymentId);
+                assert.ok(item !== undefined);
+                item.paymentStatus = LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL;
+                await assert.rejects(
+                    stateMachine.transition(
+                        item,
+                        LoyaltyPaymentTaskStatus.FAILED_CANCEL,
+                        PaymentEventActor.KIOSK,
+                        "Rejected by kiosk"
+                    ),
+                    PaymentTransitionError
+                );
+
+                const payment = await storage.getPayment(paymentId);
+                assert.deepStrictEqual(payment?.paymentStatus, LoyaltyPaymentTaskStatus.CLOSED_CANCEL);
+                assert.deepStrictEqual((await storage.getPaymentEvents(paymentId)).length, before.length);
+            });
+
+            it("Endpoint GET /v1/payment/shop/:shopId", async () => {
+                const shopOfLoyalty = shopData[purchaseOfLoyalty.shopIndex];
+                const timestamp = ContractUtils.getTimeStamp();
+                const signature = await ContractUtils.signShopPaymentList(
+                    shopOfLoyalty.wallet,
+                    shopOfLoyalty.shopId,
+                    timestamp,
+                    contractManager.sideChainId
+                );
+                const response = await client.get(
+                    URI(serverURL)
+                        .directory("/v1/payment/shop")
+                        .filename(shopOfLoyalty.shopId)
+                        .addQuery("signer", shopOfLoyalty.wallet.address)
+                        .addQuery("timestamp", timestamp)
+                        .addQuery("signature", signature)
+                        .addQuery("status", `${LoyaltyPaymentTaskStatus.CLOSED_CANCEL}`)
+                        .addQuery("limit", 1)
+                        .toString()
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.total.totalCount, 1);
+                assert.deepStrictEqual(response.data.data.items.length, 1);
+                assert.deepStrictEqual(response.data.data.items[0].paymentId, paymentId);
+                assert.deepStrictEqual(response.data.data.total.paidPoint, "0");
+                assert.deepStrictEqual(response.data.data.total.paidValue, "0");
+                assert.deepStrictEqual(response.data.data.nextCursor, "");
+            });
+
+            it("Endpoint GET /v1/payment/shop/:shopId - signed by other account", async () => {
+                const shopOfLoyalty = shopData[purchaseOfLoyalty.shopIndex];
+                const wallet = users[purchaseOfLoyalty.userIndex];
+                const timestamp = ContractUtils.getTimeStamp();
+                const signature = await ContractUtils.signShopPaymentList(
+                    wallet,
+                    shopOfLoyalty.shopId,
+                    timestamp,
+                    contractManager.sideChainId
+                );
+                const response = await client.get(
+                    URI(serverURL)
+                        .directory("/v1/payment/shop")
+                        .filename(shopOfLoyalty.shopId)
+                        .addQuery("signer", wallet.address)
+                        .addQuery("timestamp", timestamp)
+                        .addQuery("signature", signature)
+                        .toString()
+                );
+
+                assert.deepStrictEqual(response.data.code, 1503);
+            });
+
+            it("Endpoint GET /v1/payment/:paymentId/receipt", async () => {
+                const response = await client.get(
+                    URI(serverURL).directory(`/v1/payment/${paymentId}`).filename("receipt").toString()
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                const signed = response.data.data;
+                assert.deepStrictEqual(signed.receipt.paymentId, paymentId);
+                assert.deepStrictEqual(signed.receipt.paymentStatus, LoyaltyPaymentTaskStatus.CLOSED_CANCEL);
+                assert.deepStrictEqual(signed.signer, new Wallet(config.relay.receiptKey).address);
+                assert.deepStrictEqual(signed.receipt.cancelAmount, signed.receipt.paidValue);
+                assert.deepStrictEqual(signed.receipt.cancelPoint, signed.receipt.paidPoint);
+                assert.ok(
+                    ContractUtils.verifyPaymentReceipt(
+                        signed.receipt,
+                        signed.signature,
+                        new Wallet(config.relay.receiptKey).address,
+                        contractManager.sideChainId,
+                        contractManager.sideLoyaltyConsumerContract.address
+                    )
+                );
+                assert.ok(
+                    !ContractUtils.verifyPaymentReceipt(
+                        { ...signed.receipt, totalPoint: "1" },
+                        signed.signature,
+                        signed.signer,
+                        contractManager.sideChainId,
+                        contractManager.sideLoyaltyConsumerContract.address
+                    )
+                );
+            });
+
+            it("Endpoint GET /v1/payment/:paymentId/receipt - html", async () => {
+                const response = await client.get(
+                    URI(serverURL)
+                        .directory(`/v1/payment/${paymentId}`)
+                        .filename("receipt")
+                        .addQuery("format", "html")
+                        .toString()
+                );
+
+                assert.ok(String(response.headers["content-type"]).includes("text/html"));
+                assert.ok(String(response.data).includes(paymentId));
+            });
+
+            it("Check user's balance", async () => {
+                const url = URI(serverURL)
+                    .directory("/v1/ledger/balance/account")
+                    .filename(users[purchase.userIndex].address)
+                    .toString();
+                const response = await client.get(url);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.point.balance, pointAmount.toString());
+            });
+        });
+    });
+
+    context("Test point relay endpoints - Partial Cancel", () => {
+        before("Set Shop ID", async () => {
+            for (const elem of shopData) {
+                elem.shopId = ContractUtils.getShopId(elem.wallet.address, LoyaltyNetworkID.KIOS_TESTNET);
+            }
+        });
+
+        before("Deploy", async () => {
+            deployments.setShopData(shopData);
+            await deployments.doDeploy();
+
+            validatorContract = deployments.getContract("Validator") as Validator;
+            tokenContract = deployments.getContract("TestLYT") as BIP20DelegatedTransfer;
+            ledgerContract = deployments.getContract("Ledger") as Ledger;
+            linkContract = deployments.getContract("PhoneLinkCollection") as PhoneLinkCollection;
+            consumerContract = deployments.getContract("LoyaltyConsumer") as LoyaltyConsumer;
+            providerContract = deployments.getContract("LoyaltyProvider") as LoyaltyProvider;
+            exchangerContract = deployments.getContract("LoyaltyExchanger") as LoyaltyExchanger;
+            currencyRateContract = deployments.getContract("CurrencyRate") as CurrencyRate;
+            shopContract = deployments.getContract("Shop") as Shop;
+        });
+
+        before("Create Config", async () => {
+            config.contracts.sideChain.tokenAddress = deployments.getContractAddress("TestLYT") || "";
+            config.contracts.sideChain.currencyRateAddress = deployments.getContractAddress("CurrencyRate") || "";
+            config.contracts.sideChain.phoneLinkerAddress = deployments.getContractAddress("PhoneLinkCollection") || "";
+            config.contracts.sideChain.ledgerAddress = deployments.getContractAddress("Ledger") || "";
+            config.contracts.sideChain.shopAddress = deployments.getContractAddress("Shop") || "";
+            config.contracts.sideChain.loyaltyProviderAddress = deployments.getContractAddress("LoyaltyProvider") || "";
+            config.contracts.sideChain.loyaltyConsumerAddress = deployments.getContractAddress("LoyaltyConsumer") || "";
+            config.contracts.sideChain.loyaltyExchangerAddress =
+                deployments.getContractAddress("LoyaltyExchanger") || "";
+            config.contracts.sideChain.loyaltyTransferAddress = deployments.getContractAddress("LoyaltyTransfer") || "";
+            config.contracts.sideChain.loyaltyBridgeAddress = deployments.getContractAddress("LoyaltyBridge") || "";
+            config.contracts.sideChain.chainBridgeAddress = deployments.getContractAddress("SideChainBridge") || "";
+
+            config.contracts.mainChain.tokenAddress = deployments.getContractAddress("MainChainKIOS") || "";
+            config.contracts.mainChain.loyaltyBridgeAddress =
+                deployments.getContractAddress("MainChainLoyaltyBridge") || "";
+            config.contracts.mainChain.chainBridgeAddress = deployments.getContractAddress("MainChainBridge") || "";
+
+            config.relay.managerKeys = deployments.accounts.certifiers.map((m) => m.privateKey);
+            config.relay.callbackEndpoint = "http://127.0.0.1:3400/callback";
+            config.relay.relayEndpoint = `http://127.0.0.1:${config.server.port}`;
+        });
+
+        before("Create TestServer", async () => {
+            serverURL = new URL(`http://127.0.0.1:${config.server.port}`);
+            storage = await RelayStorage.make(config.database);
+            const graph_sidechain = await GraphStorage.make(config.graph_sidechain);
+            const graph_mainchain = await GraphStorage.make(config.graph_mainchain);
+
+            const schedulers: Scheduler[] = [];
+            schedulers.push(new WatchScheduler(expression));
+            await contractManager.attach();
+            server = new TestServer(config, contractManager, storage, graph_sidechain, graph_mainchain, schedulers);
+        });
+
+        before("Start TestServer", async () => {
+            await server.start();
+        });
+
+        after("Stop TestServer", async () => {
+            await server.stop();
+            await storage.dropTestDB();
+        });
+
+        before("Start CallbackServer", async () => {
+            fakerCallbackServer = new FakerCallbackServer(3400);
+            await fakerCallbackServer.start();
+        });
+
+        after("Stop CallbackServer", async () => {
+            await fakerCallbackServer.stop();
+        });
+
+        context("Test of Loyalty Point", () => {
+            const purchase: IPurchaseData = {
+                purchaseId: getPurchaseId(),
+                amount: 10000,
+                providePercent: 10,
+                currency: "krw",
+                shopIndex: 1,
+                userIndex: 0,
+            };
+
+            const purchaseAmount = Amount.make(purchase.amount, 18).value;
+            const shop = shopData[purchase.shopIndex];
+            const pointAmount = ContractUtils.zeroGWEI(purchaseAmount.mul(purchase.providePercent).div(100));
+
+            const purchaseOfLoyalty: IPurchaseData = {
+                purchaseId: getPurchaseId(),
+                amount: 10,
+                providePercent: 10,
+                currency: "krw",
+                shopIndex: 1,
+                userIndex: 0,
+            };
+            const amountOfLoyalty = Amount.make(purchaseOfLoyalty.amount, 18).value;
+            const amountOfCancel = Amount.make(4, 18).value;
+            let totalPoint: BigNumber;
+
+            it("Save Purchase Data", async () => {
+                const phoneHash = ContractUtils.getPhoneHash(userData[purchase.userIndex].phone);
+                const userAccount =
+                    userData[purchase.userIndex].address.trim() !== ""
+                        ? userData[purchase.userIndex].address.trim()
+                        : AddressZero;
+                const purchaseParam = {
+                    purchaseId: purchase.purchaseId,
+                    amount: purchaseAmount,
+                    loyalty: pointAmount,
+                    currency: purchase.currency.toLowerCase(),
+                    shopId: shop.shopId,
+                    account: userAccount,
+                    phone: phoneHash,
+                    sender: deployments.accounts.system.address,
+                    signature: "",
+                };
+                purchaseParam.signature = await ContractUtils.getPurchaseSignature(
+                    deployments.accounts.system,
+                    purchaseParam,
+                    contractManager.sideChainId
+                );
+                const purchaseMessage = ContractUtils.getPurchasesMessage(
+                    0,
+                    [purchaseParam],
+                    contractManager.sideChainId
+                );
+                const signatures = await Promise.all(
+                    deployments.accounts.validators.map((m) => ContractUtils.signMessage(m, purchaseMessage))
+                );
+                const proposeMessage = ContractUtils.getPurchasesProposeMessage(
+                    0,
+                    [purchaseParam],
+                    signatures,
+                    contractManager.sideChainId
+                );
+                const proposerSignature = await ContractUtils.signMessage(
+                    deployments.accounts.validators[0],
+                    proposeMessage
+                );
+                await expect(
+                    providerContract
+                        .connect(deployments.accounts.certifiers[0])
+                        .savePurchase(0, [purchaseParam], signatures, proposerSignature)
+                )
+                    .to.emit(providerContract, "SavedPurchase")
+                    .withNamedArgs({
+                        purchaseId: purchase.purchaseId,
+                        amount: purchaseAmount,
+                        loyalty: pointAmount,
+                        currency: purchase.currency.toLowerCase(),
+                        shopId: shop.shopId,
+                        account: userAccount,
+                        phone: phoneHash,
+                    })
+                    .emit(ledgerContract, "ProvidedPoint")
+                    .withNamedArgs({
+                        account: userAccount,
+                        providedPoint: pointAmount,
+                        providedValue: pointAmount,
+                        purchaseId: purchase.purchaseId,
+                        shopId: shop.shopId,
+                    });
+            });
+
+            it("Get user's balance", async () => {
+                const url = URI(serverURL)
+                    .directory("/v1/ledger/balance/account")
+                    .filename(users[purchase.userIndex].address)
+                    .toString();
+                const response = await client.get(url);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.point.balance, pointAmount.toString());
+            });
+
+            it("Endpoint POST /v1/payment/info", async () => {
+                const amount2 = Amount.make(1, 18).value;
+                const url = URI(serverURL)
+                    .directory("/v1/payment/info")
+                    .addQuery("account", users[purchase.userIndex].address)
+                    .addQuery("amount", amount2.toString())
+                    .addQuery("currency", "USD")
+                    .toString();
+                const response = await client.get(url);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+
+                assert.deepStrictEqual(response.data.data.account, users[purchase.userIndex].address);
+                assert.deepStrictEqual(response.data.data.balance, pointAmount.toString());
+                assert.deepStrictEqual(response.data.data.paidPoint, Amount.make(1000).toString());
+                assert.deepStrictEqual(response.data.data.feePoint, Amount.make(50).toString());
+                assert.deepStrictEqual(response.data.data.totalPoint, Amount.make(1050).toString());
+                assert.deepStrictEqual(response.data.data.amount, Amount.make(1).toString());
+                assert.deepStrictEqual(response.data.data.currency, "usd");
+                assert.deepStrictEqual(response.data.data.feeRate, 0.05);
+            });
+
+            let paymentId: string;
+            it("Endpoint POST /v1/payment/new/open", async () => {
+                const url = URI(serverURL).directory("/v1/payment/new").filename("open").toString();
+
+                const params = {
+                    purchaseId: purchaseOfLoyalty.purchaseId,
+                    amount: amountOfLoyalty.toString(),
+                    currency: "krw",
+                    shopId: shopData[purchaseOfLoyalty.shopIndex].shopId,
+                    account: users[purchaseOfLoyalty.userIndex].address,
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+
+                assert.deepStrictEqual(response.data.data.account, users[purchase.userIndex].address);
+
+                paymentId = response.data.data.paymentId;
+            });
+
+            it("Endpoint POST /v1/payment/new/approval", async () => {
+                const responseItem = await client.get(
+                    URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
+                );
+                const nonce = await ledgerContract.nonceOf(users[purchaseOfLoyalty.userIndex].address);
+                const signature = await ContractUtils.signLoyaltyNewPayment(
+                    users[purchaseOfLoyalty.userIndex],
+                    paymentId,
+                    responseItem.data.data.purchaseId,
+                    responseItem.data.data.amount,
+                    responseItem.data.data.currency,
+                    responseItem.data.data.shopId,
+                    nonce,
+                    contractManager.sideChainId
+                );
+
+                const response = await client.post(
+                    URI(serverURL).directory("/v1/payment/new").filename("approval").toString(),
+                    {
+                        paymentId,
+                        approval: true,
+                        signature,
+                    }
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.ok(response.data.data.txHash !== undefined);
+                assert.deepStrictEqual(response.data.data.paymentStatus, LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX);
+            });
+
+            it("...Waiting", async () => {
+                const t1 = ContractUtils.getTimeStamp();
+                while (true) {
+                    const responseItem = await client.get(
+                        URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
+                    );
+                    if (responseItem.data.data.paymentStatus === LoyaltyPaymentTaskStatus.REPLY_COMPLETED_NEW) break;
+                    else if (ContractUtils.getTimeStamp() - t1 > 60) break;
+                    await ContractUtils.delay(1000);
+                }
+            });
+
+            it("Endpoint POST /v1/payment/new/close", async () => {
+                const response = await client.post(
+                    URI(serverURL).directory("/v1/payment/new").filename("close").toString(),
+                    {
+                        confirm: true,
+                        paymentId,
+                    }
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.paymentStatus, LoyaltyPaymentTaskStatus.CLOSED_NEW);
+                totalPoint = BigNumber.from(response.data.data.totalPoint);
+            });
+
+            it("Waiting", async () => {
+                await ContractUtils.delay(2000);
+            });
+
+            it("Check user's balance", async () => {
+                const url = URI(serverURL)
+                    .directory("/v1/ledger/balance/account")
+                    .filename(users[purchase.userIndex].address)
+                    .toString();
+                const response = await client.get(url);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.point.balance, pointAmount.sub(totalPoint).toString());
+            });
+
+            it("Endpoint POST /v1/payment/cancel/open - too much amount", async () => {
+                const url = URI(serverURL).directory("/v1/payment/cancel").filename("open").toString();
+
+                const params = {
+                    paymentId,
+                    amount: amountOfLoyalty.add(1).toString(),
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 1535);
+            });
+
+            it("Endpoint POST /v1/payment/cancel/open - partial", async () => {
+                const url = URI(serverURL).directory("/v1/payment/cancel").filename("open").toString();
+
+                const params = {
+                    paymentId,
+                    amount: amountOfCancel.toString(),
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+
+                assert.deepStrictEqual(response.data.data.paymentId, paymentId);
+                assert.deepStrictEqual(response.data.data.cancelAmount, amountOfCancel.toString());
+                assert.deepStrictEqual(response.data.data.remainAmount, amountOfLoyalty.toString());
+                assert.deepStrictEqual(response.data.data.paymentStatus, LoyaltyPaymentTaskStatus.OPENED_CANCEL);
+            });
+
+            let oldBalance: BigNumber;
+            let oldShopInfo: any;
+
+            it("Endpoint POST /v1/payment/cancel/approval - partial", async () => {
+                const responseItem = await client.get(
+                    URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
+                );
+                oldBalance = await ledgerContract.pointBalanceOf(responseItem.data.data.account);
+                oldShopInfo = await shopContract.shopOf(responseItem.data.data.shopId);
+
+                const nonce = await ledgerContract.nonceOf(shopData[purchaseOfLoyalty.shopIndex].wallet.address);
+                const signature = await ContractUtils.signLoyaltyPartialCancelPayment(
+                    shopData[purchaseOfLoyalty.shopIndex].wallet,
+                    paymentId,
+                    responseItem.data.data.purchaseId,
+                    responseItem.data.data.cancelAmount,
+                    nonce,
+                    contractManager.sideChainId
+                );
+
+                const url = URI(serverURL).directory("/v1/payment/cancel").filename("approval").toString();
+                const params = {
+                    paymentId,
+                    approval: true,
+                    signature,
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.ok(response.data.data.txHash !== undefined);
+                assert.deepStrictEqual(
+                    response.data.data.paymentStatus,
+                    LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX
+                );
+            });
+
+            it("...Waiting", async () => {
+                const t1 = ContractUtils.getTimeStamp();
+                while (true) {
+                    const responseItem = await client.get(
+                        URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
+                    );
+                    if (responseItem.data.data.paymentStatus === LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL) break;
+                    else if (ContractUtils.getTimeStamp() - t1 > 60) break;
+                    await ContractUtils.delay(1000);
+                }
+            });
+
+            it("Endpoint POST /v1/payment/cancel/close - partial", async () => {
+                const response = await client.post(
+                    URI(serverURL).directory("/v1/payment/cancel").filename("close").toString(),
+                    {
+                        confirm: true,
+                        paymentId,
+                    }
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.paymentStatus, LoyaltyPaymentTaskStatus.CLOSED_NEW);
+                assert.deepStrictEqual(response.data.data.remainAmount, amountOfLoyalty.sub(amountOfCancel).toString());
+
+                const cancelPoint = BigNumber.from(response.data.data.cancelPoint);
+                const cancelFeePoint = BigNumber.from(response.data.data.cancelFeePoint);
+                const newBalance = await ledgerContract.pointBalanceOf(users[purchaseOfLoyalty.userIndex].address);
+                assert.deepStrictEqual(newBalance, oldBalance.add(cancelPoint).add(cancelFeePoint));
+
+                const newShopInfo = await shopContract.shopOf(response.data.data.shopId);
+                assert.deepStrictEqual(newShopInfo.usedAmount, oldShopInfo.usedAmount.sub(cancelPoint));
+
+                assert.deepStrictEqual(
+                    await consumerContract.cancellableValueOf(paymentId),
+                    amountOfLoyalty.sub(amountOfCancel)
+                );
+            });
+
+            it("Endpoint POST /v1/payment/cancel/open - remaining", async () => {
+                const url = URI(serverURL).directory("/v1/payment/cancel").filename("open").toString();
+
+                const params = {
+                    paymentId,
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.cancelAmount, amountOfLoyalty.sub(amountOfCancel).toString());
+                assert.deepStrictEqual(response.data.data.paymentStatus, LoyaltyPaymentTaskStatus.OPENED_CANCEL);
+            });
+
+            it("Endpoint POST /v1/payment/cancel/approval - remaining", async () => {
+                const responseItem = await client.get(
+                    URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
+                );
+
+                const nonce = await ledgerContract.nonceOf(shopData[purchaseOfLoyalty.shopIndex].wallet.address);
+                const signature = await ContractUtils.signLoyaltyPartialCancelPayment(
+                    shopData[purchaseOfLoyalty.shopIndex].wallet,
+                    paymentId,
+                    responseItem.data.data.purchaseId,
+                    responseItem.data.data.cancelAmount,
+                    nonce,
+                    contractManager.sideChainId
+                );
+
+                const url = URI(serverURL).directory("/v1/payment/cancel").filename("approval").toString();
+                const params = {
+                    paymentId,
+                    approval: true,
+                    signature,
+                };
+                const response = await client.post(url, params);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(
+                    response.data.data.paymentStatus,
+                    LoyaltyPaymentTaskStatus.APPROVED_CANCEL_SENT_TX
+                );
+            });
+
+            it("...Waiting", async () => {
+                const t1 = ContractUtils.getTimeStamp();
+                while (true) {
+                    const responseItem = await client.get(
+                        URI(serverURL).directory("/v1/payment/item").addQuery("paymentId", paymentId).toString()
+                    );
+                    if (responseItem.data.data.paymentStatus === LoyaltyPaymentTaskStatus.REPLY_COMPLETED_CANCEL) break;
+                    else if (ContractUtils.getTimeStamp() - t1 > 60) break;
+                    await ContractUtils.delay(1000);
+                }
+            });
+
+            it("Endpoint POST /v1/payment/cancel/close - remaining", async () => {
+                const response = await client.post(
+                    URI(serverURL).directory("/v1/payment/cancel").filename("close").toString(),
+                    {
+                        confirm: true,
+                        paymentId,
+                    }
+                );
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.deepStrictEqual(response.data.data.paymentStatus, LoyaltyPaymentTaskStatus.CLOSED_CANCEL);
+                assert.deepStrictEqual(response.data.data.remainAmount, "0");
+            });
+
             it("Check user's balance", async () => {
                 const url = URI(serverURL)
                     .directory("/v1/ledger/balance/account")
@@ -0,0 +1,140 @@
+import { Amount } from "../src/common/Amount";
+import { Config } from "../src/common/Config";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { PaymentRequestData, PaymentRequestStatus } from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import path from "path";
+
+describe("Test for Payment Request", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const shopId = "0x0001be96d74202df38fd21462ffcef10dfe0fcbd7caa3947689a3903e8b6b874";
+    const account = "0x64D111eA9763c93a003cef491941A011B8df5a49";
+    const timestamp = ContractUtils.getTimeStamp();
+
+    let storage: RelayStorage;
+
+    const makeRequest = (requestId: string, offset: number): PaymentRequestData => {
+        return {
+            requestId,
+            shopId,
+            purchaseId: requestId,
+            amount: Amount.make(100, 18).value,
+            currency: "krw",
+            description: "Coffee",
+            status: PaymentRequestStatus.OPENED,
+            paymentId: "",
+            account: "",
+            expiresAt: timestamp + 3600,
+            timestamp: timestamp + offset,
+            updatedTimestamp: timestamp + offset,
+            apiKeyId: "",
+        };
+    };
+
+    const request1 = makeRequest("0x0000000000000000000000000000000000000000000000000000000000000001", 0);
+    const request2 = makeRequest("0x0000000000000000000000000000000000000000000000000000000000000002", 1);
+    const paymentId = "0x00000000000000000000000000000000000000000000000000000000000000ff";
+
+    before("Create Storage", async () => {
+        storage = await RelayStorage.make(config.database);
+    });
+
+    after("Drop Storage", async () => {
+        await storage.dropTestDB();
+    });
+
+    it("Create", async () => {
+        await storage.postPaymentRequest(request1);
+        await storage.postPaymentRequest(request2);
+        assert.deepStrictEqual(await storage.getPaymentRequest(request1.requestId), request1);
+    });
+
+    it("List of the shop", async () => {
+        const items = await storage.getPaymentRequestsOfShop(shopId, [PaymentRequestStatus.OPENED], 1, 50);
+        assert.deepStrictEqual(
+            items.map((m) => m.requestId),
+            [request2.requestId, request1.requestId]
+        );
+        const pageInfo = await storage.getPaymentRequestsOfShopPageInfo(shopId, [PaymentRequestStatus.OPENED], 1);
+        assert.deepStrictEqual(pageInfo, { totalCount: 2, totalPages: 2 });
+    });
+
+    it("Only one payment is opened for a request", async () => {
+        assert.ok(
+            await storage.updatePaymentRequestStatus(
+                request1.requestId,
+                PaymentRequestStatus.OPENED,
+                PaymentRequestStatus.PAYING,
+                "",
+                account,
+                timestamp
+            )
+        );
+        assert.ok(
+            !(await storage.updatePaymentRequestStatus(
+                request1.requestId,
+                PaymentRequestStatus.OPENED,
+                PaymentRequestStatus.PAYING,
+                "",
+                account,
+                timestamp
+            ))
+        );
+        assert.ok(
+            await storage.updatePaymentRequestStatus(
+                request1.requestId,
+                PaymentRequestStatus.PAYING,
+                PaymentRequestStatus.PAYING,
+                paymentId,
+                account,
+                timestamp
+            )
+        );
+        const item = await storage.getPaymentRequest(request1.requestId);
+        assert.ok(item !== undefined);
+        assert.deepStrictEqual(item.status, PaymentRequestStatus.PAYING);
+        assert.deepStrictEqual(item.paymentId, paymentId);
+        assert.deepStrictEqual(item.account, account);
+    });
+
+    it("Paying request cannot be cancelled", async () => {
+        assert.ok(
+            !(await storage.updatePaymentRequestStatus(
+                request1.requestId,
+                PaymentRequestStatus.OPENED,
+                PaymentRequestStatus.CANCELLED,
+                "",
+                "",
+                timestamp
+            ))
+        );
+        assert.ok(
+            await storage.updatePaymentRequestStatus(
+                request2.requestId,
+                PaymentRequestStatus.OPENED,
+                PaymentRequestStatus.CANCELLED,
+                "",
+                "",
+                timestamp
+            )
+        );
+    });
+
+    it("Requests of the status", async () => {
+        const paying = await storage.getPaymentRequestsStatusOf([PaymentRequestStatus.PAYING]);
+        assert.deepStrictEqual(
+            paying.map((m) => m.requestId),
+            [request1.requestId]
+        );
+        const cancelled = await storage.getPaymentRequestsOfShop(shopId, [PaymentRequestStatus.CANCELLED], 1, 50);
+        assert.deepStrictEqual(
+            cancelled.map((m) => m.requestId),
+            [request2.requestId]
+        );
+    });
+});
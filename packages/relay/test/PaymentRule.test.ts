@@ -0,0 +1,186 @@
+import { Amount } from "../src/common/Amount";
+import { Config } from "../src/common/Config";
+import { Metrics } from "../src/metrics/Metrics";
+import { PaymentRuleEngine } from "../src/payment/PaymentRuleEngine";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { ContractLoyaltyPaymentStatus, LoyaltyPaymentTaskData, LoyaltyPaymentTaskStatus } from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import { BigNumber } from "ethers";
+import path from "path";
+import { register } from "prom-client";
+
+describe("Test for Payment Rules", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const account = "0x64D111eA9763c93a003cef491941A011B8df5a49";
+    const shopId = "0x0001be96d74202df38fd21462ffcef10dfe0fcbd7caa3947689a3903e8b6b874";
+    const timestamp = ContractUtils.getTimeStamp();
+
+    let storage: RelayStorage;
+    let metrics: Metrics;
+    let engine: PaymentRuleEngine;
+
+    const makePayment = (
+        paymentId: string,
+        totalPoint: BigNumber,
+        paymentStatus: LoyaltyPaymentTaskStatus,
+        openNewTimestamp: number
+    ): LoyaltyPaymentTaskData => {
+        return {
+            paymentId,
+            purchaseId: paymentId.substring(0, 12),
+            amount: totalPoint,
+            currency: "point",
+            shopId,
+            account,
+            secret: "",
+            secretLock: "",
+            paidPoint: totalPoint,
+            paidValue: totalPoint,
+            feePoint: BigNumber.from(0),
+            feeValue: BigNumber.from(0),
+            totalPoint,
+            totalValue: totalPoint,
+            useToken: false,
+            usedPoint: totalPoint,
+            usedToken: BigNumber.from(0),
+            cancelAmount: BigNumber.from(0),
+            cancelPoint: BigNumber.from(0),
+            cancelFeePoint: BigNumber.from(0),
+            remainAmount: totalPoint,
+            remainPoint: totalPoint,
+            remainFeePoint: BigNumber.from(0),
+            paymentStatus,
+            contractStatus: ContractLoyaltyPaymentStatus.INVALID,
+            openNewTimestamp,
+            closeNewTimestamp: 0,
+            openCancelTimestamp: 0,
+            closeCancelTimestamp: 0,
+            openNewTxId: "",
+            openNewTxTime: 0,
+            openCancelTxId: "",
+            openCancelTxTime: 0,
+            idempotencyKey: "",
+            requestHash: "",
+            apiKeyId: "",
+        };
+    };
+
+    before("Create Storage", async () => {
+        config.paymentRule.enable = true;
+        config.paymentRule.items = [
+            { name: "maxPoint", enable: true, point: "1000" },
+            { name: "accountCount", enable: true, periodSecond: 3600, count: 2 },
+            { name: "accountPoint", enable: true, periodSecond: 3600, point: "1500" },
+            { name: "shopPoint", enable: true, periodSecond: 3600, point: "2000" },
+            { name: "accountInterval", enable: true, periodSecond: 10 },
+        ];
+        storage = await RelayStorage.make(config.database);
+        register.clear();
+        metrics = new Metrics();
+        metrics.createCounter("payment_rule_rejected", "number of payments rejected by the payment rules", ["rule"]);
+        engine = new PaymentRuleEngine(config, storage, metrics);
+    });
+
+    after("Drop Storage", async () => {
+        await storage.dropTestDB();
+    });
+
+    it("Pass all rules", async () => {
+        const code = await engine.check({ account, shopId, totalPoint: Amount.make(500, 18).value, timestamp });
+        assert.deepStrictEqual(code, undefined);
+    });
+
+    it("Reject a payment exceeding the maximum point", async () => {
+        const code = await engine.check({ account, shopId, totalPoint: Amount.make(1001, 18).value, timestamp });
+        assert.deepStrictEqual(code, "2050");
+    });
+
+    it("Reject a payment requested too soon", async () => {
+        await storage.postPayment(
+            makePayment(
+                "0x0000000000000000000000000000000000000000000000000000000000000001",
+                Amount.make(500, 18).value,
+                LoyaltyPaymentTaskStatus.DENIED_NEW,
+                timestamp - 5
+            )
+        );
+        const code = await engine.check({ account, shopId, totalPoint: Amount.make(500, 18).value, timestamp });
+        assert.deepStrictEqual(code, "2054");
+    });
+
+    it("Reject a payment exceeding the amount of the account", async () => {
+        await storage.postPayment(
+            makePayment(
+                "0x0000000000000000000000000000000000000000000000000000000000000002",
+                Amount.make(1000, 18).value,
+                LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                timestamp - 60
+            )
+        );
+        const code = await engine.check({
+            account,
+            shopId,
+            totalPoint: Amount.make(600, 18).value,
+            timestamp: timestamp + 10,
+        });
+        assert.deepStrictEqual(code, "2052");
+    });
+
+    it("Reject a payment exceeding the count of the account", async () => {
+        await storage.postPayment(
+            makePayment(
+                "0x0000000000000000000000000000000000000000000000000000000000000003",
+                Amount.make(100, 18).value,
+                LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                timestamp - 30
+            )
+        );
+        const code = await engine.check({
+            account,
+            shopId,
+            totalPoint: Amount.make(100, 18).value,
+            timestamp: timestamp + 10,
+        });
+        assert.deepStrictEqual(code, "2051");
+    });
+
+    it("Reject a payment exceeding the amount of the shop", async () => {
+        const other = "0x3FE8D00143bd0eAd2397D48ba0E31E5E1268dBfb";
+        await storage.postPayment({
+            ...makePayment(
+                "0x0000000000000000000000000000000000000000000000000000000000000004",
+                Amount.make(900, 18).value,
+                LoyaltyPaymentTaskStatus.CLOSED_NEW,
+                timestamp - 60
+            ),
+            account: other,
+        });
+        const code = await engine.check({
+            account: "0x5Ec0Ed8B4F5A1dEa9b4c0B0E0f7Fa0c0ab03F2A1",
+            shopId,
+            totalPoint: Amount.make(1000, 18).value,
+            timestamp: timestamp + 10,
+        });
+        assert.deepStrictEqual(code, "2053");
+    });
+
+    it("Count the rejections of each rule", async () => {
+        const values = await metrics.metrics();
+        assert.ok(values.includes(`payment_rule_rejected{rule="maxPoint"} 1`));
+        assert.ok(values.includes(`payment_rule_rejected{rule="accountInterval"} 1`));
+        assert.ok(values.includes(`payment_rule_rejected{rule="accountPoint"} 1`));
+        assert.ok(values.includes(`payment_rule_rejected{rule="accountCount"} 1`));
+        assert.ok(values.includes(`payment_rule_rejected{rule="shopPoint"} 1`));
+    });
+
+    it("Skip the rules when they are disabled", async () => {
+        config.paymentRule.enable = false;
+        const code = await engine.check({ account, shopId, totalPoint: Amount.make(1001, 18).value, timestamp });
+        assert.deepStrictEqual(code, undefined);
+    });
+});
@@ -0,0 +1,96 @@
+import { Config } from "../src/common/Config";
+import { IPaymentStatusMessage, PaymentStatusStream } from "../src/payment/PaymentStatusStream";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { PaymentResultData, TaskResultCode, TaskResultType } from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import path from "path";
+
+describe("Test for the payment status stream shared by the relays", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    let storage: RelayStorage;
+    let stream1: PaymentStatusStream;
+    let stream2: PaymentStatusStream;
+
+    const data: PaymentResultData = {
+        paymentId: ContractUtils.getRandomId("0x1000000000000000000000000000000000000001"),
+        purchaseId: "P000001",
+        amount: "1000000000000000000",
+        currency: "krw",
+        account: "0x1000000000000000000000000000000000000001",
+        shopId: ContractUtils.getRandomId("0x1000000000000000000000000000000000000002"),
+        paidPoint: "1000000000000000000",
+        paidValue: "1000000000000000000",
+        feePoint: "0",
+        feeValue: "0",
+        totalPoint: "1000000000000000000",
+        totalValue: "1000000000000000000",
+    };
+
+    const waitFor = async (received: IPaymentStatusMessage[], count: number) => {
+        for (let idx = 0; idx < 100 && received.length < count; idx++) await ContractUtils.delay(50);
+    };
+
+    before("Create Storage", async () => {
+        storage = await RelayStorage.make(config.database);
+        stream1 = new PaymentStatusStream(storage);
+        stream2 = new PaymentStatusStream(storage);
+        await stream1.start();
+        await stream2.start();
+    });
+
+    after("Drop Storage", async () => {
+        await stream1.stop();
+        await stream2.stop();
+        await storage.dropTestDB();
+    });
+
+    it("The subscribers of every relay receive the published message", async () => {
+        const received1: IPaymentStatusMessage[] = [];
+        const received2: IPaymentStatusMessage[] = [];
+        const unsubscribe1 = stream1.subscribe((message) => received1.push(message));
+        const unsubscribe2 = stream2.subscribe((message) => received2.push(message));
+
+        stream1.publish(TaskResultType.NEW, TaskResultCode.SUCCESS, "Success", data);
+        await waitFor(received1, 1);
+        await waitFor(received2, 1);
+        unsubscribe1();
+        unsubscribe2();
+
+        assert.deepStrictEqual(received1.length, 1);
+        assert.deepStrictEqual(received2.length, 1);
+        assert.deepStrictEqual(received2[0], {
+            type: TaskResultType.NEW,
+            code: TaskResultCode.SUCCESS,
+            message: "Success",
+            data,
+        });
+    });
+
+    it("The results of the shop are not published", async () => {
+        const received: IPaymentStatusMessage[] = [];
+        const unsubscribe = stream2.subscribe((message) => received.push(message));
+        stream1.publish(TaskResultType.ADD, TaskResultCode.SUCCESS, "Success", data);
+        await ContractUtils.delay(500);
+        unsubscribe();
+        assert.deepStrictEqual(received.length, 0);
+    });
+
+    it("Publish only to the subscribers of the relay after the stream is stopped", async () => {
+        await stream1.stop();
+        const received1: IPaymentStatusMessage[] = [];
+        const received2: IPaymentStatusMessage[] = [];
+        const unsubscribe1 = stream1.subscribe((message) => received1.push(message));
+        const unsubscribe2 = stream2.subscribe((message) => received2.push(message));
+        stream1.publish(TaskResultType.CANCEL, TaskResultCode.SUCCESS, "Success", data);
+        await ContractUtils.delay(500);
+        unsubscribe1();
+        unsubscribe2();
+        assert.deepStrictEqual(received1.length, 1);
+        assert.deepStrictEqual(received2.length, 0);
+    });
+});
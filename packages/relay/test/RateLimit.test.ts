@@ -0,0 +1,114 @@
+import "@nomiclabs/hardhat-ethers";
+
+import { Config } from "../src/common/Config";
+import { RateLimiter } from "../src/limiter/RateLimiter";
+import { Metrics } from "../src/metrics/Metrics";
+import { V2Router } from "../src/routers/V2Router";
+import { WebService } from "../src/service/WebService";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { ContractUtils } from "../src/utils/ContractUtils";
+import { TestClient } from "./helper/Utility";
+
+import assert from "assert";
+import express from "express";
+import path from "path";
+import { register } from "prom-client";
+import URI from "urijs";
+
+describe("Test for the rate limiter", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+    config.rateLimit.enable = true;
+    config.rateLimit.items = [
+        { route: "*", periodSecond: 3600, ip: 100 },
+        { route: "GET /v1/payment/*", periodSecond: 3600, ip: 50 },
+        { route: "POST /v1/ledger/transfer", periodSecond: 3600, ip: 3, account: 2 },
+    ];
+
+    let storage: RelayStorage;
+    let metrics: Metrics;
+
+    before("Create Storage", async () => {
+        storage = await RelayStorage.make(config.database);
+        register.clear();
+        metrics = new Metrics();
+        metrics.createCounter("rate_limited", "number of requests rejected by the rate limiter", ["route", "type"]);
+    });
+
+    after("Drop Storage", async () => {
+        await storage.dropTestDB();
+    });
+
+    it("Find the budget of a route", async () => {
+        const limiter = new RateLimiter(config, storage, metrics);
+        assert.deepStrictEqual(limiter.findItem("post", "/v1/ledger/transfer")?.ip, 3);
+        assert.deepStrictEqual(limiter.findItem("GET", "/v1/payment/item")?.ip, 50);
+        assert.deepStrictEqual(limiter.findItem("POST", "/v1/payment/new/open")?.ip, 100);
+    });
+
+    it("Memory store", async () => {
+        config.rateLimit.store = "memory";
+        const limiter = new RateLimiter(config, storage, metrics);
+        const item = config.rateLimit.items[2];
+        for (let idx = 0; idx < 3; idx++) assert.deepStrictEqual(await limiter.consume(item, "ip", "127.0.0.1"), 0);
+        const retryAfter = await limiter.consume(item, "ip", "127.0.0.1");
+        assert.ok(retryAfter > 0 && retryAfter <= 3600);
+        assert.deepStrictEqual(await limiter.consume(item, "ip", "127.0.0.2"), 0);
+
+        // 한도가 없는 유형은 제한하지 않는다
+        for (let idx = 0; idx < 10; idx++) assert.deepStrictEqual(await limiter.consume(item, "apiKey", "key"), 0);
+    });
+
+    it("Postgres store", async () => {
+        config.rateLimit.store = "postgres";
+        const limiter = new RateLimiter(config, storage, metrics);
+        const other = new RateLimiter(config, storage, metrics);
+        const item = config.rateLimit.items[2];
+        const account = "0x64D111eA9763c93a003cef491941A011B8df5a49";
+        assert.deepStrictEqual(await limiter.consume(item, "account", account), 0);
+        assert.deepStrictEqual(await other.consume(item, "account", account), 0);
+        assert.ok((await limiter.consume(item, "account", account)) > 0);
+
+        const timestamp = ContractUtils.getTimeStamp();
+        const windowStart = timestamp - (timestamp % 3600);
+        assert.deepStrictEqual(await storage.consumeRateLimit("test", windowStart, windowStart + 3600), 1);
+        assert.deepStrictEqual(await storage.consumeRateLimit("test", windowStart + 3600, windowStart + 7200), 1);
+        await storage.deleteExpiredRateLimits(windowStart + 7200);
+        assert.deepStrictEqual(await storage.consumeRateLimit("test", windowStart + 3600, windowStart + 7200), 1);
+    });
+
+    it("/v1 answers with 200 and /v2 answers with 429", async () => {
+        config.rateLimit.store = "memory";
+        config.rateLimit.items = [{ route: "*", periodSecond: 3600, ip: 1 }];
+        const port = 3922;
+        const service = new WebService(port);
+        new V2Router(service).registerRoutes();
+        service.app.use(new RateLimiter(config, storage, metrics).middleware());
+        service.app.get("/v1/sample/item", (req: express.Request, res: express.Response) => {
+            return res.status(200).json({ code: 0, data: { value: 1 } });
+        });
+        await service.start();
+
+        try {
+            const client = new TestClient({ validateStatus: () => true });
+            const url = (version: string) =>
+                URI(`http://127.0.0.1:${port}`).directory(`/${version}/sample`).filename("item").toString();
+
+            let response = await client.get(url("v1"));
+            assert.deepStrictEqual(response.status, 200);
+            assert.deepStrictEqual(response.data.code, 0);
+
+            response = await client.get(url("v1"));
+            assert.deepStrictEqual(response.status, 200);
+            assert.deepStrictEqual(response.data.code, 2057);
+            assert.ok(Number(response.headers["retry-after"]) > 0);
+
+            response = await client.get(url("v2"));
+            assert.deepStrictEqual(response.status, 429);
+            assert.deepStrictEqual(response.data.code, 2057);
+        } finally {
+            service.server?.close();
+        }
+    });
+});
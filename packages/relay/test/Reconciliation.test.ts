@@ -0,0 +1,252 @@
+import { Amount } from "../src/common/Amount";
+import { Config } from "../src/common/Config";
+import { IReconcileRecord, PaymentReconciler } from "../src/payment/PaymentReconciler";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import {
+    ContractLoyaltyPaymentStatus,
+    LoyaltyPaymentTaskData,
+    LoyaltyPaymentTaskStatus,
+    ReconciliationIssueType,
+    ReconciliationSource,
+} from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import { BigNumber } from "ethers";
+import path from "path";
+
+describe("Test for Payment Reconciliation", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const day = "2024-03-01";
+    const range = PaymentReconciler.getDayRange(day);
+    const timestamp = ContractUtils.getTimeStamp();
+    const paidPoint = Amount.make(100, 18).value;
+    const feePoint = Amount.make(5, 18).value;
+
+    let storage: RelayStorage;
+
+    const makePayment = (paymentId: string, paymentStatus: LoyaltyPaymentTaskStatus): LoyaltyPaymentTaskData => {
+        return {
+            paymentId,
+            purchaseId: paymentId.substring(0, 12),
+            amount: paidPoint,
+            currency: "point",
+            shopId: "0x0001be96d74202df38fd21462ffcef10dfe0fcbd7caa3947689a3903e8b6b874",
+            account: "0x64D111eA9763c93a003cef491941A011B8df5a49",
+            secret: "",
+            secretLock: "",
+            paidPoint,
+            paidValue: paidPoint,
+            feePoint,
+            feeValue: feePoint,
+            totalPoint: paidPoint.add(feePoint),
+            totalValue: paidPoint.add(feePoint),
+            useToken: false,
+            usedPoint: paidPoint.add(feePoint),
+            usedToken: BigNumber.from(0),
+            cancelAmount: BigNumber.from(0),
+            cancelPoint: BigNumber.from(0),
+            cancelFeePoint: BigNumber.from(0),
+            remainAmount: paidPoint,
+            remainPoint: paidPoint,
+            remainFeePoint: feePoint,
+            paymentStatus,
+            contractStatus: ContractLoyaltyPaymentStatus.INVALID,
+            openNewTimestamp: range.from + 3600,
+            closeNewTimestamp: 0,
+            openCancelTimestamp: 0,
+            closeCancelTimestamp: 0,
+            openNewTxId: "",
+            openNewTxTime: 0,
+            openCancelTxId: "",
+            openCancelTxTime: 0,
+            idempotencyKey: "",
+            requestHash: "",
+            apiKeyId: "",
+        };
+    };
+
+    const makeRecord = (status: ContractLoyaltyPaymentStatus): IReconcileRecord => {
+        return { paidPoint, paidValue: paidPoint, feePoint, feeValue: feePoint, status };
+    };
+
+    context("Compare", () => {
+        const paymentId = "0x0000000000000000000000000000000000000000000000000000000000000001";
+
+        it("Day range", async () => {
+            assert.deepStrictEqual(range.to - range.from, 86400);
+            assert.deepStrictEqual(PaymentReconciler.getDay(range.from), day);
+            assert.deepStrictEqual(PaymentReconciler.getDay(range.to - 1), day);
+            assert.deepStrictEqual(PaymentReconciler.getDay(range.to), "2024-03-02");
+        });
+
+        it("All sources agree", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.CLOSED_NEW),
+                makeRecord(ContractLoyaltyPaymentStatus.CLOSED_PAYMENT),
+                makeRecord(ContractLoyaltyPaymentStatus.CLOSED_PAYMENT),
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 0);
+        });
+
+        it("Denied payment is not on the chain", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.FAILED_NEW),
+                undefined,
+                undefined,
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 0);
+        });
+
+        it("Closed partial cancellation", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.CLOSED_NEW),
+                makeRecord(ContractLoyaltyPaymentStatus.CLOSED_PAYMENT),
+                makeRecord(ContractLoyaltyPaymentStatus.OPENED_CANCEL),
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 0);
+        });
+
+        it("Missing on the contract", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.CLOSED_NEW),
+                undefined,
+                undefined,
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 1);
+            assert.deepStrictEqual(issues[0].issueType, ReconciliationIssueType.MISSING_EVENT);
+            assert.deepStrictEqual(issues[0].source, ReconciliationSource.CONTRACT);
+        });
+
+        it("Missing on the subgraph", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.CLOSED_NEW),
+                makeRecord(ContractLoyaltyPaymentStatus.CLOSED_PAYMENT),
+                undefined,
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 1);
+            assert.deepStrictEqual(issues[0].issueType, ReconciliationIssueType.MISSING_EVENT);
+            assert.deepStrictEqual(issues[0].source, ReconciliationSource.GRAPH);
+        });
+
+        it("Amount difference", async () => {
+            const onchain = makeRecord(ContractLoyaltyPaymentStatus.CLOSED_PAYMENT);
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.CLOSED_NEW),
+                onchain,
+                { ...onchain, feePoint: feePoint.add(1) },
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 1);
+            assert.deepStrictEqual(issues[0].issueType, ReconciliationIssueType.AMOUNT_MISMATCH);
+            assert.deepStrictEqual(issues[0].source, ReconciliationSource.GRAPH);
+            assert.deepStrictEqual(issues[0].field, "feePoint");
+            assert.deepStrictEqual(issues[0].expected, feePoint.toString());
+            assert.deepStrictEqual(issues[0].actual, feePoint.add(1).toString());
+        });
+
+        it("Status drift", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.CLOSED_CANCEL),
+                makeRecord(ContractLoyaltyPaymentStatus.OPENED_CANCEL),
+                makeRecord(ContractLoyaltyPaymentStatus.OPENED_CANCEL),
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 1);
+            assert.deepStrictEqual(issues[0].issueType, ReconciliationIssueType.STATUS_DRIFT);
+            assert.deepStrictEqual(issues[0].source, ReconciliationSource.CONTRACT);
+            assert.deepStrictEqual(issues[0].actual, String(ContractLoyaltyPaymentStatus.OPENED_CANCEL));
+        });
+
+        it("Payment not closed on the relay", async () => {
+            const issues = PaymentReconciler.compare(
+                day,
+                makePayment(paymentId, LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX),
+                makeRecord(ContractLoyaltyPaymentStatus.OPENED_PAYMENT),
+                makeRecord(ContractLoyaltyPaymentStatus.OPENED_PAYMENT),
+                timestamp
+            );
+            assert.deepStrictEqual(issues.length, 1);
+            assert.deepStrictEqual(issues[0].issueType, ReconciliationIssueType.STATUS_DRIFT);
+            assert.deepStrictEqual(issues[0].source, ReconciliationSource.RELAY);
+        });
+    });
+
+    context("Storage", () => {
+        before("Create Storage", async () => {
+            storage = await RelayStorage.make(config.database);
+        });
+
+        after("Drop Storage", async () => {
+            await storage.dropTestDB();
+        });
+
+        it("Payments of the day", async () => {
+            const inside = makePayment(
+                "0x0000000000000000000000000000000000000000000000000000000000000002",
+                LoyaltyPaymentTaskStatus.CLOSED_NEW
+            );
+            const outside = {
+                ...makePayment(
+                    "0x0000000000000000000000000000000000000000000000000000000000000003",
+                    LoyaltyPaymentTaskStatus.CLOSED_NEW
+                ),
+                openNewTimestamp: range.to,
+            };
+            await storage.postPayment(inside);
+            await storage.postPayment(outside);
+            const payments = await storage.getPaymentsOfPeriod(range.from, range.to);
+            assert.deepStrictEqual(
+                payments.map((m) => m.paymentId),
+                [inside.paymentId]
+            );
+        });
+
+        it("Replace the issues of the day", async () => {
+            const issue = {
+                day,
+                paymentId: "0x0000000000000000000000000000000000000000000000000000000000000002",
+                issueType: ReconciliationIssueType.MISSING_EVENT,
+                source: ReconciliationSource.GRAPH,
+                field: "payment",
+                expected: "2",
+                actual: "",
+                timestamp,
+            };
+            await storage.postReconciliationIssue(issue);
+            await storage.postReconciliationIssue({
+                ...issue,
+                issueType: ReconciliationIssueType.AMOUNT_MISMATCH,
+                source: ReconciliationSource.CONTRACT,
+                field: "paidPoint",
+            });
+            await storage.postReconciliationReport({ day, paymentCount: 1, issueCount: 2, timestamp });
+
+            const counts = await storage.getReconciliationIssueCounts(day);
+            assert.deepStrictEqual(counts.get(ReconciliationIssueType.MISSING_EVENT), 1);
+            assert.deepStrictEqual(counts.get(ReconciliationIssueType.AMOUNT_MISMATCH), 1);
+            const filtered = await storage.getReconciliationIssues(day, ReconciliationIssueType.MISSING_EVENT);
+            assert.deepStrictEqual(filtered, [issue]);
+
+            await storage.removeReconciliationIssues(day);
+            assert.deepStrictEqual((await storage.getReconciliationIssues(day)).length, 0);
+            const report = await storage.getReconciliationReport(day);
+            assert.deepStrictEqual(report, { day, paymentCount: 1, issueCount: 2, timestamp });
+        });
+    });
+});
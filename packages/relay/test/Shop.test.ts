@@ -238,6 +238,27 @@ describe("Test for Shop", function () {
             }
         });
 
+        context("Payment request", () => {
+            it("Endpoint POST /v1/payment/request/create", async () => {
+                const uri = URI(serverURL).directory("/v1/payment/request").filename("create");
+                const response = await client.post(uri.toString(), {
+                    shopId: shopData[0].shopId,
+                    amount: "1000000000000000000000",
+                    currency: "krw",
+                    description: "Payment request of the shop",
+                });
+
+                expect(response.data.code).to.equal(0, response.data.error?.message);
+                assert.deepStrictEqual(response.data.data.shopId, shopData[0].shopId);
+                assert.deepStrictEqual(response.data.data.amount, "1000000000000000000000");
+
+                const item = await storage.getPaymentRequest(response.data.data.requestId);
+                assert.ok(item !== undefined);
+                assert.deepStrictEqual(item.apiKeyId, "master");
+                assert.deepStrictEqual(item.purchaseId, response.data.data.requestId);
+            });
+        });
+
         context("Shop update", () => {
             it("Endpoint POST /v1/shop/update/create", async () => {
                 const url = URI(serverURL).directory("/v1/shop/update").filename("create").toString();
@@ -476,5 +497,131 @@ describe("Test for Shop", function () {
                 expect(shop.delegator).to.deep.equal(delegator);
             });
         });
+
+        context("Shop policy", () => {
+            let timestamp: number;
+            it("Endpoint GET /v1/shop/policy/:shopId", async () => {
+                const url = URI(serverURL).directory("/v1/shop/policy").filename(shopData[0].shopId).toString();
+                const response = await client.get(url);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.deepStrictEqual(response.data.data.paymentTimeoutSecond, 0);
+                assert.deepStrictEqual(
+                    response.data.data.applied.paymentTimeoutSecond,
+                    config.relay.paymentTimeoutSecond
+                );
+            });
+
+            it("Endpoint POST /v1/shop/policy - invalid timeouts", async () => {
+                const url = URI(serverURL).directory("/v1/shop/policy").toString();
+                timestamp = ContractUtils.getTimeStamp();
+                const signature = await ContractUtils.signShopPolicy(
+                    shopData[0].wallet,
+                    shopData[0].shopId,
+                    120,
+                    0,
+                    60,
+                    timestamp,
+                    contractManager.sideChainId
+                );
+                const response = await client.post(url, {
+                    shopId: shopData[0].shopId,
+                    paymentTimeoutSecond: 120,
+                    approvalSecond: 0,
+                    forcedCloseSecond: 60,
+                    account: shopData[0].wallet.address,
+                    timestamp,
+                    signature,
+                });
+
+                assert.deepStrictEqual(response.data.code, 2036);
+            });
+
+            it("Endpoint POST /v1/shop/policy", async () => {
+                const url = URI(serverURL).directory("/v1/shop/policy").toString();
+                const signature = await ContractUtils.signShopPolicy(
+                    shopData[0].wallet,
+                    shopData[0].shopId,
+                    120,
+                    0,
+                    600,
+                    timestamp,
+                    contractManager.sideChainId
+                );
+                const response = await client.post(url, {
+                    shopId: shopData[0].shopId,
+                    paymentTimeoutSecond: 120,
+                    approvalSecond: 0,
+                    forcedCloseSecond: 600,
+                    account: shopData[0].wallet.address,
+                    timestamp,
+                    signature,
+                });
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.deepStrictEqual(response.data.data.applied.paymentTimeoutSecond, 120);
+                assert.deepStrictEqual(response.data.data.applied.approvalSecond, config.relay.approvalSecond);
+                assert.deepStrictEqual(response.data.data.applied.forcedCloseSecond, 600);
+            });
+
+            it("Endpoint POST /v1/shop/policy - replayed request", async () => {
+                const url = URI(serverURL).directory("/v1/shop/policy").toString();
+                const signature = await ContractUtils.signShopPolicy(
+                    shopData[0].wallet,
+                    shopData[0].shopId,
+                    120,
+                    0,
+                    600,
+                    timestamp,
+                    contractManager.sideChainId
+                );
+                const response = await client.post(url, {
+                    shopId: shopData[0].shopId,
+                    paymentTimeoutSecond: 120,
+                    approvalSecond: 0,
+                    forcedCloseSecond: 600,
+                    account: shopData[0].wallet.address,
+                    timestamp,
+                    signature,
+                });
+
+                assert.deepStrictEqual(response.data.code, 1506);
+            });
+
+            it("Endpoint POST /v1/shop/policy - not the owner of the shop", async () => {
+                const url = URI(serverURL).directory("/v1/shop/policy").toString();
+                const signature = await ContractUtils.signShopPolicy(
+                    shopData[1].wallet,
+                    shopData[0].shopId,
+                    60,
+                    0,
+                    600,
+                    timestamp + 1,
+                    contractManager.sideChainId
+                );
+                const response = await client.post(url, {
+                    shopId: shopData[0].shopId,
+                    paymentTimeoutSecond: 60,
+                    approvalSecond: 0,
+                    forcedCloseSecond: 600,
+                    account: shopData[1].wallet.address,
+                    timestamp: timestamp + 1,
+                    signature,
+                });
+
+                assert.deepStrictEqual(response.data.code, 1503);
+            });
+
+            it("Check policy", async () => {
+                const url = URI(serverURL).directory("/v1/shop/policy").filename(shopData[0].shopId).toString();
+                const response = await client.get(url);
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.deepStrictEqual(response.data.data.paymentTimeoutSecond, 120);
+                assert.deepStrictEqual(response.data.data.approvalSecond, 0);
+                assert.deepStrictEqual(response.data.data.forcedCloseSecond, 600);
+                assert.deepStrictEqual(response.data.data.timestamp, timestamp);
+            });
+        });
     });
 });
@@ -0,0 +1,124 @@
+import "@nomiclabs/hardhat-ethers";
+import "@nomiclabs/hardhat-waffle";
+
+import { Config } from "../src/common/Config";
+import { ContractManager } from "../src/contract/ContractManager";
+import { Scheduler } from "../src/scheduler/Scheduler";
+import { GraphStorage } from "../src/storage/GraphStorage";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { ContractUtils } from "../src/utils/ContractUtils";
+import { Deployments } from "./helper/Deployments";
+import { TestClient, TestServer } from "./helper/Utility";
+
+import assert from "assert";
+import * as http from "http";
+import * as path from "path";
+import { URL } from "url";
+
+// tslint:disable-next-line:no-var-requires
+const URI = require("urijs");
+
+/**
+ * 작업에 1초가 걸리는 스케줄러
+ */
+class SlowScheduler extends Scheduler {
+    public finished: number = 0;
+
+    protected async work() {
+        await ContractUtils.delay(1000);
+        this.finished++;
+    }
+}
+
+describe("Test for the graceful shutdown", function () {
+    this.timeout(1000 * 60 * 5);
+
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+    const contractManager = new ContractManager(config);
+    const deployments = new Deployments(config);
+    const client = new TestClient();
+    const scheduler = new SlowScheduler("*/1 * * * * *");
+
+    let server: TestServer;
+    let storage: RelayStorage;
+    let serverURL: URL;
+
+    before("Deploy", async () => {
+        deployments.setShopData([]);
+        await deployments.doDeploy();
+    });
+
+    before("Create Config", async () => {
+        config.contracts.sideChain.tokenAddress = deployments.getContractAddress("TestLYT") || "";
+        config.contracts.sideChain.currencyRateAddress = deployments.getContractAddress("CurrencyRate") || "";
+        config.contracts.sideChain.phoneLinkerAddress = deployments.getContractAddress("PhoneLinkCollection") || "";
+        config.contracts.sideChain.ledgerAddress = deployments.getContractAddress("Ledger") || "";
+        config.contracts.sideChain.shopAddress = deployments.getContractAddress("Shop") || "";
+        config.contracts.sideChain.loyaltyProviderAddress = deployments.getContractAddress("LoyaltyProvider") || "";
+        config.contracts.sideChain.loyaltyConsumerAddress = deployments.getContractAddress("LoyaltyConsumer") || "";
+        config.contracts.sideChain.loyaltyExchangerAddress = deployments.getContractAddress("LoyaltyExchanger") || "";
+        config.contracts.sideChain.loyaltyTransferAddress = deployments.getContractAddress("LoyaltyTransfer") || "";
+        config.contracts.sideChain.loyaltyBridgeAddress = deployments.getContractAddress("LoyaltyBridge") || "";
+        config.contracts.sideChain.chainBridgeAddress = deployments.getContractAddress("SideChainBridge") || "";
+
+        config.contracts.mainChain.tokenAddress = deployments.getContractAddress("MainChainKIOS") || "";
+        config.contracts.mainChain.loyaltyBridgeAddress =
+            deployments.getContractAddress("MainChainLoyaltyBridge") || "";
+        config.contracts.mainChain.chainBridgeAddress = deployments.getContractAddress("MainChainBridge") || "";
+
+        config.relay.managerKeys = deployments.accounts.certifiers.map((m) => m.privateKey);
+        config.relay.relayEndpoint = `http://127.0.0.1:${config.server.port}`;
+    });
+
+    before("Start TestServer", async () => {
+        serverURL = new URL(`http://127.0.0.1:${config.server.port}`);
+        storage = await RelayStorage.make(config.database);
+        const graph_sidechain = await GraphStorage.make(config.graph_sidechain);
+        const graph_mainchain = await GraphStorage.make(config.graph_mainchain);
+        await contractManager.attach();
+        server = new TestServer(config, contractManager, storage, graph_sidechain, graph_mainchain, [scheduler]);
+        await server.start();
+    });
+
+    after("Drop Storage", async () => {
+        const newStorage = await RelayStorage.make(config.database);
+        await newStorage.dropTestDB();
+        await newStorage.close();
+    });
+
+    it("Wait for the work of the scheduler and the requests in progress", async () => {
+        const url = URI(serverURL)
+            .directory("/v1/payment")
+            .filename("stream")
+            .addQuery("shopId", "0x0005" + "0".repeat(60))
+            .toString();
+        const stream = await new Promise<http.IncomingMessage>((resolve, reject) => {
+            const streamRequest = http.get(url, { headers: { Authorization: config.relay.accessKey } }, resolve);
+            streamRequest.on("error", reject);
+        });
+        assert.deepStrictEqual(stream.headers["content-type"], "text/event-stream");
+        const streamEnded = new Promise<void>((resolve) => {
+            stream.on("end", resolve);
+            stream.resume();
+        });
+
+        while (!scheduler.isWorking()) await ContractUtils.delay(10);
+
+        const request = client.get(URI(serverURL).directory("health").filename("ready").toString());
+        await ContractUtils.delay(100);
+        const completed = await server.shutdown(10);
+
+        assert.deepStrictEqual(completed, true);
+        await streamEnded;
+        assert.deepStrictEqual(server.paymentStream.openStreams, 0);
+        assert.deepStrictEqual((await request).status, 200);
+        assert.deepStrictEqual(scheduler.finished, 1);
+        assert.deepStrictEqual(scheduler.isRunning(), false);
+        await assert.rejects(storage.pool.query("SELECT 1;"));
+    });
+
+    it("Do not accept requests after the shutdown", async () => {
+        await assert.rejects(client.get(URI(serverURL).directory("health").filename("live").toString()));
+    });
+});
@@ -0,0 +1,198 @@
+import "@nomiclabs/hardhat-ethers";
+
+import { Config } from "../src/common/Config";
+import { RelaySigners } from "../src/contract/Signers";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import {
+    ContractLoyaltyPaymentStatus,
+    LoyaltyPaymentTaskData,
+    LoyaltyPaymentTaskStatus,
+    SignerTxStatus,
+} from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import { BigNumber, ethers, Wallet } from "ethers";
+import * as hre from "hardhat";
+import path from "path";
+
+describe("Test for the transaction manager of relay signers", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const chainId = 24680;
+    const address = new Wallet(config.relay.managerKeys[0]).address;
+
+    let storage: RelayStorage;
+
+    before("Create Storage", async () => {
+        storage = await RelayStorage.make(config.database);
+    });
+
+    after("Drop Storage", async () => {
+        await storage.dropTestDB();
+    });
+
+    it("Allocate nonces", async () => {
+        assert.deepStrictEqual(await storage.allocateSignerNonce(chainId, address, 5), 5);
+        assert.deepStrictEqual(await storage.allocateSignerNonce(chainId, address, 5), 6);
+        assert.deepStrictEqual(await storage.allocateSignerNonce(chainId, address.toLowerCase(), 5), 7);
+        assert.deepStrictEqual(await storage.allocateSignerNonce(chainId, address, 10), 10);
+
+        const stored = await storage.getSignerNonce(chainId, address);
+        assert.ok(stored !== undefined);
+        assert.deepStrictEqual(stored.address, address);
+        assert.deepStrictEqual(stored.nonce, 11);
+    });
+
+    it("Release only the last nonce", async () => {
+        await storage.releaseSignerNonce(chainId, address, 9);
+        assert.deepStrictEqual((await storage.getSignerNonce(chainId, address))?.nonce, 11);
+
+        await storage.releaseSignerNonce(chainId, address, 10);
+        assert.deepStrictEqual((await storage.getSignerNonce(chainId, address))?.nonce, 10);
+        assert.deepStrictEqual(await storage.allocateSignerNonce(chainId, address, 5), 10);
+    });
+
+    it("Pending transactions", async () => {
+        const timestamp = ContractUtils.getTimeStamp();
+        const item = {
+            chainId,
+            address,
+            nonce: 10,
+            txHash: "0x00000000000000000000000000000000000000000000000000000000000000aa",
+            to: address,
+            data: "0x",
+            value: BigNumber.from(0),
+            gasLimit: BigNumber.from(21000),
+            maxFeePerGas: BigNumber.from(2000000000),
+            maxPriorityFeePerGas: BigNumber.from(1500000000),
+            status: SignerTxStatus.PENDING,
+            speedUps: 0,
+            timestamp,
+            updatedTimestamp: timestamp,
+        };
+        await storage.postSignerTransaction(item);
+        await storage.postSignerTransaction({ ...item, nonce: 11, status: SignerTxStatus.CANCELLING });
+        await storage.postSignerTransaction({ ...item, nonce: 12, status: SignerTxStatus.CONFIRMED });
+
+        let pending = await storage.getSignerPendingTransactions(chainId, address);
+        assert.deepStrictEqual(
+            pending.map((m) => m.nonce),
+            [10, 11]
+        );
+        assert.deepStrictEqual(pending[0].maxFeePerGas, BigNumber.from(2000000000));
+
+        await storage.updateSignerTransaction({ ...pending[0], status: SignerTxStatus.CONFIRMED });
+        pending = await storage.getSignerPendingTransactions(chainId, address);
+        assert.deepStrictEqual(
+            pending.map((m) => m.nonce),
+            [11]
+        );
+        assert.deepStrictEqual(pending[0].status, SignerTxStatus.CANCELLING);
+    });
+
+    it("Replace the hash of the transaction of the payment", async () => {
+        const oldTxId = "0x00000000000000000000000000000000000000000000000000000000000000aa";
+        const newTxId = "0x00000000000000000000000000000000000000000000000000000000000000bb";
+        const payment: LoyaltyPaymentTaskData = {
+            paymentId: "0x0000000000000000000000000000000000000000000000000000000000000001",
+            purchaseId: "P000001",
+            amount: BigNumber.from(100),
+            currency: "point",
+            shopId: "0x0000000000000000000000000000000000000000000000000000000000000002",
+            account: address,
+            secret: "",
+            secretLock: "",
+            paidPoint: BigNumber.from(100),
+            paidValue: BigNumber.from(100),
+            feePoint: BigNumber.from(0),
+            feeValue: BigNumber.from(0),
+            totalPoint: BigNumber.from(100),
+            totalValue: BigNumber.from(100),
+            useToken: false,
+            usedPoint: BigNumber.from(100),
+            usedToken: BigNumber.from(0),
+            cancelAmount: BigNumber.from(0),
+            cancelPoint: BigNumber.from(0),
+            cancelFeePoint: BigNumber.from(0),
+            remainAmount: BigNumber.from(100),
+            remainPoint: BigNumber.from(100),
+            remainFeePoint: BigNumber.from(0),
+            paymentStatus: LoyaltyPaymentTaskStatus.OPENED_NEW,
+            contractStatus: ContractLoyaltyPaymentStatus.INVALID,
+            openNewTimestamp: ContractUtils.getTimeStamp(),
+            closeNewTimestamp: 0,
+            openCancelTimestamp: 0,
+            closeCancelTimestamp: 0,
+            openNewTxId: "",
+            openNewTxTime: 0,
+            openCancelTxId: "",
+            openCancelTxTime: 0,
+            idempotencyKey: "",
+            requestHash: "",
+            apiKeyId: "",
+        };
+        await storage.postPayment(payment);
+        await storage.updateOpenNewTx(
+            payment.paymentId,
+            oldTxId,
+            ContractUtils.getTimeStamp(),
+            LoyaltyPaymentTaskStatus.APPROVED_NEW_SENT_TX
+        );
+
+        await storage.replaceTxHash(oldTxId, newTxId);
+        const item = await storage.getPayment(payment.paymentId);
+        assert.deepStrictEqual(item?.openNewTxId, newTxId);
+        assert.deepStrictEqual(item?.openCancelTxId, "");
+    });
+
+    it("Daily amount of top-ups", async () => {
+        const timestamp = ContractUtils.getTimeStamp();
+        const from = timestamp - (timestamp % 86400);
+        assert.deepStrictEqual(await storage.getSignerTopUpAmount(chainId, from), BigNumber.from(0));
+
+        const amount = ethers.utils.parseEther(config.relay.signerTopUpAmount);
+        await storage.postSignerTopUp(
+            chainId,
+            address,
+            amount,
+            "0x00000000000000000000000000000000000000000000000000000000000000b1"
+        );
+        await storage.postSignerTopUp(
+            chainId,
+            address,
+            amount,
+            "0x00000000000000000000000000000000000000000000000000000000000000b2"
+        );
+        assert.deepStrictEqual(await storage.getSignerTopUpAmount(chainId, from), amount.mul(2));
+        assert.deepStrictEqual(await storage.getSignerTopUpAmount(chainId + 1, from), BigNumber.from(0));
+    });
+
+    it("Excluded signers are not selected", async () => {
+        const signers = new RelaySigners(config, storage);
+        const provider = hre.ethers.provider;
+        const networkId = (await provider.getNetwork()).chainId;
+        for (const item of signers.addresses.slice(1)) await signers.setExcluded(networkId, item, true);
+        assert.ok(!signers.isExcluded(networkId, signers.addresses[0]));
+        assert.ok(signers.isExcluded(networkId, signers.addresses[1].toLowerCase()));
+        assert.ok(!signers.isExcluded(networkId + 1, signers.addresses[1]));
+
+        const selected = await signers.getSigner(provider);
+        assert.deepStrictEqual(selected.wallet.address, signers.addresses[0]);
+        signers.releaseSigner(selected);
+
+        const other = new RelaySigners(config, storage);
+        assert.ok(!other.isExcluded(networkId, signers.addresses[1]));
+        await other.refreshExcluded();
+        assert.ok(other.isExcluded(networkId, signers.addresses[1]));
+
+        await signers.setExcluded(networkId, signers.addresses[1], false);
+        assert.ok(!signers.isExcluded(networkId, signers.addresses[1]));
+        await other.refreshExcluded(true);
+        assert.ok(!other.isExcluded(networkId, signers.addresses[1]));
+        assert.ok(other.isExcluded(networkId, signers.addresses[2]));
+        for (const item of signers.addresses.slice(2)) await signers.setExcluded(networkId, item, false);
+    });
+});
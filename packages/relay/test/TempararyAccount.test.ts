@@ -4,6 +4,7 @@ import "@nomiclabs/hardhat-waffle";
 import { Amount } from "../src/common/Amount";
 import { Config } from "../src/common/Config";
 import { ContractManager } from "../src/contract/ContractManager";
+import { PaymentTokenIssuer } from "../src/payment/PaymentTokenIssuer";
 import { Scheduler } from "../src/scheduler/Scheduler";
 import { WatchScheduler } from "../src/scheduler/WatchScheduler";
 import { GraphStorage } from "../src/storage/GraphStorage";
@@ -368,6 +369,103 @@ describe("Test of Server", function () {
                 temporaryAccount = response.data.data.temporaryAccount;
             });
 
+            let paymentToken: string;
+            it("Endpoint POST /v1/payment/account/token", async () => {
+                const nonce = await ledgerContract.nonceOf(users[purchase.userIndex].address);
+                const message = ContractUtils.getAccountMessage(
+                    users[purchase.userIndex].address,
+                    nonce,
+                    contractManager.sideChainId
+                );
+                const signature = await ContractUtils.signMessage(users[purchase.userIndex], message);
+
+                const url = URI(serverURL).directory("/v1/payment/account").filename("token").toString();
+                const response = await client.post(url, {
+                    account: users[purchase.userIndex].address,
+                    signature,
+                });
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.ok(ContractUtils.isTemporaryAccount(response.data.data.temporaryAccount));
+                assert.ok(response.data.data.expiresAt > ContractUtils.getTimeStamp());
+
+                const payload = PaymentTokenIssuer.decode(response.data.data.token);
+                assert.ok(payload !== undefined);
+                assert.deepStrictEqual(payload.tokenId, response.data.data.tokenId);
+                assert.deepStrictEqual(payload.temporaryAccount, response.data.data.temporaryAccount);
+                assert.deepStrictEqual(payload.expiresAt, response.data.data.expiresAt);
+                paymentToken = response.data.data.token;
+            });
+
+            it("Endpoint POST /v1/payment/account/token/resolve - malformed token", async () => {
+                const url = URI(serverURL).directory("/v1/payment/account/token").filename("resolve").toString();
+                const tampered = paymentToken.substring(0, paymentToken.length - 1) + "x";
+                const response = await client.post(url, { token: tampered });
+
+                assert.deepStrictEqual(response.data.code, 2041);
+            });
+
+            it("Endpoint POST /v1/payment/account/token/resolve - invalid signature", async () => {
+                const url = URI(serverURL).directory("/v1/payment/account/token").filename("resolve").toString();
+                const payload = PaymentTokenIssuer.decode(paymentToken);
+                assert.ok(payload !== undefined);
+                const signature = await ContractUtils.signMessage(
+                    users[purchase.userIndex],
+                    ContractUtils.getPaymentTokenMessage(
+                        payload.version,
+                        payload.tokenId,
+                        payload.temporaryAccount,
+                        payload.expiresAt,
+                        contractManager.sideChainId
+                    )
+                );
+                const response = await client.post(url, {
+                    token: PaymentTokenIssuer.encode({ ...payload, signature }),
+                });
+
+                assert.deepStrictEqual(response.data.code, 2042);
+            });
+
+            it("Endpoint POST /v1/payment/account/token/resolve - expired token", async () => {
+                const url = URI(serverURL).directory("/v1/payment/account/token").filename("resolve").toString();
+                const payload = PaymentTokenIssuer.decode(paymentToken);
+                assert.ok(payload !== undefined);
+                const expiresAt = ContractUtils.getTimeStamp() - 1;
+                const signature = await ContractUtils.signMessage(
+                    new Wallet(config.relay.paymentTokenKey),
+                    ContractUtils.getPaymentTokenMessage(
+                        payload.version,
+                        payload.tokenId,
+                        payload.temporaryAccount,
+                        expiresAt,
+                        contractManager.sideChainId
+                    )
+                );
+                const response = await client.post(url, {
+                    token: PaymentTokenIssuer.encode({ ...payload, expiresAt, signature }),
+                });
+
+                assert.deepStrictEqual(response.data.code, 2043);
+            });
+
+            it("Endpoint POST /v1/payment/account/token/resolve", async () => {
+                const url = URI(serverURL).directory("/v1/payment/account/token").filename("resolve").toString();
+                const response = await client.post(url, { token: paymentToken });
+
+                assert.deepStrictEqual(response.data.code, 0);
+                assert.ok(response.data.data !== undefined);
+                assert.ok(ContractUtils.isTemporaryAccount(response.data.data.temporaryAccount));
+                temporaryAccount = response.data.data.temporaryAccount;
+            });
+
+            it("Endpoint POST /v1/payment/account/token/resolve - already used", async () => {
+                const url = URI(serverURL).directory("/v1/payment/account/token").filename("resolve").toString();
+                const response = await client.post(url, { token: paymentToken });
+
+                assert.deepStrictEqual(response.data.code, 2044);
+            });
+
             it("Get user's balance", async () => {
                 const url = URI(serverURL)
                     .directory("/v1/ledger/balance/account")
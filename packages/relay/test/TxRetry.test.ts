@@ -0,0 +1,179 @@
+import { Config } from "../src/common/Config";
+import { GasPriceManager } from "../src/contract/GasPriceManager";
+import { PaymentTxRecorder } from "../src/payment/PaymentTxRecorder";
+import { RelayStorage } from "../src/storage/RelayStorage";
+import { PaymentTxFailure, PaymentTxKind } from "../src/types";
+import { ContractUtils } from "../src/utils/ContractUtils";
+
+import assert from "assert";
+import { BigNumber } from "ethers";
+import path from "path";
+
+describe("Test for the retry of payment transactions", function () {
+    this.timeout(1000 * 60);
+    const config = new Config();
+    config.readFromFile(path.resolve(process.cwd(), "config", "config_test.yaml"));
+
+    const paymentId = "0x0000000000000000000000000000000000000000000000000000000000000001";
+    const signature =
+        "0x1f4f8a3a4f3bca0f0b0e4e2b6f5c8d6e7a9b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f1b";
+
+    context("Classify", () => {
+        it("Nonce too low", async () => {
+            const info = PaymentTxRecorder.classify({ code: "NONCE_EXPIRED", message: "nonce has already been used" });
+            assert.deepStrictEqual(info.failure, PaymentTxFailure.NONCE_TOO_LOW);
+            assert.ok(PaymentTxRecorder.isTransient(info.failure));
+        });
+
+        it("Underpriced", async () => {
+            const info = PaymentTxRecorder.classify({
+                code: "SERVER_ERROR",
+                error: { message: "replacement transaction underpriced" },
+            });
+            assert.deepStrictEqual(info.failure, PaymentTxFailure.UNDERPRICED);
+            assert.ok(PaymentTxRecorder.isTransient(info.failure));
+        });
+
+        it("Out of gas", async () => {
+            const info = PaymentTxRecorder.classify(new Error("intrinsic gas too low"));
+            assert.deepStrictEqual(info.failure, PaymentTxFailure.OUT_OF_GAS);
+            assert.ok(PaymentTxRecorder.isTransient(info.failure));
+        });
+
+        it("Revert reason", async () => {
+            const info = PaymentTxRecorder.classify({
+                code: "UNPREDICTABLE_GAS_LIMIT",
+                reason: "execution reverted: 1501",
+            });
+            assert.deepStrictEqual(info.failure, PaymentTxFailure.REVERTED);
+            assert.deepStrictEqual(info.reason, "1501");
+            assert.ok(!PaymentTxRecorder.isTransient(info.failure));
+        });
+
+        it("Receipt of the reverted transaction", async () => {
+            const receipt = { gasUsed: BigNumber.from(300000) };
+            assert.deepStrictEqual(
+                PaymentTxRecorder.classifyReceipt(receipt, BigNumber.from(300000)).failure,
+                PaymentTxFailure.OUT_OF_GAS
+            );
+            assert.deepStrictEqual(
+                PaymentTxRecorder.classifyReceipt(receipt, BigNumber.from(500000)).failure,
+                PaymentTxFailure.REVERTED
+            );
+            assert.deepStrictEqual(
+                PaymentTxRecorder.classify({
+                    code: "CALL_EXCEPTION",
+                    receipt,
+                    transaction: { gasLimit: BigNumber.from(300000) },
+                }).failure,
+                PaymentTxFailure.OUT_OF_GAS
+            );
+        });
+
+        it("Unknown", async () => {
+            const info = PaymentTxRecorder.classify(new Error("Something went wrong"));
+            assert.deepStrictEqual(info.failure, PaymentTxFailure.UNKNOWN);
+            assert.ok(!PaymentTxRecorder.isTransient(info.failure));
+        });
+
+        it("Bump", async () => {
+            assert.deepStrictEqual(GasPriceManager.bump(BigNumber.from(1000), 20, 0), BigNumber.from(1000));
+            assert.deepStrictEqual(GasPriceManager.bump(BigNumber.from(1000), 20, 1), BigNumber.from(1200));
+            assert.deepStrictEqual(GasPriceManager.bump(BigNumber.from(1000), 20, 2), BigNumber.from(1440));
+        });
+    });
+
+    context("Storage", () => {
+        let storage: RelayStorage;
+        let recorder: PaymentTxRecorder;
+
+        before("Create Storage", async () => {
+            storage = await RelayStorage.make(config.database);
+            recorder = new PaymentTxRecorder(config, storage);
+        });
+
+        after("Drop Storage", async () => {
+            await storage.dropTestDB();
+        });
+
+        it("Record a failed attempt", async () => {
+            await recorder.recordFailed(
+                paymentId,
+                PaymentTxKind.OPEN_NEW,
+                { code: "REPLACEMENT_UNDERPRICED", message: "replacement fee too low" },
+                signature,
+                false,
+                {}
+            );
+            const last = await storage.getLastPaymentTxAttempt(paymentId, PaymentTxKind.OPEN_NEW);
+            assert.ok(last !== undefined);
+            assert.deepStrictEqual(last.attempt, 1);
+            assert.deepStrictEqual(last.failure, PaymentTxFailure.UNDERPRICED);
+            assert.deepStrictEqual(last.signature, signature);
+
+            const pending = await storage.getLastPaymentTxAttemptsOf(
+                PaymentTxKind.OPEN_NEW,
+                PaymentTxRecorder.transientFailures
+            );
+            assert.deepStrictEqual(
+                pending.map((m) => m.paymentId),
+                [paymentId]
+            );
+        });
+
+        it("Bumped fees for the next attempt", async () => {
+            const overrides = await recorder.getOverrides(paymentId, PaymentTxKind.OPEN_NEW);
+            assert.ok(overrides.maxFeePerGas !== undefined);
+            assert.ok(overrides.maxPriorityFeePerGas !== undefined);
+            assert.ok(overrides.maxPriorityFeePerGas.gt(1500000000));
+            assert.ok(overrides.gasLimit === undefined);
+        });
+
+        it("Retry is bounded", async () => {
+            const last = await storage.getLastPaymentTxAttempt(paymentId, PaymentTxKind.OPEN_NEW);
+            assert.ok(last !== undefined);
+            const timestamp = ContractUtils.getTimeStamp();
+            assert.ok(!recorder.canRetry(last, timestamp));
+            assert.ok(recorder.canRetry(last, timestamp + config.relay.txRetryIntervalSecond));
+            assert.ok(
+                !recorder.canRetry(
+                    { ...last, attempt: config.relay.txRetryMaxAttempts },
+                    timestamp + config.relay.txRetryIntervalSecond
+                )
+            );
+        });
+
+        it("Reverted attempt is not retried", async () => {
+            await recorder.recordSent(
+                paymentId,
+                PaymentTxKind.OPEN_NEW,
+                {
+                    hash: "0x00000000000000000000000000000000000000000000000000000000000000aa",
+                    gasLimit: BigNumber.from(300000),
+                    maxFeePerGas: BigNumber.from(2000000000),
+                } as any,
+                signature,
+                false
+            );
+            await storage.updatePaymentTxAttemptFailure(
+                paymentId,
+                PaymentTxKind.OPEN_NEW,
+                2,
+                PaymentTxFailure.REVERTED,
+                "1501"
+            );
+            const attempts = await storage.getPaymentTxAttempts(paymentId);
+            assert.deepStrictEqual(
+                attempts.map((m) => m.failure),
+                [PaymentTxFailure.UNDERPRICED, PaymentTxFailure.REVERTED]
+            );
+            assert.deepStrictEqual(attempts[1].gasLimit, BigNumber.from(300000));
+            assert.deepStrictEqual(await recorder.getOverrides(paymentId, PaymentTxKind.OPEN_NEW), {});
+            const pending = await storage.getLastPaymentTxAttemptsOf(
+                PaymentTxKind.OPEN_NEW,
+                PaymentTxRecorder.transientFailures
+            );
+            assert.deepStrictEqual(pending.length, 0);
+        });
+    });
+});
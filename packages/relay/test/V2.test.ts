@@ -0,0 +1,80 @@
+import { V2Router } from "../src/routers/V2Router";
+import { WebService } from "../src/service/WebService";
+import { ResponseMessage } from "../src/utils/Errors";
+import { TestClient } from "./helper/Utility";
+
+import assert from "assert";
+import express from "express";
+import URI from "urijs";
+
+describe("Test for the /v2 endpoints", function () {
+    this.timeout(1000 * 60);
+
+    const port = 3921;
+    const service = new WebService(port);
+    const client = new TestClient({ validateStatus: () => true });
+    const endpoint = `http://127.0.0.1:${port}`;
+
+    before("Start a server", async () => {
+        new V2Router(service).registerRoutes();
+        service.app.get("/v1/sample/item", (req: express.Request, res: express.Response) => {
+            const code = String(req.query.code);
+            if (code === "0") return res.status(200).json({ code: 0, data: { value: 1 } });
+            if (code === "2001")
+                return res.status(200).json(ResponseMessage.getErrorMessage("2001", { validation: [] }));
+            if (code === "2057") return res.status(200).json(ResponseMessage.getErrorMessage("2057"));
+            return res.status(200).json({ code: Number(code), data: undefined, error: { message: "Error" } });
+        });
+        await service.start();
+    });
+
+    after("Stop the server", async () => {
+        service.server?.close();
+    });
+
+    it("Map the codes to HTTP statuses", async () => {
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(0), 200);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(2001), 400);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(2002), 401);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(2003), 404);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(2009), 409);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(1511), 422);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(2050), 422);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(6000), 500);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(9000), 500);
+        assert.deepStrictEqual(ResponseMessage.getHttpStatus(3001), 503);
+    });
+
+    it("/v1 answers with 200", async () => {
+        const url = URI(endpoint).directory("/v1/sample").filename("item").addQuery("code", "2003").toString();
+        const response = await client.get(url);
+        assert.deepStrictEqual(response.status, 200);
+        assert.deepStrictEqual(response.data.code, 2003);
+    });
+
+    it("/v2 answers with the HTTP status of the code", async () => {
+        const get = (code: string) =>
+            client.get(URI(endpoint).directory("/v2/sample").filename("item").addQuery("code", code).toString());
+
+        let response = await get("0");
+        assert.deepStrictEqual(response.status, 200);
+        assert.deepStrictEqual(response.data, { code: 0, data: { value: 1 } });
+
+        response = await get("2001");
+        assert.deepStrictEqual(response.status, 400);
+        assert.deepStrictEqual(response.data, {
+            code: 2001,
+            error: { message: "Failed to check the validity of parameters", details: { validation: [] } },
+        });
+
+        response = await get("2003");
+        assert.deepStrictEqual(response.status, 404);
+        assert.deepStrictEqual(response.data, { code: 2003, error: { message: "Error" } });
+
+        response = await get("6000");
+        assert.deepStrictEqual(response.status, 500);
+
+        response = await get("2057");
+        assert.deepStrictEqual(response.status, 429);
+    });
+});
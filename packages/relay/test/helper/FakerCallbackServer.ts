@@ -8,6 +8,7 @@ export class FakerCallbackServer {
     protected server: http.Server | null = null;
     private readonly port: number;
     public responseData: any[] = [];
+    public rawRequests: { headers: http.IncomingHttpHeaders; body: string }[] = [];
 
     constructor(port: number | string) {
         if (typeof port === "string") this.port = parseInt(port, 10);
@@ -18,7 +19,13 @@ export class FakerCallbackServer {
 
     public start(): Promise<void> {
         this.app.use(bodyParser.urlencoded({ extended: false }));
-        this.app.use(bodyParser.json());
+        this.app.use(
+            bodyParser.json({
+                verify: (req: any, res, buf) => {
+                    req.rawBody = buf.toString();
+                },
+            })
+        );
         this.app.use(
             cors({
                 allowedHeaders: "*",
@@ -71,6 +78,7 @@ export class FakerCallbackServer {
         console.log(JSON.stringify(req.body));
         console.log("----- CALL BACK -----");
         this.responseData.push(req.body);
+        this.rawRequests.push({ headers: req.headers, body: (req as any).rawBody });
         res.status(200).json(this.makeResponseData(0, { message: "OK" }, undefined));
     }
 }
@@ -8,7 +8,11 @@ import {
     Withdrawn as WithdrawnEvent,
 } from "../generated/Ledger/Ledger";
 import { SavedPurchase as SavedPurchaseEvent } from "../generated/LoyaltyProvider/LoyaltyProvider";
-import { LoyaltyPaymentEvent as LoyaltyPaymentEventEvent } from "../generated/LoyaltyConsumer/LoyaltyConsumer";
+import {
+    LoyaltyCancelEvent as LoyaltyCancelEventEvent,
+    LoyaltyMixedPaymentEvent as LoyaltyMixedPaymentEventEvent,
+    LoyaltyPaymentEvent as LoyaltyPaymentEventEvent,
+} from "../generated/LoyaltyConsumer/LoyaltyConsumer";
 import {
     ChangedToPayablePoint as ChangedToPayablePointEvent,
     ChangedPointToToken as ChangedPointToTokenEvent,
@@ -28,6 +32,9 @@ import {
     UserTradeHistory,
     UserUnPayableTradeHistory,
     LoyaltyPaymentEvent,
+    LoyaltyCancelEvent,
+    LoyaltyPaymentCancel,
+    LoyaltyMixedPayment,
     LoyaltyBridgeDeposited,
     LoyaltyBridgeWithdrawn,
     BurnedPoint,
@@ -44,6 +51,13 @@ enum LoyaltyPaymentStatus {
     FAILED_CANCEL = 6,
 }
 
+enum LoyaltyCancelStatus {
+    INVALID = 0,
+    OPENED = 1,
+    CLOSED = 2,
+    FAILED = 3,
+}
+
 enum UserAction {
     NONE = 0,
     SAVED = 1,
@@ -565,10 +579,17 @@ export function handleLoyaltyPaymentEvent(event: LoyaltyPaymentEventEvent): void
 }
 
 export function handleLoyaltyPaymentEventForHistory(event: LoyaltyPaymentEventEvent): void {
-    if (event.params.payment.status == LoyaltyPaymentStatus.CLOSED_PAYMENT) {
+    if (event.params.payment.status == LoyaltyPaymentStatus.OPENED_PAYMENT) {
+        handleMixedPaymentTokenBalance(event);
+    } else if (event.params.payment.status == LoyaltyPaymentStatus.CLOSED_PAYMENT) {
         handlePaidPointForHistory(event);
+    } else if (event.params.payment.status == LoyaltyPaymentStatus.FAILED_PAYMENT) {
+        handleMixedPaymentTokenBalance(event);
     } else if (event.params.payment.status == LoyaltyPaymentStatus.CLOSED_CANCEL) {
-        handleCanceledPointForHistory(event);
+        // 취소 이벤트가 함께 발생한 경우에는 handleLoyaltyCancelEvent 에서 내역을 기록한다.
+        if (LoyaltyPaymentCancel.load(event.params.payment.paymentId) === null) {
+            handleCanceledPointForHistory(event);
+        }
     }
 }
 
@@ -584,8 +605,14 @@ export function handlePaidPointForHistory(event: LoyaltyPaymentEventEvent): void
     entity.account = event.params.payment.account;
     entity.action = UserAction.USED;
     entity.cancel = false;
-    entity.amountPoint = event.params.payment.paidPoint.plus(event.params.payment.feePoint).div(AmountUnit);
-    entity.amountToken = BigInt.fromI32(0);
+    const mixedEntity = LoyaltyMixedPayment.load(event.params.payment.paymentId);
+    if (mixedEntity !== null) {
+        entity.amountPoint = mixedEntity.usedPoint.div(AmountUnit);
+        entity.amountToken = mixedEntity.usedToken.div(AmountUnit);
+    } else {
+        entity.amountPoint = event.params.payment.paidPoint.plus(event.params.payment.feePoint).div(AmountUnit);
+        entity.amountToken = BigInt.fromI32(0);
+    }
     entity.amountValue = event.params.payment.paidValue.plus(event.params.payment.feeValue).div(AmountUnit);
     entity.feePoint = event.params.payment.feePoint.div(AmountUnit);
     entity.feeToken = event.params.payment.feeToken.div(AmountUnit);
@@ -636,6 +663,119 @@ export function handleCanceledPointForHistory(event: LoyaltyPaymentEventEvent):
     entity.save();
 }
 
+export function handleLoyaltyMixedPaymentEvent(event: LoyaltyMixedPaymentEventEvent): void {
+    let entity = new LoyaltyMixedPayment(event.params.paymentId);
+    entity.usedPoint = event.params.usedPoint;
+    entity.usedToken = event.params.usedToken;
+    entity.tokenBalance = event.params.tokenBalance;
+
+    entity.blockNumber = event.block.number;
+    entity.blockTimestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+
+    entity.save();
+}
+
+// 포인트와 토큰을 함께 사용한 지불은 시작할 때 토큰이 차감되고 실패하면 반환된다.
+export function handleMixedPaymentTokenBalance(event: LoyaltyPaymentEventEvent): void {
+    const mixedEntity = LoyaltyMixedPayment.load(event.params.payment.paymentId);
+    if (mixedEntity === null || mixedEntity.usedToken.equals(BigInt.fromI32(0))) return;
+
+    let balance = mixedEntity.tokenBalance;
+    if (event.params.payment.status == LoyaltyPaymentStatus.FAILED_PAYMENT) {
+        const balanceEntity = UserBalance.load(event.params.payment.account.toHex());
+        if (balanceEntity === null) return;
+        balance = balanceEntity.token.times(AmountUnit).plus(mixedEntity.usedToken);
+    }
+    handleChangedBalanceToken(
+        event.params.payment.account,
+        balance,
+        event.block.number,
+        event.block.timestamp,
+        event.transaction.hash
+    );
+}
+
+export function handleLoyaltyCancelEvent(event: LoyaltyCancelEventEvent): void {
+    let entity = new LoyaltyCancelEvent(event.transaction.hash.concatI32(event.logIndex.toI32()));
+    entity.paymentId = event.params.payment.paymentId;
+    entity.purchaseId = event.params.payment.purchaseId;
+    entity.currency = event.params.payment.currency;
+    entity.shopId = event.params.payment.shopId;
+    entity.account = event.params.payment.account;
+    entity.cancelValue = event.params.cancel.cancelValue;
+    entity.cancelPoint = event.params.cancel.cancelPoint;
+    entity.cancelToken = event.params.cancel.cancelToken;
+    entity.cancelFeeValue = event.params.cancel.cancelFeeValue;
+    entity.cancelFeePoint = event.params.cancel.cancelFeePoint;
+    entity.cancelFeeToken = event.params.cancel.cancelFeeToken;
+    entity.remainValue = event.params.cancel.remainValue;
+    entity.cancelStatus = event.params.cancel.status;
+    entity.paymentStatus = event.params.payment.status;
+    entity.balance = event.params.balance;
+
+    entity.blockNumber = event.block.number;
+    entity.blockTimestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+
+    entity.save();
+
+    handleLoyaltyCancelEventForHistory(event);
+}
+
+export function handleLoyaltyCancelEventForHistory(event: LoyaltyCancelEventEvent): void {
+    let cancelEntity = LoyaltyPaymentCancel.load(event.params.payment.paymentId);
+    if (cancelEntity === null) {
+        cancelEntity = new LoyaltyPaymentCancel(event.params.payment.paymentId);
+        cancelEntity.cancelledValue = BigInt.fromI32(0);
+        cancelEntity.cancelledPoint = BigInt.fromI32(0);
+        cancelEntity.remainValue = event.params.cancel.remainValue;
+    }
+    if (event.params.cancel.status == LoyaltyCancelStatus.CLOSED) {
+        cancelEntity.cancelledValue = cancelEntity.cancelledValue.plus(event.params.cancel.cancelValue);
+        cancelEntity.cancelledPoint = cancelEntity.cancelledPoint.plus(
+            event.params.cancel.cancelPoint.plus(event.params.cancel.cancelFeePoint)
+        );
+        cancelEntity.remainValue = event.params.cancel.remainValue.minus(event.params.cancel.cancelValue);
+    }
+    cancelEntity.blockNumber = event.block.number;
+    cancelEntity.blockTimestamp = event.block.timestamp;
+    cancelEntity.transactionHash = event.transaction.hash;
+    cancelEntity.save();
+
+    if (event.params.cancel.status != LoyaltyCancelStatus.CLOSED) return;
+
+    const balanceEntity = handleChangedBalancePoint(
+        event.params.payment.account,
+        event.params.balance,
+        event.block.number,
+        event.block.timestamp,
+        event.transaction.hash
+    );
+    let entity = new UserTradeHistory(event.transaction.hash.concatI32(event.logIndex.toI32()));
+    entity.account = event.params.payment.account;
+    entity.action = UserAction.USED;
+    entity.cancel = true;
+    entity.amountPoint = event.params.cancel.cancelPoint.plus(event.params.cancel.cancelFeePoint).div(AmountUnit);
+    entity.amountToken = BigInt.fromI32(0);
+    entity.amountValue = event.params.cancel.cancelValue.plus(event.params.cancel.cancelFeeValue).div(AmountUnit);
+    entity.feePoint = event.params.cancel.cancelFeePoint.div(AmountUnit);
+    entity.feeToken = event.params.cancel.cancelFeeToken.div(AmountUnit);
+    entity.feeValue = event.params.cancel.cancelFeeValue.div(AmountUnit);
+    entity.currency = event.params.payment.currency;
+    entity.balancePoint = balanceEntity.point;
+    entity.balanceToken = balanceEntity.token;
+    entity.purchaseId = event.params.payment.purchaseId;
+    entity.paymentId = event.params.payment.paymentId;
+    entity.shopId = event.params.payment.shopId;
+    entity.provider = NullBytes32;
+
+    entity.blockNumber = event.block.number;
+    entity.blockTimestamp = event.block.timestamp;
+    entity.transactionHash = event.transaction.hash;
+    entity.save();
+}
+
 // endregion
 
 // region LoyaltyBurner